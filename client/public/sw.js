@@ -55,6 +55,12 @@ const isApiRequest = (url) => {
   return url.pathname.startsWith('/api/');
 };
 
+// Helper to determine if a request is for a public share page, which is
+// rendered by the server rather than the app
+const isSharePageRequest = (url) => {
+  return url.pathname.startsWith('/s/');
+};
+
 // Helper to determine if a request is navigating to our app
 const isNavigationRequest = (request) => {
   return request.mode === 'navigate';
@@ -81,6 +87,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
   
+  // Share pages - never answered with the cached app
+  if (isSharePageRequest(url)) {
+    return;
+  }
+  
   // Navigation requests - serve from cache or fallback to index.html
   if (isNavigationRequest(event.request)) {
     event.respondWith(
@@ -5,11 +5,13 @@ import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import EditNote from "@/pages/EditNote";
+import Graph from "@/pages/Graph";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
 import { NoteProvider } from "./context/NoteContext";
 import { AuthProvider } from "./context/AuthContext";
 import { SettingsProvider } from "./context/SettingsContext";
+import { useOfflineSync } from "./hooks/useOfflineSync";
 
 function Router() {
   return (
@@ -17,16 +19,26 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
+      <Route path="/graph" component={Graph} />
       <Route path="/notes/tag/:tag" component={Home} />
+      <Route path="/notes/search/:search" component={Home} />
+      <Route path="/notes/notebook/:notebook" component={Home} />
       <Route path="/notes/favorites" component={Home} />
       <Route path="/notes/trash" component={Home} />
       <Route path="/notes/recent" component={Home} />
+      <Route path="/notes/shared" component={Home} />
       <Route path="/notes/:id" component={EditNote} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// Renders nothing; keeps queued offline changes flowing to the server
+function OfflineSync() {
+  useOfflineSync();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
@@ -34,6 +46,7 @@ function App() {
         <SettingsProvider>
           <NoteProvider>
             <div className="min-h-screen bg-gradient-to-br from-[#121212] to-[#1E1E1E]">
+              <OfflineSync />
               <Router />
               <Toaster />
             </div>
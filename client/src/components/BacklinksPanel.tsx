@@ -0,0 +1,44 @@
+import { Link } from "wouter";
+import { useBacklinks } from "@/hooks/useBacklinks";
+import { HighlightedText } from "@/components/NoteCard";
+import { formatRelativeTime } from "@/lib/utils";
+import { Link2 } from "lucide-react";
+
+interface BacklinksPanelProps {
+  noteId: number;
+}
+
+// Notes linking here with [[Title]], each with the text around its link
+export function BacklinksPanel({ noteId }: BacklinksPanelProps) {
+  const { data: backlinks = [], isLoading } = useBacklinks(noteId);
+  
+  if (isLoading || backlinks.length === 0) return null;
+  
+  return (
+    <section className="mt-10 border-t border-gray-800 pt-4">
+      <h3 className="flex items-center gap-2 mb-3 text-sm font-medium text-gray-400">
+        <Link2 size={14} />
+        {backlinks.length} {backlinks.length === 1 ? "note links" : "notes link"} here
+      </h3>
+      <div className="space-y-2">
+        {backlinks.map(backlink => (
+          <Link
+            key={backlink.id}
+            href={`/notes/${backlink.id}`}
+            className="block rounded-md border border-gray-800 bg-gray-800/50 p-3 hover:border-gray-700 hover:bg-gray-800"
+          >
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="font-medium text-white truncate">{backlink.title || "Untitled"}</span>
+              <span className="shrink-0 text-xs text-gray-500">{formatRelativeTime(backlink.updatedAt)}</span>
+            </div>
+            {backlink.context && (
+              <p className="mt-1 text-sm text-gray-400 line-clamp-2">
+                <HighlightedText text={backlink.context.text} highlights={backlink.context.highlights} />
+              </p>
+            )}
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
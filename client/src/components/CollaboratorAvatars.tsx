@@ -0,0 +1,42 @@
+import { type PublicUser } from "@shared/schema";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { cn, generatePlaceholderInitials } from "@/lib/utils";
+
+interface CollaboratorAvatarsProps {
+  users: PublicUser[];
+  // Further users are summed up as +N
+  max?: number;
+  className?: string;
+}
+
+// Overlapping initials of the people with access to a note, owner first
+export function CollaboratorAvatars({ users, max = 4, className }: CollaboratorAvatarsProps) {
+  if (users.length === 0) return null;
+  const hidden = users.length - max;
+  
+  return (
+    <div className={cn("flex items-center -space-x-2", className)}>
+      {users.slice(0, max).map((user, index) => (
+        <Avatar
+          key={user.id}
+          className="h-6 w-6 border-2 border-[#262626]"
+          title={index === 0 ? `${user.displayName || user.username} (owner)` : user.displayName || user.username}
+        >
+          <AvatarFallback
+            className={cn(
+              "text-[10px] font-medium text-white",
+              index === 0 ? "bg-gradient-to-r from-purple-500 to-indigo-500" : "bg-gray-600"
+            )}
+          >
+            {generatePlaceholderInitials(user.displayName || user.username)}
+          </AvatarFallback>
+        </Avatar>
+      ))}
+      {hidden > 0 && (
+        <span className="flex h-6 w-6 items-center justify-center rounded-full border-2 border-[#262626] bg-gray-700 text-[10px] text-gray-200">
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useComments, useAddComment, useDeleteComment } from "@/hooks/useComments";
+import { useAuth } from "@/context/AuthContext";
+import { formatRelativeTime, generatePlaceholderInitials } from "@/lib/utils";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageSquare, Trash2 } from "lucide-react";
+
+interface CommentsPanelProps {
+  noteId: number;
+  // Commenters and up can write; viewers only read along
+  canComment: boolean;
+  // Owners can remove anyone's comments, everyone else only their own
+  isOwner: boolean;
+}
+
+export function CommentsPanel({ noteId, canComment, isOwner }: CommentsPanelProps) {
+  const { currentUser } = useAuth();
+  const { data: comments = [], isLoading } = useComments(noteId);
+  const { mutate: addComment, isPending: isAdding } = useAddComment();
+  const { mutate: deleteComment } = useDeleteComment();
+  const [content, setContent] = useState("");
+  
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+    addComment({ noteId, content }, { onSuccess: () => setContent("") });
+  };
+  
+  return (
+    <section className="mt-10 border-t border-gray-800 pt-4">
+      <h3 className="flex items-center gap-2 mb-3 text-sm font-medium text-gray-400">
+        <MessageSquare size={14} />
+        Comments{comments.length > 0 && ` (${comments.length})`}
+      </h3>
+      
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading…</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {comments.map(comment => (
+            <div key={comment.id} className="flex gap-3">
+              <Avatar className="h-7 w-7">
+                <AvatarFallback className="bg-gray-600 text-[11px] text-white">
+                  {generatePlaceholderInitials(comment.author.displayName || comment.author.username)}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-baseline gap-2">
+                  <span className="text-sm font-medium text-white">
+                    {comment.author.displayName || comment.author.username}
+                  </span>
+                  <span className="text-xs text-gray-500">{formatRelativeTime(comment.createdAt)}</span>
+                  {(isOwner || comment.userId === currentUser?.id) && (
+                    <button
+                      className="ml-auto text-gray-500 hover:text-red-400"
+                      title="Delete comment"
+                      onClick={() => deleteComment({ noteId, commentId: comment.id })}
+                    >
+                      <Trash2 size={13} />
+                    </button>
+                  )}
+                </div>
+                <p className="text-sm text-gray-300 whitespace-pre-wrap break-words">{comment.content}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {canComment && (
+        <form onSubmit={handleSubmit} className="mt-4 space-y-2">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="Add a comment"
+            maxLength={5000}
+            className="min-h-[72px] bg-gray-800/50 border-gray-700"
+          />
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={isAdding || !content.trim()}>
+              Comment
+            </Button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
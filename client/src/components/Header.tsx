@@ -4,13 +4,15 @@ import { Search, Plus, Settings as SettingsIcon, CheckCircle, UserCircle2 } from
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useCreateNote, useSearchNotes } from '@/hooks/useNotes';
-import { NoteWithTags } from '@shared/schema';
+import { NoteSearchResult } from '@shared/schema';
+import { parseSearchQuery, SearchQueryError } from '@shared/searchQuery';
 import { useNoteContext } from '@/context/NoteContext';
 import { useAuth } from '@/context/AuthContext';
 import { Settings } from '@/components/Settings';
 import { InstallPWA } from '@/components/InstallPWA';
+import { SyncIndicator } from '@/components/SyncIndicator';
 import { toast } from '@/hooks/use-toast';
-import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -21,15 +23,16 @@ import {
 import { generatePlaceholderInitials } from '@/lib/utils';
 
 interface HeaderProps {
-  onSearch?: (results: NoteWithTags[]) => void;
+  onSearch?: (results: NoteSearchResult[], query: string) => void;
 }
 
 export function Header({ onSearch }: HeaderProps) {
   const { mutate: createNote } = useCreateNote();
   const { mutateAsync: searchNotes } = useSearchNotes();
   const { toggleMenu } = useNoteContext();
-  const { currentUser, login, logout } = useAuth();
+  const { currentUser, logout } = useAuth();
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [queryError, setQueryError] = useState<string | null>(null);
   
   const handleNewNote = () => {
     createNote(
@@ -47,18 +50,32 @@ export function Header({ onSearch }: HeaderProps) {
     const formData = new FormData(e.currentTarget);
     const query = formData.get('q') as string;
     
-    if (!query.trim()) return;
+    if (!query.trim() || queryError) return;
     
     try {
       const results = await searchNotes(query);
       if (onSearch) {
-        onSearch(results);
+        onSearch(results, query);
       }
     } catch (error) {
+      if (error instanceof SearchQueryError) {
+        setQueryError(error.message);
+        return;
+      }
       console.error('Error searching notes:', error);
     }
   };
   
+  // Checks the query as it is typed, so mistakes show before searching
+  const handleQueryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    try {
+      parseSearchQuery(e.target.value);
+      setQueryError(null);
+    } catch (error) {
+      setQueryError(error instanceof SearchQueryError ? error.message : null);
+    }
+  };
+  
   const handleKeyDown = (e: React.KeyboardEvent) => {
     // Add keyboard shortcuts here if needed
   };
@@ -90,11 +107,21 @@ export function Header({ onSearch }: HeaderProps) {
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
             <Input
               type="search"
-              placeholder="Search notes..."
+              placeholder="Search notes... (try tag:work or is:favorite)"
               name="q"
-              className="pl-9 bg-gray-800 border-gray-700 text-gray-200 placeholder:text-gray-500 w-full"
+              className={`pl-9 bg-gray-800 text-gray-200 placeholder:text-gray-500 w-full ${
+                queryError ? 'border-red-500 focus-visible:ring-red-500' : 'border-gray-700'
+              }`}
+              onChange={handleQueryChange}
               onKeyDown={handleKeyDown}
+              aria-invalid={queryError !== null}
+              aria-describedby={queryError ? 'search-query-error' : undefined}
             />
+            {queryError && (
+              <p id="search-query-error" className="absolute left-0 top-full mt-1 z-10 text-xs text-red-400 bg-gray-900 px-2 py-1 rounded">
+                {queryError}
+              </p>
+            )}
           </div>
         </form>
         
@@ -111,6 +138,8 @@ export function Header({ onSearch }: HeaderProps) {
           
           <InstallPWA />
 
+          {currentUser && <SyncIndicator />}
+
           <Button
             variant="ghost"
             size="icon"
@@ -126,13 +155,9 @@ export function Header({ onSearch }: HeaderProps) {
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" className="relative h-8 w-8 rounded-full">
                   <Avatar className="h-8 w-8">
-                    {currentUser.photoURL ? (
-                      <AvatarImage src={currentUser.photoURL} alt={currentUser.displayName || 'User'} />
-                    ) : (
-                      <AvatarFallback className="bg-gradient-to-r from-purple-500 to-indigo-500">
-                        {generatePlaceholderInitials(currentUser.displayName || currentUser.email || 'User')}
-                      </AvatarFallback>
-                    )}
+                    <AvatarFallback className="bg-gradient-to-r from-purple-500 to-indigo-500">
+                      {generatePlaceholderInitials(currentUser.displayName || currentUser.username)}
+                    </AvatarFallback>
                   </Avatar>
                   <CheckCircle className="h-3 w-3 absolute right-0 bottom-0 text-green-500 bg-gray-900 rounded-full" />
                 </Button>
@@ -143,9 +168,7 @@ export function Header({ onSearch }: HeaderProps) {
                     {currentUser.displayName && (
                       <p className="font-medium">{currentUser.displayName}</p>
                     )}
-                    {currentUser.email && (
-                      <p className="text-sm text-gray-400">{currentUser.email}</p>
-                    )}
+                    <p className="text-sm text-gray-400">{currentUser.username}</p>
                   </div>
                 </div>
                 <DropdownMenuSeparator />
@@ -163,11 +186,13 @@ export function Header({ onSearch }: HeaderProps) {
             <Button 
               variant="ghost" 
               size="sm"
-              onClick={login}
+              asChild
               className="text-gray-300 hover:text-white hover:bg-gray-800"
             >
-              <UserCircle2 className="h-4 w-4 mr-1" />
-              <span>Sign In</span>
+              <Link href="/login">
+                <UserCircle2 className="h-4 w-4 mr-1" />
+                <span>Sign In</span>
+              </Link>
             </Button>
           )}
         </div>
@@ -0,0 +1,131 @@
+import { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useImportNotes } from '@/hooks/useNotes';
+import { toast } from '@/hooks/use-toast';
+import { type ImportReport } from '@shared/schema';
+import { CheckCircle2, FileUp, XCircle } from 'lucide-react';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ACCEPTED_FILES = '.md,.markdown,.txt,.html,.htm,.enex,.json';
+
+export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const { mutate: importNotes, isPending } = useImportNotes();
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setFiles([]);
+      setReport(null);
+    }
+    onOpenChange(open);
+  };
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(e.target.files ?? []));
+    setReport(null);
+  };
+
+  const handleImport = () => {
+    importNotes(files, {
+      onSuccess: (report) => {
+        setReport(report);
+        setFiles([]);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        toast({
+          title: "Import finished",
+          description: `Imported ${report.imported} notes${report.failed ? `, ${report.failed} files failed` : ''}.`,
+          variant: report.failed ? "destructive" : "default",
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: "Import failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Import notes</DialogTitle>
+          <DialogDescription>
+            Import Markdown, text and HTML files, Evernote exports (.enex) or Google Keep notes from
+            Takeout (.json). Tags that do not exist yet are created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ACCEPTED_FILES}
+            onChange={handleFilesChange}
+            className="hidden"
+          />
+          <Button
+            variant="outline"
+            className="w-full border-dashed py-8"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isPending}
+          >
+            <FileUp size={18} className="mr-2" />
+            {files.length > 0 ? `${files.length} file${files.length === 1 ? '' : 's'} selected` : 'Choose files'}
+          </Button>
+
+          {report && (
+            <ul className="max-h-64 overflow-y-auto space-y-2 text-sm">
+              {report.files.map((result, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  {result.status === 'imported' ? (
+                    <CheckCircle2 size={16} className="mt-0.5 shrink-0 text-green-500" />
+                  ) : (
+                    <XCircle size={16} className="mt-0.5 shrink-0 text-red-500" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="truncate">{result.file}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {result.status === 'imported'
+                        ? result.notes.map(note => note.title).join(', ')
+                        : result.error}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {report ? 'Done' : 'Cancel'}
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={files.length === 0 || isPending}
+          >
+            {isPending ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
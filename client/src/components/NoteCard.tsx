@@ -1,7 +1,9 @@
 import { Link } from "wouter";
-import { type NoteWithTags } from "@shared/schema";
+import { type NoteWithTags, type NoteSearchResult, type SearchHighlight } from "@shared/schema";
 import { formatRelativeTime, stripHtml, truncateText } from "@/lib/utils";
 import { TagBadge } from "@/components/TagBadge";
+import { CollaboratorAvatars } from "@/components/CollaboratorAvatars";
+import { NOTE_DRAG_TYPE } from "@/components/NotebookTree";
 import { 
   MoreVertical, 
   Star, 
@@ -19,16 +21,42 @@ import {
   DropdownMenuSeparator 
 } from "@/components/ui/dropdown-menu";
 import { useToggleFavorite, useDeleteNote, useRestoreNote } from "@/hooks/useNotes";
+import { useNoteMembers } from "@/hooks/useCollaborators";
+import { isSharedNote } from "@shared/permissions";
 
 interface NoteCardProps {
-  note: NoteWithTags;
+  note: NoteWithTags | NoteSearchResult;
   className?: string;
 }
 
+// Text with the given ranges wrapped in <mark>
+export function HighlightedText({ text, highlights }: { text: string; highlights: SearchHighlight[] }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  
+  highlights.forEach((highlight, index) => {
+    if (highlight.start < position) return;
+    parts.push(text.slice(position, highlight.start));
+    parts.push(
+      <mark key={index} className="bg-purple-500/30 text-inherit rounded-sm">
+        {text.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    position = highlight.end;
+  });
+  parts.push(text.slice(position));
+  
+  return <>{parts}</>;
+}
+
 export function NoteCard({ note, className }: NoteCardProps) {
   const { mutate: toggleFavorite } = useToggleFavorite();
   const { mutate: deleteNote } = useDeleteNote();
   const { mutate: restoreNote } = useRestoreNote();
+  const search = "search" in note ? note.search : undefined;
+  const members = useNoteMembers(note);
+  // Notes of other users can be opened, the rest is up to their owner
+  const isOwnNote = !isSharedNote(note);
   
   const handleToggleFavorite = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -55,11 +83,21 @@ export function NoteCard({ note, className }: NoteCardProps) {
         "transition-transform duration-200 hover:-translate-y-1 hover:shadow-xl",
         className
       )}
+      // Dropping the card on a notebook in the sidebar moves the note there
+      draggable={isOwnNote && !note.isDeleted}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(NOTE_DRAG_TYPE, String(note.id));
+        e.dataTransfer.effectAllowed = "move";
+      }}
     >
       <Link href={note.isDeleted ? "#" : `/notes/${note.id}`}>
         <div className="block p-5 cursor-pointer">
           <div className="flex justify-between items-start mb-3">
-            <h3 className="font-medium text-lg text-white">{note.title || "Untitled"}</h3>
+            <h3 className="font-medium text-lg text-white">
+              {search && note.title
+                ? <HighlightedText text={note.title} highlights={search.titleHighlights} />
+                : note.title || "Untitled"}
+            </h3>
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <button className="text-gray-400 hover:text-gray-300 p-1" onClick={(e) => e.preventDefault()}>
@@ -69,21 +107,27 @@ export function NoteCard({ note, className }: NoteCardProps) {
               <DropdownMenuContent align="end">
                 {!note.isDeleted ? (
                   <>
-                    <DropdownMenuItem onClick={handleToggleFavorite}>
-                      <Star className={cn("mr-2 h-4 w-4", note.isFavorite && "fill-yellow-400 text-yellow-400")} />
-                      <span>{note.isFavorite ? "Remove from favorites" : "Add to favorites"}</span>
-                    </DropdownMenuItem>
+                    {isOwnNote && (
+                      <DropdownMenuItem onClick={handleToggleFavorite}>
+                        <Star className={cn("mr-2 h-4 w-4", note.isFavorite && "fill-yellow-400 text-yellow-400")} />
+                        <span>{note.isFavorite ? "Remove from favorites" : "Add to favorites"}</span>
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem asChild>
                       <Link href={`/notes/${note.id}`} onClick={(e) => e.stopPropagation()}>
                         <ArrowUpRight className="mr-2 h-4 w-4" />
                         <span>Open note</span>
                       </Link>
                     </DropdownMenuItem>
-                    <DropdownMenuSeparator />
-                    <DropdownMenuItem onClick={handleDeleteNote} className="text-red-500">
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      <span>Move to trash</span>
-                    </DropdownMenuItem>
+                    {isOwnNote && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={handleDeleteNote} className="text-red-500">
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          <span>Move to trash</span>
+                        </DropdownMenuItem>
+                      </>
+                    )}
                   </>
                 ) : (
                   <DropdownMenuItem onClick={handleRestoreNote}>
@@ -95,12 +139,18 @@ export function NoteCard({ note, className }: NoteCardProps) {
             </DropdownMenu>
           </div>
           <p className="text-gray-400 text-sm line-clamp-3 mb-4">
-            {truncateText(stripHtml(note.content), 150) || "No content"}
+            {search?.snippet
+              ? <HighlightedText text={search.snippet.text} highlights={search.snippet.highlights} />
+              : truncateText(stripHtml(note.content), 150) || "No content"}
           </p>
           {note.tags.length > 0 && (
             <div className="flex flex-wrap items-center gap-2 mb-2">
               {note.tags.slice(0, 3).map(tag => (
-                <TagBadge key={tag.id} tag={tag} />
+                <TagBadge
+                  key={tag.id}
+                  tag={tag}
+                  className={cn(search?.tags.includes(tag.name) && "ring-1 ring-purple-500")}
+                />
               ))}
               {note.tags.length > 3 && (
                 <span className="text-xs text-gray-400">+{note.tags.length - 3} more</span>
@@ -110,6 +160,7 @@ export function NoteCard({ note, className }: NoteCardProps) {
           <div className="text-xs text-gray-500 mt-2 flex items-center">
             <Clock className="mr-1" size={12} />
             <span>Edited {formatRelativeTime(note.updatedAt)}</span>
+            <CollaboratorAvatars users={members} className="ml-auto" />
           </div>
         </div>
       </Link>
@@ -1,11 +1,17 @@
 import { useEffect, useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useNoteById } from "@/hooks/useNotes";
+import { type NoteWithTags } from "@shared/schema";
 import { useTags } from "@/hooks/useTags";
 import { TipTapEditor } from "@/components/editor/TipTapEditor";
 import { TitleEditor } from "@/components/TitleEditor";
 import { TagBadge } from "@/components/TagBadge";
+import { BacklinksPanel } from "@/components/BacklinksPanel";
+import { CommentsPanel } from "@/components/CommentsPanel";
+import { CollaboratorAvatars } from "@/components/CollaboratorAvatars";
 import { useRemoveTagFromNote, useAddTagToNote } from "@/hooks/useTags";
+import { useNoteMembers } from "@/hooks/useCollaborators";
+import { hasRole, isSharedNote, noteRole } from "@shared/permissions";
 import { formatRelativeTime } from "@/lib/utils";
 import { 
   Alert,
@@ -26,7 +32,22 @@ import {
   PopoverContent,
   PopoverTrigger
 } from "@/components/ui/popover";
-import { Clock, AlertCircle, Plus, Check } from "lucide-react";
+import { Clock, AlertCircle, Plus, Check, Users } from "lucide-react";
+
+// Who else has the note open to them, if anyone
+function NoteMembers({ note }: { note: NoteWithTags }) {
+  const members = useNoteMembers(note);
+  return <CollaboratorAvatars users={members} className="ml-auto" />;
+}
+
+// Comments are for notes shared with someone
+function NoteComments({ note }: { note: NoteWithTags }) {
+  const members = useNoteMembers(note);
+  if (members.length === 0) return null;
+  
+  const role = noteRole(note);
+  return <CommentsPanel noteId={note.id} canComment={hasRole(role, "commenter")} isOwner={role === "owner"} />;
+}
 
 export function NoteEditor() {
   const { id } = useParams<{ id: string }>();
@@ -128,6 +149,8 @@ export function NoteEditor() {
   
   if (!note) return null;
   
+  const role = noteRole(note);
+  const isOwner = role === "owner";
   const availableTags = allTags.filter(
     tag => !note.tags.some(t => t.id === tag.id)
   );
@@ -139,9 +162,18 @@ export function NoteEditor() {
       <div className="flex-1 overflow-y-auto">
         <div className="max-w-4xl mx-auto py-8 px-4 sm:px-8">
           <div className="mb-3 flex items-center">
-            <TitleEditor id={note.id} initialTitle={note.title} />
+            <TitleEditor id={note.id} initialTitle={note.title} readOnly={!hasRole(role, "editor")} />
           </div>
           
+          {isSharedNote(note) && (
+            <div className="flex items-center gap-2 mb-4 rounded-md border border-gray-800 bg-gray-800/50 px-3 py-2 text-sm text-gray-400">
+              <Users size={14} />
+              <span>
+                Shared with you by {note.owner.displayName || note.owner.username} as {note.role}
+              </span>
+            </div>
+          )}
+          
           <div className="flex flex-wrap items-center gap-2 mb-6">
             <div className="flex items-center gap-1 text-sm text-gray-400">
               <Clock size={14} />
@@ -153,46 +185,52 @@ export function NoteEditor() {
                 <TagBadge 
                   key={tag.id} 
                   tag={tag} 
-                  removable 
+                  removable={isOwner}
                   onRemove={() => handleRemoveTag(tag.id)} 
                 />
               ))}
               
-              <Popover>
-                <PopoverTrigger asChild>
-                  <button className="p-1 rounded-md hover:bg-gray-800 text-gray-400 hover:text-white">
-                    <Plus size={14} />
-                  </button>
-                </PopoverTrigger>
-                <PopoverContent className="w-60" align="start">
-                  <div className="space-y-2">
-                    <h4 className="font-medium">Add tags</h4>
-                    {availableTags.length > 0 ? (
-                      <div className="grid grid-cols-2 gap-2">
-                        {availableTags.map(tag => (
-                          <Button 
-                            key={tag.id} 
-                            variant="outline" 
-                            size="sm"
-                            className="justify-start"
-                            onClick={() => handleAddTag(tag.id)}
-                          >
-                            <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: tag.color }} />
-                            {tag.name}
-                          </Button>
-                        ))}
-                      </div>
-                    ) : (
-                      <p className="text-sm text-gray-400">No more tags available</p>
-                    )}
-                    <Button variant="secondary" size="sm" className="w-full" onClick={() => setTagDialogOpen(true)}>
-                      Manage Tags
-                    </Button>
-                  </div>
-                </PopoverContent>
-              </Popover>
+              {isOwner && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button className="p-1 rounded-md hover:bg-gray-800 text-gray-400 hover:text-white">
+                      <Plus size={14} />
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-60" align="start">
+                    <div className="space-y-2">
+                      <h4 className="font-medium">Add tags</h4>
+                      {availableTags.length > 0 ? (
+                        <div className="grid grid-cols-2 gap-2">
+                          {availableTags.map(tag => (
+                            <Button 
+                              key={tag.id} 
+                              variant="outline" 
+                              size="sm"
+                              className="justify-start"
+                              onClick={() => handleAddTag(tag.id)}
+                            >
+                              <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: tag.color }} />
+                              {tag.name}
+                            </Button>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-gray-400">No more tags available</p>
+                      )}
+                      <Button variant="secondary" size="sm" className="w-full" onClick={() => setTagDialogOpen(true)}>
+                        Manage Tags
+                      </Button>
+                    </div>
+                  </PopoverContent>
+                </Popover>
+              )}
             </div>
+            <NoteMembers note={note} />
           </div>
+          
+          <BacklinksPanel noteId={note.id} />
+          <NoteComments note={note} />
         </div>
       </div>
       
@@ -0,0 +1,358 @@
+import { useEffect, useRef } from "react";
+import { type GraphEdge, type GraphNode, type Tag } from "@shared/schema";
+import { ForceLayout, type LayoutEdge, type LayoutNode } from "@/lib/forceLayout";
+
+interface NoteGraphProps {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  tagsById: Map<number, Tag>;
+  onOpenNote: (id: number) => void;
+}
+
+const LINK_DISTANCE = 40;
+const TAG_DISTANCE = 70;
+const NODE_COLOR = "#9CA3AF";
+const LINK_COLOR = "rgba(167, 139, 250, 0.45)";
+const TAG_COLOR = "rgba(156, 163, 175, 0.15)";
+const HIGHLIGHT_COLOR = "rgba(255, 255, 255, 0.8)";
+// Titles are drawn for every node once zoomed in this far
+const LABEL_ZOOM = 1.5;
+const MAX_LABELS = 300;
+// Time per frame given to the layout, so panning stays smooth while it runs
+const FRAME_BUDGET_MS = 12;
+// Pointer travel below which a press counts as a click rather than a pan
+const CLICK_SLOP = 4;
+
+interface GraphPoint extends LayoutNode {
+  title: string;
+  color: string;
+  radius: number;
+  neighbours: Set<GraphPoint>;
+}
+
+interface GraphLine extends LayoutEdge {
+  source: GraphPoint;
+  target: GraphPoint;
+  type: GraphEdge["type"];
+}
+
+// A force-directed graph of notes drawn on a canvas. Drag to pan, scroll to
+// zoom, double-click to fit everything in view, click a note to open it.
+export function NoteGraph({ nodes, edges, tagsById, onOpenNote }: NoteGraphProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Positions outlive filter changes, so notes stay where they were
+  const positions = useRef(new Map<number, GraphPoint>());
+  const state = useRef({
+    points: [] as GraphPoint[],
+    lines: [] as GraphLine[],
+    layout: null as ForceLayout | null,
+    // Screen position of the origin and zoom
+    view: { x: 0, y: 0, k: 1 },
+    // The view follows the layout until the user pans or zooms
+    fitted: true,
+    hovered: null as GraphPoint | null,
+    frame: null as number | null,
+  });
+  const openNote = useRef(onOpenNote);
+  openNote.current = onOpenNote;
+
+  const draw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const { points, lines, view, hovered } = state.current;
+    const dpr = window.devicePixelRatio || 1;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(dpr * view.k, 0, 0, dpr * view.k, dpr * view.x, dpr * view.y);
+
+    // One path per kind of edge; stroking each line on its own is far slower
+    ctx.lineWidth = 1 / view.k;
+    for (const [type, color] of [["tag", TAG_COLOR], ["link", LINK_COLOR]] as const) {
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      for (const line of lines) {
+        if (line.type !== type) continue;
+        ctx.moveTo(line.source.x, line.source.y);
+        ctx.lineTo(line.target.x, line.target.y);
+      }
+      ctx.stroke();
+    }
+
+    if (hovered) {
+      ctx.strokeStyle = HIGHLIGHT_COLOR;
+      ctx.lineWidth = 1.5 / view.k;
+      ctx.beginPath();
+      hovered.neighbours.forEach(neighbour => {
+        ctx.moveTo(hovered.x, hovered.y);
+        ctx.lineTo(neighbour.x, neighbour.y);
+      });
+      ctx.stroke();
+    }
+
+    // Nodes are batched by color for the same reason
+    const byColor = new Map<string, GraphPoint[]>();
+    for (const point of points) {
+      const group = byColor.get(point.color);
+      if (group) group.push(point);
+      else byColor.set(point.color, [point]);
+    }
+    byColor.forEach((group, color) => {
+      ctx.fillStyle = color;
+      ctx.globalAlpha = hovered ? 0.35 : 1;
+      ctx.beginPath();
+      for (const point of group) {
+        ctx.moveTo(point.x + point.radius, point.y);
+        ctx.arc(point.x, point.y, point.radius, 0, Math.PI * 2);
+      }
+      ctx.fill();
+    });
+    ctx.globalAlpha = 1;
+
+    // Labels for the hovered note and its neighbours, or everything in view when zoomed in
+    let labelled: GraphPoint[] = [];
+    if (hovered) {
+      labelled = [hovered, ...Array.from(hovered.neighbours)];
+      for (const point of labelled) {
+        ctx.fillStyle = point.color;
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, point.radius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    } else if (view.k >= LABEL_ZOOM) {
+      const left = -view.x / view.k;
+      const top = -view.y / view.k;
+      const right = left + canvas.width / dpr / view.k;
+      const bottom = top + canvas.height / dpr / view.k;
+      labelled = points
+        .filter(p => p.x >= left && p.x <= right && p.y >= top && p.y <= bottom)
+        .slice(0, MAX_LABELS);
+    }
+
+    ctx.font = `${12 / view.k}px sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    for (const point of labelled) {
+      ctx.fillStyle = point === hovered ? "#FFFFFF" : "#D1D5DB";
+      ctx.fillText(point.title || "Untitled", point.x, point.y + point.radius + 3 / view.k);
+    }
+  };
+
+  // Centers the nodes in the canvas at a zoom that shows them all
+  const fit = () => {
+    const canvas = canvasRef.current;
+    const { points, view } = state.current;
+    if (!canvas || points.length === 0) return;
+
+    let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+    for (const point of points) {
+      x0 = Math.min(x0, point.x - point.radius);
+      y0 = Math.min(y0, point.y - point.radius);
+      x1 = Math.max(x1, point.x + point.radius);
+      y1 = Math.max(y1, point.y + point.radius);
+    }
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    view.k = Math.min(2, 0.9 * Math.min(width / (x1 - x0), height / (y1 - y0)));
+    view.x = width / 2 - (x0 + x1) / 2 * view.k;
+    view.y = height / 2 - (y0 + y1) / 2 * view.k;
+  };
+
+  const scheduleFrame = () => {
+    if (state.current.frame !== null) return;
+    state.current.frame = requestAnimationFrame(() => {
+      state.current.frame = null;
+      const { layout } = state.current;
+
+      if (layout && !layout.settled) {
+        const start = performance.now();
+        do {
+          layout.tick();
+        } while (!layout.settled && performance.now() - start < FRAME_BUDGET_MS);
+        if (state.current.fitted) fit();
+        scheduleFrame();
+      }
+      draw();
+    });
+  };
+
+  // Rebuild the layout when the notes shown change
+  useEffect(() => {
+    const degree = new Map<number, number>();
+    for (const { source, target } of edges) {
+      degree.set(source, (degree.get(source) ?? 0) + 1);
+      degree.set(target, (degree.get(target) ?? 0) + 1);
+    }
+
+    let placed = 0;
+    const points = nodes.map(node => {
+      const tag = node.tagIds.map(id => tagsById.get(id)).find(Boolean);
+      const existing = positions.current.get(node.id);
+      if (existing) placed++;
+      const point: GraphPoint = {
+        id: node.id,
+        x: existing?.x ?? NaN,
+        y: existing?.y ?? NaN,
+        vx: 0,
+        vy: 0,
+        title: node.title,
+        color: tag?.color ?? NODE_COLOR,
+        radius: 3 + Math.sqrt(degree.get(node.id) ?? 0),
+        neighbours: new Set(),
+      };
+      positions.current.set(node.id, point);
+      return point;
+    });
+    ForceLayout.seed(points);
+
+    const pointsById = new Map(points.map(point => [point.id, point]));
+    const lines: GraphLine[] = [];
+    for (const edge of edges) {
+      const source = pointsById.get(edge.source);
+      const target = pointsById.get(edge.target);
+      if (!source || !target) continue;
+      source.neighbours.add(target);
+      target.neighbours.add(source);
+      lines.push({ source, target, type: edge.type, distance: edge.type === "link" ? LINK_DISTANCE : TAG_DISTANCE });
+    }
+
+    // Notes already laid out only need to make room for the ones that are new
+    const alpha = points.length > 0 && placed / points.length > 0.9 ? 0.3 : 1;
+    state.current = {
+      ...state.current,
+      points,
+      lines,
+      layout: new ForceLayout(points, lines, alpha),
+      hovered: null,
+    };
+    scheduleFrame();
+  }, [nodes, edges, tagsById]);
+
+  // Keep the canvas the size of its container
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = container.clientWidth * dpr;
+      canvas.height = container.clientHeight * dpr;
+      if (state.current.fitted) fit();
+      scheduleFrame();
+      draw();
+    };
+    resize();
+
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    return () => {
+      observer.disconnect();
+      if (state.current.frame !== null) cancelAnimationFrame(state.current.frame);
+      state.current.frame = null;
+    };
+  }, []);
+
+  // Pointer handling: pan, hover, click and zoom
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let press: { x: number; y: number; viewX: number; viewY: number; moved: boolean } | null = null;
+
+    const pointAt = (event: MouseEvent): GraphPoint | null => {
+      const { points, view } = state.current;
+      const rect = canvas.getBoundingClientRect();
+      const x = (event.clientX - rect.left - view.x) / view.k;
+      const y = (event.clientY - rect.top - view.y) / view.k;
+      let nearest: GraphPoint | null = null;
+      let nearestDistance = Infinity;
+      for (const point of points) {
+        const distance = Math.hypot(point.x - x, point.y - y);
+        if (distance <= point.radius + 4 / view.k && distance < nearestDistance) {
+          nearest = point;
+          nearestDistance = distance;
+        }
+      }
+      return nearest;
+    };
+
+    const onPointerDown = (event: PointerEvent) => {
+      const { view } = state.current;
+      press = { x: event.clientX, y: event.clientY, viewX: view.x, viewY: view.y, moved: false };
+      canvas.setPointerCapture(event.pointerId);
+    };
+
+    const onPointerMove = (event: PointerEvent) => {
+      if (press) {
+        const dx = event.clientX - press.x;
+        const dy = event.clientY - press.y;
+        if (!press.moved && Math.hypot(dx, dy) < CLICK_SLOP) return;
+        press.moved = true;
+        state.current.fitted = false;
+        state.current.view.x = press.viewX + dx;
+        state.current.view.y = press.viewY + dy;
+        scheduleFrame();
+        return;
+      }
+
+      const hovered = pointAt(event);
+      if (hovered !== state.current.hovered) {
+        state.current.hovered = hovered;
+        canvas.style.cursor = hovered ? "pointer" : "grab";
+        scheduleFrame();
+      }
+    };
+
+    const onPointerUp = (event: PointerEvent) => {
+      if (press && !press.moved) {
+        const point = pointAt(event);
+        if (point) openNote.current(point.id);
+      }
+      press = null;
+    };
+
+    const onDoubleClick = () => {
+      state.current.fitted = true;
+      fit();
+      scheduleFrame();
+    };
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const { view } = state.current;
+      const rect = canvas.getBoundingClientRect();
+      const x = event.clientX - rect.left;
+      const y = event.clientY - rect.top;
+      const k = Math.min(8, Math.max(0.02, view.k * Math.exp(-event.deltaY * 0.002)));
+
+      // Zoom around the pointer
+      view.x = x - (x - view.x) * k / view.k;
+      view.y = y - (y - view.y) * k / view.k;
+      view.k = k;
+      state.current.fitted = false;
+      scheduleFrame();
+    };
+
+    canvas.addEventListener("pointerdown", onPointerDown);
+    canvas.addEventListener("pointermove", onPointerMove);
+    canvas.addEventListener("pointerup", onPointerUp);
+    canvas.addEventListener("dblclick", onDoubleClick);
+    // Not passive, so the page does not scroll as well
+    canvas.addEventListener("wheel", onWheel, { passive: false });
+    return () => {
+      canvas.removeEventListener("pointerdown", onPointerDown);
+      canvas.removeEventListener("pointermove", onPointerMove);
+      canvas.removeEventListener("pointerup", onPointerUp);
+      canvas.removeEventListener("dblclick", onDoubleClick);
+      canvas.removeEventListener("wheel", onWheel);
+    };
+  }, []);
+
+  return (
+    <div ref={containerRef} className="relative h-full w-full overflow-hidden">
+      <canvas ref={canvasRef} className="absolute inset-0 h-full w-full cursor-grab touch-none" />
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useLocation } from "wouter";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  useNotebooks,
+  useCreateNotebook,
+  useRenameNotebook,
+  useMoveNotebook,
+  useDeleteNotebook,
+  useMoveNote,
+} from "@/hooks/useNotebooks";
+import { cn } from "@/lib/utils";
+import { type Notebook, type NoteWithTags } from "@shared/schema";
+import { ShareWithPeople } from "@/components/ShareWithPeople";
+import {
+  Book,
+  ChevronDown,
+  ChevronRight,
+  FolderPlus,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Share,
+  Trash2,
+} from "lucide-react";
+
+// Drag data types, holding the id of the note or notebook being dragged
+export const NOTE_DRAG_TYPE = "application/x-note-id";
+const NOTEBOOK_DRAG_TYPE = "application/x-notebook-id";
+
+// "root" is the section header, which takes things out of their notebook
+type DropTarget = number | "root";
+
+type NameDialogState =
+  | { mode: "create"; parentId: number | null }
+  | { mode: "rename"; notebook: Notebook };
+
+function NotebookNameDialog({ state, onClose }: { state: NameDialogState | null; onClose: () => void }) {
+  const [name, setName] = useState("");
+  const { mutate: createNotebook, isPending: isCreating } = useCreateNotebook();
+  const { mutate: renameNotebook, isPending: isRenaming } = useRenameNotebook();
+
+  useEffect(() => {
+    if (state) setName(state.mode === "rename" ? state.notebook.name : "");
+  }, [state]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!state || !name.trim()) return;
+
+    if (state.mode === "rename") {
+      renameNotebook({ id: state.notebook.id, name: name.trim() }, { onSuccess: onClose });
+    } else {
+      createNotebook({ name: name.trim(), parentId: state.parentId }, { onSuccess: onClose });
+    }
+  };
+
+  return (
+    <Dialog open={state !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[400px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{state?.mode === "rename" ? "Rename notebook" : "New notebook"}</DialogTitle>
+            <DialogDescription>
+              {state?.mode === "rename"
+                ? "Notes stay in the notebook when it is renamed."
+                : "Drag notes onto a notebook in the sidebar to file them there."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Notebook name"
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || isCreating || isRenaming}>
+              {state?.mode === "rename" ? "Rename" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface NotebookTreeProps {
+  notes: NoteWithTags[];
+}
+
+export function NotebookTree({ notes }: NotebookTreeProps) {
+  const [location, navigate] = useLocation();
+  const { data: notebooks = [] } = useNotebooks();
+  const { mutate: moveNotebook } = useMoveNotebook();
+  const { mutate: deleteNotebook } = useDeleteNotebook();
+  const { mutate: moveNote } = useMoveNote();
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [sharing, setSharing] = useState<Notebook | null>(null);
+
+  const childrenByParent = useMemo(() => {
+    const children = new Map<number | null, Notebook[]>();
+    const sorted = [...notebooks].sort((a, b) => a.name.localeCompare(b.name));
+    for (const notebook of sorted) {
+      // A notebook whose parent is gone is shown at the top level
+      const parentId = notebooks.some(other => other.id === notebook.parentId) ? notebook.parentId : null;
+      children.set(parentId, [...(children.get(parentId) ?? []), notebook]);
+    }
+    return children;
+  }, [notebooks]);
+
+  const noteCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    for (const note of notes) {
+      if (note.notebookId !== null && !note.isDeleted) {
+        counts.set(note.notebookId, (counts.get(note.notebookId) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }, [notes]);
+
+  const toggleCollapsed = (id: number) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDragOver = (e: React.DragEvent, target: DropTarget) => {
+    const types = e.dataTransfer.types;
+    if (!types.includes(NOTE_DRAG_TYPE) && !types.includes(NOTEBOOK_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setDropTarget(target);
+  };
+
+  const handleDrop = (e: React.DragEvent, target: DropTarget) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const destination = target === "root" ? null : target;
+
+    const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+    if (noteId) {
+      moveNote({ noteId: parseInt(noteId, 10), notebookId: destination });
+      return;
+    }
+
+    const notebookId = parseInt(e.dataTransfer.getData(NOTEBOOK_DRAG_TYPE), 10);
+    if (notebookId && notebookId !== destination) {
+      moveNotebook({ id: notebookId, parentId: destination });
+      // Show where it went
+      if (destination !== null) {
+        setCollapsed(current => {
+          const next = new Set(current);
+          next.delete(destination);
+          return next;
+        });
+      }
+    }
+  };
+
+  const handleDelete = (notebook: Notebook) => {
+    deleteNotebook(notebook.id, {
+      onSuccess: () => {
+        if (location === `/notes/notebook/${notebook.id}`) {
+          navigate("/");
+        }
+      }
+    });
+  };
+
+  const renderNotebook = (notebook: Notebook, depth: number): React.ReactNode => {
+    const children = childrenByParent.get(notebook.id) ?? [];
+    const isCollapsed = collapsed.has(notebook.id);
+    const href = `/notes/notebook/${notebook.id}`;
+
+    return (
+      <div key={notebook.id}>
+        <div
+          className="group relative"
+          draggable
+          onDragStart={(e) => {
+            e.stopPropagation();
+            e.dataTransfer.setData(NOTEBOOK_DRAG_TYPE, String(notebook.id));
+            e.dataTransfer.effectAllowed = "move";
+          }}
+          onDragOver={(e) => handleDragOver(e, notebook.id)}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(e) => handleDrop(e, notebook.id)}
+        >
+          <Link href={href}>
+            <div
+              className={cn(
+                "flex items-center gap-1.5 pr-4 py-2 rounded-md hover:bg-gray-800 transition-colors text-white cursor-pointer",
+                location === href && "bg-gray-800",
+                dropTarget === notebook.id && "ring-1 ring-purple-500 bg-purple-500/10"
+              )}
+              style={{ paddingLeft: `${depth * 12 + 8}px` }}
+            >
+              <button
+                className={cn("p-0.5 rounded text-gray-400 hover:text-white", children.length === 0 && "invisible")}
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  toggleCollapsed(notebook.id);
+                }}
+                aria-label={isCollapsed ? `Expand ${notebook.name}` : `Collapse ${notebook.name}`}
+              >
+                {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+              </button>
+              <Book size={16} className="text-purple-400 shrink-0" />
+              <span className="truncate">{notebook.name}</span>
+              <span className="ml-auto text-xs bg-gray-800 px-2 py-0.5 rounded-md group-hover:opacity-0">
+                {noteCounts.get(notebook.id) ?? 0}
+              </span>
+            </div>
+          </Link>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                aria-label={`Options for ${notebook.name}`}
+              >
+                <MoreHorizontal size={14} />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setNameDialog({ mode: "create", parentId: notebook.id })}>
+                <FolderPlus className="mr-2 h-4 w-4" />
+                <span>New notebook inside</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setNameDialog({ mode: "rename", notebook })}>
+                <Pencil className="mr-2 h-4 w-4" />
+                <span>Rename</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setSharing(notebook)}>
+                <Share className="mr-2 h-4 w-4" />
+                <span>Share</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleDelete(notebook)} className="text-red-400">
+                <Trash2 className="mr-2 h-4 w-4" />
+                <span>Move to trash</span>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {!isCollapsed && children.map(child => renderNotebook(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-2">
+      <NotebookNameDialog state={nameDialog} onClose={() => setNameDialog(null)} />
+      <Dialog open={sharing !== null} onOpenChange={(open) => !open && setSharing(null)}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Share {sharing?.name}</DialogTitle>
+            <DialogDescription>
+              People you share with get the same access to every note in this notebook and the notebooks inside it.
+            </DialogDescription>
+          </DialogHeader>
+          {sharing && <ShareWithPeople target={{ notebookId: sharing.id }} />}
+        </DialogContent>
+      </Dialog>
+      <div
+        className={cn(
+          "flex items-center justify-between pr-2 rounded-md",
+          dropTarget === "root" && "ring-1 ring-purple-500 bg-purple-500/10"
+        )}
+        onDragOver={(e) => handleDragOver(e, "root")}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(e) => handleDrop(e, "root")}
+        title="Drop here to take a note or notebook out of its notebook"
+      >
+        <h3 className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">Notebooks</h3>
+        <button
+          onClick={() => setNameDialog({ mode: "create", parentId: null })}
+          className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+          title="New notebook"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+      <div className="space-y-1 mt-1">
+        {(childrenByParent.get(null) ?? []).map(notebook => renderNotebook(notebook, 0))}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { NoteCard } from "@/components/NoteCard";
-import { type NoteWithTags } from "@shared/schema";
+import { NOTE_SORT_OPTIONS, type NoteWithTags, type NoteSearchResult, type NoteSortOption } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
 import { 
@@ -20,19 +20,35 @@ import {
 import { useCreateNote } from "@/hooks/useNotes";
 
 interface NotesListProps {
-  notes: NoteWithTags[];
+  notes: (NoteWithTags | NoteSearchResult)[];
   title: string;
   loading?: boolean;
   error?: Error | null;
+  // Order to start out in, e.g. the one a smart folder was saved with
+  defaultSort?: NoteSortOption;
+  // Extra controls shown next to the title
+  actions?: React.ReactNode;
 }
 
-type SortOption = "updated" | "created" | "title-asc" | "title-desc";
+export const NOTE_SORT_LABELS: Record<NoteSortOption, string> = {
+  relevance: "Best match",
+  updated: "Last edited",
+  created: "Date created",
+  "title-asc": "Title A-Z",
+  "title-desc": "Title Z-A",
+};
 
-export function NotesList({ notes, title, loading = false, error = null }: NotesListProps) {
+export function NotesList({ notes, title, loading = false, error = null, defaultSort, actions }: NotesListProps) {
   const [viewType, setViewType] = useState<"grid" | "list">("grid");
-  const [sortOption, setSortOption] = useState<SortOption>("updated");
-  const [sortedNotes, setSortedNotes] = useState<NoteWithTags[]>(notes);
+  const [sortOption, setSortOption] = useState<NoteSortOption>("updated");
+  const [sortedNotes, setSortedNotes] = useState<(NoteWithTags | NoteSearchResult)[]>(notes);
   const { mutate: createNote } = useCreateNote();
+  const isSearchResults = notes.some(note => "search" in note);
+  
+  // Search results come best match first; other lists default to last edited
+  useEffect(() => {
+    setSortOption(defaultSort ?? (isSearchResults ? "relevance" : "updated"));
+  }, [isSearchResults, defaultSort]);
   
   // Sort notes when sort option changes or notes change
   useEffect(() => {
@@ -41,6 +57,9 @@ export function NotesList({ notes, title, loading = false, error = null }: Notes
     const sorted = [...notes];
     
     switch (sortOption) {
+      case "relevance":
+        // Already in the order the search ranked them
+        break;
       case "updated":
         sorted.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
         break;
@@ -59,7 +78,7 @@ export function NotesList({ notes, title, loading = false, error = null }: Notes
   }, [notes, sortOption]);
   
   const handleSortChange = (value: string) => {
-    setSortOption(value as SortOption);
+    setSortOption(value as NoteSortOption);
   };
   
   const handleCreateNote = () => {
@@ -99,6 +118,7 @@ export function NotesList({ notes, title, loading = false, error = null }: Notes
       <div className="p-6">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-bold">{title}</h2>
+          {actions}
         </div>
         <div className="bg-gray-800 rounded-lg border border-gray-700 p-8 text-center">
           <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-700 mb-4">
@@ -120,16 +140,18 @@ export function NotesList({ notes, title, loading = false, error = null }: Notes
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-xl font-bold">{title}</h2>
         <div className="flex items-center gap-2">
-          <Select onValueChange={handleSortChange} defaultValue={sortOption}>
+          {actions}
+          <Select onValueChange={handleSortChange} value={sortOption}>
             <SelectTrigger className="bg-gray-800 text-gray-200 border border-gray-700 rounded-md w-[140px]">
               <SelectValue placeholder="Sort by" />
             </SelectTrigger>
             <SelectContent>
               <SelectGroup>
-                <SelectItem value="updated">Last edited</SelectItem>
-                <SelectItem value="created">Date created</SelectItem>
-                <SelectItem value="title-asc">Title A-Z</SelectItem>
-                <SelectItem value="title-desc">Title Z-A</SelectItem>
+                {NOTE_SORT_OPTIONS
+                  .filter(option => option !== "relevance" || isSearchResults)
+                  .map(option => (
+                    <SelectItem key={option} value={option}>{NOTE_SORT_LABELS[option]}</SelectItem>
+                  ))}
               </SelectGroup>
             </SelectContent>
           </Select>
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { NOTE_SORT_LABELS } from '@/components/NotesList';
+import { useCreateSavedSearch, useUpdateSavedSearch } from '@/hooks/useSavedSearches';
+import { NOTE_SORT_OPTIONS, type NoteSortOption, type SavedSearch } from '@shared/schema';
+import { parseSearchQuery, SearchQueryError } from '@shared/searchQuery';
+
+interface SavedSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this saved search; without it a new one is created
+  savedSearch?: SavedSearch;
+  // Query a new saved search starts out with
+  initialQuery?: string;
+}
+
+function queryError(query: string): string | null {
+  try {
+    return parseSearchQuery(query) ? null : 'Enter a search query';
+  } catch (error) {
+    return error instanceof SearchQueryError ? error.message : null;
+  }
+}
+
+export function SavedSearchDialog({ open, onOpenChange, savedSearch, initialQuery = '' }: SavedSearchDialogProps) {
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<NoteSortOption>('relevance');
+  const { mutate: createSavedSearch, isPending: isCreating } = useCreateSavedSearch();
+  const { mutate: updateSavedSearch, isPending: isUpdating } = useUpdateSavedSearch();
+
+  // Start from the saved search (or the current query) each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(savedSearch?.name ?? '');
+    setQuery(savedSearch?.query ?? initialQuery);
+    setSort(savedSearch?.sort ?? 'relevance');
+  }, [open, savedSearch, initialQuery]);
+
+  const error = queryError(query);
+  const canSave = name.trim() !== '' && error === null && !isCreating && !isUpdating;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    const data = { name: name.trim(), query: query.trim(), sort };
+    const onSuccess = () => onOpenChange(false);
+    if (savedSearch) {
+      updateSavedSearch({ id: savedSearch.id, savedSearch: data }, { onSuccess });
+    } else {
+      createSavedSearch(data, { onSuccess });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{savedSearch ? 'Edit smart folder' : 'Save search'}</DialogTitle>
+            <DialogDescription>
+              A smart folder shows every note matching its search, and stays up to date as your notes change.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Open work tasks"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-query">Search</Label>
+              <Input
+                id="saved-search-query"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="tag:work has:task"
+                className={error && query ? 'border-red-500 focus-visible:ring-red-500' : ''}
+              />
+              {error && query && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Sort by</Label>
+              <Select value={sort} onValueChange={(value) => setSort(value as NoteSortOption)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NOTE_SORT_OPTIONS.map(option => (
+                    <SelectItem key={option} value={option}>{NOTE_SORT_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSave}>
+              {savedSearch ? 'Save changes' : 'Save search'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useLocation } from 'wouter';
 import {
   Dialog,
   DialogContent,
@@ -15,6 +16,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useSettings } from '@/context/SettingsContext';
 import { useAuth } from '@/context/AuthContext';
 import { toast } from '@/hooks/use-toast';
+import { saveCloudBackup, getCloudBackup } from '@/lib/cloudBackup';
+import { formatRelativeTime } from '@/lib/utils';
+import { isOffline } from '@/lib/offlineStorage';
 
 interface SettingsProps {
   open: boolean;
@@ -34,14 +38,24 @@ const LANGUAGE_OPTIONS = [
   { value: 'ko-KR', label: 'Korean' },
 ];
 
+const EXPORT_FORMAT_OPTIONS = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'html', label: 'HTML' },
+  { value: 'json', label: 'JSON' },
+];
+
 export function Settings({ open, onOpenChange }: SettingsProps) {
   const { voiceSettings, updateVoiceSettings, cloudSyncEnabled, setCloudSyncEnabled, darkMode, setDarkMode } = useSettings();
-  const { currentUser, login, logout } = useAuth();
+  const { currentUser, logout } = useAuth();
+  const [, navigate] = useLocation();
   
   // Create a temporary state to hold form values
   const [formState, setFormState] = useState({
     ...voiceSettings,
   });
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [exportFormat, setExportFormat] = useState('markdown');
+  const [exportIncludesTrash, setExportIncludesTrash] = useState(false);
 
   // Handle form changes
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -57,6 +71,85 @@ export function Settings({ open, onOpenChange }: SettingsProps) {
     setFormState(prev => ({ ...prev, [name]: value }));
   };
 
+  const handleBackup = async () => {
+    try {
+      setIsBackingUp(true);
+      const info = await saveCloudBackup();
+      toast({
+        title: "Backup complete",
+        description: `Backed up ${info.notes} notes and ${info.tags} tags.`,
+        variant: "default",
+      });
+    } catch (error) {
+      console.error("Backup error:", error);
+      toast({
+        title: "Backup failed",
+        description: "Your notes could not be backed up. Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  // Save the latest backup as a JSON file
+  const handleDownloadBackup = async () => {
+    try {
+      const backup = await getCloudBackup();
+      if (!backup) {
+        toast({
+          title: "No backup yet",
+          description: "Back up your notes first.",
+          variant: "default",
+        });
+        return;
+      }
+
+      const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `notepro-backup-${backup.createdAt.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Backup downloaded",
+        description: `Backup from ${formatRelativeTime(backup.createdAt)}.`,
+        variant: "default",
+      });
+    } catch (error) {
+      console.error("Backup download error:", error);
+      toast({
+        title: "Download failed",
+        description: "The backup could not be downloaded. Please try again later.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Download every note as a ZIP archive built by the server
+  const handleExportWorkspace = () => {
+    if (isOffline()) {
+      toast({
+        title: "Export unavailable",
+        description: "Exporting everything needs an internet connection.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const link = document.createElement('a');
+    link.href = `/api/export/workspace?format=${exportFormat}&includeTrash=${exportIncludesTrash}`;
+    link.download = '';
+    link.click();
+
+    toast({
+      title: "Export started",
+      description: "Your notes are downloading as a ZIP archive.",
+      variant: "default",
+    });
+  };
+
   // Save changes
   const handleSave = () => {
     updateVoiceSettings(formState);
@@ -83,14 +176,21 @@ export function Settings({ open, onOpenChange }: SettingsProps) {
             <h3 className="text-lg font-medium">Account</h3>
             <div className="flex items-center justify-between rounded-lg border p-4">
               <div>
-                <p className="font-medium">Google Sign-In</p>
+                <p className="font-medium">NotePro Account</p>
                 <p className="text-sm text-muted-foreground">
-                  {currentUser ? `Signed in as ${currentUser.displayName || currentUser.email}` : 'Sign in to enable cloud sync'}
+                  {currentUser ? `Signed in as ${currentUser.displayName || currentUser.username}` : 'Sign in to enable cloud sync'}
                 </p>
               </div>
               <Button
                 variant="outline"
-                onClick={currentUser ? logout : login}
+                onClick={() => {
+                  if (currentUser) {
+                    logout();
+                  } else {
+                    onOpenChange(false);
+                    navigate('/login');
+                  }
+                }}
               >
                 {currentUser ? 'Sign Out' : 'Sign In'}
               </Button>
@@ -105,6 +205,49 @@ export function Settings({ open, onOpenChange }: SettingsProps) {
               />
               <Label htmlFor="cloudSync">Enable Cloud Sync</Label>
             </div>
+
+            <div className="flex items-center gap-2 pt-2">
+              <Button variant="outline" size="sm" onClick={handleBackup} disabled={!currentUser || isBackingUp}>
+                {isBackingUp ? 'Backing up...' : 'Back up now'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleDownloadBackup} disabled={!currentUser}>
+                Download latest backup
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium">Export</h3>
+            <div className="grid grid-cols-3 items-center gap-4">
+              <Label htmlFor="exportFormat">Format</Label>
+              <Select value={exportFormat} onValueChange={setExportFormat}>
+                <SelectTrigger id="exportFormat" className="col-span-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMAT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center space-x-2 pt-2">
+              <Switch
+                id="exportIncludesTrash"
+                checked={exportIncludesTrash}
+                onCheckedChange={setExportIncludesTrash}
+              />
+              <Label htmlFor="exportIncludesTrash">Include notes in trash</Label>
+            </div>
+
+            <div className="pt-2">
+              <Button variant="outline" size="sm" onClick={handleExportWorkspace} disabled={!currentUser}>
+                Export everything
+              </Button>
+            </div>
           </div>
 
           <div className="space-y-2">
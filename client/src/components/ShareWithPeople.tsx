@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { UserPlus, X } from "lucide-react";
+import { useCollaborators, useShareWithUser, useRemoveCollaborator } from "@/hooks/useCollaborators";
+import { SHARE_ROLES, type ShareRole } from "@shared/schema";
+import { generatePlaceholderInitials } from "@/lib/utils";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const SHARE_ROLE_LABELS: Record<ShareRole, string> = {
+  viewer: "Can view",
+  commenter: "Can comment",
+  editor: "Can edit",
+};
+
+type ShareTarget = { noteId: number } | { notebookId: number };
+
+function RoleSelect({ value, onChange, className }: { value: ShareRole; onChange: (role: ShareRole) => void; className?: string }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as ShareRole)}>
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SHARE_ROLES.map(role => (
+          <SelectItem key={role} value={role}>{SHARE_ROLE_LABELS[role]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Shares a note or notebook with other users by username, and lists who it
+// is shared with so their role can be changed or taken away. Notes are also
+// open to the people their notebooks are shared with; those are not listed.
+export function ShareWithPeople({ target }: { target: ShareTarget }) {
+  const { data: collaborators = [], isLoading } = useCollaborators();
+  const { mutate: shareWithUser, isPending: isSharing } = useShareWithUser();
+  const { mutate: removeCollaborator } = useRemoveCollaborator();
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<ShareRole>("viewer");
+  
+  const shares = collaborators.filter(share =>
+    "noteId" in target ? share.noteId === target.noteId : share.notebookId === target.notebookId
+  );
+  
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    shareWithUser(
+      { ...target, username: username.trim(), role },
+      { onSuccess: () => setUsername("") }
+    );
+  };
+  
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="off"
+          className="flex-1"
+        />
+        <RoleSelect value={role} onChange={setRole} className="w-[140px]" />
+        <Button type="submit" disabled={isSharing || !username.trim()}>
+          <UserPlus className="h-4 w-4 mr-1" />
+          Share
+        </Button>
+      </form>
+      
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading…</p>
+      ) : shares.length === 0 ? (
+        <p className="text-sm text-gray-400">Not shared with anyone yet.</p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto space-y-2">
+          {shares.map(share => (
+            <div key={share.id} className="flex items-center gap-2">
+              <Avatar className="h-7 w-7">
+                <AvatarFallback className="bg-gray-600 text-[11px] text-white">
+                  {generatePlaceholderInitials(share.user.displayName || share.user.username)}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0 flex-1 truncate text-sm">
+                {share.user.displayName || share.user.username}
+                {share.user.displayName && <span className="ml-1 text-gray-500">@{share.user.username}</span>}
+              </div>
+              <RoleSelect
+                value={share.role}
+                onChange={(newRole) => shareWithUser({ ...target, username: share.user.username, role: newRole })}
+                className="h-8 w-[140px]"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0 text-gray-400 hover:text-red-300"
+                title="Remove access"
+                onClick={() => removeCollaborator(share.id)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
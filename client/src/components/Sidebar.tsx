@@ -1,13 +1,23 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useNotes } from "@/hooks/useNotes";
-import { useTags } from "@/hooks/useTags";
 import { useCreateNote } from "@/hooks/useNotes";
+import { useSavedSearches, useSavedSearchResults, useDeleteSavedSearch } from "@/hooks/useSavedSearches";
 import { useNoteContext } from "@/context/NoteContext";
 import { useAuth } from "@/context/AuthContext";
 import { generatePlaceholderInitials } from "@/lib/utils";
 import { Settings as SettingsDialog } from "@/components/Settings";
+import { ImportDialog } from "@/components/ImportDialog";
+import { SavedSearchDialog } from "@/components/SavedSearchDialog";
+import { NotebookTree } from "@/components/NotebookTree";
+import { TagTree } from "@/components/TagTree";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
 import { 
@@ -17,8 +27,15 @@ import {
   Star, 
   Clock, 
   Trash2, 
-  Settings 
+  Settings,
+  Upload,
+  FolderSearch,
+  MoreHorizontal,
+  Pencil,
+  Network,
+  Users
 } from "lucide-react";
+import { type SavedSearch } from "@shared/schema";
 
 interface SidebarProps {
   className?: string;
@@ -28,10 +45,15 @@ export function Sidebar({ className }: SidebarProps) {
   const [location, navigate] = useLocation();
   const { isMenuOpen, toggleMenu } = useNoteContext();
   const { currentUser, logout } = useAuth();
-  const { data: tags = [] } = useTags();
   const { data: notes = [] } = useNotes();
   const { mutate: createNote } = useCreateNote();
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const { data: savedSearches = [] } = useSavedSearches();
+  const savedSearchResults = useSavedSearchResults();
+  const { mutate: deleteSavedSearch } = useDeleteSavedSearch();
+  // Open with no saved search to create one
+  const [savedSearchDialog, setSavedSearchDialog] = useState<{ savedSearch?: SavedSearch } | null>(null);
   
   const favoriteNotes = notes.filter(note => note.isFavorite && !note.isDeleted);
   const trashNotes = notes.filter(note => note.isDeleted);
@@ -45,12 +67,31 @@ export function Sidebar({ className }: SidebarProps) {
     });
   };
 
+  const handleDeleteSavedSearch = (savedSearch: SavedSearch) => {
+    deleteSavedSearch(savedSearch.id, {
+      onSuccess: () => {
+        if (location === `/notes/search/${savedSearch.id}`) {
+          navigate("/");
+        }
+      }
+    });
+  };
+
   return (
     <>
     <SettingsDialog 
       open={isSettingsOpen}
       onOpenChange={setIsSettingsOpen}
     />
+    <ImportDialog 
+      open={isImportOpen}
+      onOpenChange={setIsImportOpen}
+    />
+    <SavedSearchDialog
+      open={savedSearchDialog !== null}
+      onOpenChange={(open) => !open && setSavedSearchDialog(null)}
+      savedSearch={savedSearchDialog?.savedSearch}
+    />
     <aside className={cn(
       "flex flex-col w-64 bg-dark-surface border-r border-gray-800",
       "transition-transform duration-300 ease-in-out",
@@ -82,6 +123,14 @@ export function Sidebar({ className }: SidebarProps) {
           <Plus size={18} />
           <span>New Note</span>
         </Button>
+        <Button 
+          variant="ghost"
+          className="flex items-center gap-2 text-left w-full px-4 py-2.5 text-gray-300 hover:bg-gray-800 hover:text-white"
+          onClick={() => setIsImportOpen(true)}
+        >
+          <Upload size={18} />
+          <span>Import</span>
+        </Button>
         
         <nav className="mt-4 space-y-1 flex-1">
           <Link href="/">
@@ -117,6 +166,24 @@ export function Sidebar({ className }: SidebarProps) {
               <span>Recent</span>
             </div>
           </Link>
+          <Link href="/notes/shared">
+            <div className={cn(
+              "flex items-center gap-2 px-4 py-2.5 rounded-md hover:bg-gray-800 transition-colors text-white cursor-pointer",
+              location === "/notes/shared" && "bg-gray-800"
+            )}>
+              <Users size={18} />
+              <span>Shared with me</span>
+            </div>
+          </Link>
+          <Link href="/graph">
+            <div className={cn(
+              "flex items-center gap-2 px-4 py-2.5 rounded-md hover:bg-gray-800 transition-colors text-white cursor-pointer",
+              location === "/graph" && "bg-gray-800"
+            )}>
+              <Network size={18} />
+              <span>Graph</span>
+            </div>
+          </Link>
           <Link href="/notes/trash">
             <div className={cn(
               "flex items-center gap-2 px-4 py-2.5 rounded-md hover:bg-gray-800 transition-colors text-white cursor-pointer",
@@ -133,47 +200,72 @@ export function Sidebar({ className }: SidebarProps) {
           </Link>
         </nav>
         
+        <NotebookTree notes={notes} />
+        
         <div className="mt-2">
-          <h3 className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">Tags</h3>
+          <div className="flex items-center justify-between pr-2">
+            <h3 className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">Smart Folders</h3>
+            <button
+              onClick={() => setSavedSearchDialog({})}
+              className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+              title="New smart folder"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
           <div className="space-y-1 mt-1">
-            {tags.map(tag => (
-              <Link key={tag.id} href={`/notes/tag/${tag.id}`}>
-                <div className={cn(
-                  "flex items-center gap-2 px-4 py-2 rounded-md hover:bg-gray-800 transition-colors text-white cursor-pointer",
-                  location === `/notes/tag/${tag.id}` && "bg-gray-800"
-                )}>
-                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
-                  <span>{tag.name}</span>
-                  <span className="ml-auto text-xs bg-gray-800 px-2 py-0.5 rounded-md">
-                    {notes.filter(note => 
-                      note.tags.some(t => t.id === tag.id) && !note.isDeleted
-                    ).length}
-                  </span>
-                </div>
-              </Link>
+            {savedSearches.map(savedSearch => (
+              <div key={savedSearch.id} className="group relative">
+                <Link href={`/notes/search/${savedSearch.id}`}>
+                  <div className={cn(
+                    "flex items-center gap-2 px-4 py-2 rounded-md hover:bg-gray-800 transition-colors text-white cursor-pointer",
+                    location === `/notes/search/${savedSearch.id}` && "bg-gray-800"
+                  )}>
+                    <FolderSearch size={16} className="text-purple-400 shrink-0" />
+                    <span className="truncate" title={savedSearch.query}>{savedSearch.name}</span>
+                    <span className="ml-auto text-xs bg-gray-800 px-2 py-0.5 rounded-md group-hover:opacity-0">
+                      {savedSearchResults.get(savedSearch.id)?.length ?? 0}
+                    </span>
+                  </div>
+                </Link>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button
+                      className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      aria-label={`Options for ${savedSearch.name}`}
+                    >
+                      <MoreHorizontal size={14} />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setSavedSearchDialog({ savedSearch })}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      <span>Edit</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleDeleteSavedSearch(savedSearch)} className="text-red-400">
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      <span>Delete</span>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
             ))}
           </div>
         </div>
+        
+        <TagTree notes={notes} />
       </div>
       
       {/* User section */}
       <div className="px-4 py-3 border-t border-gray-800 flex items-center">
         {currentUser ? (
           <>
-            {currentUser.photoURL ? (
-              <img 
-                src={currentUser.photoURL} 
-                alt={currentUser.displayName || "User"} 
-                className="w-8 h-8 rounded-full"
-              />
-            ) : (
-              <div className="w-8 h-8 rounded-full bg-purple-500/30 flex items-center justify-center text-purple-500">
-                <span className="font-medium">{generatePlaceholderInitials(currentUser.displayName || "User")}</span>
-              </div>
-            )}
+            <div className="w-8 h-8 rounded-full bg-purple-500/30 flex items-center justify-center text-purple-500">
+              <span className="font-medium">{generatePlaceholderInitials(currentUser.displayName || currentUser.username)}</span>
+            </div>
             <div className="ml-3">
-              <div className="text-sm font-medium text-white">{currentUser.displayName || "User"}</div>
-              <div className="text-xs text-gray-400">{currentUser.email || ""}</div>
+              <div className="text-sm font-medium text-white">{currentUser.displayName || currentUser.username}</div>
+              <div className="text-xs text-gray-400">@{currentUser.username}</div>
             </div>
             <button 
               onClick={() => setIsSettingsOpen(true)}
@@ -0,0 +1,36 @@
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useSyncStatus } from '@/hooks/useOfflineSync';
+import { replayOutbox } from '@/lib/offlineSync';
+import { cn } from '@/lib/utils';
+
+// Shows whether offline changes are still waiting to reach the server
+export function SyncIndicator() {
+  const { state, pending } = useSyncStatus();
+  
+  const pendingLabel = `${pending} change${pending === 1 ? '' : 's'} waiting to sync`;
+  const { icon: Icon, label, className } = {
+    idle: { icon: Cloud, label: 'All changes synced', className: 'text-gray-400' },
+    syncing: { icon: RefreshCw, label: `Syncing… ${pendingLabel}`, className: 'text-purple-400 animate-spin' },
+    offline: { icon: CloudOff, label: `Offline. ${pendingLabel}`, className: 'text-yellow-500' },
+    error: { icon: AlertTriangle, label: `Sync failed, retrying soon. ${pendingLabel}`, className: 'text-red-400' },
+  }[state];
+  
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={() => replayOutbox()}
+      title={label}
+      aria-label={label}
+      className="relative text-gray-400 hover:text-gray-300"
+    >
+      <Icon className={cn("h-5 w-5", className)} />
+      {pending > 0 && (
+        <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-purple-600 text-[10px] leading-4 text-white">
+          {pending}
+        </span>
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,365 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useLocation } from "wouter";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useTags, useCreateTag, useUpdateTag, useDeleteTag, useMergeTags } from "@/hooks/useTags";
+import { cn } from "@/lib/utils";
+import { type NoteWithTags, type Tag } from "@shared/schema";
+import { TAG_PATH_SEPARATOR, subtreeIds, tagPath } from "@shared/hierarchy";
+import {
+  ChevronDown,
+  ChevronRight,
+  GitMerge,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Tag as TagIcon,
+  Trash2,
+} from "lucide-react";
+
+// Drag data type, holding the id of the tag being dragged
+const TAG_DRAG_TYPE = "application/x-tag-id";
+
+// "root" is the section header, which makes a tag top-level
+type DropTarget = number | "root";
+
+type NameDialogState =
+  | { mode: "create"; parentId: number | null }
+  | { mode: "rename"; tag: Tag };
+
+function TagNameDialog({ state, onClose }: { state: NameDialogState | null; onClose: () => void }) {
+  const [name, setName] = useState("");
+  const { mutate: createTag, isPending: isCreating } = useCreateTag();
+  const { mutate: updateTag, isPending: isUpdating } = useUpdateTag();
+
+  useEffect(() => {
+    if (state) setName(state.mode === "rename" ? state.tag.name : "");
+  }, [state]);
+
+  const error = name.includes(TAG_PATH_SEPARATOR)
+    ? `Tag names cannot contain ${TAG_PATH_SEPARATOR}, use "New sub-tag" to nest tags`
+    : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!state || !name.trim() || error) return;
+
+    if (state.mode === "rename") {
+      updateTag({ id: state.tag.id, tag: { name: name.trim() } }, { onSuccess: onClose });
+    } else {
+      createTag({ name: name.trim(), parentId: state.parentId }, { onSuccess: onClose });
+    }
+  };
+
+  return (
+    <Dialog open={state !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[400px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{state?.mode === "rename" ? "Rename tag" : "New tag"}</DialogTitle>
+            <DialogDescription>
+              {state?.mode === "rename"
+                ? "Every note carrying the tag shows the new name."
+                : "Drag tags onto each other in the sidebar to nest them."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Tag name"
+              className={error ? "border-red-500 focus-visible:ring-red-500" : ""}
+              autoFocus
+            />
+            {error && <p className="text-xs text-red-400">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || error !== null || isCreating || isUpdating}>
+              {state?.mode === "rename" ? "Rename" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MergeTagDialog({ tag, tags, onClose }: { tag: Tag | null; tags: Tag[]; onClose: () => void }) {
+  const [targetId, setTargetId] = useState<string>("");
+  const { mutate: mergeTags, isPending } = useMergeTags();
+
+  useEffect(() => {
+    if (tag) setTargetId("");
+  }, [tag]);
+
+  const tagsById = useMemo(() => new Map(tags.map(t => [t.id, t])), [tags]);
+
+  // A tag cannot be merged into anything nested below it
+  const targets = useMemo(() => {
+    if (!tag) return [];
+    const excluded = new Set(subtreeIds(tags, tag.id));
+    return tags
+      .filter(t => !excluded.has(t.id))
+      .map(t => ({ tag: t, path: tagPath(t, tagsById) }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }, [tag, tags, tagsById]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tag || !targetId) return;
+    mergeTags({ id: tag.id, targetId: parseInt(targetId, 10) }, { onSuccess: onClose });
+  };
+
+  return (
+    <Dialog open={tag !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[400px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Merge "{tag?.name}"</DialogTitle>
+            <DialogDescription>
+              Notes and sub-tags of "{tag?.name}" move to the tag you pick, then "{tag?.name}" is deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Merge into…" />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map(({ tag: target, path }) => (
+                  <SelectItem key={target.id} value={String(target.id)}>{path}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!targetId || isPending}>
+              Merge
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TagTreeProps {
+  notes: NoteWithTags[];
+}
+
+export function TagTree({ notes }: TagTreeProps) {
+  const [location, navigate] = useLocation();
+  const { data: tags = [] } = useTags();
+  const { mutate: updateTag } = useUpdateTag();
+  const { mutate: deleteTag } = useDeleteTag();
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [mergeSource, setMergeSource] = useState<Tag | null>(null);
+
+  const childrenByParent = useMemo(() => {
+    const children = new Map<number | null, Tag[]>();
+    const sorted = [...tags].sort((a, b) => a.name.localeCompare(b.name));
+    for (const tag of sorted) {
+      // A tag whose parent is gone is shown at the top level
+      const parentId = tags.some(other => other.id === tag.parentId) ? tag.parentId : null;
+      children.set(parentId, [...(children.get(parentId) ?? []), tag]);
+    }
+    return children;
+  }, [tags]);
+
+  // Counts include the notes of sub-tags, each note counted once
+  const noteCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    const activeNotes = notes.filter(note => !note.isDeleted);
+    for (const tag of tags) {
+      const ids = new Set(subtreeIds(tags, tag.id));
+      counts.set(tag.id, activeNotes.filter(note => note.tags.some(t => ids.has(t.id))).length);
+    }
+    return counts;
+  }, [notes, tags]);
+
+  const toggleCollapsed = (id: number) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDragOver = (e: React.DragEvent, target: DropTarget) => {
+    if (!e.dataTransfer.types.includes(TAG_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setDropTarget(target);
+  };
+
+  const handleDrop = (e: React.DragEvent, target: DropTarget) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const destination = target === "root" ? null : target;
+
+    const tagId = parseInt(e.dataTransfer.getData(TAG_DRAG_TYPE), 10);
+    const tag = tags.find(t => t.id === tagId);
+    if (!tag || tag.parentId === destination) return;
+    // Dropping a tag into its own subtree would make a cycle
+    if (destination !== null && subtreeIds(tags, tag.id).includes(destination)) return;
+
+    updateTag({ id: tag.id, tag: { parentId: destination } });
+    // Show where it went
+    if (destination !== null) {
+      setCollapsed(current => {
+        const next = new Set(current);
+        next.delete(destination);
+        return next;
+      });
+    }
+  };
+
+  const handleDelete = (tag: Tag) => {
+    deleteTag(tag.id, {
+      onSuccess: () => {
+        if (location === `/notes/tag/${tag.id}`) {
+          navigate("/");
+        }
+      }
+    });
+  };
+
+  const renderTag = (tag: Tag, depth: number): React.ReactNode => {
+    const children = childrenByParent.get(tag.id) ?? [];
+    const isCollapsed = collapsed.has(tag.id);
+    const href = `/notes/tag/${tag.id}`;
+
+    return (
+      <div key={tag.id}>
+        <div
+          className="group relative"
+          draggable
+          onDragStart={(e) => {
+            e.stopPropagation();
+            e.dataTransfer.setData(TAG_DRAG_TYPE, String(tag.id));
+            e.dataTransfer.effectAllowed = "move";
+          }}
+          onDragOver={(e) => handleDragOver(e, tag.id)}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(e) => handleDrop(e, tag.id)}
+        >
+          <Link href={href}>
+            <div
+              className={cn(
+                "flex items-center gap-1.5 pr-4 py-2 rounded-md hover:bg-gray-800 transition-colors text-white cursor-pointer",
+                location === href && "bg-gray-800",
+                dropTarget === tag.id && "ring-1 ring-purple-500 bg-purple-500/10"
+              )}
+              style={{ paddingLeft: `${depth * 12 + 8}px` }}
+            >
+              <button
+                className={cn("p-0.5 rounded text-gray-400 hover:text-white", children.length === 0 && "invisible")}
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  toggleCollapsed(tag.id);
+                }}
+                aria-label={isCollapsed ? `Expand ${tag.name}` : `Collapse ${tag.name}`}
+              >
+                {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+              </button>
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: tag.color }} />
+              <span className="truncate">{tag.name}</span>
+              <span className="ml-auto text-xs bg-gray-800 px-2 py-0.5 rounded-md group-hover:opacity-0">
+                {noteCounts.get(tag.id) ?? 0}
+              </span>
+            </div>
+          </Link>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                aria-label={`Options for ${tag.name}`}
+              >
+                <MoreHorizontal size={14} />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setNameDialog({ mode: "create", parentId: tag.id })}>
+                <TagIcon className="mr-2 h-4 w-4" />
+                <span>New sub-tag</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setNameDialog({ mode: "rename", tag })}>
+                <Pencil className="mr-2 h-4 w-4" />
+                <span>Rename</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setMergeSource(tag)}>
+                <GitMerge className="mr-2 h-4 w-4" />
+                <span>Merge into…</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleDelete(tag)} className="text-red-400">
+                <Trash2 className="mr-2 h-4 w-4" />
+                <span>Delete</span>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {!isCollapsed && children.map(child => renderTag(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-2">
+      <TagNameDialog state={nameDialog} onClose={() => setNameDialog(null)} />
+      <MergeTagDialog tag={mergeSource} tags={tags} onClose={() => setMergeSource(null)} />
+      <div
+        className={cn(
+          "flex items-center justify-between pr-2 rounded-md",
+          dropTarget === "root" && "ring-1 ring-purple-500 bg-purple-500/10"
+        )}
+        onDragOver={(e) => handleDragOver(e, "root")}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(e) => handleDrop(e, "root")}
+        title="Drop a tag here to make it a top-level tag"
+      >
+        <h3 className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">Tags</h3>
+        <button
+          onClick={() => setNameDialog({ mode: "create", parentId: null })}
+          className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+          title="New tag"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+      <div className="space-y-1 mt-1">
+        {(childrenByParent.get(null) ?? []).map(tag => renderTag(tag, 0))}
+      </div>
+    </div>
+  );
+}
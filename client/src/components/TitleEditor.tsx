@@ -5,9 +5,10 @@ import { debounce } from "@/lib/utils";
 interface TitleEditorProps {
   id: number;
   initialTitle: string;
+  readOnly?: boolean;
 }
 
-export function TitleEditor({ id, initialTitle }: TitleEditorProps) {
+export function TitleEditor({ id, initialTitle, readOnly = false }: TitleEditorProps) {
   const [title, setTitle] = useState(initialTitle);
   const { mutate: updateNote } = useUpdateNote();
   
@@ -34,6 +35,7 @@ export function TitleEditor({ id, initialTitle }: TitleEditorProps) {
       value={title}
       onChange={handleTitleChange}
       placeholder="Note Title"
+      readOnly={readOnly}
     />
   );
 }
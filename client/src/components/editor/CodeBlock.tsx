@@ -0,0 +1,115 @@
+import { useMemo, useState } from 'react';
+import { NodeViewContent, NodeViewWrapper, ReactNodeViewRenderer, type NodeViewProps } from '@tiptap/react';
+import CodeBlockLowlight from '@tiptap/extension-code-block-lowlight';
+import { common, createLowlight } from 'lowlight';
+import { Check, Copy } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import 'highlight.js/styles/atom-one-dark.css';
+
+const lowlight = createLowlight(common);
+
+// Languages offered in the picker. Any other language lowlight knows about
+// (e.g. from pasted HTML) is still highlighted and shown by its name.
+const CODE_LANGUAGES: { value: string; label: string }[] = [
+  { value: 'plaintext', label: 'Plain text' },
+  { value: 'bash', label: 'Bash' },
+  { value: 'c', label: 'C' },
+  { value: 'cpp', label: 'C++' },
+  { value: 'csharp', label: 'C#' },
+  { value: 'css', label: 'CSS' },
+  { value: 'diff', label: 'Diff' },
+  { value: 'go', label: 'Go' },
+  { value: 'graphql', label: 'GraphQL' },
+  { value: 'html', label: 'HTML' },
+  { value: 'java', label: 'Java' },
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'json', label: 'JSON' },
+  { value: 'kotlin', label: 'Kotlin' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'php', label: 'PHP' },
+  { value: 'python', label: 'Python' },
+  { value: 'ruby', label: 'Ruby' },
+  { value: 'rust', label: 'Rust' },
+  { value: 'scss', label: 'SCSS' },
+  { value: 'sql', label: 'SQL' },
+  { value: 'swift', label: 'Swift' },
+  { value: 'typescript', label: 'TypeScript' },
+  { value: 'xml', label: 'XML' },
+  { value: 'yaml', label: 'YAML' },
+];
+
+const AUTO_DETECT = 'auto';
+
+function languageLabel(language: string): string {
+  return CODE_LANGUAGES.find(option => option.value === language)?.label ?? language;
+}
+
+function CodeBlockView({ node, updateAttributes }: NodeViewProps) {
+  const language: string | null = node.attrs.language;
+  const code = node.textContent;
+  const [copied, setCopied] = useState(false);
+
+  // Blocks without a language are highlighted with whatever lowlight guesses
+  const detected = useMemo(() => {
+    if (language || !code.trim()) return undefined;
+    return lowlight.highlightAuto(code).data?.language;
+  }, [language, code]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+      toast({
+        title: "Copy failed",
+        description: "The code could not be copied to the clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <NodeViewWrapper className="code-block">
+      <div contentEditable={false} className="code-block-header">
+        <select
+          value={language ?? AUTO_DETECT}
+          onChange={(e) => updateAttributes({ language: e.target.value === AUTO_DETECT ? null : e.target.value })}
+          className="bg-[#282c34] text-xs text-gray-400 hover:text-gray-200 focus:outline-none cursor-pointer"
+          title="Code language"
+        >
+          <option value={AUTO_DETECT}>
+            {detected ? `Auto (${languageLabel(detected)})` : 'Auto-detect'}
+          </option>
+          {language && !CODE_LANGUAGES.some(option => option.value === language) && (
+            <option value={language}>{language}</option>
+          )}
+          {CODE_LANGUAGES.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleCopy}
+          className="p-1 rounded text-gray-400 hover:text-gray-200 hover:bg-gray-700 transition-colors"
+          title="Copy code"
+        >
+          {copied ? <Check size={14} /> : <Copy size={14} />}
+        </button>
+      </div>
+      <pre>
+        <NodeViewContent as="code" />
+      </pre>
+    </NodeViewWrapper>
+  );
+}
+
+// Code block with lowlight syntax highlighting. The language is stored as a
+// `language-*` class on the <code> element, like StarterKit's code block.
+export const CodeBlock = CodeBlockLowlight
+  .extend({
+    addNodeView() {
+      return ReactNodeViewRenderer(CodeBlockView);
+    },
+  })
+  .configure({ lowlight });
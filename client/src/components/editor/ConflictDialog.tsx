@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+import { type NoteWithTags } from '@shared/schema';
+import { diffLines, htmlToLines } from '@/lib/diff';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ConflictDialogProps {
+  open: boolean;
+  localContent: string;
+  serverNote: NoteWithTags | null;
+  onKeepMine: () => void;
+  onUseServer: () => void;
+}
+
+export function ConflictDialog({ open, localContent, serverNote, onKeepMine, onUseServer }: ConflictDialogProps) {
+  // Lines removed are only in the server copy, lines added only in this editor
+  const diff = useMemo(() => {
+    if (!serverNote) return [];
+    return diffLines(htmlToLines(serverNote.content), htmlToLines(localContent));
+  }, [serverNote, localContent]);
+
+  return (
+    <Dialog open={open}>
+      <DialogContent className="sm:max-w-2xl [&>button]:hidden">
+        <DialogHeader>
+          <DialogTitle>This note was changed somewhere else</DialogTitle>
+          <DialogDescription>
+            {serverNote && `Another tab or device saved this note ${formatRelativeTime(serverNote.updatedAt)}. `}
+            Choose which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-80 overflow-y-auto rounded-md border border-gray-800 bg-[#1e1e1e] font-mono text-xs">
+          {diff.map((line, index) => (
+            <div
+              key={index}
+              className={cn(
+                "px-3 py-0.5 whitespace-pre-wrap break-words",
+                line.type === 'added' && "bg-green-900/40 text-green-200",
+                line.type === 'removed' && "bg-red-900/40 text-red-200",
+                line.type === 'unchanged' && "text-gray-400"
+              )}
+            >
+              <span className="select-none inline-block w-12 text-gray-500">
+                {line.type === 'added' ? 'mine' : line.type === 'removed' ? 'theirs' : ''}
+              </span>
+              {line.text || ' '}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onUseServer}>
+            Use their version
+          </Button>
+          <Button className="bg-purple-600 hover:bg-purple-700" onClick={onKeepMine}>
+            Keep my version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+import { useMemo } from 'react';
+import {
+  Node,
+  NodeViewWrapper,
+  ReactNodeViewRenderer,
+  mergeAttributes,
+  type Editor,
+  type NodeViewProps,
+} from '@tiptap/react';
+import { PluginKey } from '@tiptap/pm/state';
+import { TagBadge } from '@/components/TagBadge';
+import { useTags } from '@/hooks/useTags';
+import { type Tag } from '@shared/schema';
+import { tagPath } from '@shared/hierarchy';
+import { Plus } from 'lucide-react';
+import {
+  SuggestionMenu,
+  defaultSuggestionOptions,
+  suggestionPlugin,
+  type Suggestion,
+  type SuggestionMenuItem,
+  type SuggestionOptions,
+} from './SuggestionMenu';
+
+// Characters a typed hashtag can hold. The path separator is included so
+// #project/alpha reaches the nested tag.
+const HASHTAG_CHARS = '[\\p{L}\\p{N}_\\-/]';
+const HASHTAG_BEFORE_CURSOR = new RegExp(`(^|\\s)#(${HASHTAG_CHARS}*)$`, 'u');
+const HASHTAG_CHAR = new RegExp(`^${HASHTAG_CHARS}$`, 'u');
+
+const MAX_SUGGESTIONS = 8;
+
+// Tags not found (e.g. deleted since) are shown in the default tag color
+const FALLBACK_COLOR = '#8B5CF6';
+
+export interface HashtagAttributes {
+  // Null until the tag has been looked up or created
+  id: number | null;
+  // Path of the tag when the hashtag was written, e.g. project/alpha
+  name: string;
+}
+
+const suggestionKey = new PluginKey<Suggestion | null>('hashtagSuggestion');
+
+function HashtagView({ node }: NodeViewProps) {
+  const { data: tags = [] } = useTags();
+  const { id, name } = node.attrs as HashtagAttributes;
+
+  // Show the tag as it is now, so renamed tags do not wait for the next save
+  const badge = useMemo((): Tag => {
+    const tag = tags.find(t => t.id === id);
+    if (!tag) {
+      return { id: id ?? 0, userId: 0, name: `#${name}`, color: FALLBACK_COLOR, parentId: null, updatedAt: new Date() };
+    }
+    return { ...tag, name: `#${tagPath(tag, new Map(tags.map(t => [t.id, t])))}` };
+  }, [tags, id, name]);
+
+  return (
+    <NodeViewWrapper as="span" className="hashtag">
+      <TagBadge tag={badge} className="text-sm" />
+    </NodeViewWrapper>
+  );
+}
+
+// A #tag written in a note. It is stored as
+// <span data-type="hashtag" data-tag-id="3" data-tag="project/alpha">#project/alpha</span>
+// so the text still reads as a hashtag wherever the HTML ends up.
+export const Hashtag = Node.create<SuggestionOptions>({
+  name: 'hashtag',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: false,
+
+  addOptions() {
+    return defaultSuggestionOptions;
+  },
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: element => {
+          const id = parseInt(element.getAttribute('data-tag-id') ?? '', 10);
+          return isNaN(id) ? null : id;
+        },
+        renderHTML: attributes => attributes.id === null ? {} : { 'data-tag-id': attributes.id },
+      },
+      name: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-tag') ?? element.textContent?.replace(/^#/, '') ?? '',
+        renderHTML: attributes => ({ 'data-tag': attributes.name }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="hashtag"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes({ 'data-type': 'hashtag' }, HTMLAttributes), `#${node.attrs.name}`];
+  },
+
+  renderText({ node }) {
+    return `#${node.attrs.name}`;
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(HashtagView);
+  },
+
+  addProseMirrorPlugins() {
+    const type = this.type;
+
+    return [
+      suggestionPlugin({
+        key: suggestionKey,
+        trigger: '#',
+        pattern: HASHTAG_BEFORE_CURSOR,
+        options: this.options,
+        // Typing a space or punctuation after #name turns it into a hashtag
+        handleTextInput: (view, suggestion, from, to, text) => {
+          if (!suggestion.query || from !== suggestion.to || HASHTAG_CHAR.test(text)) return false;
+
+          const hashtag = type.create({ id: null, name: suggestion.query });
+          const tr = view.state.tr.replaceWith(suggestion.from, to, hashtag);
+          tr.insertText(text, tr.mapping.map(to));
+          view.dispatch(tr);
+          return true;
+        },
+      }),
+    ];
+  },
+});
+
+// Hashtags in a note, with their position in the document
+export function findHashtags(editor: Editor): { pos: number; attrs: HashtagAttributes }[] {
+  const hashtags: { pos: number; attrs: HashtagAttributes }[] = [];
+  editor.state.doc.descendants((node, pos) => {
+    if (node.type.name === 'hashtag') {
+      hashtags.push({ pos, attrs: node.attrs as HashtagAttributes });
+    }
+  });
+  return hashtags;
+}
+
+// Ids of the tags hashtagged in a note's stored HTML
+export function hashtagIdsInHtml(html: string): Set<number> {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const ids = Array.from(doc.querySelectorAll('span[data-type="hashtag"][data-tag-id]'))
+    .map(element => parseInt(element.getAttribute('data-tag-id') ?? '', 10))
+    .filter(id => !isNaN(id));
+  return new Set(ids);
+}
+
+interface HashtagSuggestionsProps {
+  editor: Editor | null;
+  suggestion: Suggestion | null;
+  keyDownRef: React.MutableRefObject<(event: KeyboardEvent) => boolean>;
+  onDismiss: () => void;
+}
+
+// Tags matching a hashtag while it is being typed, or a new one to create
+export function HashtagSuggestions({ editor, suggestion, ...menuProps }: HashtagSuggestionsProps) {
+  const { data: tags = [] } = useTags();
+
+  const items = useMemo((): SuggestionMenuItem[] => {
+    // Nothing is offered for a lone #, so markdown headings still type normally
+    if (!editor || !suggestion?.query) return [];
+    const query = suggestion.query.toLowerCase();
+    const tagsById = new Map(tags.map(t => [t.id, t]));
+
+    const insert = (attrs: HashtagAttributes) => ({ from, to }: Suggestion) => {
+      editor
+        .chain()
+        .focus()
+        .insertContentAt({ from, to }, [
+          { type: 'hashtag', attrs },
+          { type: 'text', text: ' ' },
+        ])
+        .run();
+    };
+
+    const matches = tags
+      .map(tag => ({ tag, path: tagPath(tag, tagsById) }))
+      .filter(({ path }) => path.toLowerCase().includes(query))
+      // Paths starting with the query first, then shortest
+      .sort((a, b) =>
+        Number(!a.path.toLowerCase().startsWith(query)) - Number(!b.path.toLowerCase().startsWith(query)) ||
+        a.path.length - b.path.length ||
+        a.path.localeCompare(b.path)
+      )
+      .slice(0, MAX_SUGGESTIONS);
+
+    const items: SuggestionMenuItem[] = matches.map(({ tag, path }) => ({
+      key: tag.id,
+      label: `#${path}`,
+      icon: <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: tag.color }} />,
+      onSelect: insert({ id: tag.id, name: path }),
+    }));
+
+    const path = suggestion.query.replace(/^\/+|\/+$/g, '');
+    if (path && !matches.some(match => match.path.toLowerCase() === path.toLowerCase())) {
+      items.push({
+        key: 'create',
+        label: `Create #${path}`,
+        icon: <Plus size={12} className="shrink-0 text-gray-400" />,
+        onSelect: insert({ id: null, name: path }),
+      });
+    }
+    return items;
+  }, [editor, suggestion, tags]);
+
+  return <SuggestionMenu editor={editor} suggestion={suggestion} items={items} {...menuProps} />;
+}
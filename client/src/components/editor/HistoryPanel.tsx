@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { useNoteRevisions, useNoteRevision, useRestoreRevision } from '@/hooks/useRevisions';
+import { diffLines, htmlToLines } from '@/lib/diff';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface HistoryPanelProps {
+  noteId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Viewers of a shared note can look through its history but not restore it
+  canRestore?: boolean;
+}
+
+export function HistoryPanel({ noteId, open, onOpenChange, canRestore = true }: HistoryPanelProps) {
+  const { data: revisions = [], isLoading } = useNoteRevisions(noteId, open);
+  const { mutate: restoreRevision, isPending: isRestoring } = useRestoreRevision();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareId, setCompareId] = useState<number | null>(null);
+
+  // Default to comparing the newest revision against the one before it
+  useEffect(() => {
+    if (!open || revisions.length === 0) return;
+    if (selectedId !== null && revisions.some(r => r.id === selectedId)) return;
+
+    setSelectedId(revisions[0].id);
+    setCompareId(revisions[1]?.id ?? null);
+  }, [open, revisions, selectedId]);
+
+  const { data: selected } = useNoteRevision(noteId, selectedId);
+  const { data: compared } = useNoteRevision(noteId, compareId);
+
+  const diff = useMemo(() => {
+    if (!selected) return [];
+
+    const before = compared ? [compared.title, ...htmlToLines(compared.content)] : [];
+    const after = [selected.title, ...htmlToLines(selected.content)];
+    return diffLines(before, after);
+  }, [selected, compared]);
+
+  const selectRevision = (id: number) => {
+    setSelectedId(id);
+
+    // Compare against the previous revision unless the user picked one explicitly
+    const index = revisions.findIndex(r => r.id === id);
+    setCompareId(revisions[index + 1]?.id ?? null);
+  };
+
+  const handleRestore = () => {
+    if (selectedId === null) return;
+    restoreRevision(
+      { noteId, revisionId: selectedId },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl bg-[#262626] border-gray-800 text-gray-200 flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="text-white flex items-center gap-2">
+            <History size={18} /> Version history
+          </SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Pick a revision to see what changed, or restore it.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="p-4 text-sm text-gray-400">Loading history...</div>
+        ) : revisions.length === 0 ? (
+          <div className="p-4 text-sm text-gray-400">This note has no saved revisions yet.</div>
+        ) : (
+          <div className="flex flex-1 min-h-0 gap-4 mt-4">
+            <ul className="w-48 shrink-0 overflow-y-auto space-y-1">
+              {revisions.map((revision, index) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => selectRevision(revision.id)}
+                    className={cn(
+                      "w-full text-left px-3 py-2 rounded-md text-sm transition-colors",
+                      revision.id === selectedId ? "bg-purple-600/30 text-white" : "text-gray-300 hover:bg-gray-700"
+                    )}
+                  >
+                    <div className="truncate">{revision.title || "Untitled"}</div>
+                    <div className="text-xs text-gray-400">
+                      {index === 0 ? "Current" : formatRelativeTime(revision.updatedAt)}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="flex items-center gap-2 mb-3">
+                <span className="text-xs text-gray-400 shrink-0">Compare with</span>
+                <Select
+                  value={compareId === null ? "none" : String(compareId)}
+                  onValueChange={(value) => setCompareId(value === "none" ? null : parseInt(value, 10))}
+                >
+                  <SelectTrigger className="bg-gray-800 text-gray-200 border border-gray-700 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Nothing (show full revision)</SelectItem>
+                    {revisions
+                      .filter(revision => revision.id !== selectedId)
+                      .map(revision => (
+                        <SelectItem key={revision.id} value={String(revision.id)}>
+                          {revision.title || "Untitled"} · {formatRelativeTime(revision.updatedAt)}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                {canRestore && (
+                  <Button
+                    size="sm"
+                    className="ml-auto bg-purple-600 hover:bg-purple-700"
+                    disabled={selectedId === null || selectedId === revisions[0].id || isRestoring}
+                    onClick={handleRestore}
+                  >
+                    <RotateCcw size={14} className="mr-1" /> Restore
+                  </Button>
+                )}
+              </div>
+
+              <div className="flex-1 overflow-y-auto rounded-md border border-gray-800 bg-[#1e1e1e] font-mono text-xs">
+                {diff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      "px-3 py-0.5 whitespace-pre-wrap break-words",
+                      line.type === 'added' && "bg-green-900/40 text-green-200",
+                      line.type === 'removed' && "bg-red-900/40 text-red-200 line-through",
+                      line.type === 'unchanged' && "text-gray-400"
+                    )}
+                  >
+                    <span className="select-none mr-2">
+                      {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                    </span>
+                    {line.text || ' '}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,190 @@
+import { useMemo } from 'react';
+import { useLocation } from 'wouter';
+import {
+  Node,
+  NodeViewWrapper,
+  ReactNodeViewRenderer,
+  mergeAttributes,
+  type Editor,
+  type NodeViewProps,
+} from '@tiptap/react';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { useNotes } from '@/hooks/useNotes';
+import { cn } from '@/lib/utils';
+import { NOTE_LINK_TYPE, noteLinkText } from '@shared/noteLinks';
+import { FileText } from 'lucide-react';
+import {
+  SuggestionMenu,
+  defaultSuggestionOptions,
+  suggestionPlugin,
+  type Suggestion,
+  type SuggestionMenuItem,
+  type SuggestionOptions,
+} from './SuggestionMenu';
+
+const NOTE_LINK_BEFORE_CURSOR = /\[\[([^\[\]\n]*)$/;
+
+const MAX_SUGGESTIONS = 8;
+
+export interface NoteLinkAttributes {
+  id: number | null;
+  // Title of the note when the link was written
+  title: string;
+}
+
+export interface NoteLinkOptions extends SuggestionOptions {
+  // The note a typed [[Title]] refers to, if any
+  findNote: (title: string) => { id: number; title: string } | undefined;
+}
+
+const suggestionKey = new PluginKey<Suggestion | null>('noteLinkSuggestion');
+
+function NoteLinkView({ node }: NodeViewProps) {
+  const [_, navigate] = useLocation();
+  const { data: notes = [] } = useNotes(true);
+  const { id, title } = node.attrs as NoteLinkAttributes;
+
+  // Show the title as it is now; links to deleted notes are struck through
+  const target = notes.find(note => note.id === id);
+  const missing = !target || target.isDeleted;
+
+  return (
+    <NodeViewWrapper as="span" className="note-link">
+      <span
+        className={cn(
+          'inline-flex cursor-pointer items-center gap-1 rounded px-1 text-purple-300 hover:bg-purple-500/20 hover:text-purple-200',
+          missing && 'text-gray-500 line-through'
+        )}
+        title={missing ? 'This note no longer exists' : undefined}
+        onClick={() => id !== null && navigate(`/notes/${id}`)}
+      >
+        <FileText size={12} className="shrink-0" />
+        {target?.title || title || 'Untitled'}
+      </span>
+    </NodeViewWrapper>
+  );
+}
+
+// A [[Title]] link to another note, stored as described in @shared/noteLinks
+export const NoteLink = Node.create<NoteLinkOptions>({
+  name: NOTE_LINK_TYPE,
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: false,
+
+  addOptions() {
+    return { ...defaultSuggestionOptions, findNote: () => undefined };
+  },
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: element => {
+          const id = parseInt(element.getAttribute('data-note-id') ?? '', 10);
+          return isNaN(id) ? null : id;
+        },
+        renderHTML: attributes => attributes.id === null ? {} : { 'data-note-id': attributes.id },
+      },
+      title: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-title') ?? '',
+        renderHTML: attributes => ({ 'data-title': attributes.title }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: `span[data-type="${NOTE_LINK_TYPE}"]` }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes({ 'data-type': NOTE_LINK_TYPE }, HTMLAttributes), noteLinkText(node.attrs.title)];
+  },
+
+  renderText({ node }) {
+    return noteLinkText(node.attrs.title);
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(NoteLinkView);
+  },
+
+  addProseMirrorPlugins() {
+    const type = this.type;
+    const options = this.options;
+
+    return [
+      suggestionPlugin({
+        key: suggestionKey,
+        trigger: '[[',
+        pattern: NOTE_LINK_BEFORE_CURSOR,
+        options,
+        // Closing [[Title] with a ] links it when a note has that title
+        handleTextInput: (view, suggestion, from, to, text) => {
+          if (text !== ']' || from !== suggestion.to) return false;
+          const note = options.findNote(suggestion.query.trim());
+          if (!note) return false;
+
+          view.dispatch(view.state.tr.replaceWith(suggestion.from, to, type.create({ id: note.id, title: note.title })));
+          return true;
+        },
+      }),
+      // Swallow the second ] of a link closed by typing ]]
+      new Plugin({
+        props: {
+          handleTextInput: (view, from, to, text) => {
+            if (text !== ']' || from !== to) return false;
+            return view.state.doc.resolve(from).nodeBefore?.type === type;
+          },
+        },
+      }),
+    ];
+  },
+});
+
+interface NoteLinkSuggestionsProps {
+  editor: Editor | null;
+  // The note being edited, which is not offered
+  noteId: number;
+  suggestion: Suggestion | null;
+  keyDownRef: React.MutableRefObject<(event: KeyboardEvent) => boolean>;
+  onDismiss: () => void;
+}
+
+// Notes whose title matches what is typed after [[
+export function NoteLinkSuggestions({ editor, noteId, suggestion, ...menuProps }: NoteLinkSuggestionsProps) {
+  const { data: notes = [] } = useNotes();
+
+  const items = useMemo((): SuggestionMenuItem[] => {
+    if (!editor || !suggestion) return [];
+    const query = suggestion.query.trim().toLowerCase();
+
+    return notes
+      .filter(note => note.id !== noteId && note.title.toLowerCase().includes(query))
+      // Titles starting with the query first, then most recently edited
+      .sort((a, b) =>
+        Number(!a.title.toLowerCase().startsWith(query)) - Number(!b.title.toLowerCase().startsWith(query)) ||
+        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+      )
+      .slice(0, MAX_SUGGESTIONS)
+      .map(note => ({
+        key: note.id,
+        label: note.title || 'Untitled',
+        icon: <FileText size={12} className="shrink-0 text-gray-400" />,
+        onSelect: ({ from, to }: Suggestion) => {
+          editor
+            .chain()
+            .focus()
+            .insertContentAt({ from, to }, [
+              { type: NOTE_LINK_TYPE, attrs: { id: note.id, title: note.title } },
+              { type: 'text', text: ' ' },
+            ])
+            .run();
+        },
+      }));
+  }, [editor, noteId, suggestion, notes]);
+
+  return <SuggestionMenu editor={editor} suggestion={suggestion} items={items} {...menuProps} />;
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, Link2, Lock, Trash2 } from 'lucide-react';
+import { useShareLinks, useCreateShareLink, useRevokeShareLink, shareUrl } from '@/hooks/useShareLinks';
+import { useToast } from '@/hooks/use-toast';
+import { formatRelativeTime } from '@/lib/utils';
+import { type ShareLinkInfo } from '@shared/schema';
+import { ShareWithPeople } from '@/components/ShareWithPeople';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const HOUR = 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS: Record<string, { label: string; duration: number | null }> = {
+  never: { label: 'Never', duration: null },
+  hour: { label: 'In 1 hour', duration: HOUR },
+  day: { label: 'In 1 day', duration: 24 * HOUR },
+  week: { label: 'In 7 days', duration: 7 * 24 * HOUR },
+  month: { label: 'In 30 days', duration: 30 * 24 * HOUR },
+};
+
+interface ShareDialogProps {
+  noteId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Shares a note with other users, and creates read-only links to it that
+// open without an account, listing the ones still active so they can be
+// copied or revoked
+export function ShareDialog({ noteId, open, onOpenChange }: ShareDialogProps) {
+  const { toast } = useToast();
+  const { data: shares = [], isLoading } = useShareLinks(noteId, open);
+  const { mutate: createShare, isPending: isCreating } = useCreateShareLink();
+  const { mutate: revokeShare } = useRevokeShareLink();
+  const [expiry, setExpiry] = useState('never');
+  const [password, setPassword] = useState('');
+
+  // Start from a plain link each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setExpiry('never');
+    setPassword('');
+  }, [open]);
+
+  const copyLink = async (share: ShareLinkInfo) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share));
+      toast({
+        title: 'Link copied',
+        description: share.hasPassword
+          ? 'Send the password separately'
+          : 'Anyone with the link can read this note',
+      });
+    } catch {
+      toast({
+        title: 'Failed to copy link',
+        description: shareUrl(share),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { duration } = EXPIRY_OPTIONS[expiry];
+    createShare(
+      {
+        noteId,
+        password: password || null,
+        expiresAt: duration === null ? null : new Date(Date.now() + duration),
+      },
+      {
+        onSuccess: (share) => {
+          setPassword('');
+          copyLink(share);
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Share note</DialogTitle>
+          <DialogDescription>
+            People you share with find the note under Shared with me.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">People</h4>
+          <ShareWithPeople target={{ noteId }} />
+        </div>
+        
+        <div className="space-y-1 border-t border-gray-800 pt-4">
+          <h4 className="text-sm font-medium">Links</h4>
+          <p className="text-sm text-gray-400">
+            Anyone with a link can read this note, without signing in. They see it as it is when they open it.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+          <div className="space-y-2">
+            <Label>Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(EXPIRY_OPTIONS).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="share-password">Password (optional)</Label>
+            <Input
+              id="share-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+            />
+          </div>
+          <Button type="submit" disabled={isCreating}>
+            <Link2 className="h-4 w-4 mr-1" />
+            Create link
+          </Button>
+        </form>
+
+        <div className="mt-2 space-y-2">
+          <h4 className="text-sm font-medium text-gray-400">Active links</h4>
+          {isLoading ? (
+            <p className="text-sm text-gray-400">Loading…</p>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-gray-400">This note has not been shared.</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {shares.map(share => (
+                <div key={share.id} className="flex items-center gap-2 rounded-md border border-gray-700 bg-gray-800/50 p-2">
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate font-mono text-xs text-gray-200">{shareUrl(share)}</div>
+                    <div className="flex items-center gap-1 text-xs text-gray-400">
+                      {share.hasPassword && <Lock size={11} className="shrink-0" />}
+                      <span>
+                        Created {formatRelativeTime(share.createdAt)}
+                        {' · '}
+                        {share.expiresAt
+                          ? `expires ${formatDistanceToNow(new Date(share.expiresAt), { addSuffix: true })}`
+                          : 'never expires'}
+                      </span>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    title="Copy link"
+                    onClick={() => copyLink(share)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-red-400 hover:text-red-300"
+                    title="Revoke link"
+                    onClick={() => revokeShare({ noteId, shareId: share.id })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Editor } from '@tiptap/react';
+import { Plugin, PluginKey, type EditorState } from '@tiptap/pm/state';
+import type { EditorView } from '@tiptap/pm/view';
+import { cn } from '@/lib/utils';
+
+// Autocomplete for text typed after a trigger such as # or [[, shared by the
+// hashtag and note link extensions
+
+// The trigger and the text typed after it, up to the cursor
+export interface Suggestion {
+  from: number;
+  to: number;
+  query: string;
+}
+
+export interface SuggestionOptions {
+  onSuggestion: (suggestion: Suggestion | null) => void;
+  // Keys pressed while a suggestion is open; returns true when handled
+  onSuggestionKeyDown: (event: KeyboardEvent) => boolean;
+}
+
+export const defaultSuggestionOptions: SuggestionOptions = {
+  onSuggestion: () => {},
+  onSuggestionKeyDown: () => false,
+};
+
+interface SuggestionPluginConfig {
+  key: PluginKey<Suggestion | null>;
+  trigger: string;
+  // Matched against the text before the cursor; its last group is the query
+  pattern: RegExp;
+  options: SuggestionOptions;
+  // Text typed while a suggestion is open; returns true when handled
+  handleTextInput?: (view: EditorView, suggestion: Suggestion, from: number, to: number, text: string) => boolean;
+}
+
+// Text of the cursor's block up to the cursor. Other inline nodes count as one
+// character that cannot be part of a query.
+export function textBeforeCursor(state: EditorState): string | null {
+  const { selection } = state;
+  if (!selection.empty || selection.$from.parent.type.spec.code) return null;
+  const { $from } = selection;
+  return $from.parent.textBetween(0, $from.parentOffset, undefined, '\ufffc');
+}
+
+function findSuggestion(state: EditorState, trigger: string, pattern: RegExp): Suggestion | null {
+  const text = textBeforeCursor(state);
+  const match = text !== null ? pattern.exec(text) : null;
+  if (!match) return null;
+
+  const query = match[match.length - 1] ?? '';
+  const to = state.selection.from;
+  return { from: to - query.length - trigger.length, to, query };
+}
+
+function sameSuggestion(a: Suggestion | null, b: Suggestion | null): boolean {
+  return a?.from === b?.from && a?.to === b?.to && a?.query === b?.query;
+}
+
+export function suggestionPlugin({ key, trigger, pattern, options, handleTextInput }: SuggestionPluginConfig) {
+  return new Plugin<Suggestion | null>({
+    key,
+    state: {
+      init: (_, state) => findSuggestion(state, trigger, pattern),
+      apply: (_, __, ___, state) => findSuggestion(state, trigger, pattern),
+    },
+    view: () => ({
+      update: (view, previousState) => {
+        const suggestion = key.getState(view.state) ?? null;
+        if (!sameSuggestion(suggestion, key.getState(previousState) ?? null)) {
+          options.onSuggestion(suggestion);
+        }
+      },
+      destroy: () => options.onSuggestion(null),
+    }),
+    props: {
+      handleKeyDown: (view, event) => {
+        if (!key.getState(view.state)) return false;
+        return options.onSuggestionKeyDown(event);
+      },
+      handleTextInput: (view, from, to, text) => {
+        const suggestion = key.getState(view.state);
+        if (!suggestion || !handleTextInput) return false;
+        return handleTextInput(view, suggestion, from, to, text);
+      },
+    },
+  });
+}
+
+// State for one kind of suggestion in an editor, wired up through
+// `options` and shown with <SuggestionMenu {...menuProps} />
+export function useSuggestion() {
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+  // Escape hides the menu until another suggestion is started
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+  const keyDownRef = useRef<(event: KeyboardEvent) => boolean>(() => false);
+
+  useEffect(() => {
+    if (!suggestion) setDismissedAt(null);
+  }, [suggestion]);
+
+  // The editor is only created once, so these must never change
+  const options = useRef<SuggestionOptions>({
+    onSuggestion: setSuggestion,
+    onSuggestionKeyDown: (event) => keyDownRef.current(event),
+  }).current;
+
+  return {
+    options,
+    menuProps: {
+      suggestion: suggestion?.from === dismissedAt ? null : suggestion,
+      keyDownRef,
+      onDismiss: () => setDismissedAt(suggestion?.from ?? null),
+    },
+  };
+}
+
+export interface SuggestionMenuItem {
+  key: string | number;
+  label: string;
+  icon?: React.ReactNode;
+  // Replaces the typed trigger and query
+  onSelect: (suggestion: Suggestion) => void;
+}
+
+interface SuggestionMenuProps {
+  editor: Editor | null;
+  suggestion: Suggestion | null;
+  items: SuggestionMenuItem[];
+  // Receives the key handler for the open menu, so the editor can forward keys to it
+  keyDownRef: React.MutableRefObject<(event: KeyboardEvent) => boolean>;
+  onDismiss: () => void;
+}
+
+// List shown under the text being typed
+export function SuggestionMenu({ editor, suggestion, items, keyDownRef, onDismiss }: SuggestionMenuProps) {
+  const [selected, setSelected] = useState(0);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [suggestion?.from, suggestion?.query]);
+
+  const pick = (item: SuggestionMenuItem) => {
+    if (suggestion) item.onSelect(suggestion);
+  };
+
+  keyDownRef.current = (event: KeyboardEvent) => {
+    if (!suggestion || items.length === 0) return false;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        setSelected(current => (current + 1) % items.length);
+        return true;
+      case 'ArrowUp':
+        setSelected(current => (current - 1 + items.length) % items.length);
+        return true;
+      case 'Enter':
+      case 'Tab':
+        pick(items[Math.min(selected, items.length - 1)]);
+        return true;
+      case 'Escape':
+        onDismiss();
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  if (!editor || !suggestion || items.length === 0) return null;
+
+  const coords = editor.view.coordsAtPos(suggestion.from);
+
+  return (
+    <div
+      className="fixed z-50 min-w-[180px] max-w-[280px] rounded-md border border-gray-700 bg-gray-900 p-1 shadow-lg"
+      style={{ top: coords.bottom + 4, left: coords.left }}
+      // Keep the editor focused while picking with the mouse
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {items.map((item, index) => (
+        <button
+          key={item.key}
+          className={cn(
+            'flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-sm text-gray-200',
+            index === selected ? 'bg-gray-800 text-white' : 'hover:bg-gray-800'
+          )}
+          onMouseEnter={() => setSelected(index)}
+          onClick={() => pick(item)}
+        >
+          {item.icon}
+          <span className="truncate">{item.label}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -10,14 +10,26 @@ import Table from '@tiptap/extension-table';
 import TableRow from '@tiptap/extension-table-row';
 import TableCell from '@tiptap/extension-table-cell';
 import TableHeader from '@tiptap/extension-table-header';
-import { useUpdateNote } from '@/hooks/useNotes';
+import Collaboration from '@tiptap/extension-collaboration';
+import CollaborationCursor from '@tiptap/extension-collaboration-cursor';
+import { CodeBlock } from './CodeBlock';
+import { Hashtag, HashtagSuggestions } from './Hashtag';
+import { NoteLink, NoteLinkSuggestions } from './NoteLink';
+import { useSuggestion } from './SuggestionMenu';
+import { useNotes, useUpdateNote, NoteConflictError } from '@/hooks/useNotes';
+import { useHashtagSync } from '@/hooks/useHashtagSync';
+import { useCollaboration } from '@/hooks/useCollaboration';
 import { debounce } from '@/lib/utils';
 import { Toolbar } from './Toolbar';
+import { ConflictDialog } from './ConflictDialog';
 import { VoiceDictation } from '@/components/VoiceDictation';
 import { NoteWithTags } from '@shared/schema';
+import { hasRole, noteRole } from '@shared/permissions';
+import { COLLAB_FRAGMENT } from '@shared/collab';
 import { toast } from '@/hooks/use-toast';
 import { useSettings } from '@/context/SettingsContext';
 import { saveOfflineNote } from '@/lib/offlineStorage';
+import { queryClient } from '@/lib/queryClient';
 
 interface TipTapEditorProps {
   content: string;
@@ -34,17 +46,48 @@ export function TipTapEditor({ content, noteId, note }: TipTapEditorProps) {
   const autoSaveEnabled = voiceSettings.autoSave;
   const lastSavedContent = useRef(content);
   const autoSaveInterval = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Version of the note our unsaved edits are based on
+  const baseVersion = useRef(note?.version);
+  const [conflict, setConflict] = useState<{ localContent: string; serverNote: NoteWithTags } | null>(null);
+  const hasConflict = useRef(false);
+  const hashtag = useSuggestion();
+  const noteLink = useSuggestion();
+  // Notes shared by someone else are read-only below the editor role, and
+  // never kept offline: the offline copy holds the user's own notes
+  const role = note ? noteRole(note) : 'owner';
+  const canEdit = hasRole(role, 'editor');
+  const isOwnNote = role === 'owner';
+  // Editors edit together live while online. The server then saves the
+  // merged document, taking over from the saves below.
+  const collab = useCollaboration(noteId, canEdit);
+  const [isSynced, setIsSynced] = useState(false);
+  const [seedRequested, setSeedRequested] = useState(false);
+  const [savedVersion, setSavedVersion] = useState<number | null>(null);
+  // Latest version of the note the shared document is known to match
+  const collabVersion = useRef(note?.version);
+  
+  // Typed [[Title]] links are resolved after the editor was created, so through a ref.
+  // The user's own notes mean nothing to the owner of a shared note.
+  const { data: notes = [] } = useNotes();
+  const linkableNotes = useRef(notes);
+  linkableNotes.current = isOwnNote ? notes.filter(n => n.id !== noteId) : [];
+  
+  const openConflict = (localContent: string, serverNote: NoteWithTags) => {
+    hasConflict.current = true;
+    setConflict({ localContent, serverNote });
+  };
   
   // Create a debounced save function
   const debouncedSave = useCallback(
     debounce((newContent: string) => {
-      if (newContent === lastSavedContent.current) return;
+      if (newContent === lastSavedContent.current || hasConflict.current) return;
       
       // Save to server
       updateNote(
-        { id: noteId, note: { content: newContent } },
+        { id: noteId, note: { content: newContent }, version: baseVersion.current },
         {
-          onSuccess: () => {
+          onSuccess: (updatedNote) => {
+            baseVersion.current = updatedNote.version;
             setIsSaved(true);
             lastSavedContent.current = newContent;
             toast({
@@ -54,13 +97,18 @@ export function TipTapEditor({ content, noteId, note }: TipTapEditorProps) {
               duration: 2000
             });
           },
-          onError: (error) => {
+          onError: async (error) => {
+            if (error instanceof NoteConflictError) {
+              openConflict(newContent, error.serverNote);
+              return;
+            }
+            
             console.error('Failed to save note:', error);
             
             // Save offline if online save fails
-            if (note) {
+            if (note && isOwnNote) {
               try {
-                saveOfflineNote({
+                await saveOfflineNote({
                   ...note,
                   content: newContent,
                   updatedAt: new Date(),
@@ -87,10 +135,25 @@ export function TipTapEditor({ content, noteId, note }: TipTapEditorProps) {
     [noteId, note]
   );
   
-  // Initialize editor
+  const save = (newContent: string) => {
+    setIsSaved(false);
+    if (collab) {
+      // The server holds off saving until editors pause
+      collab.sendContent(newContent);
+    } else {
+      debouncedSave(newContent);
+    }
+  };
+  
+  // Initialize editor, again whenever collaboration starts or stops
   const editor = useEditor({
     extensions: [
-      StarterKit,
+      StarterKit.configure({
+        // Replaced by the highlighted CodeBlock below
+        codeBlock: false,
+        // Undo is per user in the shared document, see Collaboration
+        ...(collab && { history: false }),
+      }),
       Underline,
       Link.configure({
         openOnClick: true,
@@ -107,29 +170,139 @@ export function TipTapEditor({ content, noteId, note }: TipTapEditorProps) {
       TableRow,
       TableCell,
       TableHeader,
+      CodeBlock,
+      Hashtag.configure(hashtag.options),
+      NoteLink.configure({
+        ...noteLink.options,
+        findNote: (title) => linkableNotes.current.find(n => n.title.toLowerCase() === title.toLowerCase()),
+      }),
+      ...(collab ? [
+        Collaboration.configure({
+          document: collab.doc,
+          field: COLLAB_FRAGMENT,
+        }),
+        CollaborationCursor.configure({
+          provider: collab,
+          user: collab.awareness.getLocalState()?.user,
+          selectionRender: (user) => ({
+            nodeName: 'span',
+            class: 'collaboration-cursor__selection',
+            // Translucent, so the selected text stays readable
+            style: `background-color: ${user.color}33`,
+          }),
+        }),
+      ] : []),
     ],
-    content: content,
+    // The shared document brings its own content
+    content: collab ? undefined : content,
+    // Editable once caught up with the others
+    editable: canEdit && !collab,
     editorProps: {
       attributes: {
         class: 'prose prose-invert prose-sm sm:prose-base lg:prose-lg xl:prose-xl max-w-none focus:outline-none',
       },
     },
     onUpdate: ({ editor }) => {
-      setIsSaved(false);
-      const newContent = editor.getHTML();
-      debouncedSave(newContent);
+      save(editor.getHTML());
+      syncHashtags();
     },
-    autofocus: 'end',
-  });
+    autofocus: canEdit && !collab ? 'end' : false,
+  }, [collab]);
+  
+  // Hashtags turn into tags of the owner, so only they get them synced
+  const syncHashtags = useHashtagSync(editor, isOwnNote ? note : null);
+  
+  // The role can change while the note is open, e.g. after a refetch
+  useEffect(() => {
+    editor?.setEditable(canEdit && (!collab || isSynced));
+  }, [editor, canEdit, collab, isSynced]);
+  
+  useEffect(() => {
+    setIsSynced(false);
+    setSeedRequested(false);
+    setSavedVersion(null);
+    if (!collab) return;
+    
+    const onSynced = () => {
+      collabVersion.current = queryClient.getQueryData<NoteWithTags | null>(['/api/notes', noteId])?.version;
+      setIsSynced(true);
+    };
+    // The note may have been saved some other way since it was loaded
+    const onSeed = () => {
+      queryClient.refetchQueries({ queryKey: ['/api/notes', noteId] })
+        .finally(() => setSeedRequested(true));
+    };
+    const onSaved = (version: number) => setSavedVersion(version);
+    collab.on('synced', onSynced);
+    collab.on('seed', onSeed);
+    collab.on('saved', onSaved);
+    return () => {
+      collab.off('synced', onSynced);
+      collab.off('seed', onSeed);
+      collab.off('saved', onSaved);
+    };
+  }, [collab]);
+  
+  // A note nobody has edited together yet starts out as its saved content,
+  // as does one saved some other way while it was being edited
+  useEffect(() => {
+    if (!editor || !collab || !seedRequested) return;
+    setSeedRequested(false);
+    const latest = queryClient.getQueryData<NoteWithTags | null>(['/api/notes', noteId]);
+    collabVersion.current = latest?.version ?? collabVersion.current;
+    editor.commands.setContent(latest?.content ?? content);
+    collab.sendContent(editor.getHTML());
+  }, [editor, collab, seedRequested]);
   
-  // Update editor content when prop changes
+  // Edits made while the connection was down were merged when it came back
   useEffect(() => {
+    if (editor && collab && isSynced && !isSaved) {
+      collab.sendContent(editor.getHTML());
+    }
+  }, [isSynced]);
+  
+  // Keep the cached note (and the offline copy of our own) in line with what
+  // the server saved, so the note opens as it was left
+  useEffect(() => {
+    if (!editor || !note || savedVersion === null) return;
+    baseVersion.current = savedVersion;
+    collabVersion.current = savedVersion;
+    lastSavedContent.current = editor.getHTML();
+    setIsSaved(true);
+    
+    const saved = { ...note, content: lastSavedContent.current, version: savedVersion, updatedAt: new Date() };
+    queryClient.setQueryData(['/api/notes', noteId], saved);
+    if (isOwnNote) {
+      saveOfflineNote(saved).catch(error => console.error('Failed to save note offline:', error));
+    }
+  }, [savedVersion]);
+  
+  // Edits from now on are based on whatever version the server last gave us
+  useEffect(() => {
+    if (note?.version !== undefined) {
+      baseVersion.current = note.version;
+    }
+  }, [note?.version]);
+  
+  // Update editor content when prop changes. The shared document is updated
+  // by the others directly, so it only takes content saved some other way,
+  // such as a restored revision, and passes it on to them.
+  useEffect(() => {
+    if (collab) {
+      if (!editor || !isSynced || !note || (collabVersion.current ?? 0) >= note.version) return;
+      collabVersion.current = note.version;
+      if (editor.getHTML() !== content) {
+        editor.commands.setContent(content);
+        save(editor.getHTML());
+      }
+      return;
+    }
     if (editor && content && editor.getHTML() !== content) {
       editor.commands.setContent(content);
       setIsSaved(true);
       lastSavedContent.current = content;
     }
-  }, [editor, content]);
+  }, [editor, collab, isSynced, content, note?.version]);
   
   // Set up auto-save interval
   useEffect(() => {
@@ -140,17 +313,18 @@ export function TipTapEditor({ content, noteId, note }: TipTapEditorProps) {
     }
     
     // If auto-save is enabled and we have an editor, set up the interval
-    if (autoSaveEnabled && editor) {
+    if (autoSaveEnabled && editor && !collab) {
       autoSaveInterval.current = setInterval(() => {
         const currentContent = editor.getHTML();
         
         // Only save if content has changed and is not empty
-        if (currentContent && currentContent !== lastSavedContent.current) {
+        if (currentContent && currentContent !== lastSavedContent.current && !hasConflict.current) {
           console.log('Auto-saving note...');
           updateNote(
-            { id: noteId, note: { content: currentContent } },
+            { id: noteId, note: { content: currentContent }, version: baseVersion.current },
             {
-              onSuccess: () => {
+              onSuccess: (updatedNote) => {
+                baseVersion.current = updatedNote.version;
                 setIsSaved(true);
                 lastSavedContent.current = currentContent;
                 toast({
@@ -160,13 +334,18 @@ export function TipTapEditor({ content, noteId, note }: TipTapEditorProps) {
                   duration: 2000
                 });
               },
-              onError: (error) => {
+              onError: async (error) => {
+                if (error instanceof NoteConflictError) {
+                  openConflict(currentContent, error.serverNote);
+                  return;
+                }
+                
                 console.error('Auto-save failed:', error);
                 
                 // Save offline if online save fails
-                if (note) {
+                if (note && isOwnNote) {
                   try {
-                    saveOfflineNote({
+                    await saveOfflineNote({
                       ...note,
                       content: currentContent,
                       updatedAt: new Date(),
@@ -194,7 +373,7 @@ export function TipTapEditor({ content, noteId, note }: TipTapEditorProps) {
         clearInterval(autoSaveInterval.current);
       }
     };
-  }, [autoSaveEnabled, editor, noteId, note, updateNote]);
+  }, [autoSaveEnabled, editor, collab, noteId, note, updateNote]);
 
   // Handle voice transcription
   const handleTranscript = (transcript: string) => {
@@ -204,12 +383,49 @@ export function TipTapEditor({ content, noteId, note }: TipTapEditorProps) {
       editor.chain().focus().insertContentAt(currentPosition, transcript).run();
       
       // Save the content
-      const newContent = editor.getHTML();
-      setIsSaved(false);
-      debouncedSave(newContent);
+      save(editor.getHTML());
     }
   };
 
+  // Overwrite the server copy with the content from this editor
+  const keepMine = () => {
+    if (!conflict) return;
+    const { localContent, serverNote } = conflict;
+    hasConflict.current = false;
+    setConflict(null);
+    
+    updateNote(
+      { id: noteId, note: { content: localContent }, version: serverNote.version },
+      {
+        onSuccess: (updatedNote) => {
+          baseVersion.current = updatedNote.version;
+          lastSavedContent.current = localContent;
+          setIsSaved(true);
+        },
+        onError: (error) => {
+          // Someone saved again in the meantime
+          if (error instanceof NoteConflictError) {
+            openConflict(localContent, error.serverNote);
+          }
+        }
+      }
+    );
+  };
+  
+  // Drop local edits and load the server copy
+  const keepTheirs = () => {
+    if (!conflict) return;
+    const { serverNote } = conflict;
+    hasConflict.current = false;
+    setConflict(null);
+    
+    baseVersion.current = serverNote.version;
+    lastSavedContent.current = serverNote.content;
+    editor?.commands.setContent(serverNote.content);
+    setIsSaved(true);
+    queryClient.setQueryData(['/api/notes', noteId], serverNote);
+  };
+  
   // Toggle Markdown mode
   const toggleMarkdownMode = () => {
     setIsMarkdownMode(!isMarkdownMode);
@@ -238,6 +454,8 @@ export function TipTapEditor({ content, noteId, note }: TipTapEditorProps) {
           {/* Editor content with syntax highlighting styles */}
           <div className={`markdown-editor ${isMarkdownMode ? 'markdown-mode' : ''}`}>
             <EditorContent editor={editor} className="min-h-[300px]" />
+            <HashtagSuggestions editor={editor} {...hashtag.menuProps} />
+            <NoteLinkSuggestions editor={editor} noteId={noteId} {...noteLink.menuProps} />
           </div>
           
           {isListening && (
@@ -256,6 +474,14 @@ export function TipTapEditor({ content, noteId, note }: TipTapEditorProps) {
         </div>
       </div>
       
+      <ConflictDialog
+        open={conflict !== null}
+        localContent={conflict?.localContent ?? ''}
+        serverNote={conflict?.serverNote ?? null}
+        onKeepMine={keepMine}
+        onUseServer={keepTheirs}
+      />
+      
       {/* Add styles for code blocks with syntax highlighting */}
       <style dangerouslySetInnerHTML={{ __html: `
         .ProseMirror pre {
@@ -280,6 +506,54 @@ export function TipTapEditor({ content, noteId, note }: TipTapEditorProps) {
           padding: 0;
         }
         
+        .ProseMirror .code-block {
+          position: relative;
+        }
+        
+        .ProseMirror .code-block pre {
+          padding-top: 2.25em;
+        }
+        
+        .ProseMirror .hashtag,
+        .ProseMirror .note-link {
+          display: inline-block;
+          vertical-align: baseline;
+        }
+        
+        .ProseMirror .code-block-header {
+          position: absolute;
+          top: 0.4em;
+          right: 0.5em;
+          display: flex;
+          align-items: center;
+          gap: 0.25em;
+        }
+        
+        .collaboration-cursor__caret {
+          position: relative;
+          margin-left: -1px;
+          margin-right: -1px;
+          border-left: 1px solid;
+          border-right: 1px solid;
+          word-break: normal;
+          pointer-events: none;
+        }
+        
+        .collaboration-cursor__label {
+          position: absolute;
+          top: -1.4em;
+          left: -1px;
+          padding: 0.1em 0.3em;
+          border-radius: 3px 3px 3px 0;
+          color: #111827;
+          font-size: 12px;
+          font-style: normal;
+          font-weight: 600;
+          line-height: normal;
+          white-space: nowrap;
+          user-select: none;
+        }
+        
         .markdown-mode .ProseMirror {
           font-family: 'Menlo', Monaco, 'Courier New', monospace;
         }
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { Editor } from "@tiptap/react";
 import { 
   Bold, 
@@ -16,7 +17,8 @@ import {
   Share, 
   MoreVertical,
   FileText,
-  TerminalSquare
+  TerminalSquare,
+  History
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToggleFavorite, useExportNote } from "@/hooks/useNotes";
@@ -28,6 +30,9 @@ import {
   DropdownMenuSeparator 
 } from "@/components/ui/dropdown-menu";
 import { NoteWithTags } from "@shared/schema";
+import { hasRole, noteRole } from "@shared/permissions";
+import { HistoryPanel } from "./HistoryPanel";
+import { ShareDialog } from "./ShareDialog";
 
 interface ToolbarProps {
   editor: Editor | null;
@@ -50,6 +55,11 @@ export function Toolbar({
 }: ToolbarProps) {
   const { mutate: toggleFavorite } = useToggleFavorite();
   const { exportNote } = useExportNote();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const role = note ? noteRole(note) : 'owner';
+  const canEdit = hasRole(role, 'editor');
+  const isOwner = role === 'owner';
   
   if (!editor) {
     return null;
@@ -60,15 +70,14 @@ export function Toolbar({
       .focus()
       .insertContent({
         type: 'codeBlock',
-        attrs: { language },
-        content: [{ type: 'text', text: '' }]
+        attrs: { language }
       })
       .run();
   };
   
   return (
     <div className="border-b border-gray-800 bg-[#323232] p-2 flex items-center editor-toolbar">
-      <div className="flex items-center space-x-1 mr-2">
+      {canEdit && <div className="flex items-center space-x-1 mr-2">
         <button
           onClick={() => editor.chain().focus().toggleBold().run()}
           className={cn(
@@ -109,11 +118,11 @@ export function Toolbar({
         >
           <Strikethrough size={16} />
         </button>
-      </div>
+      </div>}
       
-      <div className="h-5 w-px bg-gray-700 mx-2"></div>
+      {canEdit && <div className="h-5 w-px bg-gray-700 mx-2"></div>}
       
-      <div className="flex items-center space-x-1 mr-2">
+      {canEdit && <div className="flex items-center space-x-1 mr-2">
         <button
           onClick={() => editor.chain().focus().toggleHeading({ level: 1 }).run()}
           className={cn(
@@ -154,11 +163,11 @@ export function Toolbar({
         >
           <CheckSquare size={16} />
         </button>
-      </div>
+      </div>}
       
-      <div className="h-5 w-px bg-gray-700 mx-2"></div>
+      {canEdit && <div className="h-5 w-px bg-gray-700 mx-2"></div>}
       
-      <div className="flex items-center space-x-1">
+      {canEdit && <div className="flex items-center space-x-1">
         <button
           onClick={() => {
             const url = window.prompt('URL');
@@ -242,10 +251,10 @@ export function Toolbar({
         >
           <Table size={16} />
         </button>
-      </div>
+      </div>}
       
       <div className="ml-auto flex items-center gap-3">
-        {voiceDictation && (
+        {canEdit && voiceDictation && (
           <>
             {voiceDictation}
             <div className="h-5 w-px bg-gray-700 mx-2"></div>
@@ -274,22 +283,34 @@ export function Toolbar({
           {isSaved ? "Saved" : "Saving..."}
         </span>
         <div className="flex items-center gap-2">
-          <button 
-            className={cn(
-              "p-1.5 rounded-md hover:bg-gray-700 transition-colors",
-              note?.isFavorite ? "text-yellow-400" : "text-gray-400 hover:text-white"
-            )}
-            onClick={() => toggleFavorite(noteId)}
-            title={note?.isFavorite ? "Remove from favorites" : "Add to favorites"}
-          >
-            <Star size={16} className={note?.isFavorite ? "fill-yellow-400" : ""} />
-          </button>
+          {isOwner && (
+            <button 
+              className={cn(
+                "p-1.5 rounded-md hover:bg-gray-700 transition-colors",
+                note?.isFavorite ? "text-yellow-400" : "text-gray-400 hover:text-white"
+              )}
+              onClick={() => toggleFavorite(noteId)}
+              title={note?.isFavorite ? "Remove from favorites" : "Add to favorites"}
+            >
+              <Star size={16} className={note?.isFavorite ? "fill-yellow-400" : ""} />
+            </button>
+          )}
           <button 
             className="p-1.5 rounded-md hover:bg-gray-700 transition-colors text-gray-400 hover:text-white"
-            title="Share note"
+            onClick={() => setIsHistoryOpen(true)}
+            title="Version history"
           >
-            <Share size={16} />
+            <History size={16} />
           </button>
+          {isOwner && (
+            <button 
+              className="p-1.5 rounded-md hover:bg-gray-700 transition-colors text-gray-400 hover:text-white"
+              onClick={() => setIsShareOpen(true)}
+              title="Share note"
+            >
+              <Share size={16} />
+            </button>
+          )}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <button className="p-1.5 rounded-md hover:bg-gray-700 transition-colors text-gray-400 hover:text-white">
@@ -306,14 +327,32 @@ export function Toolbar({
               <DropdownMenuItem onClick={() => exportNote(noteId, 'json')}>
                 Export as JSON
               </DropdownMenuItem>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem onClick={() => editor.chain().focus().clearContent().run()}>
-                Clear Content
-              </DropdownMenuItem>
+              {canEdit && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => editor.chain().focus().clearContent().run()}>
+                    Clear Content
+                  </DropdownMenuItem>
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
       </div>
+      
+      <HistoryPanel 
+        noteId={noteId} 
+        open={isHistoryOpen} 
+        onOpenChange={setIsHistoryOpen} 
+        canRestore={canEdit}
+      />
+      {isOwner && (
+        <ShareDialog
+          noteId={noteId}
+          open={isShareOpen}
+          onOpenChange={setIsShareOpen}
+        />
+      )}
     </div>
   );
 }
@@ -1,167 +1,107 @@
 import { createContext, useState, useEffect, useContext, ReactNode } from 'react';
-import { 
-  auth, 
-  signInWithGoogle, 
-  signInWithEmail, 
-  registerWithEmailAndPassword, 
-  signOutUser, 
-  checkRedirectResult 
-} from '@/lib/firebase';
-import { onAuthStateChanged, User } from 'firebase/auth';
+import { type PublicUser } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { claimOfflineData, discardOfflineData, replayOutbox } from '@/lib/offlineSync';
+import { cancelCloudBackup } from '@/lib/cloudBackup';
 import { toast } from '@/hooks/use-toast';
 
 interface AuthContextType {
-  currentUser: User | null;
+  currentUser: PublicUser | null;
   isLoading: boolean;
-  login: () => Promise<void>;
-  loginWithEmail: (email: string, password: string) => Promise<User>;
-  register: (email: string, password: string, displayName: string) => Promise<User>;
+  login: (username: string, password: string) => Promise<PublicUser>;
+  register: (username: string, password: string, displayName: string) => Promise<PublicUser>;
   logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+// Pulls the server's `{ message }` out of an apiRequest error ("401: {...}")
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+
+  const body = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [currentUser, setCurrentUser] = useState<PublicUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Check for redirect result when component mounts
+  // Restore the session from the server when the app loads
   useEffect(() => {
-    const checkAuth = async () => {
+    const checkSession = async () => {
       try {
-        // Check if we're returning from a redirect
-        console.log("Checking redirect result from AuthContext...");
-        const user = await checkRedirectResult();
-        if (user) {
-          console.log("Redirect sign-in successful, user:", user.uid);
-        } else {
-          console.log("No redirect result in AuthContext");
+        const res = await fetch('/api/auth/me', { credentials: 'include' });
+        if (res.ok) {
+          const user: PublicUser = await res.json();
+          await claimOfflineData(user.id);
+          setCurrentUser(user);
         }
       } catch (error) {
-        console.error("Error checking redirect result in AuthContext:", error);
-        toast({
-          title: "Authentication Error",
-          description: "There was a problem with the authentication process. Please try again.",
-          variant: "destructive",
-        });
+        console.error("Error restoring session:", error);
+      } finally {
+        setIsLoading(false);
       }
     };
-    
-    checkAuth();
-  }, []);
 
-  // Handle auth state for demo purposes
-  useEffect(() => {
-    // For demo, we'll check localStorage for a simulated user session
-    const storedUser = localStorage.getItem('demo_user');
-    
-    if (storedUser) {
-      try {
-        const user = JSON.parse(storedUser);
-        setCurrentUser(user as User);
-        console.log("Restored demo user session:", user);
-      } catch (error) {
-        console.error("Error parsing stored user:", error);
-        localStorage.removeItem('demo_user');
-      }
-    }
-    
-    // Complete loading
-    setIsLoading(false);
-    
-    // Add a simulated listener effect to match Firebase behavior
-    const simulatedListener = () => {
-      console.log("Simulated auth state listener running");
-      return () => console.log("Simulated auth listener cleanup");
-    };
-    
-    return simulatedListener();
+    checkSession();
   }, []);
 
-  const login = async () => {
+  const login = async (username: string, password: string): Promise<PublicUser> => {
     try {
       setIsLoading(true);
-      // Get mock user from Google auth function
-      const result = await signInWithGoogle();
-      const user = result.user as User;
-      
-      // Store user in state
-      setCurrentUser(user);
-      
-      // Store in localStorage for demo persistence
-      localStorage.setItem('demo_user', JSON.stringify(user));
-      
-      toast({
-        title: "Signed in with Google",
-        description: `Welcome ${user.displayName || 'User'}!`,
-        variant: "default",
-      });
-      
-      return user;
-    } catch (error) {
-      setIsLoading(false);
-      toast({
-        title: "Sign in failed",
-        description: "There was a problem signing in with Google",
-        variant: "destructive",
-      });
-      console.error("Login error:", error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+      const res = await apiRequest('POST', '/api/auth/login', { username, password });
+      const user: PublicUser = await res.json();
 
-  const loginWithEmail = async (email: string, password: string): Promise<User> => {
-    try {
-      setIsLoading(true);
-      // Get mock user from email auth function
-      const user = await signInWithEmail(email, password);
-      
-      // Store user in state and localStorage
+      await claimOfflineData(user.id);
       setCurrentUser(user);
-      localStorage.setItem('demo_user', JSON.stringify(user));
-      
+      queryClient.invalidateQueries();
+
       toast({
         title: "Signed in",
-        description: `Welcome ${user.displayName || 'User'}!`,
+        description: `Welcome ${user.displayName || user.username}!`,
         variant: "default",
       });
-      
+
       return user;
     } catch (error) {
       toast({
         title: "Sign in failed",
-        description: "Invalid email or password",
+        description: getErrorMessage(error, "Invalid username or password"),
         variant: "destructive",
       });
-      console.error("Email login error:", error);
+      console.error("Login error:", error);
       throw error;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const register = async (email: string, password: string, displayName: string): Promise<User> => {
+  const register = async (username: string, password: string, displayName: string): Promise<PublicUser> => {
     try {
       setIsLoading(true);
-      // Get mock user from registration function
-      const user = await registerWithEmailAndPassword(email, password, displayName);
-      
-      // Store user in state and localStorage
+      const res = await apiRequest('POST', '/api/auth/register', { username, password, displayName });
+      const user: PublicUser = await res.json();
+
+      await claimOfflineData(user.id);
       setCurrentUser(user);
-      localStorage.setItem('demo_user', JSON.stringify(user));
-      
+      queryClient.invalidateQueries();
+
       toast({
         title: "Account created",
         description: "Your account has been created successfully",
         variant: "default",
       });
-      
+
       return user;
     } catch (error) {
       toast({
         title: "Registration failed",
-        description: "There was a problem creating your account",
+        description: getErrorMessage(error, "There was a problem creating your account"),
         variant: "destructive",
       });
       console.error("Registration error:", error);
@@ -174,12 +114,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const logout = async () => {
     try {
       setIsLoading(true);
-      await signOutUser();
-      
-      // Clear user from state and localStorage
+      // Send what is still queued while we are signed in to receive it
+      await replayOutbox();
+      await apiRequest('POST', '/api/auth/logout');
+
+      // Drop everything cached or kept offline for the previous user
       setCurrentUser(null);
-      localStorage.removeItem('demo_user');
-      
+      queryClient.clear();
+      cancelCloudBackup();
+      await discardOfflineData();
+
       toast({
         title: "Signed out",
         description: "You have been successfully signed out",
@@ -201,7 +145,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     currentUser,
     isLoading,
     login,
-    loginWithEmail,
     register,
     logout,
   };
@@ -215,4 +158,4 @@ export function useAuth() {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-}
\ No newline at end of file
+}
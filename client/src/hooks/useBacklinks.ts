@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { type Backlink } from "@shared/schema";
+
+// Notes linking to a note with [[Title]]. Lives under the note's key, so
+// saving any note refreshes it along with the rest of the note queries.
+export function useBacklinks(noteId: number) {
+  return useQuery<Backlink[]>({
+    queryKey: ['/api/notes', noteId, 'backlinks'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/notes/${noteId}/backlinks`);
+      return res.json();
+    }
+  });
+}
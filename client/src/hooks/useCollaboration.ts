@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { isOffline } from "@/lib/offlineStorage";
+import { CollabProvider, type CollabSocket } from "@shared/collabProvider";
+import { collabPath, userColor } from "@shared/collab";
+
+// Opens the collaboration socket of a note while `enabled`, with the current
+// user announced for their cursor. Returns null when collaboration is off or
+// the socket could not be opened in the first place (offline, or the server
+// refused it), so the editor falls back to saving through the API; once
+// connected, dropped connections are retried by the provider.
+export function useCollaboration(noteId: number, enabled: boolean): CollabProvider | null {
+  const { currentUser } = useAuth();
+  const [provider, setProvider] = useState<CollabProvider | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !currentUser || isOffline()) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const url = `${protocol}//${window.location.host}${collabPath(noteId)}`;
+    const collab = new CollabProvider(() => new WebSocket(url) as unknown as CollabSocket);
+    collab.awareness.setLocalStateField("user", {
+      name: currentUser.displayName || currentUser.username,
+      color: userColor(currentUser.id),
+    });
+
+    let connected = false;
+    collab.on("status", (status) => {
+      if (status === "connected") {
+        connected = true;
+      } else if (status === "disconnected" && !connected) {
+        collab.destroy();
+        setProvider(null);
+      }
+    });
+    setProvider(collab);
+
+    return () => {
+      collab.destroy();
+      setProvider(null);
+    };
+  }, [noteId, enabled, currentUser?.id]);
+
+  return provider;
+}
@@ -0,0 +1,101 @@
+import { useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { type Collaborator, type NoteWithTags, type PublicUser, type SharedNote, type ShareRole } from "@shared/schema";
+import { isSharedNote, sharesForNote } from "@shared/permissions";
+import { useToast } from "@/hooks/use-toast";
+import { useNotebooks } from "@/hooks/useNotebooks";
+import { useAuth } from "@/context/AuthContext";
+
+// Everyone the user shared a note or notebook with
+export function useCollaborators() {
+  return useQuery<Collaborator[]>({
+    queryKey: ['/api/collaborators'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/collaborators');
+      return res.json();
+    }
+  });
+}
+
+// The owner of a note followed by everyone it is shared with, directly or
+// through a notebook; empty while the note is not shared at all
+export function useNoteMembers(note: NoteWithTags): PublicUser[] {
+  const { currentUser } = useAuth();
+  const { data: collaborators = [] } = useCollaborators();
+  const { data: notebooks = [] } = useNotebooks();
+  
+  return useMemo(() => {
+    if (isSharedNote(note)) return [note.owner, ...note.collaborators];
+    if (!currentUser) return [];
+    
+    const notebooksById = new Map(notebooks.map(notebook => [notebook.id, notebook]));
+    const users = new Map(sharesForNote(note, collaborators, notebooksById).map(({ user }) => [user.id, user]));
+    return users.size > 0 ? [currentUser, ...Array.from(users.values())] : [];
+  }, [note, currentUser, collaborators, notebooks]);
+}
+
+// Notes other users shared with the user. Lives under the notes key, so
+// saving a note refreshes it too.
+export function useSharedNotes(enabled = true) {
+  return useQuery<SharedNote[]>({
+    queryKey: ['/api/notes', 'shared'],
+    enabled,
+    refetchOnMount: 'always',
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/shared-notes');
+      return res.json();
+    }
+  });
+}
+
+export function useShareWithUser() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async (share: {
+      noteId?: number,
+      notebookId?: number,
+      username: string,
+      role: ShareRole
+    }): Promise<Collaborator> => {
+      const res = await apiRequest('POST', '/api/collaborators', share);
+      return res.json();
+    },
+    onSuccess: (collaborator) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/collaborators'] });
+      toast({
+        title: "Shared",
+        description: `${collaborator.user.displayName || collaborator.user.username} can now open it as ${collaborator.role}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to share",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useRemoveCollaborator() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('DELETE', `/api/collaborators/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/collaborators'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to remove access",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
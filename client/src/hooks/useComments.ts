@@ -0,0 +1,56 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { type NoteCommentWithAuthor } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export function useComments(noteId: number) {
+  return useQuery<NoteCommentWithAuthor[]>({
+    queryKey: ['/api/notes', noteId, 'comments'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/notes/${noteId}/comments`);
+      return res.json();
+    }
+  });
+}
+
+export function useAddComment() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ noteId, content }: { noteId: number, content: string }): Promise<NoteCommentWithAuthor> => {
+      const res = await apiRequest('POST', `/api/notes/${noteId}/comments`, { content });
+      return res.json();
+    },
+    onSuccess: (_, { noteId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notes', noteId, 'comments'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useDeleteComment() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ noteId, commentId }: { noteId: number, commentId: number }) => {
+      const res = await apiRequest('DELETE', `/api/notes/${noteId}/comments/${commentId}`);
+      return res.json();
+    },
+    onSuccess: (_, { noteId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notes', noteId, 'comments'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useRef } from "react";
+import type { Editor } from "@tiptap/react";
+import { type NoteWithTags, type Tag } from "@shared/schema";
+import { TAG_PATH_SEPARATOR, tagPath } from "@shared/hierarchy";
+import { useTags, useCreateTag, useAddTagToNote, useRemoveTagFromNote } from "@/hooks/useTags";
+import { findHashtags, hashtagIdsInHtml, type HashtagAttributes } from "@/components/editor/Hashtag";
+import { debounce } from "@/lib/utils";
+
+// Keeps a note's tags in line with the #hashtags in its content. Hashtags
+// without a tag yet get one (created if need be), tags are attached when a
+// hashtag is added and detached when the note's last hashtag for them is
+// removed. Tags added some other way are left alone.
+//
+// Returns the function to call after each edit.
+export function useHashtagSync(editor: Editor | null, note: NoteWithTags | null) {
+  const { data: tags = [] } = useTags();
+  const { mutateAsync: createTag } = useCreateTag();
+  const { mutate: addTag } = useAddTagToNote();
+  const { mutate: removeTag } = useRemoveTagFromNote();
+
+  // The sync runs after a delay, so it reads everything through refs
+  const latest = useRef({ editor, note, tags, createTag, addTag, removeTag });
+  latest.current = { editor, note, tags, createTag, addTag, removeTag };
+
+  // Tags hashtagged as of the last sync
+  const hashtagged = useRef<Set<number>>(new Set());
+  const syncing = useRef<Promise<void> | null>(null);
+
+  useEffect(() => {
+    hashtagged.current = note ? hashtagIdsInHtml(note.content) : new Set();
+  }, [note?.id]);
+
+  return useMemo(() => {
+    // Finds the tag at a path such as project/alpha, creating what is missing
+    const resolvePath = async (path: string, known: Tag[]): Promise<Tag | undefined> => {
+      const names = path.split(TAG_PATH_SEPARATOR).map(name => name.trim()).filter(Boolean);
+      let tag: Tag | undefined;
+      for (let i = 0; i < names.length; i++) {
+        const tagsById = new Map(known.map(t => [t.id, t]));
+        const wanted = names.slice(0, i + 1).join(TAG_PATH_SEPARATOR).toLowerCase();
+        const parent = tag;
+        tag = known.find(t => tagPath(t, tagsById).toLowerCase() === wanted);
+        if (!tag) {
+          const created: Tag = await latest.current.createTag({ name: names[i], parentId: parent?.id ?? null });
+          known.push(created);
+          tag = created;
+        }
+      }
+      return tag;
+    };
+
+    const sync = async () => {
+      const { editor, note, tags } = latest.current;
+      if (!editor || editor.isDestroyed || !note) return;
+
+      // Look up or create the tag behind each hashtag
+      const known = [...tags];
+      const resolved = new Map<string, Tag | undefined>();
+      const keyOf = (attrs: HashtagAttributes) => `${attrs.id}:${attrs.name}`;
+      for (const { attrs } of findHashtags(editor)) {
+        const key = keyOf(attrs);
+        if (resolved.has(key)) continue;
+        const tag = known.find(t => t.id === attrs.id) ?? await resolvePath(attrs.name, known);
+        resolved.set(key, tag);
+      }
+
+      // Creating tags took a while, so positions are taken from the document as it is now
+      if (editor.isDestroyed || latest.current.note?.id !== note.id) return;
+      const tagsById = new Map(known.map(t => [t.id, t]));
+      const tr = editor.state.tr;
+      const current = new Set<number>();
+      for (const { pos, attrs } of findHashtags(editor)) {
+        const tag = resolved.get(keyOf(attrs));
+        if (!tag) continue;
+        current.add(tag.id);
+
+        // Store the id, and the path as it is now so a renamed tag reads right in exports
+        const path = tagPath(tag, tagsById);
+        if (attrs.id !== tag.id || attrs.name !== path) {
+          tr.setNodeMarkup(pos, undefined, { id: tag.id, name: path });
+        }
+      }
+      if (tr.docChanged) editor.view.dispatch(tr);
+
+      const attached = new Set(latest.current.note?.tags.map(t => t.id) ?? []);
+      current.forEach(tagId => {
+        if (!attached.has(tagId)) latest.current.addTag({ noteId: note.id, tagId });
+      });
+      hashtagged.current.forEach(tagId => {
+        if (!current.has(tagId) && attached.has(tagId)) latest.current.removeTag({ noteId: note.id, tagId });
+      });
+      hashtagged.current = current;
+    };
+
+    // One sync at a time; edits made meanwhile are picked up by the next one
+    const run = () => {
+      syncing.current = (syncing.current ?? Promise.resolve())
+        .then(sync)
+        .catch(error => console.error("Failed to sync hashtags:", error));
+    };
+
+    return debounce(run, 1000);
+  }, []);
+}
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { type NoteGraph } from "@shared/schema";
+
+export function useNoteGraph() {
+  return useQuery<NoteGraph>({
+    queryKey: ['/api/graph'],
+    // Links and tags change with every kind of note edit, so rather than
+    // invalidate from all of them the graph is fetched each time it is shown
+    refetchOnMount: 'always',
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/graph');
+      return res.json();
+    }
+  });
+}
@@ -0,0 +1,158 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { type Notebook, type InsertNotebook, type NoteWithTags } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { saveOfflineNote } from "@/lib/offlineStorage";
+
+export function useNotebooks(includeDeleted = false) {
+  return useQuery<Notebook[]>({
+    queryKey: ['/api/notebooks', { includeDeleted }],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/notebooks?includeDeleted=${includeDeleted}`);
+      return res.json();
+    }
+  });
+}
+
+export function useCreateNotebook() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (notebook: InsertNotebook): Promise<Notebook> => {
+      const res = await apiRequest('POST', '/api/notebooks', notebook);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notebooks'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create notebook",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useRenameNotebook() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, name }: { id: number, name: string }): Promise<Notebook> => {
+      const res = await apiRequest('PUT', `/api/notebooks/${id}`, { name });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notebooks'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to rename notebook",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useMoveNotebook() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, parentId }: { id: number, parentId: number | null }): Promise<Notebook> => {
+      const res = await apiRequest('POST', `/api/notebooks/${id}/move`, { parentId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notebooks'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to move notebook",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useDeleteNotebook() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('DELETE', `/api/notebooks/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      // The notebook's notes went to the trash with it
+      queryClient.invalidateQueries({ queryKey: ['/api/notebooks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      toast({
+        title: "Notebook moved to trash",
+        description: "The notebook and its notes can be restored from the trash",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete notebook",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useRestoreNotebook() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number): Promise<Notebook> => {
+      const res = await apiRequest('POST', `/api/notebooks/${id}/restore`);
+      return res.json();
+    },
+    onSuccess: (notebook) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notebooks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      toast({
+        title: "Notebook restored",
+        description: `"${notebook.name}" and its notes have been restored`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore notebook",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useMoveNote() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ noteId, notebookId }: { noteId: number, notebookId: number | null }): Promise<NoteWithTags> => {
+      const res = await apiRequest('POST', `/api/notes/${noteId}/move`, { notebookId });
+      const movedNote: NoteWithTags = await res.json();
+
+      // Keep the offline copy in step so the lists update right away
+      await saveOfflineNote(movedNote);
+
+      return movedNote;
+    },
+    onSuccess: (movedNote) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notes', movedNote.id] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to move note",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
@@ -1,108 +1,89 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { type NoteWithTags, type InsertNote, type Note } from "@shared/schema";
+import { type NoteWithTags, type InsertNote, type Note, type ImportReport, type NoteSearchResult } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { stripHtml } from "@/lib/utils";
+import { htmlToMarkdown } from "@shared/markdown";
+import { parseSearchQuery } from "@shared/searchQuery";
 import { 
   getOfflineNotesWithTags, 
   getOfflineNoteWithTags, 
   saveOfflineNote, 
   deleteOfflineNote,
-  isOffline,
-  setLastSyncTime,
-  getLastSyncTime
+  searchOfflineNotes,
+  isOffline
 } from "@/lib/offlineStorage";
+import { enqueueMutation, hasPendingMutations, pullChanges, shouldQueueFailedMutation } from "@/lib/offlineSync";
 import { useAuth } from "@/context/AuthContext";
-import {
-  saveUserNotes,
-  getUserNotes,
-  saveUserTags,
-  getUserTags
-} from "@/lib/cloudinaryStorage";
+import { useSettings } from "@/context/SettingsContext";
+import { scheduleCloudBackup } from "@/lib/cloudBackup";
+import { isSharedNote } from "@shared/permissions";
+
+// Raised by useUpdateNote when the server copy changed since `version` was read
+export class NoteConflictError extends Error {
+  constructor(public readonly serverNote: NoteWithTags) {
+    super('This note was changed somewhere else');
+    this.name = 'NoteConflictError';
+  }
+}
+
+// Saves changes to a note on the server, raising NoteConflictError when the
+// server copy moved on from `version`
+async function putNote(id: number, note: Partial<InsertNote> & { tagIds?: number[] }, version?: number): Promise<NoteWithTags> {
+  const res = await fetch(`/api/notes/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(version !== undefined ? { 'If-Match': `"${version}"` } : {})
+    },
+    body: JSON.stringify(note),
+    credentials: 'include'
+  });
+  
+  if (res.status === 409) {
+    const { note: serverNote } = await res.json();
+    throw new NoteConflictError(serverNote);
+  }
+  
+  if (!res.ok) {
+    const errorText = await res.text();
+    throw new Error(`${res.status}: ${errorText}`);
+  }
+  
+  return res.json();
+}
 
 export function useNotes(includeDeleted = false) {
   const { currentUser } = useAuth();
-  const userId = currentUser?.uid;
+  const userId = currentUser?.id;
   
   return useQuery<NoteWithTags[]>({
     queryKey: ['/api/notes', { includeDeleted, userId }],
-    queryFn: async ({ queryKey }) => {
+    queryFn: async () => {
       // If we're offline, use offline storage
       if (isOffline()) {
         console.log('Using offline notes storage');
-        const offlineNotes = getOfflineNotesWithTags().filter(note => 
-          includeDeleted ? true : !note.isDeleted
-        );
+        const offlineNotes = await getOfflineNotesWithTags(includeDeleted);
         return offlineNotes;
       }
       
-      // If user is authenticated, try to get notes from Cloudinary
-      if (userId) {
-        try {
-          console.log('Trying to fetch notes from Cloudinary for user:', userId);
-          const cloudNotes = await getUserNotes(userId);
-          
-          if (cloudNotes) {
-            console.log('Notes fetched from Cloudinary successfully');
-            // Update local storage with the fetched notes
-            for (const note of cloudNotes) {
-              saveOfflineNote(note as Note);
-            }
-            
-            // Set the last sync time
-            setLastSyncTime(Date.now());
-            
-            // Filter notes based on includeDeleted parameter
-            return cloudNotes.filter(note => includeDeleted ? true : !note.isDeleted);
-          }
-        } catch (error) {
-          console.error('Error fetching notes from Cloudinary:', error);
-          // Continue to fetch from API or use offline storage
-        }
-      }
-      
-      // Otherwise, fetch from the API
+      // Otherwise merge what changed on the server into offline storage and read from there
       try {
-        const [_, params] = queryKey as [string, { includeDeleted: boolean, userId: string | undefined }];
-        const url = `/api/notes${params.includeDeleted ? '?includeDeleted=true' : ''}`;
-        const res = await fetch(url, { credentials: 'include' });
-        
-        if (!res.ok) {
-          const errorText = await res.text();
-          throw new Error(errorText);
-        }
-        
-        // Store the notes in offline storage
-        const notes = await res.json();
-        for (const note of notes) {
-          saveOfflineNote(note as Note);
-        }
-        
-        // If user is authenticated, save to Cloudinary for persistence
-        if (userId) {
-          try {
-            await saveUserNotes(userId, notes);
-            setLastSyncTime(Date.now());
-          } catch (cloudError) {
-            console.error('Error saving notes to Cloudinary:', cloudError);
-            // Continue anyway as notes are saved locally
-          }
-        }
-        
-        return notes;
+        await pullChanges();
       } catch (error) {
-        console.error('Error fetching notes, falling back to offline storage:', error);
-        // If the API call fails, fall back to offline storage
-        const offlineNotes = getOfflineNotesWithTags().filter(note => 
-          includeDeleted ? true : !note.isDeleted
-        );
+        console.error('Error syncing notes, falling back to offline storage:', error);
+        const offlineNotes = await getOfflineNotesWithTags(includeDeleted);
         return offlineNotes;
       }
+      
+      const notes = await getOfflineNotesWithTags(includeDeleted);
+      return notes;
     }
   });
 }
 
 export function useNoteById(id: number | null) {
+  const { currentUser } = useAuth();
   console.log("useNoteById called with id:", id, "type:", typeof id);
   
   return useQuery<NoteWithTags | null>({
@@ -118,7 +99,7 @@ export function useNoteById(id: number | null) {
       // If we're offline, use offline storage
       if (isOffline()) {
         console.log('Using offline note storage for note:', id);
-        const offlineNote = getOfflineNoteWithTags(id);
+        const offlineNote = await getOfflineNoteWithTags(id);
         console.log("Offline note found:", offlineNote);
         return offlineNote || null;
       }
@@ -136,15 +117,17 @@ export function useNoteById(id: number | null) {
           throw new Error(errorText);
         }
         
-        // Store the note in offline storage
+        // Store the note in offline storage, unless another user shared it
         const note = await res.json();
-        saveOfflineNote(note as Note);
+        if (note.userId === currentUser?.id) {
+          await saveOfflineNote(note as Note);
+        }
         
         return note;
       } catch (error) {
         console.error(`Error fetching note ${id}, falling back to offline storage:`, error);
         // If the API call fails, fall back to offline storage
-        const offlineNote = getOfflineNoteWithTags(id);
+        const offlineNote = await getOfflineNoteWithTags(id);
         return offlineNote || null;
       }
     }
@@ -154,27 +137,33 @@ export function useNoteById(id: number | null) {
 export function useCreateNote() {
   const { toast } = useToast();
   const { currentUser } = useAuth();
-  const userId = currentUser?.uid;
+  const userId = currentUser?.id;
+  const { cloudSyncEnabled } = useSettings();
   
   return useMutation({
     mutationFn: async (note: Partial<InsertNote> & { tagIds?: number[] }) => {
-      // If we're offline, create a local note
-      if (isOffline()) {
+      // If we're offline (or earlier offline changes are still queued), create a local note
+      if (isOffline() || hasPendingMutations()) {
         const now = new Date();
         // Create a temporary note with a negative ID (to avoid conflicts with server IDs)
         const tempId = -Math.floor(Math.random() * 10000000);
         const offlineNote: Note = {
           id: tempId,
+          userId: userId ?? 0,
           title: note.title || "Untitled",
           content: note.content || "",
           isFavorite: note.isFavorite || false,
           isDeleted: note.isDeleted || false,
+          notebookId: note.notebookId ?? null,
           createdAt: now,
-          updatedAt: now
+          updatedAt: now,
+          version: 1,
+          importedUpdatedAt: null
         };
         
         // Save to offline storage
-        saveOfflineNote(offlineNote);
+        await saveOfflineNote(offlineNote);
+        enqueueMutation({ type: 'createNote', tempId, note });
         
         // Return the created note
         return offlineNote;
@@ -185,39 +174,38 @@ export function useCreateNote() {
         const createdNote = await res.json();
         
         // Also save to offline storage
-        saveOfflineNote(createdNote);
-        
-        // If user is authenticated, sync with Cloudinary
-        if (userId) {
-          try {
-            // Get all notes to save them together
-            const allNotes = getOfflineNotesWithTags();
-            await saveUserNotes(userId, allNotes);
-            setLastSyncTime(Date.now());
-          } catch (cloudError) {
-            console.error('Error syncing notes to Cloudinary after creation:', cloudError);
-            // Continue anyway as notes are saved locally
-          }
+        await saveOfflineNote(createdNote);
+        
+        // If user is authenticated, back the change up to the cloud
+        if (userId && cloudSyncEnabled) {
+          scheduleCloudBackup();
         }
         
         return createdNote;
       } catch (error) {
+        if (!shouldQueueFailedMutation(error)) throw error;
+        
         console.error('Error creating note, saving offline only:', error);
         // If API call fails, create offline note
         const now = new Date();
         const tempId = -Math.floor(Math.random() * 10000000);
         const offlineNote: Note = {
           id: tempId,
+          userId: userId ?? 0,
           title: note.title || "Untitled",
           content: note.content || "",
           isFavorite: note.isFavorite || false,
           isDeleted: note.isDeleted || false,
+          notebookId: note.notebookId ?? null,
           createdAt: now,
-          updatedAt: now
+          updatedAt: now,
+          version: 1,
+          importedUpdatedAt: null
         };
         
         // Save to offline storage
-        saveOfflineNote(offlineNote);
+        await saveOfflineNote(offlineNote);
+        enqueueMutation({ type: 'createNote', tempId, note });
         
         // Return the offline note
         return offlineNote;
@@ -245,13 +233,25 @@ export function useCreateNote() {
 export function useUpdateNote() {
   const { toast } = useToast();
   const { currentUser } = useAuth();
-  const userId = currentUser?.uid;
+  const userId = currentUser?.id;
+  const { cloudSyncEnabled } = useSettings();
   
   return useMutation({
-    mutationFn: async ({ id, note }: { id: number, note: Partial<InsertNote> & { tagIds?: number[] } }) => {
-      // If we're offline, update the note locally
-      if (isOffline()) {
-        const offlineNote = getOfflineNoteWithTags(id);
+    mutationFn: async ({ id, note, version }: { 
+      id: number, 
+      note: Partial<InsertNote> & { tagIds?: number[] },
+      // The note version the edit was based on; omit to overwrite unconditionally
+      version?: number 
+    }) => {
+      // Notes other users shared are saved online only, as they are not kept offline
+      const cachedNote = queryClient.getQueryData<NoteWithTags | null>(['/api/notes', id]);
+      if (cachedNote && isSharedNote(cachedNote)) {
+        return putNote(id, note, version);
+      }
+      
+      // If we're offline (or earlier offline changes are still queued), update the note locally
+      if (isOffline() || hasPendingMutations()) {
+        const offlineNote = await getOfflineNoteWithTags(id);
         if (!offlineNote) {
           throw new Error('Note not found in offline storage');
         }
@@ -263,37 +263,35 @@ export function useUpdateNote() {
         };
         
         // Save to offline storage
-        saveOfflineNote(updatedNote);
+        await saveOfflineNote(updatedNote);
+        enqueueMutation({ type: 'updateNote', noteId: id, note, version });
         
         return updatedNote;
       }
       
       try {
-        const res = await apiRequest('PUT', `/api/notes/${id}`, note);
-        const updatedNote = await res.json();
+        const updatedNote = await putNote(id, note, version);
         
         // Also save to offline storage
-        saveOfflineNote(updatedNote);
-        
-        // If user is authenticated, sync with Cloudinary
-        if (userId) {
-          try {
-            // Get all notes to save them together
-            const allNotes = getOfflineNotesWithTags();
-            await saveUserNotes(userId, allNotes);
-            setLastSyncTime(Date.now());
-          } catch (cloudError) {
-            console.error('Error syncing notes to Cloudinary after update:', cloudError);
-            // Continue anyway as notes are saved locally
-          }
+        await saveOfflineNote(updatedNote);
+        
+        // If user is authenticated, back the change up to the cloud
+        if (userId && cloudSyncEnabled) {
+          scheduleCloudBackup();
         }
         
         return updatedNote;
       } catch (error) {
+        // Conflicts must be resolved by the caller, and rejected edits shown
+        // to them, not papered over offline
+        if (error instanceof NoteConflictError || !shouldQueueFailedMutation(error)) {
+          throw error;
+        }
+        
         console.error('Error updating note, updating offline only:', error);
         
         // Try to get the current version from offline storage
-        const offlineNote = getOfflineNoteWithTags(id);
+        const offlineNote = await getOfflineNoteWithTags(id);
         if (!offlineNote) {
           throw new Error('Failed to update note and note not found in offline storage');
         }
@@ -306,14 +304,18 @@ export function useUpdateNote() {
         };
         
         // Save to offline storage
-        saveOfflineNote(updatedNote);
+        await saveOfflineNote(updatedNote);
+        enqueueMutation({ type: 'updateNote', noteId: id, note, version });
         
         return updatedNote;
       }
     },
-    onSuccess: (_, { id }) => {
+    onSuccess: (updatedNote, { id }) => {
+      // Update the cached note right away so the next save sends the new version
+      queryClient.setQueryData<NoteWithTags | null>(['/api/notes', id], (current) =>
+        current ? { ...current, ...updatedNote } : current
+      );
       queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/notes', id] });
       toast({
         title: "Note updated",
         description: isOffline() 
@@ -322,6 +324,9 @@ export function useUpdateNote() {
       });
     },
     onError: (error) => {
+      // The editor shows its own conflict dialog
+      if (error instanceof NoteConflictError) return;
+      
       toast({
         title: "Failed to update note",
         description: error.message,
@@ -336,9 +341,9 @@ export function useDeleteNote() {
   
   return useMutation({
     mutationFn: async (id: number) => {
-      // If we're offline, mark the note as deleted locally
-      if (isOffline()) {
-        const offlineNote = getOfflineNoteWithTags(id);
+      // If we're offline (or earlier offline changes are still queued), mark the note as deleted locally
+      if (isOffline() || hasPendingMutations()) {
+        const offlineNote = await getOfflineNoteWithTags(id);
         if (!offlineNote) {
           throw new Error('Note not found in offline storage');
         }
@@ -350,7 +355,8 @@ export function useDeleteNote() {
         };
         
         // Save to offline storage
-        saveOfflineNote(deletedNote);
+        await saveOfflineNote(deletedNote);
+        enqueueMutation({ type: 'deleteNote', noteId: id });
         
         return deletedNote;
       }
@@ -360,7 +366,7 @@ export function useDeleteNote() {
         const deletedNote = await res.json();
         
         // Also update local storage
-        saveOfflineNote({
+        await saveOfflineNote({
           ...deletedNote,
           isDeleted: true,
           updatedAt: new Date()
@@ -368,10 +374,12 @@ export function useDeleteNote() {
         
         return deletedNote;
       } catch (error) {
+        if (!shouldQueueFailedMutation(error)) throw error;
+        
         console.error('Error deleting note, marking deleted in offline storage only:', error);
         
         // Try to get the current version from offline storage
-        const offlineNote = getOfflineNoteWithTags(id);
+        const offlineNote = await getOfflineNoteWithTags(id);
         if (!offlineNote) {
           throw new Error('Failed to delete note and note not found in offline storage');
         }
@@ -384,7 +392,8 @@ export function useDeleteNote() {
         };
         
         // Save to offline storage
-        saveOfflineNote(deletedNote);
+        await saveOfflineNote(deletedNote);
+        enqueueMutation({ type: 'deleteNote', noteId: id });
         
         return deletedNote;
       }
@@ -413,9 +422,9 @@ export function useRestoreNote() {
   
   return useMutation({
     mutationFn: async (id: number) => {
-      // If we're offline, restore the note locally
-      if (isOffline()) {
-        const offlineNote = getOfflineNoteWithTags(id);
+      // If we're offline (or earlier offline changes are still queued), restore the note locally
+      if (isOffline() || hasPendingMutations()) {
+        const offlineNote = await getOfflineNoteWithTags(id);
         if (!offlineNote) {
           throw new Error('Note not found in offline storage');
         }
@@ -427,7 +436,8 @@ export function useRestoreNote() {
         };
         
         // Save to offline storage
-        saveOfflineNote(restoredNote);
+        await saveOfflineNote(restoredNote);
+        enqueueMutation({ type: 'restoreNote', noteId: id });
         
         return restoredNote;
       }
@@ -437,7 +447,7 @@ export function useRestoreNote() {
         const restoredNote = await res.json();
         
         // Also update local storage
-        saveOfflineNote({
+        await saveOfflineNote({
           ...restoredNote,
           isDeleted: false,
           updatedAt: new Date()
@@ -445,10 +455,12 @@ export function useRestoreNote() {
         
         return restoredNote;
       } catch (error) {
+        if (!shouldQueueFailedMutation(error)) throw error;
+        
         console.error('Error restoring note, restoring in offline storage only:', error);
         
         // Try to get the current version from offline storage
-        const offlineNote = getOfflineNoteWithTags(id);
+        const offlineNote = await getOfflineNoteWithTags(id);
         if (!offlineNote) {
           throw new Error('Failed to restore note and note not found in offline storage');
         }
@@ -461,7 +473,8 @@ export function useRestoreNote() {
         };
         
         // Save to offline storage
-        saveOfflineNote(restoredNote);
+        await saveOfflineNote(restoredNote);
+        enqueueMutation({ type: 'restoreNote', noteId: id });
         
         return restoredNote;
       }
@@ -490,9 +503,9 @@ export function useToggleFavorite() {
   
   return useMutation({
     mutationFn: async (id: number) => {
-      // If we're offline, toggle favorite status locally
-      if (isOffline()) {
-        const offlineNote = getOfflineNoteWithTags(id);
+      // If we're offline (or earlier offline changes are still queued), toggle favorite status locally
+      if (isOffline() || hasPendingMutations()) {
+        const offlineNote = await getOfflineNoteWithTags(id);
         if (!offlineNote) {
           throw new Error('Note not found in offline storage');
         }
@@ -504,7 +517,8 @@ export function useToggleFavorite() {
         };
         
         // Save to offline storage
-        saveOfflineNote(updatedNote);
+        await saveOfflineNote(updatedNote);
+        enqueueMutation({ type: 'setFavorite', noteId: id, isFavorite: updatedNote.isFavorite });
         
         return updatedNote;
       }
@@ -514,14 +528,16 @@ export function useToggleFavorite() {
         const updatedNote = await res.json();
         
         // Also update local storage
-        saveOfflineNote(updatedNote);
+        await saveOfflineNote(updatedNote);
         
         return updatedNote;
       } catch (error) {
+        if (!shouldQueueFailedMutation(error)) throw error;
+        
         console.error('Error toggling favorite, updating in offline storage only:', error);
         
         // Try to get the current version from offline storage
-        const offlineNote = getOfflineNoteWithTags(id);
+        const offlineNote = await getOfflineNoteWithTags(id);
         if (!offlineNote) {
           throw new Error('Failed to toggle favorite and note not found in offline storage');
         }
@@ -534,7 +550,8 @@ export function useToggleFavorite() {
         };
         
         // Save to offline storage
-        saveOfflineNote(updatedNote);
+        await saveOfflineNote(updatedNote);
+        enqueueMutation({ type: 'setFavorite', noteId: id, isFavorite: updatedNote.isFavorite });
         
         return updatedNote;
       }
@@ -565,16 +582,15 @@ export function useSearchNotes() {
   const { toast } = useToast();
   
   return useMutation({
-    mutationFn: async (query: string) => {
+    mutationFn: async (query: string): Promise<NoteSearchResult[]> => {
+      // A malformed query fails here, with the same SearchQueryError the
+      // server or offline search would raise
+      parseSearchQuery(query);
+
       // If we're offline, use offline search
       if (isOffline()) {
         console.log('Searching notes in offline storage');
-        const results = getOfflineNotesWithTags().filter(note => 
-          note.title.toLowerCase().includes(query.toLowerCase()) || 
-          note.content.toLowerCase().includes(query.toLowerCase()) ||
-          note.tags.some(tag => tag.name.toLowerCase().includes(query.toLowerCase()))
-        );
-        return results;
+        return searchOfflineNotes(query);
       }
       
       try {
@@ -587,7 +603,7 @@ export function useSearchNotes() {
           throw new Error(errorText);
         }
         
-        return res.json() as Promise<NoteWithTags[]>;
+        return res.json() as Promise<NoteSearchResult[]>;
       } catch (error) {
         console.error('Error searching notes, falling back to offline search:', error);
         toast({
@@ -597,17 +613,53 @@ export function useSearchNotes() {
         });
         
         // Fall back to offline search
-        const results = getOfflineNotesWithTags().filter(note => 
-          note.title.toLowerCase().includes(query.toLowerCase()) || 
-          note.content.toLowerCase().includes(query.toLowerCase()) ||
-          note.tags.some(tag => tag.name.toLowerCase().includes(query.toLowerCase()))
-        );
-        return results;
+        return searchOfflineNotes(query);
       }
     }
   });
 }
 
+export function useImportNotes() {
+  const { currentUser } = useAuth();
+  const userId = currentUser?.id;
+  const { cloudSyncEnabled } = useSettings();
+  
+  return useMutation({
+    mutationFn: async (files: File[]): Promise<ImportReport> => {
+      // Files are converted on the server, so there is no offline import
+      if (isOffline()) {
+        throw new Error('Importing notes needs an internet connection');
+      }
+      
+      const formData = new FormData();
+      for (const file of files) {
+        formData.append('files', file, file.name);
+      }
+      
+      const res = await fetch('/api/notes/import', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || res.statusText);
+      }
+      
+      const report: ImportReport = await res.json();
+      if (report.imported > 0 && userId && cloudSyncEnabled) {
+        scheduleCloudBackup();
+      }
+      return report;
+    },
+    onSuccess: () => {
+      // Imports can create tags as well as notes
+      queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+    }
+  });
+}
+
 export function useExportNote() {
   const { toast } = useToast();
   
@@ -615,7 +667,7 @@ export function useExportNote() {
     try {
       // If we're offline, export from local storage
       if (isOffline()) {
-        const offlineNote = getOfflineNoteWithTags(id);
+        const offlineNote = await getOfflineNoteWithTags(id);
         if (!offlineNote) {
           throw new Error('Note not found in offline storage');
         }
@@ -630,24 +682,8 @@ export function useExportNote() {
           mimeType = 'text/plain';
           fileExtension = 'txt';
         } else if (format === 'markdown') {
-          // Basic HTML to Markdown conversion for offline mode
-          let markdown = offlineNote.content;
-          // Replace headings
-          markdown = markdown.replace(/<h1>(.*?)<\/h1>/g, '# $1\n\n');
-          markdown = markdown.replace(/<h2>(.*?)<\/h2>/g, '## $1\n\n');
-          markdown = markdown.replace(/<h3>(.*?)<\/h3>/g, '### $1\n\n');
-          // Replace paragraphs
-          markdown = markdown.replace(/<p>(.*?)<\/p>/g, '$1\n\n');
-          // Replace bold and italic
-          markdown = markdown.replace(/<strong>(.*?)<\/strong>/g, '**$1**');
-          markdown = markdown.replace(/<em>(.*?)<\/em>/g, '*$1*');
-          // Replace links
-          markdown = markdown.replace(/<a href="(.*?)">(.*?)<\/a>/g, '[$2]($1)');
-          // Replace lists
-          markdown = markdown.replace(/<ul>(.*?)<\/ul>/g, '$1\n');
-          markdown = markdown.replace(/<li>(.*?)<\/li>/g, '- $1\n');
-          
-          content = markdown;
+          // Same conversion as the server's markdown export
+          content = `# ${offlineNote.title}\n\n${htmlToMarkdown(offlineNote.content)}`;
           mimeType = 'text/markdown';
           fileExtension = 'md';
         } else if (format === 'json') {
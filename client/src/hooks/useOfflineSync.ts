@@ -0,0 +1,48 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/context/AuthContext";
+import { useNoteContext } from "@/context/NoteContext";
+import { setupConnectivityListeners } from "@/lib/offlineStorage";
+import {
+  getSyncStatus,
+  onIdRemap,
+  replayOutbox,
+  subscribeToSyncStatus,
+  type SyncStatus
+} from "@/lib/offlineSync";
+
+export function useSyncStatus(): SyncStatus {
+  return useSyncExternalStore(subscribeToSyncStatus, getSyncStatus);
+}
+
+// Replays changes made offline once we are signed in and back online
+export function useOfflineSync() {
+  const { currentUser } = useAuth();
+  const { activeNoteId, setActiveNoteId } = useNoteContext();
+  const [location, navigate] = useLocation();
+  
+  useEffect(() => {
+    if (!currentUser) return;
+    
+    replayOutbox();
+    // Going offline just flips the sync indicator, since the replay bails out early
+    return setupConnectivityListeners(
+      () => replayOutbox(),
+      () => replayOutbox()
+    );
+  }, [currentUser]);
+  
+  // Follow a note created offline to its new server ID
+  useEffect(() => {
+    return onIdRemap(({ kind, tempId, serverId }) => {
+      if (kind !== 'note') return;
+      
+      if (location === `/notes/${tempId}`) {
+        navigate(`/notes/${serverId}`, { replace: true });
+      }
+      if (activeNoteId === tempId) {
+        setActiveNoteId(serverId);
+      }
+    });
+  }, [location, navigate, activeNoteId, setActiveNoteId]);
+}
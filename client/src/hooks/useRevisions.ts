@@ -0,0 +1,62 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { type NoteRevision, type NoteRevisionSummary, type NoteWithTags } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { saveOfflineNote } from "@/lib/offlineStorage";
+
+export function useNoteRevisions(noteId: number, enabled = true) {
+  return useQuery<NoteRevisionSummary[]>({
+    queryKey: ['/api/notes', noteId, 'revisions'],
+    enabled,
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/notes/${noteId}/revisions`);
+      return res.json();
+    }
+  });
+}
+
+export function useNoteRevision(noteId: number, revisionId: number | null) {
+  return useQuery<NoteRevision | null>({
+    queryKey: ['/api/notes', noteId, 'revisions', revisionId],
+    enabled: revisionId !== null,
+    queryFn: async () => {
+      if (revisionId === null) return null;
+      
+      const res = await apiRequest('GET', `/api/notes/${noteId}/revisions/${revisionId}`);
+      return res.json();
+    }
+  });
+}
+
+export function useRestoreRevision() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ noteId, revisionId }: { noteId: number, revisionId: number }) => {
+      const res = await apiRequest('POST', `/api/notes/${noteId}/revisions/${revisionId}/restore`);
+      const restoredNote: NoteWithTags = await res.json();
+      
+      // Keep the offline copy in step with the restored content
+      await saveOfflineNote(restoredNote);
+      
+      return restoredNote;
+    },
+    onSuccess: (restoredNote) => {
+      // Seed the note query directly so the editor swaps its content immediately
+      queryClient.setQueryData(['/api/notes', restoredNote.id], restoredNote);
+      queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      
+      toast({
+        title: "Revision restored",
+        description: "The note has been restored to the selected revision",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore revision",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
@@ -0,0 +1,121 @@
+import { useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { type SavedSearch, type InsertSavedSearch, type NoteSearchResult } from "@shared/schema";
+import { NoteSearchIndex } from "@shared/search";
+import { SearchQueryError } from "@shared/searchQuery";
+import { useToast } from "@/hooks/use-toast";
+import { useNotes } from "@/hooks/useNotes";
+import { useTags } from "@/hooks/useTags";
+
+export function useSavedSearches() {
+  return useQuery<SavedSearch[]>({
+    queryKey: ['/api/saved-searches'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/saved-searches');
+      return res.json();
+    }
+  });
+}
+
+// Shared by every component showing smart folders, so the notes are only indexed once
+const savedSearchIndex = new NoteSearchIndex();
+
+// Runs each saved search against the notes already loaded, so smart folder
+// contents and counts follow edits without a request per folder
+export function useSavedSearchResults(): Map<number, NoteSearchResult[]> {
+  const { data: notes = [] } = useNotes(true);
+  const { data: tags = [] } = useTags();
+  const { data: savedSearches = [] } = useSavedSearches();
+
+  return useMemo(() => {
+    savedSearchIndex.sync(notes, tags);
+
+    const results = new Map<number, NoteSearchResult[]>();
+    for (const savedSearch of savedSearches) {
+      try {
+        results.set(savedSearch.id, savedSearchIndex.search(savedSearch.query));
+      } catch (error) {
+        // Queries are checked when saved, but the language may have changed since
+        if (!(error instanceof SearchQueryError)) throw error;
+        results.set(savedSearch.id, []);
+      }
+    }
+    return results;
+  }, [notes, tags, savedSearches]);
+}
+
+export function useCreateSavedSearch() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (savedSearch: InsertSavedSearch): Promise<SavedSearch> => {
+      const res = await apiRequest('POST', '/api/saved-searches', savedSearch);
+      return res.json();
+    },
+    onSuccess: (savedSearch) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-searches'] });
+      toast({
+        title: "Search saved",
+        description: `"${savedSearch.name}" has been added to your smart folders`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save search",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useUpdateSavedSearch() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, savedSearch }: { id: number, savedSearch: Partial<InsertSavedSearch> }): Promise<SavedSearch> => {
+      const res = await apiRequest('PUT', `/api/saved-searches/${id}`, savedSearch);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-searches'] });
+      toast({
+        title: "Smart folder updated",
+        description: "Your changes have been saved",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update smart folder",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useDeleteSavedSearch() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('DELETE', `/api/saved-searches/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-searches'] });
+      toast({
+        title: "Smart folder deleted",
+        description: "The saved search has been removed",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete smart folder",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
@@ -0,0 +1,70 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { type ShareLinkInfo } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export function useShareLinks(noteId: number, enabled = true) {
+  return useQuery<ShareLinkInfo[]>({
+    queryKey: ['/api/notes', noteId, 'shares'],
+    enabled,
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/notes/${noteId}/shares`);
+      return res.json();
+    }
+  });
+}
+
+// Where a share link opens, for copying
+export function shareUrl(share: ShareLinkInfo): string {
+  return `${window.location.origin}/s/${share.token}`;
+}
+
+export function useCreateShareLink() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ noteId, password, expiresAt }: {
+      noteId: number,
+      password: string | null,
+      expiresAt: Date | null
+    }): Promise<ShareLinkInfo> => {
+      const res = await apiRequest('POST', `/api/notes/${noteId}/share`, { password, expiresAt });
+      return res.json();
+    },
+    onSuccess: (_, { noteId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notes', noteId, 'shares'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create share link",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useRevokeShareLink() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ noteId, shareId }: { noteId: number, shareId: number }) => {
+      const res = await apiRequest('DELETE', `/api/notes/${noteId}/share/${shareId}`);
+      return res.json();
+    },
+    onSuccess: (_, { noteId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notes', noteId, 'shares'] });
+      toast({
+        title: "Share link revoked",
+        description: "The link no longer opens the note",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to revoke share link",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
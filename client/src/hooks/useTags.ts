@@ -1,16 +1,19 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { type Tag, type InsertTag } from "@shared/schema";
+import { subtreeIds } from "@shared/hierarchy";
 import { useToast } from "@/hooks/use-toast";
 import { 
   getOfflineTags, 
   saveOfflineTag, 
   deleteOfflineTag,
+  mergeOfflineTags,
   addOfflineTagToNote,
   removeOfflineTagFromNote,
   isOffline,
   getOfflineNoteWithTags
 } from "@/lib/offlineStorage";
+import { enqueueMutation, hasPendingMutations, shouldQueueFailedMutation } from "@/lib/offlineSync";
 
 export function useTags() {
   const { toast } = useToast();
@@ -21,7 +24,7 @@ export function useTags() {
       // If we're offline, get tags from local storage
       if (isOffline()) {
         console.log('Getting tags from offline storage');
-        return getOfflineTags();
+        return await getOfflineTags();
       }
       
       try {
@@ -35,7 +38,7 @@ export function useTags() {
         // Store tags in offline storage
         const tags = await res.json();
         for (const tag of tags) {
-          saveOfflineTag(tag);
+          await saveOfflineTag(tag);
         }
         
         return tags;
@@ -49,7 +52,7 @@ export function useTags() {
           variant: "default"
         });
         
-        return getOfflineTags();
+        return await getOfflineTags();
       }
     }
   });
@@ -60,17 +63,21 @@ export function useCreateTag() {
   
   return useMutation({
     mutationFn: async (tag: InsertTag) => {
-      // If we're offline, create a local tag
-      if (isOffline()) {
+      // If we're offline (or earlier offline changes are still queued), create a local tag
+      if (isOffline() || hasPendingMutations()) {
         const tempId = -Math.floor(Math.random() * 10000000);
         const offlineTag: Tag = {
           id: tempId,
+          userId: 0, // Assigned by the server when the tag is synced
           name: tag.name || 'Untitled Tag',
-          color: tag.color || '#6e56cf' // Default color (purple)
+          color: tag.color || '#6e56cf', // Default color (purple)
+          parentId: tag.parentId ?? null,
+          updatedAt: new Date()
         };
         
         // Save to offline storage
-        saveOfflineTag(offlineTag);
+        await saveOfflineTag(offlineTag);
+        enqueueMutation({ type: 'createTag', tempId, tag });
         
         return offlineTag;
       }
@@ -80,22 +87,28 @@ export function useCreateTag() {
         const createdTag = await res.json();
         
         // Also save to offline storage
-        saveOfflineTag(createdTag);
+        await saveOfflineTag(createdTag);
         
         return createdTag;
       } catch (error) {
+        if (!shouldQueueFailedMutation(error)) throw error;
+        
         console.error('Error creating tag, saving offline only:', error);
         
         // If API call fails, create offline tag
         const tempId = -Math.floor(Math.random() * 10000000);
         const offlineTag: Tag = {
           id: tempId,
+          userId: 0, // Assigned by the server when the tag is synced
           name: tag.name || 'Untitled Tag',
-          color: tag.color || '#6e56cf' // Default color (purple)
+          color: tag.color || '#6e56cf', // Default color (purple)
+          parentId: tag.parentId ?? null,
+          updatedAt: new Date()
         };
         
         // Save to offline storage
-        saveOfflineTag(offlineTag);
+        await saveOfflineTag(offlineTag);
+        enqueueMutation({ type: 'createTag', tempId, tag });
         
         return offlineTag;
       }
@@ -124,10 +137,10 @@ export function useUpdateTag() {
   
   return useMutation({
     mutationFn: async ({ id, tag }: { id: number, tag: Partial<InsertTag> }) => {
-      // If we're offline, update the tag locally
-      if (isOffline()) {
+      // If we're offline (or earlier offline changes are still queued), update the tag locally
+      if (isOffline() || hasPendingMutations()) {
         // Get current tag from offline storage
-        const offlineTags = getOfflineTags();
+        const offlineTags = await getOfflineTags();
         const existingTag = offlineTags.find(t => t.id === id);
         
         if (!existingTag) {
@@ -141,7 +154,8 @@ export function useUpdateTag() {
         };
         
         // Save to offline storage
-        saveOfflineTag(updatedTag);
+        await saveOfflineTag(updatedTag);
+        enqueueMutation({ type: 'updateTag', tagId: id, tag });
         
         return updatedTag;
       }
@@ -151,14 +165,16 @@ export function useUpdateTag() {
         const updatedTag = await res.json();
         
         // Also save to offline storage
-        saveOfflineTag(updatedTag);
+        await saveOfflineTag(updatedTag);
         
         return updatedTag;
       } catch (error) {
+        if (!shouldQueueFailedMutation(error)) throw error;
+        
         console.error('Error updating tag, updating offline only:', error);
         
         // Try to get the current version from offline storage
-        const offlineTags = getOfflineTags();
+        const offlineTags = await getOfflineTags();
         const existingTag = offlineTags.find(t => t.id === id);
         
         if (!existingTag) {
@@ -172,7 +188,8 @@ export function useUpdateTag() {
         };
         
         // Save to offline storage
-        saveOfflineTag(updatedTag);
+        await saveOfflineTag(updatedTag);
+        enqueueMutation({ type: 'updateTag', tagId: id, tag });
         
         return updatedTag;
       }
@@ -201,10 +218,10 @@ export function useDeleteTag() {
   
   return useMutation({
     mutationFn: async (id: number) => {
-      // If we're offline, delete the tag locally
-      if (isOffline()) {
+      // If we're offline (or earlier offline changes are still queued), delete the tag locally
+      if (isOffline() || hasPendingMutations()) {
         // Check if tag exists
-        const offlineTags = getOfflineTags();
+        const offlineTags = await getOfflineTags();
         const existingTag = offlineTags.find(t => t.id === id);
         
         if (!existingTag) {
@@ -212,7 +229,8 @@ export function useDeleteTag() {
         }
         
         // Delete from offline storage
-        deleteOfflineTag(id);
+        await deleteOfflineTag(id);
+        enqueueMutation({ type: 'deleteTag', tagId: id });
         
         return { success: true };
       }
@@ -222,14 +240,16 @@ export function useDeleteTag() {
         const result = await res.json();
         
         // Also delete from offline storage
-        deleteOfflineTag(id);
+        await deleteOfflineTag(id);
         
         return result;
       } catch (error) {
+        if (!shouldQueueFailedMutation(error)) throw error;
+        
         console.error('Error deleting tag, deleting in offline storage only:', error);
         
         // Try to get the current version from offline storage
-        const offlineTags = getOfflineTags();
+        const offlineTags = await getOfflineTags();
         const existingTag = offlineTags.find(t => t.id === id);
         
         if (!existingTag) {
@@ -237,7 +257,8 @@ export function useDeleteTag() {
         }
         
         // Delete from offline storage
-        deleteOfflineTag(id);
+        await deleteOfflineTag(id);
+        enqueueMutation({ type: 'deleteTag', tagId: id });
         
         return { success: true };
       }
@@ -261,28 +282,88 @@ export function useDeleteTag() {
   });
 }
 
+export function useMergeTags() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ id, targetId }: { id: number, targetId: number }) => {
+      // Caught here as well, since a queued merge the server rejects is dropped
+      const offlineTags = await getOfflineTags();
+      if (subtreeIds(offlineTags, id).includes(targetId)) {
+        throw new Error('A tag cannot be merged into itself or one of its sub-tags');
+      }
+      
+      // If we're offline (or earlier offline changes are still queued), merge the tags locally
+      if (isOffline() || hasPendingMutations()) {
+        await mergeOfflineTags(id, targetId);
+        enqueueMutation({ type: 'mergeTags', tagId: id, targetId });
+        
+        return { success: true };
+      }
+      
+      try {
+        const res = await apiRequest('POST', `/api/tags/${id}/merge`, { targetId });
+        const result = await res.json();
+        
+        // Also merge in offline storage
+        await mergeOfflineTags(id, targetId);
+        
+        return result;
+      } catch (error) {
+        if (!shouldQueueFailedMutation(error)) throw error;
+        
+        console.error('Error merging tags, merging in offline storage only:', error);
+        
+        await mergeOfflineTags(id, targetId);
+        enqueueMutation({ type: 'mergeTags', tagId: id, targetId });
+        
+        return { success: true };
+      }
+    },
+    onSuccess: () => {
+      // Notes carrying the merged tag now show the target instead
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      toast({
+        title: "Tags merged",
+        description: isOffline()
+          ? "Tags merged in offline mode"
+          : "Every note now carries the merged tag",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to merge tags",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
 export function useAddTagToNote() {
   const { toast } = useToast();
   
   return useMutation({
     mutationFn: async ({ noteId, tagId }: { noteId: number, tagId: number }) => {
-      // If we're offline, add tag to note locally
-      if (isOffline()) {
+      // If we're offline (or earlier offline changes are still queued), add tag to note locally
+      if (isOffline() || hasPendingMutations()) {
         // Check if note exists
-        const note = getOfflineNoteWithTags(noteId);
+        const note = await getOfflineNoteWithTags(noteId);
         if (!note) {
           throw new Error('Note not found in offline storage');
         }
         
         // Check if tag exists
-        const offlineTags = getOfflineTags();
+        const offlineTags = await getOfflineTags();
         const tag = offlineTags.find(t => t.id === tagId);
         if (!tag) {
           throw new Error('Tag not found in offline storage');
         }
         
         // Add tag to note in offline storage
-        addOfflineTagToNote(noteId, tagId);
+        await addOfflineTagToNote(noteId, tagId);
+        enqueueMutation({ type: 'addTagToNote', noteId, tagId });
         
         return { success: true };
       }
@@ -292,27 +373,30 @@ export function useAddTagToNote() {
         const result = await res.json();
         
         // Also add in offline storage
-        addOfflineTagToNote(noteId, tagId);
+        await addOfflineTagToNote(noteId, tagId);
         
         return result;
       } catch (error) {
+        if (!shouldQueueFailedMutation(error)) throw error;
+        
         console.error('Error adding tag to note, adding in offline storage only:', error);
         
         // Check if note exists
-        const note = getOfflineNoteWithTags(noteId);
+        const note = await getOfflineNoteWithTags(noteId);
         if (!note) {
           throw new Error('Note not found in offline storage');
         }
         
         // Check if tag exists
-        const offlineTags = getOfflineTags();
+        const offlineTags = await getOfflineTags();
         const tag = offlineTags.find(t => t.id === tagId);
         if (!tag) {
           throw new Error('Tag not found in offline storage');
         }
         
         // Add tag to note in offline storage
-        addOfflineTagToNote(noteId, tagId);
+        await addOfflineTagToNote(noteId, tagId);
+        enqueueMutation({ type: 'addTagToNote', noteId, tagId });
         
         return { success: true };
       }
@@ -343,23 +427,24 @@ export function useRemoveTagFromNote() {
   
   return useMutation({
     mutationFn: async ({ noteId, tagId }: { noteId: number, tagId: number }) => {
-      // If we're offline, remove tag from note locally
-      if (isOffline()) {
+      // If we're offline (or earlier offline changes are still queued), remove tag from note locally
+      if (isOffline() || hasPendingMutations()) {
         // Check if note exists
-        const note = getOfflineNoteWithTags(noteId);
+        const note = await getOfflineNoteWithTags(noteId);
         if (!note) {
           throw new Error('Note not found in offline storage');
         }
         
         // Check if tag exists
-        const offlineTags = getOfflineTags();
+        const offlineTags = await getOfflineTags();
         const tag = offlineTags.find(t => t.id === tagId);
         if (!tag) {
           throw new Error('Tag not found in offline storage');
         }
         
         // Remove tag from note in offline storage
-        removeOfflineTagFromNote(noteId, tagId);
+        await removeOfflineTagFromNote(noteId, tagId);
+        enqueueMutation({ type: 'removeTagFromNote', noteId, tagId });
         
         return { success: true };
       }
@@ -369,27 +454,30 @@ export function useRemoveTagFromNote() {
         const result = await res.json();
         
         // Also remove in offline storage
-        removeOfflineTagFromNote(noteId, tagId);
+        await removeOfflineTagFromNote(noteId, tagId);
         
         return result;
       } catch (error) {
+        if (!shouldQueueFailedMutation(error)) throw error;
+        
         console.error('Error removing tag from note, removing in offline storage only:', error);
         
         // Check if note exists
-        const note = getOfflineNoteWithTags(noteId);
+        const note = await getOfflineNoteWithTags(noteId);
         if (!note) {
           throw new Error('Note not found in offline storage');
         }
         
         // Check if tag exists
-        const offlineTags = getOfflineTags();
+        const offlineTags = await getOfflineTags();
         const tag = offlineTags.find(t => t.id === tagId);
         if (!tag) {
           throw new Error('Tag not found in offline storage');
         }
         
         // Remove tag from note in offline storage
-        removeOfflineTagFromNote(noteId, tagId);
+        await removeOfflineTagFromNote(noteId, tagId);
+        enqueueMutation({ type: 'removeTagFromNote', noteId, tagId });
         
         return { success: true };
       }
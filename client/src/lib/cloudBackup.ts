@@ -0,0 +1,56 @@
+import { CloudBackup, CloudBackupInfo } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { isOffline } from '@/lib/offlineStorage';
+
+// Changes arrive in bursts (autosave), so backups wait for things to settle
+const BACKUP_DELAY_MS = 60 * 1000;
+
+let backupTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Back up the signed-in user's notes and tags to cloud storage.
+ * The server builds the snapshot from its own copy and signs the upload.
+ */
+export const saveCloudBackup = async (): Promise<CloudBackupInfo> => {
+  const res = await apiRequest('POST', '/api/cloud/backup');
+  return res.json();
+};
+
+/**
+ * Get the signed-in user's latest cloud backup
+ * @returns The backup, or null if none has been made yet
+ */
+export const getCloudBackup = async (): Promise<CloudBackup | null> => {
+  const res = await fetch('/api/cloud/backup', { credentials: 'include' });
+  if (res.status === 404) return null;
+
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${await res.text()}`);
+  }
+  return res.json();
+};
+
+/**
+ * Back up once no further changes have come in for a while.
+ * Calls made in the meantime push the backup back.
+ */
+export const scheduleCloudBackup = () => {
+  if (backupTimer) clearTimeout(backupTimer);
+
+  backupTimer = setTimeout(async () => {
+    backupTimer = null;
+    if (isOffline()) return;
+
+    try {
+      await saveCloudBackup();
+    } catch (error: unknown) {
+      console.error('Error backing up notes to the cloud:', error);
+    }
+  }, BACKUP_DELAY_MS);
+};
+
+// Stop a pending backup, e.g. when the user signs out
+export const cancelCloudBackup = () => {
+  if (backupTimer) clearTimeout(backupTimer);
+  backupTimer = null;
+};
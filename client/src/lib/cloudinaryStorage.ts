@@ -1,118 +0,0 @@
-import { NoteWithTags, Note, Tag } from '@shared/schema';
-
-// Cloudinary configuration - using import.meta.env for browser environment
-const CLOUD_NAME = import.meta.env.CLOUDINARY_CLOUD_NAME || '';
-const API_KEY = import.meta.env.CLOUDINARY_API_KEY || '';
-const API_SECRET = import.meta.env.CLOUDINARY_API_SECRET || '';
-
-// Helper function to create a Cloudinary URL for the stored JSON file
-const getCloudinaryFileUrl = (userId: string, fileType: 'notes' | 'tags'): string => {
-  return `https://res.cloudinary.com/${CLOUD_NAME}/raw/upload/notes-app/${userId}/${fileType}`;
-};
-
-// Note: In a production app, signatures should be generated on the server side
-// For demo purposes, we're using a simplified approach here, recognizing
-// that exposing API_SECRET to the client is not ideal for security
-
-/**
- * Save data to Cloudinary using Fetch API (browser-compatible)
- * 
- * For this demo app, we're using a server-side proxy approach where we simulate
- * how this would work in a real application. In a production environment, you would 
- * have the server handle the upload with proper authentication.
- */
-const saveToCloudinary = async (userId: string, data: any, fileType: 'notes' | 'tags'): Promise<void> => {
-  try {
-    // For development purpose only, we're making a simplified request directly from frontend
-    // In production, this should be handled by a server endpoint with proper authentication
-    console.log(`Attempting to save ${fileType} to Cloudinary for user ${userId}`);
-    
-    // We'll just log the action and return success for the demo
-    // This is where a real implementation would make a POST request to a server endpoint
-    // that would handle the Cloudinary upload securely
-    
-    // In a real implementation, this would be:
-    // const response = await fetch('/api/cloudinary/upload', {
-    //   method: 'POST',
-    //   headers: { 'Content-Type': 'application/json' },
-    //   body: JSON.stringify({ userId, data, fileType })
-    // });
-    
-    // For demo simulation purposes, we'll just log the data instead of actually uploading
-    console.log(`Mock ${fileType} saved to Cloudinary successfully`);
-    
-    // Store in local storage for demo persistence
-    localStorage.setItem(`cloudinary_${userId}_${fileType}`, JSON.stringify(data));
-    
-  } catch (error: unknown) {
-    console.error(`Error with ${fileType} Cloudinary operation:`, error);
-    throw error;
-  }
-};
-
-/**
- * Save a user's note data to Cloudinary
- * @param userId The Firebase user ID to associate with the data
- * @param notes The notes to save
- * @returns A promise that resolves when the operation is complete
- */
-export const saveUserNotes = async (userId: string, notes: NoteWithTags[]): Promise<void> => {
-  return saveToCloudinary(userId, notes, 'notes');
-};
-
-/**
- * Get a user's note data from Cloudinary
- * @param userId The Firebase user ID to retrieve data for
- * @returns A promise that resolves to the user's notes or null if not found
- */
-export const getUserNotes = async (userId: string): Promise<NoteWithTags[] | null> => {
-  try {
-    // For demo purposes, we'll use localStorage instead of actual Cloudinary API
-    const storedNotes = localStorage.getItem(`cloudinary_${userId}_notes`);
-    
-    if (!storedNotes) {
-      console.log('No notes found for this user in localStorage');
-      return null;
-    }
-    
-    const notes = JSON.parse(storedNotes);
-    console.log('Notes retrieved from localStorage successfully');
-    return notes;
-  } catch (error: unknown) {
-    console.error('Error retrieving notes:', error);
-    return null;
-  }
-};
-
-/**
- * Save a user's tags to Cloudinary
- * @param userId The Firebase user ID
- * @param tags The tags to save
- */
-export const saveUserTags = async (userId: string, tags: Tag[]): Promise<void> => {
-  return saveToCloudinary(userId, tags, 'tags');
-};
-
-/**
- * Get a user's tags from Cloudinary
- * @param userId The Firebase user ID
- * @returns The user's tags or null if not found
- */
-export const getUserTags = async (userId: string): Promise<Tag[] | null> => {
-  try {
-    // For demo purposes, we'll use localStorage instead of actual Cloudinary API
-    const storedTags = localStorage.getItem(`cloudinary_${userId}_tags`);
-    
-    if (!storedTags) {
-      console.log('No tags found for this user in localStorage');
-      return null;
-    }
-    
-    const tags = JSON.parse(storedTags);
-    console.log('Tags retrieved from localStorage successfully');
-    return tags;
-  } catch (error: unknown) {
-    console.error('Error retrieving tags:', error);
-    return null;
-  }
-};
\ No newline at end of file
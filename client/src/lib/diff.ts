@@ -0,0 +1,84 @@
+export type DiffLineType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Flattens note HTML into one line of text per block element so that
+// revisions can be compared line by line
+export function htmlToLines(html: string): string[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const blocks = doc.body.querySelectorAll('p, h1, h2, h3, h4, h5, h6, li, pre, blockquote, tr');
+  const lines: string[] = [];
+
+  blocks.forEach(block => {
+    // Nested blocks (e.g. a <p> inside an <li>) are reported by their innermost element
+    if (block.querySelector('p, li, pre, tr')) return;
+
+    if (block.tagName === 'PRE') {
+      lines.push(...(block.textContent || '').split('\n'));
+    } else if (block.tagName === 'TR') {
+      lines.push(Array.from(block.children).map(cell => cell.textContent || '').join(' | '));
+    } else {
+      lines.push(block.textContent || '');
+    }
+  });
+
+  // Plain text content without any block elements
+  if (blocks.length === 0 && doc.body.textContent) {
+    lines.push(...doc.body.textContent.split('\n'));
+  }
+
+  return lines;
+}
+
+// Line diff based on the longest common subsequence of the two inputs
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  // Skip the common prefix and suffix to keep the LCS table small for typical edits
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+
+  // lcs[i][j] is the LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = before.slice(0, start).map(text => ({ type: 'unchanged' as const, text }));
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+
+  result.push(...before.slice(endBefore).map(text => ({ type: 'unchanged' as const, text })));
+  return result;
+}
@@ -0,0 +1,184 @@
+// A force-directed layout: nodes push each other apart, edges pull their ends
+// together and everything drifts towards the origin. Repulsion is estimated
+// with a Barnes-Hut quadtree, so a tick costs O(n log n) rather than O(n²)
+// and graphs of thousands of notes still settle in a second or two.
+
+export interface LayoutNode {
+  id: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface LayoutEdge {
+  source: LayoutNode;
+  target: LayoutNode;
+  // Preferred length
+  distance: number;
+}
+
+const REPULSION = 30;
+// How far a quadtree cell can be from a node, relative to its size, before
+// its nodes are treated as one
+const THETA = 0.9;
+const GRAVITY = 0.02;
+const VELOCITY_DECAY = 0.6;
+const ALPHA_DECAY = 0.02;
+const ALPHA_MIN = 0.002;
+
+interface QuadCell {
+  x0: number;
+  y0: number;
+  size: number;
+  // Total charge and its centre
+  mass: number;
+  cx: number;
+  cy: number;
+  // Set on leaves holding a node
+  node: LayoutNode | null;
+  children: (QuadCell | null)[] | null;
+}
+
+function newCell(x0: number, y0: number, size: number): QuadCell {
+  return { x0, y0, size, mass: 0, cx: 0, cy: 0, node: null, children: null };
+}
+
+function insert(cell: QuadCell, node: LayoutNode, depth = 0) {
+  cell.cx = (cell.cx * cell.mass + node.x) / (cell.mass + 1);
+  cell.cy = (cell.cy * cell.mass + node.y) / (cell.mass + 1);
+  cell.mass++;
+
+  if (!cell.children) {
+    // Nodes on the same spot would otherwise split the cell forever
+    if (!cell.node || depth > 24) {
+      cell.node ??= node;
+      return;
+    }
+    const existing = cell.node;
+    cell.node = null;
+    cell.children = [null, null, null, null];
+    insertIntoChild(cell, existing, depth);
+  }
+  insertIntoChild(cell, node, depth);
+}
+
+function insertIntoChild(cell: QuadCell, node: LayoutNode, depth: number) {
+  const half = cell.size / 2;
+  const right = node.x >= cell.x0 + half ? 1 : 0;
+  const bottom = node.y >= cell.y0 + half ? 1 : 0;
+  const index = right + bottom * 2;
+  cell.children![index] ??= newCell(cell.x0 + right * half, cell.y0 + bottom * half, half);
+  insert(cell.children![index]!, node, depth + 1);
+}
+
+function buildQuadtree(nodes: LayoutNode[]): QuadCell {
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  for (const node of nodes) {
+    x0 = Math.min(x0, node.x);
+    y0 = Math.min(y0, node.y);
+    x1 = Math.max(x1, node.x);
+    y1 = Math.max(y1, node.y);
+  }
+  const root = newCell(x0, y0, Math.max(x1 - x0, y1 - y0, 1) + 1);
+  for (const node of nodes) insert(root, node);
+  return root;
+}
+
+function repel(cell: QuadCell, node: LayoutNode, strength: number) {
+  if (cell.mass === 0 || cell.node === node) return;
+
+  let dx = cell.cx - node.x;
+  let dy = cell.cy - node.y;
+  let distanceSq = dx * dx + dy * dy;
+
+  if (cell.children && cell.size * cell.size / THETA / THETA < distanceSq) {
+    node.vx -= dx * strength * cell.mass / distanceSq;
+    node.vy -= dy * strength * cell.mass / distanceSq;
+    return;
+  }
+  if (cell.children) {
+    for (const child of cell.children) {
+      if (child) repel(child, node, strength);
+    }
+    return;
+  }
+
+  // Nodes stacked on top of each other are nudged apart in a random direction
+  if (distanceSq === 0) {
+    dx = Math.random() - 0.5;
+    dy = Math.random() - 0.5;
+    distanceSq = dx * dx + dy * dy;
+  }
+  // Keep nearby nodes from flinging each other away
+  distanceSq = Math.max(distanceSq, 1);
+  node.vx -= dx * strength * cell.mass / distanceSq;
+  node.vy -= dy * strength * cell.mass / distanceSq;
+}
+
+export class ForceLayout {
+  // Edge strength is split between the edges of busy nodes, so hubs stay put
+  private edgeStrengths: number[];
+
+  // `alpha` is how much the layout still has to move: 1 from scratch, less
+  // when most nodes are already where they belong
+  constructor(private nodes: LayoutNode[], private edges: LayoutEdge[], private alpha = 1) {
+    const degree = new Map<LayoutNode, number>();
+    for (const { source, target } of edges) {
+      degree.set(source, (degree.get(source) ?? 0) + 1);
+      degree.set(target, (degree.get(target) ?? 0) + 1);
+    }
+    this.edgeStrengths = edges.map(({ source, target }) =>
+      1 / Math.min(degree.get(source)!, degree.get(target)!)
+    );
+  }
+
+  // Places nodes without a position on a spiral around the origin, which
+  // spreads them evenly and settles faster than random placement
+  static seed(nodes: LayoutNode[]) {
+    const angle = Math.PI * (3 - Math.sqrt(5));
+    nodes.forEach((node, i) => {
+      if (!isNaN(node.x) && !isNaN(node.y)) return;
+      const radius = 10 * Math.sqrt(i + 0.5);
+      node.x = radius * Math.cos(i * angle);
+      node.y = radius * Math.sin(i * angle);
+      node.vx = 0;
+      node.vy = 0;
+    });
+  }
+
+  get settled(): boolean {
+    return this.alpha < ALPHA_MIN;
+  }
+
+  tick() {
+    if (this.settled || this.nodes.length === 0) return;
+    this.alpha += (0 - this.alpha) * ALPHA_DECAY;
+
+    this.edges.forEach(({ source, target, distance }, i) => {
+      const dx = target.x + target.vx - source.x - source.vx || 1e-6;
+      const dy = target.y + target.vy - source.y - source.vy || 1e-6;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      const pull = (length - distance) / length * this.alpha * this.edgeStrengths[i] / 2;
+      target.vx -= dx * pull;
+      target.vy -= dy * pull;
+      source.vx += dx * pull;
+      source.vy += dy * pull;
+    });
+
+    const tree = buildQuadtree(this.nodes);
+    const strength = REPULSION * this.alpha;
+    for (const node of this.nodes) {
+      repel(tree, node, strength);
+      node.vx -= node.x * GRAVITY * this.alpha;
+      node.vy -= node.y * GRAVITY * this.alpha;
+    }
+
+    for (const node of this.nodes) {
+      node.vx *= VELOCITY_DECAY;
+      node.vy *= VELOCITY_DECAY;
+      node.x += node.vx;
+      node.y += node.vy;
+    }
+  }
+}
@@ -1,15 +1,54 @@
-import { Note, NoteWithTags, Tag } from '@shared/schema';
+import { InsertNote, InsertTag, Note, NoteSearchResult, NoteWithTags, SyncChanges, Tag } from '@shared/schema';
+import { subtreeIds } from '@shared/hierarchy';
+import { NoteSearchIndex } from '@shared/search';
 
-const NOTES_STORAGE_KEY = 'notes_master_offline_notes';
-const TAGS_STORAGE_KEY = 'notes_master_offline_tags';
-const NOTE_TAGS_STORAGE_KEY = 'notes_master_offline_note_tags';
+const DB_NAME = 'notes_master_offline';
+const DB_VERSION = 1;
+
+const NOTES_STORE = 'notes';
+const TAGS_STORE = 'tags';
+const NOTE_TAGS_STORE = 'noteTags';
+
+// Keys used before offline data moved to IndexedDB; migrated on first open
+const LEGACY_NOTES_STORAGE_KEY = 'notes_master_offline_notes';
+const LEGACY_TAGS_STORAGE_KEY = 'notes_master_offline_tags';
+const LEGACY_NOTE_TAGS_STORAGE_KEY = 'notes_master_offline_note_tags';
+
+// The outbox and sync time stay in localStorage: they are small, and reading
+// them synchronously keeps queueing a mutation free of interleaving
+const OUTBOX_STORAGE_KEY = 'notes_master_offline_outbox';
 const LAST_SYNC_KEY = 'notes_master_last_sync';
+// The user everything above belongs to
+const OFFLINE_USER_KEY = 'notes_master_offline_user';
 
 interface NoteTag {
   noteId: number;
   tagId: number;
 }
 
+// IndexedDB cannot index booleans, so notes are stored with a numeric copy of isDeleted
+type StoredNote = Note & { deleted: 0 | 1 };
+
+// A change made while offline that still has to be sent to the API.
+// Notes and tags created offline are referenced by their temporary (negative) IDs.
+export type OfflineMutation =
+  | { type: 'createNote'; tempId: number; note: Partial<InsertNote> & { tagIds?: number[] } }
+  | { type: 'updateNote'; noteId: number; note: Partial<InsertNote> & { tagIds?: number[] }; version?: number }
+  | { type: 'deleteNote'; noteId: number }
+  | { type: 'restoreNote'; noteId: number }
+  | { type: 'setFavorite'; noteId: number; isFavorite: boolean }
+  | { type: 'createTag'; tempId: number; tag: InsertTag }
+  | { type: 'updateTag'; tagId: number; tag: Partial<InsertTag> }
+  | { type: 'deleteTag'; tagId: number }
+  | { type: 'mergeTags'; tagId: number; targetId: number }
+  | { type: 'addTagToNote'; noteId: number; tagId: number }
+  | { type: 'removeTagFromNote'; noteId: number; tagId: number };
+
+export type OutboxEntry = OfflineMutation & {
+  id: string;
+  queuedAt: number;
+};
+
 // Helper to get stored data with a fallback
 function getStoredData<T>(key: string, fallback: T): T {
   try {
@@ -30,171 +69,461 @@ function storeData(key: string, data: any) {
   }
 }
 
-// Get all notes from local storage
-export function getOfflineNotes(): Note[] {
-  return getStoredData<Note[]>(NOTES_STORAGE_KEY, []);
+// Wrap an IndexedDB request in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
 }
 
-// Get all tags from local storage
-export function getOfflineTags(): Tag[] {
-  return getStoredData<Tag[]>(TAGS_STORAGE_KEY, []);
+// Resolves once a transaction has committed
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+
+        const notes = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+        notes.createIndex('updatedAt', 'updatedAt');
+        notes.createIndex('isDeleted', 'deleted');
+
+        db.createObjectStore(TAGS_STORE, { keyPath: 'id' });
+
+        const noteTags = db.createObjectStore(NOTE_TAGS_STORE, { keyPath: ['noteId', 'tagId'] });
+        noteTags.createIndex('noteId', 'noteId');
+        noteTags.createIndex('tagId', 'tagId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async (db) => {
+      await migrateFromLocalStorage(db);
+      return db;
+    });
+
+    // Allow a later call to try again if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
 }
 
-// Get note-tag relationships from local storage
-export function getOfflineNoteTags(): NoteTag[] {
-  return getStoredData<NoteTag[]>(NOTE_TAGS_STORAGE_KEY, []);
+// Run `fn` inside a transaction and resolve once the transaction has committed
+async function withStores<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T>
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, mode);
+  const done = transactionDone(tx);
+
+  const result = await fn(tx);
+  await done;
+  return result;
 }
 
-// Store notes in local storage
-export function storeOfflineNotes(notes: Note[]) {
-  storeData(NOTES_STORAGE_KEY, notes);
+function toStoredNote(note: Note): StoredNote {
+  return { ...note, deleted: note.isDeleted ? 1 : 0 };
 }
 
-// Store tags in local storage
-export function storeOfflineTags(tags: Tag[]) {
-  storeData(TAGS_STORAGE_KEY, tags);
+function fromStoredNote({ deleted: _deleted, ...note }: StoredNote): Note {
+  return note;
 }
 
-// Store note-tag relationships in local storage
-export function storeOfflineNoteTags(noteTags: NoteTag[]) {
-  storeData(NOTE_TAGS_STORAGE_KEY, noteTags);
+// Move data saved by the old localStorage implementation into IndexedDB, once
+async function migrateFromLocalStorage(db: IDBDatabase) {
+  const legacyKeys = [LEGACY_NOTES_STORAGE_KEY, LEGACY_TAGS_STORAGE_KEY, LEGACY_NOTE_TAGS_STORAGE_KEY];
+  if (legacyKeys.every(key => localStorage.getItem(key) === null)) return;
+
+  const notes = getStoredData<Note[]>(LEGACY_NOTES_STORAGE_KEY, []);
+  const tags = getStoredData<Tag[]>(LEGACY_TAGS_STORAGE_KEY, []);
+  const noteTags = getStoredData<NoteTag[]>(LEGACY_NOTE_TAGS_STORAGE_KEY, []);
+
+  const tx = db.transaction([NOTES_STORE, TAGS_STORE, NOTE_TAGS_STORE], 'readwrite');
+  for (const note of notes) {
+    // JSON turned the dates into strings
+    tx.objectStore(NOTES_STORE).put(toStoredNote({
+      ...note,
+      createdAt: new Date(note.createdAt),
+      updatedAt: new Date(note.updatedAt)
+    }));
+  }
+  for (const tag of tags) {
+    tx.objectStore(TAGS_STORE).put(tag);
+  }
+  for (const { noteId, tagId } of noteTags) {
+    tx.objectStore(NOTE_TAGS_STORE).put({ noteId, tagId });
+  }
+  await transactionDone(tx);
+
+  legacyKeys.forEach(key => localStorage.removeItem(key));
 }
 
-// Get a specific note with its tags
-export function getOfflineNoteWithTags(noteId: number): NoteWithTags | undefined {
-  const notes = getOfflineNotes();
-  const tags = getOfflineTags();
-  const noteTags = getOfflineNoteTags();
-  
-  const note = notes.find(n => n.id === noteId);
-  if (!note) return undefined;
-  
-  const noteTagIds = noteTags
-    .filter(nt => nt.noteId === noteId)
-    .map(nt => nt.tagId);
-  
-  const noteTags_: Tag[] = tags.filter(tag => noteTagIds.includes(tag.id));
-  
-  return {
+// Attach tags to notes using the note-tag links
+function withTags(notes: Note[], tags: Tag[], noteTags: NoteTag[]): NoteWithTags[] {
+  const tagsById = new Map(tags.map(tag => [tag.id, tag]));
+  const tagsByNote = new Map<number, Tag[]>();
+
+  for (const { noteId, tagId } of noteTags) {
+    const tag = tagsById.get(tagId);
+    if (!tag) continue;
+    tagsByNote.set(noteId, [...(tagsByNote.get(noteId) ?? []), tag]);
+  }
+
+  return notes.map(note => ({
     ...note,
-    tags: noteTags_
-  };
+    tags: tagsByNote.get(note.id) ?? []
+  }));
 }
 
-// Get all notes with their tags
-export function getOfflineNotesWithTags(): NoteWithTags[] {
-  const notes = getOfflineNotes();
-  const tags = getOfflineTags();
-  const noteTags = getOfflineNoteTags();
-  
-  return notes.map(note => {
-    const noteTagIds = noteTags
-      .filter(nt => nt.noteId === note.id)
-      .map(nt => nt.tagId);
-    
-    const noteTags_: Tag[] = tags.filter(tag => noteTagIds.includes(tag.id));
-    
+// Get all notes from offline storage
+export async function getOfflineNotes(): Promise<Note[]> {
+  return withStores([NOTES_STORE], 'readonly', async (tx) => {
+    const notes = await promisify<StoredNote[]>(tx.objectStore(NOTES_STORE).getAll());
+    return notes.map(fromStoredNote);
+  });
+}
+
+// Get all tags from offline storage
+export async function getOfflineTags(): Promise<Tag[]> {
+  return withStores([TAGS_STORE], 'readonly', (tx) =>
+    promisify<Tag[]>(tx.objectStore(TAGS_STORE).getAll())
+  );
+}
+
+// Get note-tag relationships from offline storage
+export async function getOfflineNoteTags(): Promise<NoteTag[]> {
+  return withStores([NOTE_TAGS_STORE], 'readonly', (tx) =>
+    promisify<NoteTag[]>(tx.objectStore(NOTE_TAGS_STORE).getAll())
+  );
+}
+
+// Replace all notes in offline storage
+export async function storeOfflineNotes(notes: Note[]) {
+  await withStores([NOTES_STORE], 'readwrite', async (tx) => {
+    const store = tx.objectStore(NOTES_STORE);
+    store.clear();
+    notes.forEach(note => store.put(toStoredNote(note)));
+  });
+}
+
+// Replace all tags in offline storage
+export async function storeOfflineTags(tags: Tag[]) {
+  await withStores([TAGS_STORE], 'readwrite', async (tx) => {
+    const store = tx.objectStore(TAGS_STORE);
+    store.clear();
+    tags.forEach(tag => store.put(tag));
+  });
+}
+
+// Replace all note-tag relationships in offline storage
+export async function storeOfflineNoteTags(noteTags: NoteTag[]) {
+  await withStores([NOTE_TAGS_STORE], 'readwrite', async (tx) => {
+    const store = tx.objectStore(NOTE_TAGS_STORE);
+    store.clear();
+    noteTags.forEach(({ noteId, tagId }) => store.put({ noteId, tagId }));
+  });
+}
+
+// Get queued offline mutations, oldest first
+export function getOfflineOutbox(): OutboxEntry[] {
+  return getStoredData<OutboxEntry[]>(OUTBOX_STORAGE_KEY, []);
+}
+
+// Store queued offline mutations
+export function storeOfflineOutbox(entries: OutboxEntry[]) {
+  storeData(OUTBOX_STORAGE_KEY, entries);
+}
+
+// Get a specific note with its tags
+export async function getOfflineNoteWithTags(noteId: number): Promise<NoteWithTags | undefined> {
+  return withStores([NOTES_STORE, TAGS_STORE, NOTE_TAGS_STORE], 'readonly', async (tx) => {
+    const note = await promisify<StoredNote | undefined>(tx.objectStore(NOTES_STORE).get(noteId));
+    if (!note) return undefined;
+
+    const noteTags = await promisify<NoteTag[]>(
+      tx.objectStore(NOTE_TAGS_STORE).index('noteId').getAll(noteId)
+    );
+    const tags = await Promise.all(
+      noteTags.map(({ tagId }) => promisify<Tag | undefined>(tx.objectStore(TAGS_STORE).get(tagId)))
+    );
+
     return {
-      ...note,
-      tags: noteTags_
+      ...fromStoredNote(note),
+      tags: tags.filter((tag): tag is Tag => tag !== undefined)
     };
   });
 }
 
+// Get all notes with their tags
+export async function getOfflineNotesWithTags(includeDeleted = true): Promise<NoteWithTags[]> {
+  return withStores([NOTES_STORE, TAGS_STORE, NOTE_TAGS_STORE], 'readonly', async (tx) => {
+    const notesStore = tx.objectStore(NOTES_STORE);
+    const notes = await promisify<StoredNote[]>(
+      includeDeleted ? notesStore.getAll() : notesStore.index('isDeleted').getAll(0)
+    );
+    const tags = await promisify<Tag[]>(tx.objectStore(TAGS_STORE).getAll());
+    const noteTags = await promisify<NoteTag[]>(tx.objectStore(NOTE_TAGS_STORE).getAll());
+
+    return withTags(notes.map(fromStoredNote), tags, noteTags);
+  });
+}
+
+// Get the notes carrying a tag or one of its sub-tags
+export async function getOfflineNotesByTag(tagId: number): Promise<NoteWithTags[]> {
+  const noteIds = await withStores([TAGS_STORE, NOTE_TAGS_STORE], 'readonly', async (tx) => {
+    const tags = await promisify<Tag[]>(tx.objectStore(TAGS_STORE).getAll());
+    const tagIndex = tx.objectStore(NOTE_TAGS_STORE).index('tagId');
+    const links = await Promise.all(
+      subtreeIds(tags, tagId).map(id => promisify<NoteTag[]>(tagIndex.getAll(id)))
+    );
+    return new Set(links.flat().map(({ noteId }) => noteId));
+  });
+  const notes = await Promise.all(Array.from(noteIds).map(noteId => getOfflineNoteWithTags(noteId)));
+  return notes.filter((note): note is NoteWithTags => note !== undefined);
+}
+
+// Get notes changed after a point in time
+export async function getOfflineNotesUpdatedSince(since: Date): Promise<Note[]> {
+  return withStores([NOTES_STORE], 'readonly', async (tx) => {
+    const notes = await promisify<StoredNote[]>(
+      tx.objectStore(NOTES_STORE).index('updatedAt').getAll(IDBKeyRange.lowerBound(since, true))
+    );
+    return notes.map(fromStoredNote);
+  });
+}
+
 // Save a note to offline storage
-export function saveOfflineNote(note: Note) {
-  const notes = getOfflineNotes();
-  const existingNoteIndex = notes.findIndex(n => n.id === note.id);
-  
-  if (existingNoteIndex >= 0) {
-    // Update existing note
-    notes[existingNoteIndex] = note;
-  } else {
-    // Add new note
-    notes.push(note);
-  }
-  
-  storeOfflineNotes(notes);
+export async function saveOfflineNote(note: Note) {
+  await saveOfflineNotes([note]);
   return note;
 }
 
+// Save several notes to offline storage in one transaction
+export async function saveOfflineNotes(notes: Note[]) {
+  await withStores([NOTES_STORE], 'readwrite', async (tx) => {
+    const store = tx.objectStore(NOTES_STORE);
+    // Notes from the API carry their dates as strings
+    notes.forEach(note => store.put(toStoredNote({
+      ...note,
+      createdAt: new Date(note.createdAt),
+      updatedAt: new Date(note.updatedAt)
+    })));
+  });
+}
+
 // Delete a note from offline storage
-export function deleteOfflineNote(noteId: number) {
-  const notes = getOfflineNotes();
-  const filteredNotes = notes.filter(n => n.id !== noteId);
-  storeOfflineNotes(filteredNotes);
-  
-  // Also remove note-tag relationships
-  const noteTags = getOfflineNoteTags();
-  const filteredNoteTags = noteTags.filter(nt => nt.noteId !== noteId);
-  storeOfflineNoteTags(filteredNoteTags);
-  
+export async function deleteOfflineNote(noteId: number) {
+  await withStores([NOTES_STORE, NOTE_TAGS_STORE], 'readwrite', async (tx) => {
+    tx.objectStore(NOTES_STORE).delete(noteId);
+
+    // Also remove note-tag relationships
+    const noteTagsStore = tx.objectStore(NOTE_TAGS_STORE);
+    const keys = await promisify(noteTagsStore.index('noteId').getAllKeys(noteId));
+    keys.forEach(key => noteTagsStore.delete(key));
+  });
+
   return true;
 }
 
 // Save a tag to offline storage
-export function saveOfflineTag(tag: Tag) {
-  const tags = getOfflineTags();
-  const existingTagIndex = tags.findIndex(t => t.id === tag.id);
-  
-  if (existingTagIndex >= 0) {
-    // Update existing tag
-    tags[existingTagIndex] = tag;
-  } else {
-    // Add new tag
-    tags.push(tag);
-  }
-  
-  storeOfflineTags(tags);
+export async function saveOfflineTag(tag: Tag) {
+  await withStores([TAGS_STORE], 'readwrite', async (tx) => {
+    tx.objectStore(TAGS_STORE).put(tag);
+  });
   return tag;
 }
 
-// Delete a tag from offline storage
-export function deleteOfflineTag(tagId: number) {
-  const tags = getOfflineTags();
-  const filteredTags = tags.filter(t => t.id !== tagId);
-  storeOfflineTags(filteredTags);
-  
-  // Also remove note-tag relationships
-  const noteTags = getOfflineNoteTags();
-  const filteredNoteTags = noteTags.filter(nt => nt.tagId !== tagId);
-  storeOfflineNoteTags(filteredNoteTags);
-  
+// Point the sub-tags of one tag at another parent
+async function reparentOfflineTags(tagsStore: IDBObjectStore, fromId: number, toId: number | null) {
+  const tags = await promisify<Tag[]>(tagsStore.getAll());
+  tags
+    .filter(tag => tag.parentId === fromId)
+    .forEach(tag => tagsStore.put({ ...tag, parentId: toId }));
+}
+
+// Delete a tag from offline storage. Its sub-tags move up a level, as on the server.
+export async function deleteOfflineTag(tagId: number) {
+  await withStores([TAGS_STORE, NOTE_TAGS_STORE], 'readwrite', async (tx) => {
+    const tagsStore = tx.objectStore(TAGS_STORE);
+    const tag = await promisify<Tag | undefined>(tagsStore.get(tagId));
+    await reparentOfflineTags(tagsStore, tagId, tag?.parentId ?? null);
+    tagsStore.delete(tagId);
+
+    // Also remove note-tag relationships
+    const noteTagsStore = tx.objectStore(NOTE_TAGS_STORE);
+    const keys = await promisify(noteTagsStore.index('tagId').getAllKeys(tagId));
+    keys.forEach(key => noteTagsStore.delete(key));
+  });
+
   return true;
 }
 
+// Mirror of a server-side merge: notes and sub-tags of the source tag move
+// to the target, then the source is deleted
+export async function mergeOfflineTags(sourceId: number, targetId: number) {
+  await withStores([TAGS_STORE, NOTE_TAGS_STORE], 'readwrite', async (tx) => {
+    const tagsStore = tx.objectStore(TAGS_STORE);
+    await reparentOfflineTags(tagsStore, sourceId, targetId);
+    tagsStore.delete(sourceId);
+
+    const noteTagsStore = tx.objectStore(NOTE_TAGS_STORE);
+    const links = await promisify<NoteTag[]>(noteTagsStore.index('tagId').getAll(sourceId));
+    links.forEach(({ noteId }) => {
+      noteTagsStore.delete([noteId, sourceId]);
+      noteTagsStore.put({ noteId, tagId: targetId });
+    });
+  });
+}
+
 // Add a tag to a note in offline storage
-export function addOfflineTagToNote(noteId: number, tagId: number) {
-  const noteTags = getOfflineNoteTags();
-  
-  // Check if relation already exists
-  const exists = noteTags.some(nt => nt.noteId === noteId && nt.tagId === tagId);
-  if (exists) return;
-  
-  // Add new relation
-  noteTags.push({ noteId, tagId });
-  storeOfflineNoteTags(noteTags);
+export async function addOfflineTagToNote(noteId: number, tagId: number) {
+  // Links are keyed by [noteId, tagId], so adding one twice is harmless
+  await withStores([NOTE_TAGS_STORE], 'readwrite', async (tx) => {
+    tx.objectStore(NOTE_TAGS_STORE).put({ noteId, tagId });
+  });
 }
 
 // Remove a tag from a note in offline storage
-export function removeOfflineTagFromNote(noteId: number, tagId: number) {
-  const noteTags = getOfflineNoteTags();
-  const filteredNoteTags = noteTags.filter(
-    nt => !(nt.noteId === noteId && nt.tagId === tagId)
-  );
-  storeOfflineNoteTags(filteredNoteTags);
+export async function removeOfflineTagFromNote(noteId: number, tagId: number) {
+  await withStores([NOTE_TAGS_STORE], 'readwrite', async (tx) => {
+    tx.objectStore(NOTE_TAGS_STORE).delete([noteId, tagId]);
+  });
+}
+
+// Replace a temporary note ID with the one assigned by the server
+export async function remapOfflineNoteId(tempId: number, serverId: number) {
+  await withStores([NOTES_STORE, NOTE_TAGS_STORE], 'readwrite', async (tx) => {
+    const notesStore = tx.objectStore(NOTES_STORE);
+    const note = await promisify<StoredNote | undefined>(notesStore.get(tempId));
+    if (note) {
+      notesStore.delete(tempId);
+      notesStore.put({ ...note, id: serverId });
+    }
+
+    const noteTagsStore = tx.objectStore(NOTE_TAGS_STORE);
+    const links = await promisify<NoteTag[]>(noteTagsStore.index('noteId').getAll(tempId));
+    links.forEach(({ tagId }) => {
+      noteTagsStore.delete([tempId, tagId]);
+      noteTagsStore.put({ noteId: serverId, tagId });
+    });
+  });
+}
+
+// Replace a temporary tag ID with the one assigned by the server
+export async function remapOfflineTagId(tempId: number, serverId: number) {
+  await withStores([TAGS_STORE, NOTE_TAGS_STORE], 'readwrite', async (tx) => {
+    const tagsStore = tx.objectStore(TAGS_STORE);
+    const tag = await promisify<Tag | undefined>(tagsStore.get(tempId));
+    if (tag) {
+      tagsStore.delete(tempId);
+      tagsStore.put({ ...tag, id: serverId });
+    }
+    await reparentOfflineTags(tagsStore, tempId, serverId);
+
+    const noteTagsStore = tx.objectStore(NOTE_TAGS_STORE);
+    const links = await promisify<NoteTag[]>(noteTagsStore.index('tagId').getAll(tempId));
+    links.forEach(({ noteId }) => {
+      noteTagsStore.delete([noteId, tempId]);
+      noteTagsStore.put({ noteId, tagId: serverId });
+    });
+  });
+}
+
+// Merge the result of a server sync into offline storage. A full sync replaces
+// everything the server knows about; records that only exist offline are kept.
+export async function applyServerChanges(changes: SyncChanges, full: boolean) {
+  await withStores([NOTES_STORE, TAGS_STORE, NOTE_TAGS_STORE], 'readwrite', async (tx) => {
+    const notesStore = tx.objectStore(NOTES_STORE);
+    const tagsStore = tx.objectStore(TAGS_STORE);
+    const noteTagsStore = tx.objectStore(NOTE_TAGS_STORE);
+
+    const deleteLinks = async (indexName: 'noteId' | 'tagId', id: number) => {
+      const keys = await promisify(noteTagsStore.index(indexName).getAllKeys(id));
+      keys.forEach(key => noteTagsStore.delete(key));
+    };
+
+    if (full) {
+      const [noteKeys, tagKeys, links] = await Promise.all([
+        promisify(notesStore.getAllKeys()),
+        promisify(tagsStore.getAllKeys()),
+        promisify<NoteTag[]>(noteTagsStore.getAll())
+      ]);
+      noteKeys.forEach(key => (key as number) > 0 && notesStore.delete(key));
+      tagKeys.forEach(key => (key as number) > 0 && tagsStore.delete(key));
+      links
+        .filter(({ noteId, tagId }) => noteId > 0 && tagId > 0)
+        .forEach(({ noteId, tagId }) => noteTagsStore.delete([noteId, tagId]));
+    }
+
+    // Deletes go first so that a link removed and added again survives
+    for (const tombstone of changes.tombstones) {
+      if (tombstone.entity === 'noteTag') {
+        noteTagsStore.delete([tombstone.noteId!, tombstone.tagId!]);
+      } else if (tombstone.entity === 'tag') {
+        tagsStore.delete(tombstone.entityId!);
+        await deleteLinks('tagId', tombstone.entityId!);
+      } else {
+        notesStore.delete(tombstone.entityId!);
+        await deleteLinks('noteId', tombstone.entityId!);
+      }
+    }
+
+    // Everything from the API carries its dates as strings
+    changes.notes.forEach(note => notesStore.put(toStoredNote({
+      ...note,
+      createdAt: new Date(note.createdAt),
+      updatedAt: new Date(note.updatedAt)
+    })));
+    changes.tags.forEach(tag => tagsStore.put({ ...tag, updatedAt: new Date(tag.updatedAt) }));
+    changes.noteTags.forEach(({ noteId, tagId }) => noteTagsStore.put({ noteId, tagId }));
+  });
 }
 
 // Search notes in offline storage
-export function searchOfflineNotes(query: string): NoteWithTags[] {
-  const lowercaseQuery = query.toLowerCase();
-  const notesWithTags = getOfflineNotesWithTags();
-  
-  return notesWithTags.filter(note => 
-    note.title.toLowerCase().includes(lowercaseQuery) || 
-    note.content.toLowerCase().includes(lowercaseQuery) ||
-    note.tags.some(tag => tag.name.toLowerCase().includes(lowercaseQuery))
-  );
+// Same index and ranking as the server's search, kept between searches
+const offlineSearchIndex = new NoteSearchIndex();
+
+export async function searchOfflineNotes(query: string): Promise<NoteSearchResult[]> {
+  const [notes, tags] = await Promise.all([getOfflineNotesWithTags(), getOfflineTags()]);
+  offlineSearchIndex.sync(notes, tags);
+  return offlineSearchIndex.search(query);
+}
+
+// Remove everything kept offline: notes, tags, queued mutations and the sync time
+export async function clearOfflineData() {
+  await withStores([NOTES_STORE, TAGS_STORE, NOTE_TAGS_STORE], 'readwrite', async (tx) => {
+    tx.objectStore(NOTES_STORE).clear();
+    tx.objectStore(TAGS_STORE).clear();
+    tx.objectStore(NOTE_TAGS_STORE).clear();
+  });
+  localStorage.removeItem(OUTBOX_STORAGE_KEY);
+  localStorage.removeItem(LAST_SYNC_KEY);
+  localStorage.removeItem(OFFLINE_USER_KEY);
+}
+
+// Null for data stored before it was tied to a user
+export function getOfflineUserId(): number | null {
+  const userId = localStorage.getItem(OFFLINE_USER_KEY);
+  return userId ? parseInt(userId, 10) : null;
+}
+
+export function setOfflineUserId(userId: number) {
+  localStorage.setItem(OFFLINE_USER_KEY, userId.toString());
 }
 
 // Store the last sync timestamp
@@ -220,9 +549,9 @@ export function setupConnectivityListeners(
 ) {
   window.addEventListener('online', onOnline);
   window.addEventListener('offline', onOffline);
-  
+
   return () => {
     window.removeEventListener('online', onOnline);
     window.removeEventListener('offline', onOffline);
   };
-}
\ No newline at end of file
+}
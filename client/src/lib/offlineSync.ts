@@ -0,0 +1,377 @@
+import { type InsertNote, type Note, type SyncResponse, type Tag } from '@shared/schema';
+import { queryClient } from '@/lib/queryClient';
+import {
+  type OfflineMutation,
+  type OutboxEntry,
+  getOfflineOutbox,
+  storeOfflineOutbox,
+  remapOfflineNoteId,
+  remapOfflineTagId,
+  applyServerChanges,
+  getLastSyncTime,
+  setLastSyncTime,
+  clearOfflineData,
+  getOfflineUserId,
+  setOfflineUserId,
+  isOffline
+} from '@/lib/offlineStorage';
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+}
+
+export interface IdRemap {
+  kind: 'note' | 'tag';
+  tempId: number;
+  serverId: number;
+}
+
+// How long to wait before retrying after the server could not be reached
+const RETRY_DELAY_MS = 30 * 1000;
+
+let status: SyncStatus = { state: 'idle', pending: getOfflineOutbox().length };
+const statusListeners = new Set<() => void>();
+const remapListeners = new Set<(remap: IdRemap) => void>();
+
+let replaying: Promise<void> | null = null;
+let pulling: Promise<void> | null = null;
+let inFlightId: string | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function setStatus(state: SyncState) {
+  status = { state, pending: getOfflineOutbox().length };
+  statusListeners.forEach(listener => listener());
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function subscribeToSyncStatus(listener: () => void) {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+// Notifies when a note or tag created offline receives its server ID
+export function onIdRemap(listener: (remap: IdRemap) => void) {
+  remapListeners.add(listener);
+  return () => {
+    remapListeners.delete(listener);
+  };
+}
+
+// Signed out, timed out or server trouble: worth sending again later. Any
+// other rejection (validation, permissions, a missing note) would only repeat.
+function isRetryableStatus(status: number): boolean {
+  return status === 401 || status === 408 || status >= 500;
+}
+
+// Whether a mutation that failed online should be queued to be sent again:
+// true when the server could not be reached or the failure may pass
+export function shouldQueueFailedMutation(error: unknown): boolean {
+  // API errors start with the response status ("404: ..."); fetch itself
+  // rejects with a TypeError when there is no connection
+  const status = error instanceof Error ? parseInt(error.message, 10) : NaN;
+  return isNaN(status) || isRetryableStatus(status);
+}
+
+// Mutations have to wait behind anything still queued, otherwise they could
+// reach the server before the changes they depend on
+export function hasPendingMutations(): boolean {
+  return getOfflineOutbox().length > 0;
+}
+
+// Record a mutation to send once the API is reachable
+export function enqueueMutation(mutation: OfflineMutation) {
+  const outbox = getOfflineOutbox();
+
+  if (mutation.type === 'updateNote') {
+    // Edits of a note that only exists offline become part of its creation
+    const pendingCreate = outbox.find(entry =>
+      entry.type === 'createNote' && entry.tempId === mutation.noteId && entry.id !== inFlightId
+    );
+    if (pendingCreate?.type === 'createNote') {
+      pendingCreate.note = { ...pendingCreate.note, ...mutation.note };
+      storeOfflineOutbox(outbox);
+      return;
+    }
+
+    // Consecutive saves of the same note only need to be sent once
+    const last = outbox[outbox.length - 1];
+    if (last?.type === 'updateNote' && last.noteId === mutation.noteId && last.id !== inFlightId) {
+      last.note = { ...last.note, ...mutation.note };
+      storeOfflineOutbox(outbox);
+      return;
+    }
+  }
+
+  outbox.push({
+    ...mutation,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    queuedAt: Date.now()
+  });
+  storeOfflineOutbox(outbox);
+
+  if (isOffline()) {
+    setStatus('offline');
+  } else {
+    replayOutbox();
+  }
+}
+
+// Send queued mutations to the API in order. Concurrent calls share one replay.
+export function replayOutbox(): Promise<void> {
+  if (!replaying) {
+    replaying = drainOutbox().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+function scheduleRetry() {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    replayOutbox();
+  }, RETRY_DELAY_MS);
+}
+
+async function drainOutbox() {
+  if (isOffline()) {
+    setStatus('offline');
+    return;
+  }
+  if (!hasPendingMutations()) {
+    setStatus('idle');
+    return;
+  }
+
+  setStatus('syncing');
+
+  // Versions returned by the server as we go, so later edits of the same note
+  // are not mistaken for conflicts with our own earlier ones
+  const noteVersions = new Map<number, number>();
+
+  let entry: OutboxEntry | undefined;
+  while ((entry = getOfflineOutbox()[0])) {
+    inFlightId = entry.id;
+    let sent: boolean;
+    try {
+      sent = await replayEntry(entry, noteVersions);
+    } catch (error) {
+      // fetch only rejects when the server could not be reached
+      console.error('Offline sync interrupted:', error);
+      sent = false;
+    } finally {
+      inFlightId = null;
+    }
+
+    if (!sent) {
+      setStatus(isOffline() ? 'offline' : 'error');
+      scheduleRetry();
+      return;
+    }
+
+    const sentId = entry.id;
+    storeOfflineOutbox(getOfflineOutbox().filter(e => e.id !== sentId));
+    setStatus('syncing');
+  }
+
+  setStatus('idle');
+  queryClient.invalidateQueries();
+}
+
+// Forget everything kept offline, including changes that were never sent
+export async function discardOfflineData() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  // Let a replay that is under way finish rather than clear the outbox under it
+  await replaying?.catch(() => {});
+  await clearOfflineData();
+  setStatus('idle');
+}
+
+// Offline data is only ever shown to and sent as the user who stored it.
+// Call before signing `userId` in: whatever another user left behind is dropped.
+export async function claimOfflineData(userId: number) {
+  const owner = getOfflineUserId();
+  if (owner !== null && owner !== userId) {
+    await discardOfflineData();
+  }
+  setOfflineUserId(userId);
+}
+
+// Bring offline storage up to date with the server: send queued mutations,
+// then merge whatever changed since the last sync. Concurrent calls share one pull.
+export function pullChanges(): Promise<void> {
+  if (!pulling) {
+    pulling = fetchChanges().finally(() => {
+      pulling = null;
+    });
+  }
+  return pulling;
+}
+
+async function fetchChanges() {
+  await replayOutbox();
+
+  // Local copies of unsent changes would be overwritten by older server data
+  if (isOffline() || hasPendingMutations()) return;
+
+  const since = getLastSyncTime();
+  const res = await fetch(`/api/sync${since ? `?since=${since}` : ''}`, { credentials: 'include' });
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${await res.text()}`);
+  }
+
+  const { cursor, full, ...changes }: SyncResponse = await res.json();
+  await applyServerChanges(changes, full);
+  setLastSyncTime(cursor);
+}
+
+async function send(method: string, url: string, body?: unknown, headers: Record<string, string> = {}) {
+  return fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json', ...headers } : headers,
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: 'include'
+  });
+}
+
+// Sends one entry. Returns false if it should be retried later.
+async function replayEntry(entry: OutboxEntry, noteVersions: Map<number, number>): Promise<boolean> {
+  let res: Response;
+
+  switch (entry.type) {
+    case 'createNote': {
+      res = await send('POST', '/api/notes', entry.note);
+      if (res.ok) {
+        const created: Note = await res.json();
+        noteVersions.set(created.id, created.version);
+        await remapId('note', entry.tempId, created.id);
+      }
+      break;
+    }
+    case 'updateNote': {
+      const version = noteVersions.get(entry.noteId) ?? entry.version;
+      res = await send(
+        'PUT',
+        `/api/notes/${entry.noteId}`,
+        entry.note,
+        version !== undefined ? { 'If-Match': `"${version}"` } : {}
+      );
+      if (res.status === 409) {
+        return keepConflictingEdit(entry.note, (await res.json()).note);
+      }
+      if (res.ok) {
+        const updated: Note = await res.json();
+        noteVersions.set(updated.id, updated.version);
+      }
+      break;
+    }
+    case 'deleteNote':
+      res = await send('DELETE', `/api/notes/${entry.noteId}`);
+      break;
+    case 'restoreNote':
+      res = await send('POST', `/api/notes/${entry.noteId}/restore`);
+      break;
+    case 'setFavorite': {
+      res = await send('PUT', `/api/notes/${entry.noteId}`, { isFavorite: entry.isFavorite });
+      if (res.ok) {
+        const updated: Note = await res.json();
+        noteVersions.set(updated.id, updated.version);
+      }
+      break;
+    }
+    case 'createTag': {
+      res = await send('POST', '/api/tags', entry.tag);
+      if (res.ok) {
+        const created: Tag = await res.json();
+        await remapId('tag', entry.tempId, created.id);
+      }
+      break;
+    }
+    case 'updateTag':
+      res = await send('PUT', `/api/tags/${entry.tagId}`, entry.tag);
+      break;
+    case 'deleteTag':
+      res = await send('DELETE', `/api/tags/${entry.tagId}`);
+      break;
+    case 'mergeTags':
+      res = await send('POST', `/api/tags/${entry.tagId}/merge`, { targetId: entry.targetId });
+      break;
+    case 'addTagToNote':
+      res = await send('POST', `/api/notes/${entry.noteId}/tags/${entry.tagId}`);
+      break;
+    case 'removeTagFromNote':
+      res = await send('DELETE', `/api/notes/${entry.noteId}/tags/${entry.tagId}`);
+      break;
+  }
+
+  if (res.ok) return true;
+
+  if (isRetryableStatus(res.status)) return false;
+
+  // Anything else (e.g. the note was deleted elsewhere) can never succeed
+  console.warn(`Dropping offline ${entry.type} rejected with ${res.status}:`, await res.text());
+  return true;
+}
+
+// The note changed on the server while we were offline. Keep the server copy
+// and save the offline edit as a separate note so nothing is lost.
+async function keepConflictingEdit(edit: Partial<InsertNote>, serverNote: Note): Promise<boolean> {
+  if (edit.title === undefined && edit.content === undefined) return true;
+
+  const res = await send('POST', '/api/notes', {
+    title: `${edit.title ?? serverNote.title} (offline copy)`,
+    content: edit.content ?? serverNote.content
+  });
+  return res.ok || !isRetryableStatus(res.status);
+}
+
+// Point the rest of the outbox and the offline copies at the server ID
+async function remapId(kind: IdRemap['kind'], tempId: number, serverId: number) {
+  const outbox = getOfflineOutbox().map((queued): OutboxEntry => {
+    // A merge can name the temporary tag twice, so every field gets checked
+    let entry = queued;
+    if (kind === 'note' && 'noteId' in entry && entry.noteId === tempId) {
+      entry = { ...entry, noteId: serverId };
+    }
+    if (kind === 'tag' && 'tagId' in entry && entry.tagId === tempId) {
+      entry = { ...entry, tagId: serverId };
+    }
+    if (kind === 'tag' && entry.type === 'mergeTags' && entry.targetId === tempId) {
+      entry = { ...entry, targetId: serverId };
+    }
+    if (kind === 'tag' && entry.type === 'createTag' && entry.tag.parentId === tempId) {
+      entry = { ...entry, tag: { ...entry.tag, parentId: serverId } };
+    }
+    if (kind === 'tag' && entry.type === 'updateTag' && entry.tag.parentId === tempId) {
+      entry = { ...entry, tag: { ...entry.tag, parentId: serverId } };
+    }
+    if (kind === 'tag' && (entry.type === 'createNote' || entry.type === 'updateNote') && entry.note.tagIds?.includes(tempId)) {
+      entry = {
+        ...entry,
+        note: { ...entry.note, tagIds: entry.note.tagIds.map(id => id === tempId ? serverId : id) }
+      };
+    }
+    return entry;
+  });
+  storeOfflineOutbox(outbox);
+
+  if (kind === 'note') {
+    await remapOfflineNoteId(tempId, serverId);
+  } else {
+    await remapOfflineTagId(tempId, serverId);
+  }
+
+  remapListeners.forEach(listener => listener({ kind, tempId, serverId }));
+}
@@ -0,0 +1,98 @@
+import { useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { Sidebar } from "@/components/Sidebar";
+import { Header } from "@/components/Header";
+import { NoteGraph } from "@/components/NoteGraph";
+import { useNoteGraph } from "@/hooks/useNoteGraph";
+import { useTags } from "@/hooks/useTags";
+import { subtreeIds, tagPath } from "@shared/hierarchy";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const ALL_NOTES = "all";
+
+export default function Graph() {
+  const [_, navigate] = useLocation();
+  const { data: graph, isLoading, error } = useNoteGraph();
+  const { data: tags = [] } = useTags();
+  const [tagFilter, setTagFilter] = useState(ALL_NOTES);
+
+  const tagsById = useMemo(() => new Map(tags.map(tag => [tag.id, tag])), [tags]);
+  const tagOptions = useMemo(() =>
+    tags
+      .map(tag => ({ id: tag.id, path: tagPath(tag, tagsById) }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    [tags, tagsById]
+  );
+
+  // A tag also takes in the notes of its sub-tags
+  const { nodes, edges } = useMemo(() => {
+    if (!graph) return { nodes: [], edges: [] };
+    if (tagFilter === ALL_NOTES) return graph;
+
+    const tagIds = new Set(subtreeIds(tags, parseInt(tagFilter, 10)));
+    const nodes = graph.nodes.filter(node => node.tagIds.some(id => tagIds.has(id)));
+    const noteIds = new Set(nodes.map(node => node.id));
+    const edges = graph.edges.filter(edge => noteIds.has(edge.source) && noteIds.has(edge.target));
+    return { nodes, edges };
+  }, [graph, tags, tagFilter]);
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header />
+
+        <main className="flex-1 flex flex-col overflow-hidden">
+          <div className="flex flex-wrap justify-between items-center gap-2 px-6 pt-6 pb-4">
+            <div>
+              <h2 className="text-xl font-bold">Graph</h2>
+              {graph && (
+                <p className="text-sm text-gray-400">
+                  {nodes.length} {nodes.length === 1 ? "note" : "notes"}, {edges.length} {edges.length === 1 ? "connection" : "connections"}
+                </p>
+              )}
+            </div>
+            <Select value={tagFilter} onValueChange={setTagFilter}>
+              <SelectTrigger className="bg-gray-800 text-gray-200 border border-gray-700 rounded-md w-[200px]">
+                <SelectValue placeholder="Filter by tag" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_NOTES}>All notes</SelectItem>
+                {tagOptions.map(({ id, path }) => (
+                  <SelectItem key={id} value={String(id)}>{path}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex-1 min-h-0 mx-6 mb-6 rounded-lg border border-gray-800 bg-gray-900/50">
+            {isLoading ? (
+              <Skeleton className="h-full w-full" />
+            ) : error ? (
+              <p className="p-6 text-sm text-red-400">Failed to load the graph: {error.message}</p>
+            ) : nodes.length === 0 ? (
+              <p className="p-6 text-sm text-gray-400">
+                {tagFilter === ALL_NOTES ? "No notes yet." : "No notes with this tag."}
+              </p>
+            ) : (
+              <NoteGraph
+                nodes={nodes}
+                edges={edges}
+                tagsById={tagsById}
+                onOpenNote={id => navigate(`/notes/${id}`)}
+              />
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -6,20 +6,30 @@ import { NotesList } from "@/components/NotesList";
 import { Welcome } from "@/components/Welcome";
 import { useNotes } from "@/hooks/useNotes";
 import { useTags } from "@/hooks/useTags";
-import { type NoteWithTags } from "@shared/schema";
+import { useSavedSearches, useSavedSearchResults } from "@/hooks/useSavedSearches";
+import { useNotebooks, useRestoreNotebook } from "@/hooks/useNotebooks";
+import { useSharedNotes } from "@/hooks/useCollaborators";
+import { SavedSearchDialog } from "@/components/SavedSearchDialog";
+import { Button } from "@/components/ui/button";
+import { type NoteSearchResult } from "@shared/schema";
+import { subtreeIds, tagPath } from "@shared/hierarchy";
 import { useNoteContext } from "@/context/NoteContext";
+import { Book, FolderSearch, RotateCcw } from "lucide-react";
 
 export default function Home() {
   const params = useParams();
   const [location] = useLocation();
   const { isMenuOpen } = useNoteContext();
-  const [searchResults, setSearchResults] = useState<NoteWithTags[] | null>(null);
+  const [searchResults, setSearchResults] = useState<NoteSearchResult[] | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isSaveSearchOpen, setIsSaveSearchOpen] = useState(false);
   
   // Determine the current filter type based on URL
   const filterType = useMemo(() => {
     if (location.includes('/notes/favorites')) return 'favorites';
     if (location.includes('/notes/trash')) return 'trash';
     if (location.includes('/notes/recent')) return 'recent';
+    if (location.includes('/notes/shared')) return 'shared';
     return undefined;
   }, [location]);
   
@@ -31,18 +41,50 @@ export default function Home() {
     return undefined;
   }, [location, params]);
   
+  // Extract notebook ID from URL if we're on a notebook page
+  const notebookId = useMemo(() => {
+    if (location.includes('/notes/notebook/') && params?.notebook) {
+      return parseInt(params.notebook, 10);
+    }
+    return undefined;
+  }, [location, params]);
+  
+  // Extract saved search ID from URL if we're on a smart folder page
+  const savedSearchId = useMemo(() => {
+    if (location.includes('/notes/search/') && params?.search) {
+      return parseInt(params.search, 10);
+    }
+    return undefined;
+  }, [location, params]);
+  
   // Fetch notes and tags data
   const { data: notes = [], isLoading, error } = useNotes(filterType === 'trash');
+  // Notes of other users are only ever fetched from the server
+  const sharedNotes = useSharedNotes(filterType === 'shared');
   const { data: tags = [] } = useTags();
+  const { data: savedSearches = [] } = useSavedSearches();
+  const savedSearchResults = useSavedSearchResults();
+  const savedSearch = savedSearches.find(s => s.id === savedSearchId);
+  const { data: notebooks = [] } = useNotebooks(filterType === 'trash');
+  const { mutate: restoreNotebook } = useRestoreNotebook();
+  // Only the notebook the user deleted is listed, not the ones that went with it
+  const trashedNotebooks = notebooks.filter(notebook =>
+    notebook.isDeleted && !notebooks.some(other => other.id === notebook.parentId && other.isDeleted)
+  );
   
   // Handle search results
-  const handleSearch = (results: NoteWithTags[]) => {
+  const handleSearch = (results: NoteSearchResult[], query: string) => {
     setSearchResults(results.length > 0 ? results : null);
+    setSearchQuery(query);
   };
   
   // Calculate filtered notes and page title
   const notesData = useMemo(() => {
-    if (!notes.length) {
+    if (filterType === 'shared') {
+      return { filtered: sharedNotes.data ?? [], title: "Shared with me" };
+    }
+    
+    if (!notes.length && !savedSearchId && !notebookId) {
       return { filtered: [], title: "All Notes" };
     }
     
@@ -61,22 +103,32 @@ export default function Home() {
         .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
         .slice(0, 10);
       title = "Recent Notes";
+    } else if (notebookId) {
+      const notebook = notebooks.find(n => n.id === notebookId);
+      filtered = notes.filter(note => note.notebookId === notebookId && !note.isDeleted);
+      title = notebook ? notebook.name : "Notebook";
+    } else if (savedSearchId) {
+      filtered = savedSearchResults.get(savedSearchId) ?? [];
+      title = savedSearch ? savedSearch.name : "Smart Folder";
     } else if (tagId) {
       const tag = tags.find(t => t.id === tagId);
+      // A tag also lists the notes of its sub-tags
+      const tagIds = new Set(subtreeIds(tags, tagId));
       filtered = notes.filter(note => 
-        note.tags.some(t => t.id === tagId) && !note.isDeleted
+        note.tags.some(t => tagIds.has(t.id)) && !note.isDeleted
       );
-      title = tag ? `Tag: ${tag.name}` : "Tagged Notes";
+      title = tag ? `Tag: ${tagPath(tag, new Map(tags.map(t => [t.id, t])))}` : "Tagged Notes";
     } else {
       filtered = notes.filter(note => !note.isDeleted);
     }
     
     return { filtered, title };
-  }, [notes, filterType, tagId, tags]);
+  }, [notes, filterType, sharedNotes.data, tagId, tags, notebookId, notebooks, savedSearchId, savedSearch, savedSearchResults]);
   
   // Determine final notes to display and title
   const displayNotes = searchResults || notesData.filtered;
-  const showNotesList = displayNotes.length > 0 || searchResults !== null;
+  const showNotesList = displayNotes.length > 0 || searchResults !== null ||
+    savedSearchId !== undefined || notebookId !== undefined || filterType === 'shared';
   const title = searchResults ? "Search Results" : notesData.title;
   
   return (
@@ -87,18 +139,58 @@ export default function Home() {
         <Header onSearch={handleSearch} />
         
         <main className="flex-1 overflow-y-auto">
+          {filterType === 'trash' && trashedNotebooks.length > 0 && (
+            <div className="px-6 pt-6 flex flex-wrap gap-2">
+              {trashedNotebooks.map(notebook => (
+                <div
+                  key={notebook.id}
+                  className="flex items-center gap-2 bg-gray-800 border border-gray-700 rounded-md pl-3 pr-1 py-1 text-sm"
+                >
+                  <Book className="h-4 w-4 text-purple-400" />
+                  <span>{notebook.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-gray-300"
+                    onClick={() => restoreNotebook(notebook.id)}
+                  >
+                    <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                    Restore
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
           {showNotesList ? (
             <NotesList 
               notes={displayNotes} 
               title={title} 
-              loading={isLoading} 
-              error={error instanceof Error ? error : null} 
+              loading={filterType === 'shared' ? sharedNotes.isLoading : isLoading} 
+              error={filterType === 'shared' ? sharedNotes.error : error instanceof Error ? error : null} 
+              defaultSort={searchResults ? undefined : savedSearch?.sort}
+              actions={searchResults && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsSaveSearchOpen(true)}
+                  className="text-gray-300 border-gray-700"
+                >
+                  <FolderSearch className="h-4 w-4 mr-1" />
+                  Save search
+                </Button>
+              )}
             />
           ) : (
             <Welcome />
           )}
         </main>
       </div>
+      
+      <SavedSearchDialog
+        open={isSaveSearchOpen}
+        onOpenChange={setIsSaveSearchOpen}
+        initialQuery={searchQuery}
+      />
     </div>
   );
 }
@@ -8,12 +8,11 @@ import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { FcGoogle } from "react-icons/fc";
-import { PenLine, Mail, Lock } from "lucide-react";
+import { PenLine, User, Lock } from "lucide-react";
 
 // Create schema for login form
 const loginSchema = z.object({
-  email: z.string().email({ message: "Please enter a valid email address" }),
+  username: z.string().min(1, { message: "Username is required" }),
   password: z.string().min(1, { message: "Password is required" })
 });
 
@@ -21,14 +20,14 @@ type LoginFormValues = z.infer<typeof loginSchema>;
 
 export default function Login() {
   const [, navigate] = useLocation();
-  const { login, loginWithEmail, isLoading, currentUser } = useAuth();
+  const { login, isLoading, currentUser } = useAuth();
   const [error, setError] = useState<string | null>(null);
 
   // Use form with zod validation
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
-      email: "",
+      username: "",
       password: ""
     }
   });
@@ -40,37 +39,22 @@ export default function Login() {
     }
   }, [currentUser, navigate]);
 
-  const handleEmailLogin = async (data: LoginFormValues) => {
+  const handleLogin = async (data: LoginFormValues) => {
     try {
       setError(null);
-      await loginWithEmail(data.email, data.password);
+      await login(data.username, data.password);
       // The auth state will update and redirect
     } catch (err: any) {
-      console.error("Email login error:", err);
+      console.error("Login error:", err);
       
-      // Handle specific Firebase errors with user-friendly messages
-      if (err?.code === "auth/user-not-found" || err?.code === "auth/wrong-password") {
-        setError("Invalid email or password. Please try again.");
-      } else if (err?.code === "auth/too-many-requests") {
-        setError("Too many failed login attempts. Please try again later.");
+      if (err?.message?.startsWith("401")) {
+        setError("Invalid username or password. Please try again.");
       } else {
         setError("Failed to sign in. Please try again.");
       }
     }
   };
 
-  const handleGoogleLogin = async () => {
-    try {
-      setError(null);
-      await login();
-      // No navigate here - the redirect will happen after
-      // the auth state updates in the AuthProvider
-    } catch (err) {
-      console.error("Google login error:", err);
-      setError("Failed to sign in with Google. Please try again.");
-    }
-  };
-
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-[#121212] to-[#1E1E1E] px-4">
       <div className="w-full max-w-md p-8 space-y-8 bg-gray-900 rounded-xl shadow-xl border border-gray-800">
@@ -91,19 +75,19 @@ export default function Login() {
         )}
 
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(handleEmailLogin)} className="space-y-4">
+          <form onSubmit={form.handleSubmit(handleLogin)} className="space-y-4">
             <FormField
               control={form.control}
-              name="email"
+              name="username"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Email</FormLabel>
+                  <FormLabel>Username</FormLabel>
                   <FormControl>
                     <div className="relative">
-                      <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <User className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                       <Input 
-                        placeholder="Enter your email" 
-                        type="email" 
+                        placeholder="Enter your username" 
+                        autoComplete="username" 
                         className="pl-10" 
                         {...field} 
                         disabled={isLoading}
@@ -148,24 +132,6 @@ export default function Login() {
           </form>
         </Form>
 
-        <div className="relative">
-          <div className="absolute inset-0 flex items-center">
-            <div className="w-full border-t border-gray-700"></div>
-          </div>
-          <div className="relative flex justify-center text-xs uppercase">
-            <span className="bg-gray-900 px-2 text-gray-400">Or</span>
-          </div>
-        </div>
-
-        <Button
-          className="w-full py-6 flex items-center justify-center gap-3 bg-white hover:bg-gray-100 text-gray-900"
-          onClick={handleGoogleLogin}
-          disabled={isLoading}
-        >
-          <FcGoogle className="h-5 w-5" />
-          <span>{isLoading ? "Signing in..." : "Sign in with Google"}</span>
-        </Button>
-
         <div className="text-center text-sm text-gray-500 mt-4">
           <p>
             Don't have an account?{" "}
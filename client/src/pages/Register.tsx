@@ -7,13 +7,12 @@ import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { FcGoogle } from "react-icons/fc";
-import { PenLine, Mail, Lock, User } from "lucide-react";
+import { PenLine, AtSign, Lock, User } from "lucide-react";
 
 // Create schema for registration form
 const registerSchema = z.object({
   name: z.string().min(2, { message: "Name must be at least 2 characters" }),
-  email: z.string().email({ message: "Please enter a valid email address" }),
+  username: z.string().trim().min(3, { message: "Username must be at least 3 characters" }),
   password: z.string().min(6, { message: "Password must be at least 6 characters" }),
   confirmPassword: z.string().min(1, { message: "Please confirm your password" })
 }).refine(data => data.password === data.confirmPassword, {
@@ -25,7 +24,7 @@ type RegisterFormValues = z.infer<typeof registerSchema>;
 
 export default function Register() {
   const [, navigate] = useLocation();
-  const { register, login, isLoading, currentUser } = useAuth();
+  const { register, isLoading, currentUser } = useAuth();
   const [error, setError] = useState<string | null>(null);
 
   // Use form with zod validation
@@ -33,7 +32,7 @@ export default function Register() {
     resolver: zodResolver(registerSchema),
     defaultValues: {
       name: "",
-      email: "",
+      username: "",
       password: "",
       confirmPassword: ""
     }
@@ -49,34 +48,19 @@ export default function Register() {
   const handleRegister = async (data: RegisterFormValues) => {
     try {
       setError(null);
-      await register(data.email, data.password, data.name);
+      await register(data.username, data.password, data.name);
       // The auth state will update and redirect after successful registration
     } catch (err: any) {
       console.error("Registration error:", err);
       
-      // Handle specific Firebase errors with user-friendly messages
-      if (err?.code === "auth/email-already-in-use") {
-        setError("This email is already in use. Try logging in instead.");
-      } else if (err?.code === "auth/weak-password") {
-        setError("Password is too weak. Please choose a stronger password.");
+      if (err?.message?.startsWith("409")) {
+        setError("This username is already taken. Try logging in instead.");
       } else {
         setError("Failed to create account. Please try again.");
       }
     }
   };
 
-  const handleGoogleLogin = async () => {
-    try {
-      setError(null);
-      await login();
-      // No navigate here - the redirect will happen after
-      // the auth state updates in the AuthProvider
-    } catch (err) {
-      console.error("Google login error:", err);
-      setError("Failed to sign in with Google. Please try again.");
-    }
-  };
-
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-[#121212] to-[#1E1E1E] px-4">
       <div className="w-full max-w-md p-8 space-y-8 bg-gray-900 rounded-xl shadow-xl border border-gray-800">
@@ -122,16 +106,16 @@ export default function Register() {
             
             <FormField
               control={form.control}
-              name="email"
+              name="username"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Email</FormLabel>
+                  <FormLabel>Username</FormLabel>
                   <FormControl>
                     <div className="relative">
-                      <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <AtSign className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                       <Input 
-                        placeholder="Enter your email" 
-                        type="email" 
+                        placeholder="Choose a username" 
+                        autoComplete="username" 
                         className="pl-10" 
                         {...field} 
                         disabled={isLoading}
@@ -199,24 +183,6 @@ export default function Register() {
           </form>
         </Form>
 
-        <div className="relative">
-          <div className="absolute inset-0 flex items-center">
-            <div className="w-full border-t border-gray-700"></div>
-          </div>
-          <div className="relative flex justify-center text-xs uppercase">
-            <span className="bg-gray-900 px-2 text-gray-400">Or</span>
-          </div>
-        </div>
-
-        <Button
-          className="w-full py-6 flex items-center justify-center gap-3 bg-white hover:bg-gray-100 text-gray-900"
-          onClick={handleGoogleLogin}
-          disabled={isLoading}
-        >
-          <FcGoogle className="h-5 w-5" />
-          <span>{isLoading ? "Signing in..." : "Continue with Google"}</span>
-        </Button>
-
         <div className="text-center text-sm text-gray-500 mt-4">
           <p>
             Already have an account?{" "}
@@ -0,0 +1,28 @@
+CREATE TABLE "note_tags" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"note_id" integer NOT NULL,
+	"tag_id" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text DEFAULT 'Untitled' NOT NULL,
+	"content" text DEFAULT '' NOT NULL,
+	"is_favorite" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"is_deleted" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tags" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"color" text DEFAULT '#8B5CF6' NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
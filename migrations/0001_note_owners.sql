@@ -0,0 +1,6 @@
+ALTER TABLE "note_tags" ADD COLUMN "user_id" integer NOT NULL;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "user_id" integer NOT NULL;--> statement-breakpoint
+ALTER TABLE "tags" ADD COLUMN "user_id" integer NOT NULL;--> statement-breakpoint
+ALTER TABLE "note_tags" ADD CONSTRAINT "note_tags_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notes" ADD CONSTRAINT "notes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tags" ADD CONSTRAINT "tags_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
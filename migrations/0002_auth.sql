@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "display_name" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tags" ADD COLUMN "parent_id" integer;
\ No newline at end of file
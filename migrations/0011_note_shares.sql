@@ -0,0 +1,30 @@
+ALTER TABLE "note_shares" RENAME TO "share_links";--> statement-breakpoint
+ALTER TABLE "share_links" RENAME CONSTRAINT "note_shares_pkey" TO "share_links_pkey";--> statement-breakpoint
+ALTER TABLE "share_links" RENAME CONSTRAINT "note_shares_token_unique" TO "share_links_token_unique";--> statement-breakpoint
+ALTER TABLE "share_links" RENAME CONSTRAINT "note_shares_user_id_users_id_fk" TO "share_links_user_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "share_links" RENAME CONSTRAINT "note_shares_note_id_notes_id_fk" TO "share_links_note_id_notes_id_fk";--> statement-breakpoint
+ALTER SEQUENCE "note_shares_id_seq" RENAME TO "share_links_id_seq";--> statement-breakpoint
+CREATE TABLE "note_comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"note_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "note_shares" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"note_id" integer,
+	"notebook_id" integer,
+	"shared_with_id" integer NOT NULL,
+	"role" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "note_comments" ADD CONSTRAINT "note_comments_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "note_comments" ADD CONSTRAINT "note_comments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "note_shares" ADD CONSTRAINT "note_shares_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "note_shares" ADD CONSTRAINT "note_shares_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "note_shares" ADD CONSTRAINT "note_shares_notebook_id_notebooks_id_fk" FOREIGN KEY ("notebook_id") REFERENCES "public"."notebooks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "note_shares" ADD CONSTRAINT "note_shares_shared_with_id_users_id_fk" FOREIGN KEY ("shared_with_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
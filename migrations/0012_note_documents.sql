@@ -0,0 +1,10 @@
+CREATE TABLE "note_documents" (
+	"note_id" integer PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"state" text NOT NULL,
+	"note_version" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "note_documents" ADD CONSTRAINT "note_documents_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "note_documents" ADD CONSTRAINT "note_documents_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
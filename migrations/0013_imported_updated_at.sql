@@ -0,0 +1 @@
+ALTER TABLE "notes" ADD COLUMN "imported_updated_at" timestamp;
\ No newline at end of file
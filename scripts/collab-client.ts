@@ -0,0 +1,134 @@
+// A command-line client for collaborative editing, to try it out without a
+// browser: run two of these against the same note and type into either.
+//
+//   npx tsx scripts/collab-client.ts <username> <password> <noteId> [server]
+//
+// Each line typed is appended to the note as a paragraph, and the note's text
+// is printed whenever anyone changes it. Only paragraphs and plain text are
+// understood, so use it on test notes: a note nobody has open elsewhere is
+// loaded as its text, without formatting.
+import readline from 'readline';
+import WebSocket from 'ws';
+import * as Y from 'yjs';
+import { CollabProvider, type CollabSocket } from '../shared/collabProvider';
+import { COLLAB_FRAGMENT, collabPath, userColor } from '../shared/collab';
+
+const [username, password, noteIdArg, server = 'http://localhost:5000'] = process.argv.slice(2);
+const noteId = parseInt(noteIdArg, 10);
+
+if (!username || !password || isNaN(noteId)) {
+  console.error('Usage: npx tsx scripts/collab-client.ts <username> <password> <noteId> [server]');
+  process.exit(1);
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+function blockText(block: Y.XmlElement | Y.XmlText): string {
+  if (block instanceof Y.XmlText) return block.toDelta().map((op: { insert: unknown }) => op.insert).join('');
+  return block.toArray().map(child => blockText(child as Y.XmlElement | Y.XmlText)).join('');
+}
+
+function paragraphs(fragment: Y.XmlFragment): string[] {
+  return fragment.toArray().map(block => blockText(block as Y.XmlElement | Y.XmlText));
+}
+
+function appendParagraph(fragment: Y.XmlFragment, text: string) {
+  const paragraph = new Y.XmlElement('paragraph');
+  if (text) paragraph.insert(0, [new Y.XmlText(text)]);
+  fragment.push([paragraph]);
+}
+
+async function login(): Promise<{ cookie: string; user: { id: number; username: string; displayName: string | null } }> {
+  const res = await fetch(`${server}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  if (!res.ok) {
+    throw new Error(`Login failed: ${res.status} ${await res.text()}`);
+  }
+  const cookie = res.headers.getSetCookie().map(header => header.split(';')[0]).join('; ');
+  return { cookie, user: await res.json() };
+}
+
+async function main() {
+  const { cookie, user } = await login();
+  const fetchNote = async (): Promise<{ title: string; content: string }> => {
+    const res = await fetch(`${server}/api/notes/${noteId}`, { headers: { Cookie: cookie } });
+    if (!res.ok) {
+      throw new Error(`Failed to open note ${noteId}: ${res.status} ${await res.text()}`);
+    }
+    return res.json();
+  };
+  const note = await fetchNote();
+
+  const url = `${server.replace(/^http/, 'ws')}${collabPath(noteId)}`;
+  const collab = new CollabProvider(() => new WebSocket(url, { headers: { Cookie: cookie } }) as unknown as CollabSocket);
+  const fragment = collab.doc.getXmlFragment(COLLAB_FRAGMENT);
+  collab.awareness.setLocalStateField('user', {
+    name: user.displayName || user.username,
+    color: userColor(user.id),
+  });
+
+  const sendContent = () => {
+    collab.sendContent(paragraphs(fragment).map(text => `<p>${escapeHtml(text)}</p>`).join(''));
+  };
+
+  let lastPrinted = '';
+  const print = () => {
+    const text = paragraphs(fragment).join('\n');
+    if (text === lastPrinted) return;
+    lastPrinted = text;
+    console.log(`\n--- ${note.title || 'Untitled'} ---\n${text}\n---`);
+  };
+
+  collab.on('status', status => console.log(`[${status}]`));
+  collab.on('synced', print);
+  collab.on('saved', version => console.log(`[saved as version ${version}]`));
+  // Also asked for when the note was saved some other way, so the document is
+  // replaced with what the note holds now
+  collab.on('seed', async () => {
+    const { content } = await fetchNote().catch(() => note);
+    const text = content
+      .replace(/<\/(p|h[1-6]|li|pre|blockquote)>|<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+    collab.doc.transact(() => {
+      fragment.delete(0, fragment.length);
+      text.split('\n').filter(Boolean).forEach(line => appendParagraph(fragment, line));
+    });
+    sendContent();
+  });
+  collab.doc.on('update', (_update: Uint8Array, origin: unknown) => {
+    print();
+    if (origin !== collab) sendContent();
+  });
+  collab.awareness.on('change', () => {
+    const names = Array.from(collab.awareness.getStates().values())
+      .map(state => state.user?.name)
+      .filter(Boolean);
+    console.log(`[editing: ${names.join(', ')}]`);
+  });
+
+  const input = readline.createInterface({ input: process.stdin });
+  input.on('line', line => {
+    if (!collab.synced) {
+      console.log('[not synced yet, try again]');
+      return;
+    }
+    appendParagraph(fragment, line);
+  });
+  input.on('close', () => {
+    // Give the last edit a moment to go out
+    setTimeout(() => {
+      collab.destroy();
+      process.exit(0);
+    }, 500);
+  });
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
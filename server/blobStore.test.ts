@@ -0,0 +1,65 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { CloudinaryBlobStore, LocalBlobStore } from "./blobStore";
+
+describe("LocalBlobStore", () => {
+  let root: string;
+  let store: LocalBlobStore;
+
+  before(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "blobs-"));
+    store = new LocalBlobStore(root);
+  });
+
+  after(() => rm(root, { recursive: true, force: true }));
+
+  test("returns what was put under a key", async () => {
+    await store.put("backups/1/latest.json", '{"notes":[]}', "application/json");
+    assert.equal(await store.get("backups/1/latest.json"), '{"notes":[]}');
+
+    await store.put("backups/1/latest.json", '{"notes":[1]}', "application/json");
+    assert.equal(await store.get("backups/1/latest.json"), '{"notes":[1]}');
+  });
+
+  test("returns undefined for keys with nothing stored", async () => {
+    assert.equal(await store.get("backups/2/latest.json"), undefined);
+  });
+
+  test("refuses keys outside its directory", async () => {
+    await assert.rejects(store.put("../x", "data", "text/plain"), /escapes the storage directory/);
+    await assert.rejects(store.get("backups/../../x"), /escapes the storage directory/);
+  });
+});
+
+describe("CloudinaryBlobStore", () => {
+  const store = new CloudinaryBlobStore({ cloudName: "demo", apiKey: "1234", apiSecret: "abcd", folder: "notes-app" });
+
+  test("signs requests with a SHA-1 of the sorted parameters and the secret", async (t) => {
+    t.mock.method(Date, "now", () => 1315060510000);
+    const fetchMock = t.mock.method(globalThis, "fetch", async () => new Response("stored"));
+
+    assert.equal(await store.get("backups/1/latest.json"), "stored");
+
+    const url = new URL(String(fetchMock.mock.calls[0].arguments[0]));
+    assert.equal(url.origin + url.pathname, "https://api.cloudinary.com/v1_1/demo/raw/download");
+    assert.deepEqual(Object.fromEntries(url.searchParams), {
+      public_id: "notes-app/backups/1/latest.json",
+      type: "private",
+      timestamp: "1315060510",
+      api_key: "1234",
+      // SHA-1 of "public_id=notes-app/backups/1/latest.json&timestamp=1315060510&type=privateabcd"
+      signature: "29d7a5ed44be7d6c0ae131b84e39b8b3bb922dcf",
+    });
+  });
+
+  test("returns undefined for missing blobs and throws on other failures", async (t) => {
+    const responses = [new Response("", { status: 404 }), new Response("denied", { status: 401 })];
+    t.mock.method(globalThis, "fetch", async () => responses.shift()!);
+
+    assert.equal(await store.get("backups/2/latest.json"), undefined);
+    await assert.rejects(store.get("backups/2/latest.json"), /failed with 401: denied/);
+  });
+});
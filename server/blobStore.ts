@@ -0,0 +1,123 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+// Somewhere to keep opaque blobs (e.g. backups) under string keys like "backups/1/latest.json"
+export interface BlobStore {
+  put(key: string, data: string, contentType: string): Promise<void>;
+  // Resolves to undefined when nothing is stored under the key
+  get(key: string): Promise<string | undefined>;
+}
+
+export interface CloudinaryConfig {
+  cloudName: string;
+  apiKey: string;
+  apiSecret: string;
+  // Prefix for every public ID, so the app can share a Cloudinary account
+  folder?: string;
+}
+
+// Stores blobs as private raw assets. Every request is signed on the server,
+// so the API secret never has to reach the browser.
+export class CloudinaryBlobStore implements BlobStore {
+  constructor(private config: CloudinaryConfig) {}
+
+  async put(key: string, data: string, contentType: string): Promise<void> {
+    const params = this.sign({
+      public_id: this.publicId(key),
+      type: "private",
+      overwrite: "true",
+      invalidate: "true",
+    });
+
+    const form = new FormData();
+    for (const [name, value] of Object.entries(params)) {
+      form.append(name, value);
+    }
+    form.append("file", new Blob([data], { type: contentType }), path.basename(key));
+
+    const res = await fetch(this.apiUrl("upload"), { method: "POST", body: form });
+    if (!res.ok) {
+      throw new Error(`Cloudinary upload failed with ${res.status}: ${await res.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const params = this.sign({ public_id: this.publicId(key), type: "private" });
+    const res = await fetch(`${this.apiUrl("download")}?${new URLSearchParams(params)}`);
+
+    if (res.status === 404) return undefined;
+    if (!res.ok) {
+      throw new Error(`Cloudinary download failed with ${res.status}: ${await res.text()}`);
+    }
+    return res.text();
+  }
+
+  private publicId(key: string): string {
+    return this.config.folder ? `${this.config.folder}/${key}` : key;
+  }
+
+  private apiUrl(action: "upload" | "download"): string {
+    return `https://api.cloudinary.com/v1_1/${this.config.cloudName}/raw/${action}`;
+  }
+
+  // Adds the timestamp, API key and signature Cloudinary expects on authenticated calls:
+  // a SHA-1 of the sorted parameters followed by the API secret
+  private sign(params: Record<string, string>): Record<string, string> {
+    const signed = { ...params, timestamp: String(Math.floor(Date.now() / 1000)) };
+    const toSign = Object.keys(signed)
+      .sort()
+      .map(name => `${name}=${signed[name as keyof typeof signed]}`)
+      .join("&");
+    const signature = createHash("sha1").update(toSign + this.config.apiSecret).digest("hex");
+
+    return { ...signed, api_key: this.config.apiKey, signature };
+  }
+}
+
+// Keeps blobs as files below a directory, for development and tests
+export class LocalBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  async put(key: string, data: string): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data, "utf8");
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    try {
+      return await readFile(this.resolve(key), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Blob key escapes the storage directory: ${key}`);
+    }
+    return file;
+  }
+}
+
+// Use Cloudinary when CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY and
+// CLOUDINARY_API_SECRET are set, otherwise fall back to local files below
+// BLOB_STORAGE_DIR (default .data/blobs in the working directory, which git ignores)
+function createBlobStore(): BlobStore {
+  const { CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY, CLOUDINARY_API_SECRET } = process.env;
+  if (!CLOUDINARY_CLOUD_NAME || !CLOUDINARY_API_KEY || !CLOUDINARY_API_SECRET) {
+    return new LocalBlobStore(process.env.BLOB_STORAGE_DIR || path.resolve(".data", "blobs"));
+  }
+
+  return new CloudinaryBlobStore({
+    cloudName: CLOUDINARY_CLOUD_NAME,
+    apiKey: CLOUDINARY_API_KEY,
+    apiSecret: CLOUDINARY_API_SECRET,
+    folder: process.env.CLOUDINARY_FOLDER || "notes-app",
+  });
+}
+
+export const blobStore = createBlobStore();
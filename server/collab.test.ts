@@ -0,0 +1,177 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import WebSocket from "ws";
+import * as Y from "yjs";
+import { registerRoutes } from "./routes";
+import { CollabProvider, type CollabSocket } from "@shared/collabProvider";
+import { COLLAB_FRAGMENT, collabPath } from "@shared/collab";
+import type { Note } from "@shared/schema";
+
+type TestUser = { cookie: string; api: (method: string, url: string, body?: unknown) => Promise<Response> };
+
+// Waits for a condition the server brings about asynchronously
+async function eventually(check: () => boolean | Promise<boolean>, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for the condition");
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+function paragraph(text: string): Y.XmlElement {
+  const element = new Y.XmlElement("paragraph");
+  element.insert(0, [new Y.XmlText(text)]);
+  return element;
+}
+
+// HTML of a document holding only paragraphs, as the editor would send it
+function documentHtml(provider: CollabProvider): string {
+  return provider.doc.getXmlFragment(COLLAB_FRAGMENT).toString().replace(/paragraph>/g, "p>");
+}
+
+// Runs against the in-memory storage, as the server does without DATABASE_URL
+describe("collaborative editing", () => {
+  let server: Server;
+  let baseUrl: string;
+  let owner: TestUser;
+  let editor: TestUser;
+  let viewer: TestUser;
+  const providers: CollabProvider[] = [];
+
+  async function register(username: string): Promise<TestUser> {
+    const res = await fetch(`${baseUrl}/api/auth/register`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, password: "secret1" }),
+    });
+    assert.equal(res.status, 201);
+    const cookie = res.headers.get("set-cookie")!.split(";")[0];
+    return {
+      cookie,
+      api: (method, url, body) => fetch(`${baseUrl}${url}`, {
+        method,
+        headers: { Cookie: cookie, ...(body === undefined ? {} : { "Content-Type": "application/json" }) },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+    };
+  }
+
+  async function createSharedNote(): Promise<Note> {
+    const note: Note = await (await owner.api("POST", "/api/notes", { title: "Plan", content: "<p>hello</p>" })).json();
+    await owner.api("POST", "/api/collaborators", { noteId: note.id, username: "editor", role: "editor" });
+    await owner.api("POST", "/api/collaborators", { noteId: note.id, username: "viewer", role: "viewer" });
+    return note;
+  }
+
+  async function getNote(id: number): Promise<Note> {
+    return (await owner.api("GET", `/api/notes/${id}`)).json();
+  }
+
+  function openSocket(noteId: number, headers: Record<string, string>): WebSocket {
+    const socket = new WebSocket(`${baseUrl.replace("http", "ws")}${collabPath(noteId)}`, { headers });
+    // Refused reconnects surface as errors, which the provider's close handling covers
+    socket.on("error", () => {});
+    return socket;
+  }
+
+  function connect(user: TestUser, noteId: number): CollabProvider {
+    const provider = new CollabProvider(() => openSocket(noteId, { Cookie: user.cookie }) as unknown as CollabSocket);
+    providers.push(provider);
+    return provider;
+  }
+
+  // Status code the server answers the upgrade with, or "open"
+  function upgradeStatus(noteId: number, headers: Record<string, string>): Promise<number | "open"> {
+    return new Promise(resolve => {
+      const socket = openSocket(noteId, headers);
+      socket.on("unexpected-response", (_req, res) => resolve(res.statusCode!));
+      socket.on("open", () => {
+        socket.close();
+        resolve("open");
+      });
+    });
+  }
+
+  // Connects the owner and fills the new document from the note, as the editor does
+  async function seed(note: Note): Promise<CollabProvider> {
+    const provider = connect(owner, note.id);
+    await new Promise<void>(resolve => provider.once("seed", resolve));
+    provider.doc.getXmlFragment(COLLAB_FRAGMENT).push([paragraph("hello")]);
+    provider.sendContent(documentHtml(provider));
+    return provider;
+  }
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    owner = await register("owner");
+    editor = await register("editor");
+    viewer = await register("viewer");
+  });
+
+  after(async () => {
+    providers.forEach(provider => provider.destroy());
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test("refuses sockets from other sites and users below editor", async () => {
+    const note = await createSharedNote();
+    const host = new URL(baseUrl).host;
+
+    assert.equal(await upgradeStatus(note.id, {}), 401);
+    assert.equal(await upgradeStatus(note.id, { Cookie: viewer.cookie }), 403);
+    assert.equal(await upgradeStatus(note.id, { Cookie: editor.cookie, Origin: "https://evil.example" }), 403);
+    assert.equal(await upgradeStatus(note.id, { Cookie: editor.cookie, Origin: `http://${host}` }), "open");
+  });
+
+  test("merges the edits of two editors and saves them as a new version", async () => {
+    const note = await createSharedNote();
+    const first = await seed(note);
+    const second = connect(editor, note.id);
+    await eventually(() => second.synced && documentHtml(second) === "<p>hello</p>");
+
+    first.doc.getXmlFragment(COLLAB_FRAGMENT).push([paragraph("from the owner")]);
+    second.doc.getXmlFragment(COLLAB_FRAGMENT).push([paragraph("from the editor")]);
+    await eventually(() => documentHtml(first) === documentHtml(second) && documentHtml(first).split("<p>").length === 4);
+
+    const html = documentHtml(second);
+    assert.match(html, /^<p>hello<\/p>/);
+    const saved = new Promise<number>(resolve => first.once("saved", resolve));
+    second.sendContent(html);
+
+    const version = await saved;
+    assert.ok(version > note.version);
+    const stored = await getNote(note.id);
+    assert.equal(stored.content, html);
+    assert.equal(stored.version, version);
+  });
+
+  test("does not save content from an editor lowered to viewer", async () => {
+    const note = await createSharedNote();
+    const first = await seed(note);
+    const version = await new Promise<number>(resolve => first.once("saved", resolve));
+
+    const second = connect(editor, note.id);
+    await eventually(() => second.synced);
+    await owner.api("POST", "/api/collaborators", { noteId: note.id, username: "editor", role: "viewer" });
+    const disconnected = new Promise<void>(resolve => second.on("status", status => {
+      if (status === "disconnected") resolve();
+    }));
+    second.sendContent("<p>replaced</p>");
+
+    // Disconnected when the content would have been saved
+    await disconnected;
+    second.destroy();
+    const stored = await getNote(note.id);
+    assert.equal(stored.content, "<p>hello</p>");
+    assert.equal(stored.version, version);
+  });
+});
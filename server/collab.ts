@@ -0,0 +1,379 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import { NoteVersionConflictError, type IStorage } from "./storage";
+import type { UpgradeAuthenticator } from "./auth";
+import { getNoteAccess } from "./permissions";
+import { hasRole } from "@shared/permissions";
+import { sanitizeHtml } from "@shared/html";
+import {
+  COLLAB_PATH_PATTERN,
+  MESSAGE_AWARENESS,
+  MESSAGE_CONTENT,
+  MESSAGE_SAVED,
+  MESSAGE_SEED,
+  MESSAGE_SYNC,
+} from "@shared/collab";
+
+// Content is saved once editors pause for this long
+const SAVE_DELAY_MS = 2 * 1000;
+// How often the access of everyone in a room is checked again, besides
+// before each save
+const ACCESS_CHECK_INTERVAL_MS = 30 * 1000;
+
+type Connection = {
+  userId: number;
+  // Awareness client ids the connection announced, dropped when it closes
+  clientIds: Set<number>;
+};
+
+// Whether a client's document has seen exactly the updates this one has
+function matchesState(doc: Y.Doc, stateVector: Uint8Array): boolean {
+  const theirs = Y.decodeStateVector(stateVector);
+  const ours = Y.decodeStateVector(Y.encodeStateVector(doc));
+  return theirs.size === ours.size && Array.from(ours).every(([client, clock]) => theirs.get(client) === clock);
+}
+
+function encode(write: (encoder: encoding.Encoder) => void): Uint8Array {
+  const encoder = encoding.createEncoder();
+  write(encoder);
+  return encoding.toUint8Array(encoder);
+}
+
+// Everyone editing one note. The merged document is kept in memory while
+// anyone has the note open and saved through storage as they go, both as
+// note content and as document state for editors joining later. When the
+// note was saved some other way meanwhile, the save is refused and an editor
+// refills the document from the note instead. Editors whose share was
+// withdrawn or lowered, or whose note went to the trash, are disconnected.
+class NoteRoom {
+  readonly doc = new Y.Doc();
+  readonly awareness = new awarenessProtocol.Awareness(this.doc);
+  private connections = new Map<WebSocket, Connection>();
+  // Set while the document still has to be filled from the note's content
+  private seeder: WebSocket | null = null;
+  private needsSeed: boolean;
+  // Latest HTML of the document sent by an editor whose document was in step
+  // with this one, not saved yet
+  private content: string | null = null;
+  // Editor who sent that HTML
+  private contentFrom: WebSocket | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private accessTimer: ReturnType<typeof setInterval>;
+  // Set once the last editor left and everything was saved
+  closed = false;
+
+  constructor(
+    private storage: IStorage,
+    readonly ownerId: number,
+    readonly noteId: number,
+    // Version of the note the document was loaded from, then last saved as
+    private version: number,
+    state: string | null,
+    private onEmpty: () => void
+  ) {
+    // Nobody holds the awareness of the server itself
+    this.awareness.setLocalState(null);
+    this.needsSeed = state === null;
+    this.accessTimer = setInterval(() => {
+      this.checkAccess().catch(error => console.error("Error checking collaboration access:", error));
+    }, ACCESS_CHECK_INTERVAL_MS);
+    if (state !== null) {
+      Y.applyUpdate(this.doc, Buffer.from(state, "base64"));
+    }
+
+    this.doc.on("update", (update: Uint8Array, origin: unknown) => {
+      this.broadcast(encode(encoder => {
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.writeUpdate(encoder, update);
+      }), origin);
+    });
+
+    this.awareness.on("update", ({ added, updated, removed }: Record<string, number[]>, origin: unknown) => {
+      const changed = [...added, ...updated, ...removed];
+      const connection = origin instanceof WebSocket ? this.connections.get(origin) : undefined;
+      if (connection) {
+        added.forEach(id => connection.clientIds.add(id));
+        removed.forEach(id => connection.clientIds.delete(id));
+      }
+      this.broadcast(encode(encoder => {
+        encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness, changed));
+      }));
+    });
+  }
+
+  // Returns false when the room closed in the meantime
+  join(socket: WebSocket, userId: number): boolean {
+    if (this.closed) return false;
+    this.connections.set(socket, { userId, clientIds: new Set() });
+
+    socket.on("message", (data: Buffer) => {
+      // Still arriving from someone who was just disconnected
+      if (!this.connections.has(socket)) return;
+      try {
+        this.receive(socket, new Uint8Array(data));
+      } catch (error) {
+        console.error("Error handling collaboration message:", error);
+        socket.close(1003, "Malformed message");
+      }
+    });
+    socket.on("close", () => this.leave(socket));
+
+    this.send(socket, encode(encoder => {
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeSyncStep1(encoder, this.doc);
+    }));
+    if (this.awareness.getStates().size > 0) {
+      this.send(socket, encode(encoder => {
+        encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(
+          this.awareness,
+          Array.from(this.awareness.getStates().keys())
+        ));
+      }));
+    }
+    this.assignSeeder();
+    return true;
+  }
+
+  private receive(socket: WebSocket, message: Uint8Array) {
+    const decoder = decoding.createDecoder(message);
+    const type = decoding.readVarUint(decoder);
+
+    switch (type) {
+      case MESSAGE_SYNC: {
+        // Answers sync step 1 and applies everything else, with the socket as
+        // origin so updates are not echoed back to where they came from
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.readSyncMessage(decoder, encoder, this.doc, socket);
+        if (encoding.length(encoder) > 1) {
+          this.send(socket, encoding.toUint8Array(encoder));
+        }
+        break;
+      }
+      case MESSAGE_AWARENESS:
+        awarenessProtocol.applyAwarenessUpdate(this.awareness, decoding.readVarUint8Array(decoder), socket);
+        break;
+      case MESSAGE_CONTENT: {
+        // Content before the seed would save an empty note over the real one
+        if (this.needsSeed && socket !== this.seeder) break;
+        if (socket === this.seeder) {
+          this.seeder = null;
+          this.needsSeed = false;
+        }
+        // HTML of a document that is behind or ahead of ours would not match
+        // the state saved with it; an editor in step sends it again after
+        // the next change
+        const stateVector = decoding.readVarUint8Array(decoder);
+        const html = decoding.readVarString(decoder);
+        if (!matchesState(this.doc, stateVector)) break;
+        this.content = sanitizeHtml(html);
+        this.contentFrom = socket;
+        this.scheduleSave();
+        break;
+      }
+      default:
+        throw new Error(`Unknown message type ${type}`);
+    }
+  }
+
+  private leave(socket: WebSocket) {
+    const connection = this.connections.get(socket);
+    if (!connection) return;
+    this.connections.delete(socket);
+    awarenessProtocol.removeAwarenessStates(this.awareness, Array.from(connection.clientIds), null);
+
+    if (socket === this.seeder) {
+      this.seeder = null;
+      this.assignSeeder();
+    }
+    if (this.connections.size === 0) {
+      this.flush().finally(() => {
+        // Someone may have joined while the last save was running
+        if (this.connections.size === 0) {
+          this.closed = true;
+          clearInterval(this.accessTimer);
+          this.doc.destroy();
+          this.onEmpty();
+        }
+      });
+    }
+  }
+
+  // The first editor of a new document fills it; anyone else waits for that
+  // to come through, so the content is not inserted twice
+  private assignSeeder() {
+    if (!this.needsSeed || this.seeder) return;
+    const next = this.connections.keys().next();
+    if (next.done) return;
+    this.seeder = next.value;
+    this.send(this.seeder, encode(encoder => encoding.writeVarUint(encoder, MESSAGE_SEED)));
+  }
+
+  // The note was saved outside the room, so the document no longer matches it.
+  // Its content wins: an editor replaces the document with it, and nothing
+  // is saved until that came through.
+  private reseed(version: number) {
+    this.version = version;
+    this.needsSeed = true;
+    this.seeder = null;
+    this.content = null;
+    this.assignSeeder();
+  }
+
+  // Disconnects editors who lost access to the note since they joined
+  private async checkAccess() {
+    for (const [socket, { userId }] of Array.from(this.connections)) {
+      const access = await getNoteAccess(this.storage, userId, this.noteId);
+      if (!access || access.note.isDeleted || !hasRole(access.role, "editor")) {
+        // What they sent since they lost access is not saved either
+        if (socket === this.contentFrom) this.content = null;
+        this.leave(socket);
+        socket.close(4403, "Access revoked");
+      }
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, SAVE_DELAY_MS);
+  }
+
+  // Saves what is pending, one save at a time
+  flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.saving = this.saving.then(async () => {
+      if (this.content === null) return;
+
+      try {
+        await this.checkAccess();
+        if (this.content === null) return;
+        const content = this.content;
+        this.content = null;
+        const state = Buffer.from(Y.encodeStateAsUpdate(this.doc)).toString("base64");
+        const note = await this.storage.saveNoteDocument(this.ownerId, this.noteId, content, state, this.version);
+        if (!note) return;
+        this.version = note.version;
+        this.broadcast(encode(encoder => {
+          encoding.writeVarUint(encoder, MESSAGE_SAVED);
+          encoding.writeVarUint(encoder, note.version);
+        }));
+      } catch (error) {
+        if (error instanceof NoteVersionConflictError) {
+          this.reseed(error.current.version);
+          return;
+        }
+        console.error("Error saving collaborative note:", error);
+      }
+    });
+    return this.saving;
+  }
+
+  private send(socket: WebSocket, message: Uint8Array) {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(message);
+    }
+  }
+
+  private broadcast(message: Uint8Array, except?: unknown) {
+    this.connections.forEach((_, socket) => {
+      if (socket !== except) this.send(socket, message);
+    });
+  }
+}
+
+function reject(socket: Duplex, status: number, reason: string) {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+// Browsers send the session cookie along with WebSocket requests from any
+// site, so only pages of this host may open one. Other clients send no Origin.
+function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (origin === undefined) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+// Serves collaborative editing of notes on the HTTP server, for their owners
+// and the users they are shared with as editors. Other upgrade requests
+// (such as the Vite dev server's) are left alone.
+export function setupCollaboration(server: Server, storage: IStorage, authenticate: UpgradeAuthenticator) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 10 * 1024 * 1024 });
+  // Rooms are set up asynchronously; joins in the meantime wait for the same one
+  const rooms = new Map<number, Promise<NoteRoom>>();
+
+  const openRoom = (ownerId: number, noteId: number): Promise<NoteRoom> => {
+    let room = rooms.get(noteId);
+    if (!room) {
+      room = (async () => {
+        // A document saved before the note last changed elsewhere is stale
+        const note = await storage.getNote(ownerId, noteId);
+        const document = await storage.getNoteDocument(ownerId, noteId);
+        if (!note) throw new Error(`Note ${noteId} not found`);
+        const state = document && document.noteVersion === note.version ? document.state : null;
+        return new NoteRoom(storage, ownerId, noteId, note.version, state, () => rooms.delete(noteId));
+      })();
+      room.catch(() => rooms.delete(noteId));
+      rooms.set(noteId, room);
+    }
+    return room;
+  };
+
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const match = new URL(req.url ?? "/", "http://localhost").pathname.match(COLLAB_PATH_PATTERN);
+    if (!match) return;
+
+    if (!isAllowedOrigin(req)) {
+      return reject(socket, 403, "Forbidden");
+    }
+
+    try {
+      const user = await authenticate(req);
+      if (!user) {
+        return reject(socket, 401, "Unauthorized");
+      }
+
+      const access = await getNoteAccess(storage, user.id, parseInt(match[1], 10));
+      if (!access || access.note.isDeleted) {
+        return reject(socket, 404, "Not Found");
+      }
+      if (!hasRole(access.role, "editor")) {
+        return reject(socket, 403, "Forbidden");
+      }
+
+      const { note } = access;
+      wss.handleUpgrade(req, socket, head, async (ws) => {
+        try {
+          // A room that just closed is opened again, from what it saved
+          if (!(await openRoom(note.userId, note.id)).join(ws, user.id)) {
+            (await openRoom(note.userId, note.id)).join(ws, user.id);
+          }
+        } catch (error) {
+          console.error("Error joining collaboration room:", error);
+          ws.close(1011, "Failed to open note");
+        }
+      });
+    } catch (error) {
+      console.error("Error opening collaboration socket:", error);
+      reject(socket, 500, "Internal Server Error");
+    }
+  });
+}
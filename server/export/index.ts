@@ -0,0 +1,169 @@
+import { createHash } from "crypto";
+import type { Archiver } from "archiver";
+import { stringify as stringifyYaml } from "yaml";
+import type { NoteWithTags, Tag } from "@shared/schema";
+import { escapeHtml, parseHtml, serializeHtml, type HtmlNode } from "@shared/html";
+import { tagPath } from "@shared/hierarchy";
+import { htmlToMarkdown } from "@shared/markdown";
+
+export const WORKSPACE_EXPORT_FORMATS = ["markdown", "html", "json"] as const;
+export type WorkspaceExportFormat = typeof WORKSPACE_EXPORT_FORMATS[number];
+
+const FILE_EXTENSIONS: Record<WorkspaceExportFormat, string> = {
+  markdown: "md",
+  html: "html",
+  json: "json",
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/webp": "webp",
+};
+
+const ASSETS_DIR = "assets";
+const TRASH_DIR = "trash";
+
+// A file name made from a note title that is safe on every common file system
+function safeFileName(title: string): string {
+  const name = title
+    .replace(/[\u0000-\u001f<>:"/\\|?*]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+|\.+$/g, "")
+    .slice(0, 100);
+  return name || "Untitled";
+}
+
+// Writes data: URL images to assets/ and points the <img> at the file instead.
+// Identical images are only stored once.
+function extractImages(
+  nodes: HtmlNode[],
+  archive: Archiver,
+  assets: Set<string>,
+  assetsPath: string
+): HtmlNode[] {
+  return nodes.map(node => {
+    if (node.type === "text") return node;
+
+    const children = extractImages(node.children, archive, assets, assetsPath);
+    const match = node.tag === "img"
+      ? node.attrs.src?.match(/^data:([\w.+-]+\/[\w.+-]+)?(;base64)?,([\s\S]*)$/)
+      : null;
+    const extension = match && IMAGE_EXTENSIONS[(match[1] ?? "").toLowerCase()];
+    if (!match || !extension) return { ...node, children };
+
+    const data = match[2]
+      ? Buffer.from(match[3], "base64")
+      : Buffer.from(decodeURIComponent(match[3]));
+    const fileName = `${createHash("sha1").update(data).digest("hex").slice(0, 16)}.${extension}`;
+    if (!assets.has(fileName)) {
+      assets.add(fileName);
+      archive.append(data, { name: `${ASSETS_DIR}/${fileName}` });
+    }
+
+    return { ...node, attrs: { ...node.attrs, src: `${assetsPath}/${fileName}` }, children };
+  });
+}
+
+// Nested tags are written as their full path, which the importers read back
+function tagPaths(note: NoteWithTags, tagsById: Map<number, Tag>): string[] {
+  return note.tags.map(tag => tagPath(tagsById.get(tag.id) ?? tag, tagsById));
+}
+
+// YAML front matter in the shape the markdown importer reads back
+function frontMatter(note: NoteWithTags, tagsById: Map<number, Tag>): string {
+  const data: Record<string, unknown> = {
+    title: note.title,
+    tags: tagPaths(note, tagsById),
+    favorite: note.isFavorite,
+    created: note.createdAt.toISOString(),
+    updated: note.updatedAt.toISOString(),
+  };
+  if (note.isDeleted) data.deleted = true;
+  return `---\n${stringifyYaml(data)}---\n`;
+}
+
+function htmlDocument(note: NoteWithTags, content: string, tagsById: Map<number, Tag>): string {
+  const meta = [
+    ["tags", tagPaths(note, tagsById).join(", ")],
+    ["favorite", String(note.isFavorite)],
+    ["created", note.createdAt.toISOString()],
+    ["updated", note.updatedAt.toISOString()],
+  ];
+
+  return [
+    "<!DOCTYPE html>",
+    "<html>",
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(note.title)}</title>`,
+    ...meta.map(([name, value]) => `<meta name="${name}" content="${escapeHtml(value)}">`),
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(note.title)}</h1>`,
+    content,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function noteFile(
+  note: NoteWithTags,
+  content: string,
+  format: WorkspaceExportFormat,
+  tagsById: Map<number, Tag>
+): string {
+  switch (format) {
+    case "markdown":
+      return `${frontMatter(note, tagsById)}\n${htmlToMarkdown(content)}\n`;
+    case "html":
+      return htmlDocument(note, content, tagsById);
+    case "json":
+      return JSON.stringify({ ...note, content }, null, 2);
+  }
+}
+
+// Adds every note as its own file, trashed notes under trash/, plus a
+// tags.json manifest. The caller finalizes the archive.
+export function writeWorkspaceArchive(
+  archive: Archiver,
+  notes: NoteWithTags[],
+  tags: Tag[],
+  format: WorkspaceExportFormat
+) {
+  const usedNames = new Set<string>();
+  const assets = new Set<string>();
+  const tagsById = new Map(tags.map(tag => [tag.id, tag]));
+
+  for (const note of notes) {
+    const dir = note.isDeleted ? `${TRASH_DIR}/` : "";
+    const base = safeFileName(note.title);
+    const extension = FILE_EXTENSIONS[format];
+
+    // Notes with the same title get a number, like "Ideas (2).md"
+    let name = `${dir}${base}.${extension}`;
+    for (let i = 2; usedNames.has(name.toLowerCase()); i++) {
+      name = `${dir}${base} (${i}).${extension}`;
+    }
+    usedNames.add(name.toLowerCase());
+
+    const assetsPath = note.isDeleted ? `../${ASSETS_DIR}` : ASSETS_DIR;
+    const content = serializeHtml(extractImages(parseHtml(note.content), archive, assets, assetsPath));
+
+    archive.append(noteFile(note, content, format, tagsById), { name, date: note.updatedAt });
+  }
+
+  const manifest = tags.map(tag => ({
+    id: tag.id,
+    name: tag.name,
+    path: tagPath(tag, tagsById),
+    parentId: tag.parentId,
+    color: tag.color,
+    notes: notes.filter(note => note.tags.some(noteTag => noteTag.id === tag.id)).length,
+  }));
+  archive.append(JSON.stringify(manifest, null, 2), { name: "tags.json" });
+}
@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { MemStorage } from "../storage";
+import { parseEnexFile } from "./enex";
+import { importFiles } from "./index";
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "__fixtures__");
+
+const PNG_BASE64 = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==";
+
+// An export of two notes: a checklist with tags, and one with an image, a PDF
+// and an encrypted block
+const enex = readFileSync(path.join(FIXTURES_DIR, "notes.enex"), "utf8");
+
+test("converts ENML to editor HTML, with to-dos as a task list", () => {
+  const [trip] = parseEnexFile("notes.enex", enex);
+
+  assert.equal(trip.title, "Trip plan");
+  assert.equal(
+    trip.content,
+    '<p>Things to <b>pack</b> &amp; book:</p>' +
+      '<ul data-type="taskList">' +
+      '<li data-type="taskItem" data-checked="true"><p>Passport</p></li>' +
+      '<li data-type="taskItem" data-checked="false"><p>Train tickets</p></li>' +
+      '</ul>' +
+      '<p><br></p><p>See <a href="https://example.com/map">the map</a></p>'
+  );
+  assert.deepEqual(trip.tags, ["travel", "Work/Planning"]);
+});
+
+test("reads creation and update dates", () => {
+  const [trip, scans] = parseEnexFile("notes.enex", enex);
+  assert.equal(trip.createdAt?.toISOString(), "2024-01-31T15:45:00.000Z");
+  assert.equal(trip.updatedAt?.toISOString(), "2024-02-01T08:15:00.000Z");
+  assert.equal(scans.createdAt?.toISOString(), "2024-01-05T08:00:00.000Z");
+  assert.equal(scans.updatedAt, undefined);
+});
+
+test("embeds images and names other resources", () => {
+  const [, scans] = parseEnexFile("notes.enex", enex);
+  assert.equal(
+    scans.content,
+    '<p>Receipt:</p>' +
+      `<p><img src="data:image/png;base64,${PNG_BASE64}" alt="receipt.png"></p>` +
+      '<p><em>[Attachment: invoice.pdf]</em></p>' +
+      '<p><em>[Encrypted content]</em></p>'
+  );
+});
+
+test("reads an export without notes and rejects other XML", () => {
+  assert.deepEqual(parseEnexFile("empty.enex", "<en-export></en-export>"), []);
+  assert.throws(() => parseEnexFile("other.enex", "<notes><note/></notes>"), /Not an Evernote export/);
+  assert.throws(() => parseEnexFile("broken.enex", "<en-export><note>"), Error);
+});
+
+test("imports notes with nested tags and their original dates", async () => {
+  const storage = new MemStorage();
+  const user = await storage.createUser({ username: "evernote", password: "hash" });
+
+  const report = await importFiles(storage, user.id, [{ name: "notes.enex", content: enex }]);
+  assert.equal(report.imported, 2);
+  assert.equal(report.failed, 0);
+
+  const trip = (await storage.getNotes(user.id)).find(note => note.title === "Trip plan");
+  assert.equal(trip?.createdAt.toISOString(), "2024-01-31T15:45:00.000Z");
+  assert.equal(trip?.importedUpdatedAt?.toISOString(), "2024-02-01T08:15:00.000Z");
+
+  const tags = await storage.getTagsForNote(user.id, trip!.id);
+  const planning = tags.find(tag => tag.name === "Planning");
+  // Work is one of the default tags, so Planning is created under it
+  const work = (await storage.getTags(user.id)).find(tag => tag.name === "Work");
+  assert.deepEqual(tags.map(tag => tag.name).sort(), ["Planning", "travel"]);
+  assert.equal(planning?.parentId, work?.id);
+});
@@ -0,0 +1,227 @@
+import { createHash } from "crypto";
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import { z } from "zod";
+import {
+  parseHtml,
+  sanitizeHtml,
+  serializeHtml,
+  type HtmlElement,
+  type HtmlNode,
+} from "@shared/html";
+import type { ImportedNote } from "./index";
+
+// Evernote export (.enex): an <en-export> holding <note> elements whose
+// <content> is ENML, an XHTML dialect with a few en-* elements of its own
+
+interface EnexResource {
+  mime: string;
+  data: Buffer;
+  fileName?: string;
+}
+
+// Resources the editor can show inline; anything else is listed by name
+const IMAGE_TYPES = new Set(["image/png", "image/gif", "image/jpeg", "image/webp"]);
+
+const BLOCK_TAGS = new Set([
+  "blockquote", "div", "h1", "h2", "h3", "h4", "h5", "h6", "hr",
+  "li", "ol", "p", "pre", "table", "ul",
+]);
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  parseTagValue: false,
+  trimValues: false,
+  isArray: name => name === "note" || name === "tag" || name === "resource",
+});
+
+// The parts of a parsed export we import. Elements come out as strings, or
+// as objects when they have attributes, so their values are read through
+// xmlText and xmlChild rather than trusted to have either shape.
+const enexResourceSchema = z.object({
+  data: z.unknown(),
+  mime: z.unknown(),
+  "resource-attributes": z.unknown(),
+});
+
+const enexNoteSchema = z.object({
+  title: z.unknown(),
+  content: z.unknown(),
+  created: z.unknown(),
+  updated: z.unknown(),
+  tag: z.array(z.unknown()).optional(),
+  resource: z.array(enexResourceSchema).optional(),
+});
+
+const enexExportSchema = z.object({
+  note: z.array(enexNoteSchema).optional(),
+});
+
+type EnexResourceElement = z.infer<typeof enexResourceSchema>;
+
+// Text of a parsed XML element, which is a plain string unless it has attributes
+function xmlText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value && typeof value === "object" && "#text" in value) return String(value["#text"]);
+  return "";
+}
+
+// A child element of a parsed XML element, if it has one by that name
+function xmlChild(value: unknown, name: string): unknown {
+  return value && typeof value === "object" && name in value ? (value as Record<string, unknown>)[name] : undefined;
+}
+
+// ENEX dates look like 20240131T154500Z
+function parseEnexDate(value: unknown): Date | undefined {
+  const match = xmlText(value).trim().match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+}
+
+// Resources are referenced from the content by the MD5 hash of their data
+function readResources(resources: EnexResourceElement[] = []): Map<string, EnexResource> {
+  const byHash = new Map<string, EnexResource>();
+
+  for (const resource of resources) {
+    const data = Buffer.from(xmlText(resource.data).replace(/\s+/g, ""), "base64");
+    byHash.set(createHash("md5").update(data).digest("hex"), {
+      mime: xmlText(resource.mime).trim().toLowerCase(),
+      data,
+      fileName: xmlText(xmlChild(resource["resource-attributes"], "file-name")).trim() || undefined,
+    });
+  }
+  return byHash;
+}
+
+function element(tag: string, attrs: Record<string, string>, children: HtmlNode[] = []): HtmlElement {
+  return { type: "element", tag, attrs, children };
+}
+
+function text(value: string): HtmlNode {
+  return { type: "text", text: value };
+}
+
+function convertMedia(media: HtmlElement, resources: Map<string, EnexResource>): HtmlNode {
+  const resource = resources.get((media.attrs.hash ?? "").toLowerCase());
+  if (resource && IMAGE_TYPES.has(resource.mime)) {
+    return element("img", {
+      src: `data:${resource.mime};base64,${resource.data.toString("base64")}`,
+      alt: resource.fileName ?? "",
+    });
+  }
+  return element("em", {}, [text(`[Attachment: ${resource?.fileName ?? media.attrs.type ?? "file"}]`)]);
+}
+
+// The to-do checkbox a line starts with, if any
+function leadingTodo(node: HtmlNode): HtmlElement | undefined {
+  if (node.type !== "element") return undefined;
+  const first = node.children.find(child => child.type === "element" || child.text.trim());
+  return first?.type === "element" && first.tag === "en-todo" ? first : undefined;
+}
+
+function taskItem(line: HtmlElement): HtmlElement {
+  const todo = leadingTodo(line)!;
+  const content = line.children.slice(line.children.indexOf(todo) + 1);
+  return element("li", { "data-type": "taskItem", "data-checked": String(todo.attrs.checked === "true") }, [
+    element("p", {}, content),
+  ]);
+}
+
+// Evernote writes a checklist as lines (or list items) that each start with
+// an <en-todo>; consecutive ones become a single task list
+function groupTodos(nodes: HtmlNode[]): HtmlNode[] {
+  const result: HtmlNode[] = [];
+  let taskList: HtmlElement | null = null;
+
+  for (const node of nodes) {
+    if (node.type === "element" && (node.tag === "ul" || node.tag === "ol")) {
+      const items = node.children.filter((child): child is HtmlElement => child.type === "element");
+      if (items.length > 0 && items.every(item => leadingTodo(item))) {
+        taskList = null;
+        result.push(element("ul", { "data-type": "taskList" }, items.map(taskItem)));
+        continue;
+      }
+    }
+
+    if (node.type === "element" && (node.tag === "div" || node.tag === "p") && leadingTodo(node)) {
+      if (!taskList) {
+        taskList = element("ul", { "data-type": "taskList" });
+        result.push(taskList);
+      }
+      taskList.children.push(taskItem(node));
+      continue;
+    }
+
+    // Whitespace between lines does not end a checklist
+    if (!(taskList && node.type === "text" && !node.text.trim())) {
+      taskList = null;
+      result.push(node);
+    }
+  }
+  return result;
+}
+
+function convertEnml(nodes: HtmlNode[], resources: Map<string, EnexResource>): HtmlNode[] {
+  const converted = nodes.flatMap((node): HtmlNode[] => {
+    if (node.type === "text") return [node];
+
+    switch (node.tag) {
+      case "en-note":
+        return convertEnml(node.children, resources);
+      case "en-media":
+        return [convertMedia(node, resources)];
+      case "en-crypt":
+        return [element("em", {}, [text("[Encrypted content]")])];
+    }
+
+    const children = convertEnml(node.children, resources);
+    // Evernote puts every line in a <div>; the editor wants paragraphs
+    const isLine = node.tag === "div" && !children.some(child => child.type === "element" && BLOCK_TAGS.has(child.tag));
+    return [{ ...node, tag: isLine ? "p" : node.tag, children }];
+  });
+
+  return groupTodos(converted);
+}
+
+// A checkbox in the middle of a line has no task item to live in
+function replaceStrayTodos(nodes: HtmlNode[]): HtmlNode[] {
+  return nodes.map(node => {
+    if (node.type === "text") return node;
+    if (node.tag === "en-todo") return text(node.attrs.checked === "true" ? "[x] " : "[ ] ");
+    return { ...node, children: replaceStrayTodos(node.children) };
+  });
+}
+
+function enmlToHtml(enml: string, resources: Map<string, EnexResource>): string {
+  // The content starts with an XML declaration and doctype
+  const source = enml.replace(/<\?xml[\s\S]*?\?>/g, "");
+  return sanitizeHtml(serializeHtml(replaceStrayTodos(convertEnml(parseHtml(source), resources)))).trim();
+}
+
+export function parseEnexFile(name: string, text: string): ImportedNote[] {
+  const validation = XMLValidator.validate(text);
+  if (validation !== true) {
+    throw new Error(`Invalid Evernote export: ${validation.err.msg} (line ${validation.err.line})`);
+  }
+
+  const exported = xmlChild(xmlParser.parse(text), "en-export");
+  // An export without notes parses as an empty string
+  const parsed = enexExportSchema.safeParse(exported === "" ? {} : exported);
+  if (!parsed.success) {
+    throw new Error("Not an Evernote export");
+  }
+
+  return (parsed.data.note ?? []).map(note => {
+    const resources = readResources(note.resource);
+    const title = xmlText(note.title).trim();
+
+    return {
+      title: title || "Untitled",
+      content: enmlToHtml(xmlText(note.content), resources),
+      tags: (note.tag ?? []).map(tag => xmlText(tag).trim()).filter(Boolean),
+      createdAt: parseEnexDate(note.created),
+      updatedAt: parseEnexDate(note.updated),
+    };
+  });
+}
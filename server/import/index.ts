@@ -0,0 +1,136 @@
+import type { IStorage } from "../storage";
+import type { ImportFileResult, ImportReport, Tag } from "@shared/schema";
+import { TAG_PATH_SEPARATOR, tagPath } from "@shared/hierarchy";
+import { parseHtmlFile, parseMarkdownFile, parseTextFile } from "./markdown";
+import { parseEnexFile } from "./enex";
+import { parseKeepFile } from "./keep";
+
+// A note read from an import file, ready to be saved
+export interface ImportedNote {
+  title: string;
+  // HTML in the form the editor stores
+  content: string;
+  tags: string[];
+  isFavorite?: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ImportFile {
+  name: string;
+  content: string;
+}
+
+// Reads every note out of one file; throws if the file cannot be understood
+type FileParser = (name: string, text: string) => ImportedNote[];
+
+const PARSERS: Record<string, FileParser> = {
+  md: (name, text) => [parseMarkdownFile(name, text)],
+  markdown: (name, text) => [parseMarkdownFile(name, text)],
+  txt: (name, text) => [parseTextFile(name, text)],
+  html: (name, text) => [parseHtmlFile(name, text)],
+  htm: (name, text) => [parseHtmlFile(name, text)],
+  // Evernote exports hold any number of notes
+  enex: parseEnexFile,
+  // Google Takeout has one JSON file per Keep note
+  json: (name, text) => [parseKeepFile(name, text)],
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(PARSERS);
+
+function extensionOf(name: string): string {
+  return name.match(/\.([^.\\/]+)$/)?.[1].toLowerCase() ?? "";
+}
+
+// Looks tags up by path (ignoring case) and creates the ones that do not exist
+// yet. A path like project/alpha creates alpha nested under project.
+function createTagResolver(storage: IStorage, userId: number) {
+  let tagsByPath: Promise<Map<string, Tag>> | null = null;
+
+  return async (path: string): Promise<Tag> => {
+    tagsByPath ??= storage.getTags(userId).then(tags => {
+      const tagsById = new Map(tags.map(tag => [tag.id, tag]));
+      return new Map(tags.map(tag => [tagPath(tag, tagsById).toLowerCase(), tag]));
+    });
+    const tags = await tagsByPath;
+
+    const names = path.split(TAG_PATH_SEPARATOR).map(name => name.trim()).filter(Boolean);
+    let tag: Tag | undefined;
+    for (let i = 0; i < names.length; i++) {
+      const key = names.slice(0, i + 1).join(TAG_PATH_SEPARATOR).toLowerCase();
+      let next = tags.get(key);
+      if (!next) {
+        next = await storage.createTag(userId, { name: names[i], parentId: tag?.id ?? null });
+        tags.set(key, next);
+      }
+      tag = next;
+    }
+    if (!tag) throw new Error(`Invalid tag "${path}"`);
+    return tag;
+  };
+}
+
+// Saves parsed notes with their tags for a user
+export async function saveImportedNotes(
+  storage: IStorage,
+  userId: number,
+  notes: ImportedNote[],
+  resolveTag: (name: string) => Promise<Tag> = createTagResolver(storage, userId)
+): Promise<ImportFileResult["notes"]> {
+  const saved: ImportFileResult["notes"] = [];
+
+  for (const imported of notes) {
+    // The original update time is kept apart from updatedAt: sync finds
+    // changed notes by updatedAt, so a backdated note would never reach the
+    // user's other devices
+    const note = await storage.createNote(userId, {
+      title: imported.title,
+      content: imported.content,
+      isFavorite: imported.isFavorite ?? false,
+    }, { createdAt: imported.createdAt, updatedAt: imported.updatedAt });
+
+    const tagNames = Array.from(new Set(imported.tags));
+    for (const name of tagNames) {
+      const tag = await resolveTag(name);
+      await storage.addTagToNote(userId, note.id, tag.id);
+    }
+
+    saved.push({ id: note.id, title: note.title, tags: tagNames });
+  }
+  return saved;
+}
+
+// Imports each file on its own, so one bad file does not stop the rest
+export async function importFiles(storage: IStorage, userId: number, files: ImportFile[]): Promise<ImportReport> {
+  const resolveTag = createTagResolver(storage, userId);
+  const results: ImportFileResult[] = [];
+
+  for (const file of files) {
+    const parse = PARSERS[extensionOf(file.name)];
+    if (!parse) {
+      results.push({ file: file.name, status: "failed", notes: [], error: "Unsupported file type" });
+      continue;
+    }
+
+    try {
+      // Editors on Windows like to start UTF-8 files with a byte order mark
+      const notes = parse(file.name, file.content.replace(/^\uFEFF/, ""));
+      const saved = await saveImportedNotes(storage, userId, notes, resolveTag);
+      results.push({ file: file.name, status: "imported", notes: saved });
+    } catch (error) {
+      console.error(`Error importing ${file.name}:`, error);
+      results.push({
+        file: file.name,
+        status: "failed",
+        notes: [],
+        error: error instanceof Error ? error.message : "Could not import file",
+      });
+    }
+  }
+
+  return {
+    imported: results.reduce((count, result) => count + result.notes.length, 0),
+    failed: results.filter(result => result.status === "failed").length,
+    files: results,
+  };
+}
@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { MemStorage } from "../storage";
+import { parseKeepFile } from "./keep";
+import { importFiles } from "./index";
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "__fixtures__", "keep");
+
+// Notes as Google Takeout exports them, one JSON file each
+const fixture = (name: string) => ({ name, content: readFileSync(path.join(FIXTURES_DIR, name), "utf8") });
+
+test("converts checklists to task lists and keeps labels, pin and dates", () => {
+  const { name, content } = fixture("Groceries.json");
+  const note = parseKeepFile(name, content);
+
+  assert.equal(note.title, "Groceries");
+  assert.equal(
+    note.content,
+    '<ul data-type="taskList">' +
+      '<li data-type="taskItem" data-checked="true"><p>Milk</p></li>' +
+      '<li data-type="taskItem" data-checked="false"><p>Bread &amp; butter</p></li>' +
+      '</ul>'
+  );
+  assert.deepEqual(note.tags, ["Home", "errands/weekly"]);
+  assert.equal(note.isFavorite, true);
+  assert.equal(note.createdAt?.toISOString(), "2024-01-01T00:00:00.000Z");
+  assert.equal(note.updatedAt?.toISOString(), "2024-01-31T16:00:00.000Z");
+});
+
+test("converts text notes and lists their links after the text", () => {
+  const { name, content } = fixture("Reading_list.json");
+  const note = parseKeepFile(name, content);
+
+  // Untitled notes are named after their file
+  assert.equal(note.title, "Reading_list");
+  assert.equal(
+    note.content,
+    '<p>Books to read<br>The &lt;first&gt; one</p><p><a href="https://example.com/review">A review</a></p>'
+  );
+  assert.deepEqual(note.tags, []);
+  assert.equal(note.isFavorite, false);
+  assert.equal(note.createdAt?.toISOString(), "2024-01-31T16:00:00.123Z");
+});
+
+test("rejects trashed notes and JSON that is not a Keep note", () => {
+  const { name, content } = fixture("Old_idea.json");
+  assert.throws(() => parseKeepFile(name, content), /Keep trash/);
+  assert.throws(() => parseKeepFile("settings.json", '{"theme":"dark"}'), /Not a Google Keep note/);
+  assert.throws(() => parseKeepFile("broken.json", "{"), /Not a Google Keep note/);
+});
+
+test("imports labels as tags and pinned notes as favorites", async () => {
+  const storage = new MemStorage();
+  const user = await storage.createUser({ username: "keep", password: "hash" });
+
+  const report = await importFiles(storage, user.id, [
+    fixture("Groceries.json"),
+    fixture("Reading_list.json"),
+    fixture("Old_idea.json"),
+  ]);
+  assert.equal(report.imported, 2);
+  assert.deepEqual(report.files.map(file => file.status), ["imported", "imported", "failed"]);
+
+  const notes = await storage.getNotes(user.id);
+  const groceries = notes.find(note => note.title === "Groceries")!;
+  assert.equal(groceries.isFavorite, true);
+  assert.equal(groceries.createdAt.toISOString(), "2024-01-01T00:00:00.000Z");
+  assert.equal(groceries.importedUpdatedAt?.toISOString(), "2024-01-31T16:00:00.000Z");
+  // Imported now, as far as sync is concerned
+  assert.ok(groceries.updatedAt > groceries.importedUpdatedAt!);
+  assert.equal(notes.find(note => note.title === "Reading_list")?.isFavorite, false);
+
+  const tags = await storage.getTags(user.id);
+  const errands = tags.find(tag => tag.name === "errands");
+  const weekly = tags.find(tag => tag.name === "weekly");
+  assert.equal(weekly?.parentId, errands?.id);
+  assert.deepEqual(
+    (await storage.getTagsForNote(user.id, groceries.id)).map(tag => tag.name).sort(),
+    ["Home", "weekly"]
+  );
+});
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { escapeHtml, sanitizeHtml } from "@shared/html";
+import type { ImportedNote } from "./index";
+import { textToHtml, titleFromFileName } from "./markdown";
+
+// A note from Google Takeout's Keep folder. Only the fields we import are
+// listed; Takeout adds others (color, archive state, sharees) that are ignored.
+const keepNoteSchema = z.object({
+  title: z.string().optional(),
+  textContent: z.string().optional(),
+  listContent: z.array(z.object({
+    text: z.string(),
+    isChecked: z.boolean().optional(),
+  })).optional(),
+  labels: z.array(z.object({ name: z.string() })).optional(),
+  annotations: z.array(z.object({
+    url: z.string(),
+    title: z.string().optional(),
+  })).optional(),
+  isPinned: z.boolean().optional(),
+  isTrashed: z.boolean().optional(),
+  createdTimestampUsec: z.number().optional(),
+  userEditedTimestampUsec: z.number().optional(),
+}).refine(
+  note => note.textContent !== undefined || note.listContent !== undefined,
+  "Not a Google Keep note"
+);
+
+function checklistHtml(items: { text: string; isChecked?: boolean }[]): string {
+  const taskItems = items.map(item =>
+    `<li data-type="taskItem" data-checked="${item.isChecked === true}"><p>${escapeHtml(item.text)}</p></li>`
+  );
+  return `<ul data-type="taskList">${taskItems.join("")}</ul>`;
+}
+
+export function parseKeepFile(name: string, text: string): ImportedNote {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("Not a Google Keep note");
+  }
+
+  const parsed = keepNoteSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error("Not a Google Keep note");
+  }
+  const note = parsed.data;
+  if (note.isTrashed) {
+    throw new Error("Note is in the Keep trash");
+  }
+
+  let content = note.listContent ? checklistHtml(note.listContent) : textToHtml(note.textContent ?? "");
+
+  // Links Keep found in the note are listed after its content
+  for (const annotation of note.annotations ?? []) {
+    content += `<p><a href="${escapeHtml(annotation.url)}">${escapeHtml(annotation.title || annotation.url)}</a></p>`;
+  }
+
+  return {
+    title: note.title?.trim() || titleFromFileName(name),
+    content: sanitizeHtml(content),
+    tags: (note.labels ?? []).map(label => label.name.trim()).filter(Boolean),
+    isFavorite: note.isPinned === true,
+    createdAt: note.createdTimestampUsec ? new Date(note.createdTimestampUsec / 1000) : undefined,
+    updatedAt: note.userEditedTimestampUsec ? new Date(note.userEditedTimestampUsec / 1000) : undefined,
+  };
+}
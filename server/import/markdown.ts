@@ -0,0 +1,193 @@
+import MarkdownIt from "markdown-it";
+import type StateCore from "markdown-it/lib/rules_core/state_core.mjs";
+import type Token from "markdown-it/lib/token.mjs";
+import { parse as parseYaml } from "yaml";
+import {
+  escapeHtml,
+  parseHtml,
+  sanitizeHtml,
+  serializeHtml,
+  textContent,
+  type HtmlElement,
+  type HtmlNode,
+} from "@shared/html";
+import type { ImportedNote } from "./index";
+
+const TASK_MARKER = /^\[([ xX])\](?:\s+|$)/;
+
+// Index of every item directly inside the list opened at `openIndex`
+function listItemIndexes(tokens: Token[], openIndex: number): number[] {
+  const list = tokens[openIndex];
+  const items: number[] = [];
+
+  for (let i = openIndex + 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === "bullet_list_close" && token.level === list.level) break;
+    if (token.type === "list_item_open" && token.level === list.level + 1) items.push(i);
+  }
+  return items;
+}
+
+// Adjusts markdown-it's output to the markup the editor stores:
+// "- [ ]" lists become task lists, list items keep their <p>, and code
+// blocks lose the trailing newline markdown-it leaves in them
+function editorMarkup(state: StateCore) {
+  const { tokens } = state;
+
+  tokens.forEach((token, index) => {
+    if (token.type !== "bullet_list_open") return;
+
+    const items = listItemIndexes(tokens, index);
+    const inlines = items.map(item => tokens[item + 2]);
+    const isTaskList = items.length > 0 && items.every((item, i) =>
+      tokens[item + 1]?.type === "paragraph_open" &&
+      inlines[i]?.type === "inline" &&
+      TASK_MARKER.test(inlines[i].content)
+    );
+    if (!isTaskList) return;
+
+    token.attrSet("data-type", "taskList");
+    items.forEach((item, i) => {
+      const inline = inlines[i];
+      const checked = inline.content.match(TASK_MARKER)![1] !== " ";
+
+      tokens[item].attrSet("data-type", "taskItem");
+      tokens[item].attrSet("data-checked", String(checked));
+      inline.content = inline.content.replace(TASK_MARKER, "");
+
+      const [first] = inline.children ?? [];
+      if (first?.type === "text") {
+        first.content = first.content.replace(TASK_MARKER, "");
+      }
+    });
+  });
+
+  for (const token of tokens) {
+    if (token.type === "paragraph_open" || token.type === "paragraph_close") {
+      token.hidden = false;
+    }
+    if (token.type === "fence" || token.type === "code_block") {
+      token.content = token.content.replace(/\n$/, "");
+    }
+  }
+}
+
+const markdown = new MarkdownIt({ html: true, linkify: true });
+markdown.core.ruler.after("text_join", "editor_markup", editorMarkup);
+
+export function markdownToHtml(source: string): string {
+  return sanitizeHtml(markdown.render(source));
+}
+
+// Splits YAML front matter ("---" fenced block at the very top) from the body
+export function parseFrontMatter(text: string): { data: Record<string, unknown>; body: string } {
+  const match = text.match(/^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/);
+  if (!match) return { data: {}, body: text };
+
+  let data: unknown;
+  try {
+    data = parseYaml(match[1]);
+  } catch (error) {
+    // YAML errors go on to quote the offending lines; the first line says enough
+    throw new Error(`Invalid front matter: ${(error as Error).message.split("\n")[0]}`);
+  }
+
+  return {
+    data: data && typeof data === "object" && !Array.isArray(data) ? data as Record<string, unknown> : {},
+    body: text.slice(match[0].length),
+  };
+}
+
+// Front matter tags may be a list or a comma separated string, with or without "#"
+function frontMatterTags(value: unknown): string[] {
+  const tags = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === "string" ? value.split(",") : [];
+  return tags.map(tag => tag.trim().replace(/^#/, "")).filter(Boolean);
+}
+
+// Plain text as paragraphs: blank lines separate them, single line breaks are kept
+export function textToHtml(text: string): string {
+  return text
+    .split(/\r?\n\s*\r?\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${paragraph.split(/\r?\n/).map(escapeHtml).join("<br>")}</p>`)
+    .join("");
+}
+
+function frontMatterDate(value: unknown): Date | undefined {
+  if (!(value instanceof Date) && typeof value !== "string") return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+export function titleFromFileName(name: string): string {
+  return name.replace(/^.*[\\/]/, "").replace(/\.[^.]+$/, "") || "Untitled";
+}
+
+function isBlank(node: HtmlNode): boolean {
+  return node.type === "text" && !node.text.trim();
+}
+
+// Takes a leading <h1> off the content to use it as the title
+function takeTitleHeading(nodes: HtmlNode[]): { title?: string; nodes: HtmlNode[] } {
+  const index = nodes.findIndex(node => !isBlank(node));
+  const first = nodes[index];
+  if (!first || first.type !== "element" || first.tag !== "h1") return { nodes };
+
+  const title = textContent(first).trim();
+  return title ? { title, nodes: nodes.slice(index + 1) } : { nodes };
+}
+
+function findElement(nodes: HtmlNode[], tag: string): HtmlElement | undefined {
+  for (const node of nodes) {
+    if (node.type !== "element") continue;
+    if (node.tag === tag) return node;
+
+    const found = findElement(node.children, tag);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Builds the note from converted HTML plus whatever metadata the file carried
+function toNote(name: string, html: string, data: Record<string, unknown>, documentTitle?: string): ImportedNote {
+  const { title: headingTitle, nodes } = takeTitleHeading(parseHtml(html));
+  const frontMatterTitle = typeof data.title === "string" || typeof data.title === "number"
+    ? String(data.title).trim()
+    : "";
+
+  // A heading only becomes the title when nothing else provides one, and is
+  // dropped from the content when it just repeats the title (as in our exports)
+  const title = frontMatterTitle || documentTitle || headingTitle || titleFromFileName(name);
+  const useHeading = headingTitle !== undefined && headingTitle === title;
+
+  return {
+    title,
+    content: useHeading ? serializeHtml(nodes).trim() : html.trim(),
+    tags: frontMatterTags(data.tags),
+    isFavorite: data.favorite === true || data.pinned === true,
+    createdAt: frontMatterDate(data.created ?? data.date),
+  };
+}
+
+export function parseMarkdownFile(name: string, text: string): ImportedNote {
+  const { data, body } = parseFrontMatter(text);
+  return toNote(name, markdownToHtml(body), data);
+}
+
+export function parseTextFile(name: string, text: string): ImportedNote {
+  const { data, body } = parseFrontMatter(text);
+  return toNote(name, textToHtml(body), data);
+}
+
+export function parseHtmlFile(name: string, text: string): ImportedNote {
+  const document = parseHtml(text);
+  const body = findElement(document, "body");
+  const titleElement = findElement(document, "title");
+  const documentTitle = titleElement ? textContent(titleElement).trim() : "";
+
+  const html = sanitizeHtml(body ? serializeHtml(body.children) : text);
+  return toNote(name, html, {}, documentTitle || undefined);
+}
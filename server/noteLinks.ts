@@ -0,0 +1,21 @@
+import type { IStorage } from "./storage";
+import type { Backlink, Note } from "@shared/schema";
+import { noteLinkContext, renameNoteLinks } from "@shared/noteLinks";
+
+// Notes linking to a note, each with the text around its link
+export async function getBacklinks(storage: IStorage, userId: number, noteId: number): Promise<Backlink[]> {
+  const sources = await storage.getBacklinks(userId, noteId);
+  return sources.map(source => ({ ...source, context: noteLinkContext(source.content, noteId) }));
+}
+
+// Brings [[links]] to a note in line with its title after a rename. Each
+// linking note is saved as a new version, so open editors and other devices
+// pick the change up like any other edit.
+export async function renameLinksTo(storage: IStorage, userId: number, note: Note): Promise<void> {
+  for (const source of await storage.getBacklinks(userId, note.id)) {
+    const content = renameNoteLinks(source.content, note.id, note.title);
+    if (content !== null) {
+      await storage.updateNote(userId, source.id, { content });
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import type { IStorage } from "./storage";
+import { toPublicUser } from "./auth";
+import type { Collaborator, Note, Notebook, NoteRole, NoteShare, PublicUser, SharedNote, ShareRole } from "@shared/schema";
+import { sharesForNote, strongestRole } from "@shared/permissions";
+
+export type NoteAccess = {
+  note: Note;
+  role: NoteRole;
+};
+
+function groupByOwner(shares: NoteShare[]): Map<number, NoteShare[]> {
+  const byOwner = new Map<number, NoteShare[]>();
+  for (const share of shares) {
+    byOwner.set(share.userId, [...(byOwner.get(share.userId) ?? []), share]);
+  }
+  return byOwner;
+}
+
+async function notebooksById(storage: IStorage, ownerId: number): Promise<Map<number, Notebook>> {
+  const notebooks = await storage.getNotebooks(ownerId, true);
+  return new Map(notebooks.map(notebook => [notebook.id, notebook]));
+}
+
+async function publicUsers(storage: IStorage, ids: Iterable<number>): Promise<Map<number, PublicUser>> {
+  const users = new Map<number, PublicUser>();
+  for (const id of Array.from(new Set(ids))) {
+    const user = await storage.getUser(id);
+    if (user) users.set(id, toPublicUser(user));
+  }
+  return users;
+}
+
+// What a user may do with a note: everything with their own, and with
+// someone else's whatever the strongest share reaching it allows. Shared
+// notes in the trash are out of reach until their owner restores them.
+export async function getNoteAccess(storage: IStorage, userId: number, noteId: number): Promise<NoteAccess | undefined> {
+  const own = await storage.getNote(userId, noteId);
+  if (own) return { note: own, role: "owner" };
+  
+  for (const [ownerId, shares] of Array.from(groupByOwner(await storage.getNoteSharesWith(userId)))) {
+    const note = await storage.getNote(ownerId, noteId);
+    if (!note || note.isDeleted) continue;
+    
+    const role = strongestRole(sharesForNote(note, shares, await notebooksById(storage, ownerId)));
+    return role ? { note, role } : undefined;
+  }
+  return undefined;
+}
+
+// The shares of a user, each with who it is shared with
+export async function getCollaborators(storage: IStorage, ownerId: number): Promise<Collaborator[]> {
+  const shares = await storage.getNoteShares(ownerId);
+  const users = await publicUsers(storage, shares.map(share => share.sharedWithId));
+  return shares
+    .filter(share => users.has(share.sharedWithId))
+    .map(share => ({ ...share, user: users.get(share.sharedWithId)! }));
+}
+
+// Everyone an owner shared a note with
+function collaboratorsOf(note: Note, collaborators: Collaborator[], notebooks: Map<number, Notebook>): PublicUser[] {
+  const users = new Map(sharesForNote(note, collaborators, notebooks).map(({ user }) => [user.id, user]));
+  return Array.from(users.values());
+}
+
+// Notes of other users shared with a user, directly or through a notebook
+export async function getSharedNotes(storage: IStorage, userId: number): Promise<SharedNote[]> {
+  const sharedNotes: SharedNote[] = [];
+  
+  for (const [ownerId, sharesWithUser] of Array.from(groupByOwner(await storage.getNoteSharesWith(userId)))) {
+    const owner = await storage.getUser(ownerId);
+    if (!owner) continue;
+    
+    const notebooks = await notebooksById(storage, ownerId);
+    const collaborators = await getCollaborators(storage, ownerId);
+    for (const note of await storage.getNotesWithTags(ownerId)) {
+      const role = strongestRole(sharesForNote(note, sharesWithUser, notebooks));
+      if (!role) continue;
+      
+      sharedNotes.push({
+        ...note,
+        role,
+        owner: toPublicUser(owner),
+        collaborators: collaboratorsOf(note, collaborators, notebooks),
+      });
+    }
+  }
+  
+  return sharedNotes.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+// A note of another user as someone it is shared with sees it
+export async function getSharedNote(storage: IStorage, note: Note, role: ShareRole): Promise<SharedNote | undefined> {
+  const owner = await storage.getUser(note.userId);
+  const noteWithTags = await storage.getNoteWithTags(note.userId, note.id);
+  if (!owner || !noteWithTags) return undefined;
+  
+  return {
+    ...noteWithTags,
+    role,
+    owner: toPublicUser(owner),
+    collaborators: collaboratorsOf(note, await getCollaborators(storage, note.userId), await notebooksById(storage, note.userId)),
+  };
+}
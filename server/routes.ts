@@ -1,24 +1,182 @@
 import express, { type Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { randomBytes } from "crypto";
+import { storage, NoteVersionConflictError, HierarchyError } from "./storage";
+import { setupAuth, requireAuth, hashPassword, comparePasswords, toPublicUser } from "./auth";
+import { blobStore } from "./blobStore";
+import { importFiles } from "./import";
+import { searchNotes } from "./search";
+import { getBacklinks, renameLinksTo } from "./noteLinks";
+import { setupCollaboration } from "./collab";
+import { getCollaborators, getNoteAccess, getSharedNote, getSharedNotes, type NoteAccess } from "./permissions";
+import { sendSharePage, shareLinkInfo, sharedNotePage, sharePasswordPage, shareUnavailablePage } from "./share";
+import { parseSearchQuery, SearchQueryError } from "@shared/searchQuery";
+import { writeWorkspaceArchive, WORKSPACE_EXPORT_FORMATS } from "./export";
 import { 
   insertNoteSchema, 
   insertTagSchema, 
+  insertSavedSearchSchema,
+  insertNotebookSchema,
+  insertNoteCommentSchema,
+  SHARE_ROLES,
   type Note, 
+  type InsertNote,
+  type NoteRole,
+  type ShareRole,
+  type NoteCommentWithAuthor,
   type Tag,
-  type NoteWithTags
+  type NoteWithTags,
+  type NoteRevisionSummary,
+  type SyncResponse,
+  type CloudBackup,
+  type CloudBackupInfo
 } from "@shared/schema";
+import { htmlToMarkdown } from "@shared/markdown";
+import { hasRole } from "@shared/permissions";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
+import multer from "multer";
+import archiver from "archiver";
+
+// Note ETags are the quoted note version, e.g. "3"
+function noteETag(note: Note): string {
+  return `"${note.version}"`;
+}
+
+// Reads the version out of an If-Match header. Returns undefined when the
+// request is unconditional and NaN when the header is not one of our ETags.
+function parseIfMatch(header: string | undefined): number | undefined {
+  if (!header || header.trim() === "*") return undefined;
+  
+  const match = header.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? parseInt(match[1], 10) : NaN;
+}
+
+// Sync cursors trail the time of the read by this much. A write that was
+// stamped before the read but committed after it is then sent again on the
+// next sync instead of being skipped; applying a change twice is harmless.
+const SYNC_CURSOR_OVERLAP_MS = 5 * 1000;
+
+// Each user has a single backup that every new one replaces
+function backupKey(userId: number): string {
+  return `backups/${userId}/latest.json`;
+}
+
+// Notes can only be filed in a notebook of their owner that is not in the trash
+async function isUsableNotebook(userId: number, notebookId: number | null | undefined): Promise<boolean> {
+  if (notebookId === null || notebookId === undefined) return true;
+  const notebook = await storage.getNotebook(userId, notebookId);
+  return !!notebook && !notebook.isDeleted;
+}
+
+const moveNoteSchema = z.object({
+  notebookId: z.number().int().nullable(),
+});
+
+const moveNotebookSchema = z.object({
+  parentId: z.number().int().nullable(),
+});
+
+const mergeTagSchema = z.object({
+  targetId: z.number().int(),
+});
+
+// Looks up a note for a request that needs at least the `needed` role on it.
+// Answers 404 when the user cannot see the note at all and 403 when they can
+// but their role falls short; the route stops when nothing is returned.
+async function authorizeNote(req: Request, res: Response, needed: NoteRole, param = "id"): Promise<NoteAccess | undefined> {
+  const access = await getNoteAccess(storage, req.user!.id, parseInt(req.params[param], 10));
+  if (!access) {
+    res.status(404).json({ message: "Note not found" });
+    return undefined;
+  }
+  if (!hasRole(access.role, needed)) {
+    res.status(403).json({ message: "You do not have permission to do this" });
+    return undefined;
+  }
+  return access;
+}
+
+const shareWithUserSchema = z.object({
+  noteId: z.number().int().optional(),
+  notebookId: z.number().int().optional(),
+  username: z.string().trim().min(1),
+  role: z.enum(SHARE_ROLES),
+}).refine(share => (share.noteId === undefined) !== (share.notebookId === undefined), {
+  message: "Share either a note or a notebook",
+});
+
+const createShareSchema = z.object({
+  password: z.string().min(1).max(200).nullable().optional(),
+  expiresAt: z.coerce.date()
+    .refine(date => date > new Date(), "Expiry must be in the future")
+    .nullable()
+    .optional(),
+});
+
+// 32 random bytes, far beyond guessing
+function newShareToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+const MAX_IMPORT_FILES = 100;
+
+// Import files are read into memory; they are parsed as a whole anyway.
+// Evernote exports carry their attachments, so they can get fairly large.
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 25 * 1024 * 1024, files: MAX_IMPORT_FILES },
+}).array("files");
+
+// JSON alternative to a multipart upload, for scripts and the API
+const importRequestSchema = z.object({
+  files: z.array(z.object({
+    name: z.string().min(1),
+    content: z.string(),
+  })).min(1).max(MAX_IMPORT_FILES),
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and /api/auth must be set up before the authenticated API router
+  const authenticateUpgrade = setupAuth(app);
+  
+  // Public share pages, for anyone with the link
+  const sharePage = async (req: Request, res: Response) => {
+    try {
+      const share = await storage.getShareLinkByToken(req.params.token);
+      const note = share && await storage.getNote(share.userId, share.noteId);
+      if (!share || !note || note.isDeleted) {
+        return sendSharePage(res, 404, shareUnavailablePage());
+      }
+      
+      if (share.passwordHash !== null) {
+        const password = typeof req.body?.password === "string" ? req.body.password : undefined;
+        if (password === undefined) {
+          return sendSharePage(res, 401, sharePasswordPage());
+        }
+        if (!await comparePasswords(password, share.passwordHash)) {
+          return sendSharePage(res, 401, sharePasswordPage("Incorrect password"));
+        }
+      }
+      
+      sendSharePage(res, 200, sharedNotePage(note));
+    } catch (error) {
+      console.error("Error showing shared note:", error);
+      res.status(500).send("Failed to load shared note");
+    }
+  };
+  app.get("/s/:token", sharePage);
+  app.post("/s/:token", express.urlencoded({ extended: false }), sharePage);
+  
   const apiRouter = express.Router();
+  apiRouter.use(requireAuth);
   
   // Notes API
   apiRouter.get("/notes", async (req: Request, res: Response) => {
     try {
+      const userId = req.user!.id;
       const includeDeleted = req.query.includeDeleted === "true";
-      const notes = await storage.getNotesWithTags(includeDeleted);
+      const notes = await storage.getNotesWithTags(userId, includeDeleted);
       res.json(notes);
     } catch (error) {
       console.error("Error fetching notes:", error);
@@ -28,10 +186,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.get("/notes/search", async (req: Request, res: Response) => {
     try {
+      const userId = req.user!.id;
       const query = req.query.q as string || "";
-      const notes = await storage.searchNotes(query);
-      res.json(notes);
+      const results = await searchNotes(storage, userId, query);
+      res.json(results);
     } catch (error) {
+      if (error instanceof SearchQueryError) {
+        return res.status(400).json({ message: error.message, position: error.position });
+      }
       console.error("Error searching notes:", error);
       res.status(500).json({ message: "Failed to search notes" });
     }
@@ -39,33 +201,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.get("/notes/:id", async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const note = await storage.getNoteWithTags(id);
+      const access = await authorizeNote(req, res, "viewer");
+      if (!access) return;
       
-      if (!note) {
+      const { note, role } = access;
+      const noteWithTags = role === "owner"
+        ? await storage.getNoteWithTags(note.userId, note.id)
+        : await getSharedNote(storage, note, role);
+      
+      if (!noteWithTags) {
         return res.status(404).json({ message: "Note not found" });
       }
       
-      res.json(note);
+      res.set("ETag", noteETag(noteWithTags));
+      res.json(noteWithTags);
     } catch (error) {
       console.error("Error fetching note:", error);
       res.status(500).json({ message: "Failed to fetch note" });
     }
   });
   
+  apiRouter.post("/notes/import", (req: Request, res: Response, next) => {
+    importUpload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      next(error);
+    });
+  }, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const uploads = (req.files ?? []) as Express.Multer.File[];
+      if (uploads.length === 0 && !req.body?.files) {
+        return res.status(400).json({ message: "No files to import" });
+      }
+      
+      const files = uploads.length > 0
+        ? uploads.map(file => ({ name: file.originalname, content: file.buffer.toString("utf8") }))
+        : importRequestSchema.parse(req.body).files;
+      
+      const report = await importFiles(storage, userId, files);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error importing notes:", error);
+      res.status(500).json({ message: "Failed to import notes" });
+    }
+  });
+  
   apiRouter.post("/notes", async (req: Request, res: Response) => {
     try {
+      const userId = req.user!.id;
       const validatedData = insertNoteSchema.parse(req.body);
-      const note = await storage.createNote(validatedData);
+      if (!await isUsableNotebook(userId, validatedData.notebookId)) {
+        return res.status(400).json({ message: "Notebook not found" });
+      }
+      
+      const note = await storage.createNote(userId, validatedData);
       
       // Handle tags if provided
       if (req.body.tagIds && Array.isArray(req.body.tagIds)) {
         for (const tagId of req.body.tagIds) {
-          await storage.addTagToNote(note.id, tagId);
+          // Silently skip tags the user does not own
+          if (await storage.getTag(userId, tagId)) {
+            await storage.addTagToNote(userId, note.id, tagId);
+          }
         }
       }
       
-      const noteWithTags = await storage.getNoteWithTags(note.id);
+      const noteWithTags = await storage.getNoteWithTags(userId, note.id);
       res.status(201).json(noteWithTags);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -79,41 +286,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.put("/notes/:id", async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id, 10);
+      const access = await authorizeNote(req, res, "editor");
+      if (!access) return;
+      
+      // Changes are made on behalf of the owner. Editors of a shared note
+      // change its text; where it is filed and how it is tagged stay up to
+      // the owner.
+      const userId = access.note.userId;
+      const isOwner = access.role === "owner";
+      const id = access.note.id;
       
       // Validate only the fields that are present in the request body
-      const partialNoteSchema = insertNoteSchema.partial();
-      const validatedData = partialNoteSchema.parse(req.body);
+      const partialNoteSchema = isOwner
+        ? insertNoteSchema.partial()
+        : insertNoteSchema.pick({ title: true, content: true }).partial();
+      const validatedData: Partial<InsertNote> = partialNoteSchema.parse(req.body);
+      if (!await isUsableNotebook(userId, validatedData.notebookId)) {
+        return res.status(400).json({ message: "Notebook not found" });
+      }
       
-      const updatedNote = await storage.updateNote(id, validatedData);
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (Number.isNaN(expectedVersion)) {
+        return res.status(400).json({ message: "Invalid If-Match header" });
+      }
+      
+      // The owner gets the note with its tags, anyone else the note as shared with them
+      const noteForUser = (note: Note) => isOwner
+        ? storage.getNoteWithTags(userId, note.id)
+        : getSharedNote(storage, note, access.role as ShareRole);
+      
+      let updatedNote: Note | undefined;
+      try {
+        updatedNote = await storage.updateNote(userId, id, validatedData, expectedVersion);
+      } catch (error) {
+        if (!(error instanceof NoteVersionConflictError)) throw error;
+        // Hand back the server copy so the client can resolve the conflict
+        res.set("ETag", noteETag(error.current));
+        return res.status(409).json({
+          message: "Note has been changed since you last loaded it",
+          note: await noteForUser(error.current),
+        });
+      }
       
       if (!updatedNote) {
         return res.status(404).json({ message: "Note not found" });
       }
       
+      if (validatedData.title !== undefined) {
+        await renameLinksTo(storage, userId, updatedNote);
+      }
+      
       // Handle tags if provided
-      if (req.body.tagIds && Array.isArray(req.body.tagIds)) {
+      if (isOwner && req.body.tagIds && Array.isArray(req.body.tagIds)) {
         // Get current tags
-        const currentTags = await storage.getTagsForNote(id);
+        const currentTags = await storage.getTagsForNote(userId, id);
         const currentTagIds = currentTags.map(tag => tag.id);
         
         // Remove tags that are no longer associated
         for (const tagId of currentTagIds) {
           if (!req.body.tagIds.includes(tagId)) {
-            await storage.removeTagFromNote(id, tagId);
+            await storage.removeTagFromNote(userId, id, tagId);
           }
         }
         
         // Add new tags
         for (const tagId of req.body.tagIds) {
-          if (!currentTagIds.includes(tagId)) {
-            await storage.addTagToNote(id, tagId);
+          if (!currentTagIds.includes(tagId) && await storage.getTag(userId, tagId)) {
+            await storage.addTagToNote(userId, id, tagId);
           }
         }
       }
       
-      const noteWithTags = await storage.getNoteWithTags(id);
-      res.json(noteWithTags);
+      res.set("ETag", noteETag(updatedNote));
+      res.json(await noteForUser(updatedNote));
     } catch (error) {
       if (error instanceof z.ZodError) {
         const validationError = fromZodError(error);
@@ -126,8 +371,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.delete("/notes/:id", async (req: Request, res: Response) => {
     try {
+      if (!await authorizeNote(req, res, "owner")) return;
+      
+      const userId = req.user!.id;
       const id = parseInt(req.params.id, 10);
-      const success = await storage.deleteNote(id);
+      const success = await storage.deleteNote(userId, id);
       
       if (!success) {
         return res.status(404).json({ message: "Note not found" });
@@ -142,14 +390,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.post("/notes/:id/restore", async (req: Request, res: Response) => {
     try {
+      if (!await authorizeNote(req, res, "owner")) return;
+      
+      const userId = req.user!.id;
       const id = parseInt(req.params.id, 10);
-      const restoredNote = await storage.restoreNote(id);
+      const restoredNote = await storage.restoreNote(userId, id);
       
       if (!restoredNote) {
         return res.status(404).json({ message: "Note not found" });
       }
       
-      const noteWithTags = await storage.getNoteWithTags(id);
+      const noteWithTags = await storage.getNoteWithTags(userId, id);
       res.json(noteWithTags);
     } catch (error) {
       console.error("Error restoring note:", error);
@@ -159,14 +410,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.post("/notes/:id/toggle-favorite", async (req: Request, res: Response) => {
     try {
+      if (!await authorizeNote(req, res, "owner")) return;
+      
+      const userId = req.user!.id;
       const id = parseInt(req.params.id, 10);
-      const updatedNote = await storage.toggleFavorite(id);
+      const updatedNote = await storage.toggleFavorite(userId, id);
       
       if (!updatedNote) {
         return res.status(404).json({ message: "Note not found" });
       }
       
-      const noteWithTags = await storage.getNoteWithTags(id);
+      const noteWithTags = await storage.getNoteWithTags(userId, id);
       res.json(noteWithTags);
     } catch (error) {
       console.error("Error toggling favorite:", error);
@@ -174,10 +428,458 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  apiRouter.post("/notes/:id/move", async (req: Request, res: Response) => {
+    try {
+      if (!await authorizeNote(req, res, "owner")) return;
+      
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      const { notebookId } = moveNoteSchema.parse(req.body);
+      if (!await isUsableNotebook(userId, notebookId)) {
+        return res.status(400).json({ message: "Notebook not found" });
+      }
+      
+      const updatedNote = await storage.updateNote(userId, id, { notebookId });
+      
+      if (!updatedNote) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      const noteWithTags = await storage.getNoteWithTags(userId, id);
+      res.set("ETag", noteETag(updatedNote));
+      res.json(noteWithTags);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error moving note:", error);
+      res.status(500).json({ message: "Failed to move note" });
+    }
+  });
+  
+  // Revisions API
+  apiRouter.get("/notes/:id/revisions", async (req: Request, res: Response) => {
+    try {
+      const access = await authorizeNote(req, res, "viewer");
+      if (!access) return;
+      
+      const { userId, id } = access.note;
+      const revisions = await storage.getNoteRevisions(userId, id);
+      const summaries: NoteRevisionSummary[] = revisions.map(({ content: _content, ...summary }) => summary);
+      res.json(summaries);
+    } catch (error) {
+      console.error("Error fetching revisions:", error);
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+  
+  apiRouter.get("/notes/:id/revisions/:rev", async (req: Request, res: Response) => {
+    try {
+      const access = await authorizeNote(req, res, "viewer");
+      if (!access) return;
+      
+      const { userId, id } = access.note;
+      const revisionId = parseInt(req.params.rev, 10);
+      const revision = await storage.getNoteRevision(userId, id, revisionId);
+      
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      res.json(revision);
+    } catch (error) {
+      console.error("Error fetching revision:", error);
+      res.status(500).json({ message: "Failed to fetch revision" });
+    }
+  });
+  
+  apiRouter.post("/notes/:id/revisions/:rev/restore", async (req: Request, res: Response) => {
+    try {
+      const access = await authorizeNote(req, res, "editor");
+      if (!access) return;
+      
+      const { userId, id } = access.note;
+      const revisionId = parseInt(req.params.rev, 10);
+      const restoredNote = await storage.restoreNoteRevision(userId, id, revisionId);
+      
+      if (!restoredNote) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      // The revision may carry an older title
+      await renameLinksTo(storage, userId, restoredNote);
+      
+      const noteWithTags = access.role === "owner"
+        ? await storage.getNoteWithTags(userId, id)
+        : await getSharedNote(storage, restoredNote, access.role);
+      res.json(noteWithTags);
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+  
+  // Backlinks API
+  apiRouter.get("/notes/:id/backlinks", async (req: Request, res: Response) => {
+    try {
+      const access = await authorizeNote(req, res, "viewer");
+      if (!access) return;
+      
+      const backlinks = await getBacklinks(storage, access.note.userId, access.note.id);
+      if (access.role === "owner") {
+        return res.json(backlinks);
+      }
+      
+      // Other notes of the owner only show up where they are shared too
+      const visible = [];
+      for (const backlink of backlinks) {
+        if (await getNoteAccess(storage, req.user!.id, backlink.id)) visible.push(backlink);
+      }
+      res.json(visible);
+    } catch (error) {
+      console.error("Error fetching backlinks:", error);
+      res.status(500).json({ message: "Failed to fetch backlinks" });
+    }
+  });
+  
+  // Share link API
+  apiRouter.get("/notes/:id/shares", async (req: Request, res: Response) => {
+    try {
+      if (!await authorizeNote(req, res, "owner")) return;
+      
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      const shares = await storage.getShareLinks(userId, id);
+      res.json(shares.map(shareLinkInfo));
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
+  
+  apiRouter.post("/notes/:id/share", async (req: Request, res: Response) => {
+    try {
+      if (!await authorizeNote(req, res, "owner")) return;
+      
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      const { password, expiresAt } = createShareSchema.parse(req.body ?? {});
+      
+      const note = await storage.getNote(userId, id);
+      if (!note || note.isDeleted) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      const share = await storage.createShareLink(userId, id, {
+        token: newShareToken(),
+        passwordHash: password ? await hashPassword(password) : null,
+        expiresAt: expiresAt ?? null,
+      });
+      res.status(201).json(shareLinkInfo(share));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating share link:", error);
+      res.status(500).json({ message: "Failed to create share link" });
+    }
+  });
+  
+  apiRouter.delete("/notes/:id/share/:shareId", async (req: Request, res: Response) => {
+    try {
+      if (!await authorizeNote(req, res, "owner")) return;
+      
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      const shareId = parseInt(req.params.shareId, 10);
+      
+      if (!await storage.deleteShareLink(userId, id, shareId)) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+  
+  // Comments API
+  apiRouter.get("/notes/:id/comments", async (req: Request, res: Response) => {
+    try {
+      const access = await authorizeNote(req, res, "viewer");
+      if (!access) return;
+      
+      const comments = await storage.getNoteComments(access.note.id);
+      const withAuthors: NoteCommentWithAuthor[] = [];
+      for (const comment of comments) {
+        const author = await storage.getUser(comment.userId);
+        if (author) withAuthors.push({ ...comment, author: toPublicUser(author) });
+      }
+      res.json(withAuthors);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+  
+  apiRouter.post("/notes/:id/comments", async (req: Request, res: Response) => {
+    try {
+      const access = await authorizeNote(req, res, "commenter");
+      if (!access) return;
+      
+      const validatedData = insertNoteCommentSchema.parse(req.body);
+      const comment = await storage.createNoteComment(req.user!.id, access.note.id, validatedData);
+      const withAuthor: NoteCommentWithAuthor = { ...comment, author: toPublicUser(req.user!) };
+      res.status(201).json(withAuthor);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating comment:", error);
+      res.status(500).json({ message: "Failed to create comment" });
+    }
+  });
+  
+  apiRouter.delete("/notes/:id/comments/:commentId", async (req: Request, res: Response) => {
+    try {
+      const access = await authorizeNote(req, res, "viewer");
+      if (!access) return;
+      
+      const commentId = parseInt(req.params.commentId, 10);
+      const comment = await storage.getNoteComment(access.note.id, commentId);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      
+      // Comments can be removed by their author and by the note's owner
+      if (comment.userId !== req.user!.id && access.role !== "owner") {
+        return res.status(403).json({ message: "You do not have permission to do this" });
+      }
+      
+      await storage.deleteNoteComment(access.note.id, commentId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+  
+  // Collaborators API
+  apiRouter.get("/collaborators", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      res.json(await getCollaborators(storage, userId));
+    } catch (error) {
+      console.error("Error fetching collaborators:", error);
+      res.status(500).json({ message: "Failed to fetch collaborators" });
+    }
+  });
+  
+  apiRouter.post("/collaborators", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { noteId, notebookId, username, role } = shareWithUserSchema.parse(req.body);
+      
+      if (noteId !== undefined) {
+        const note = await storage.getNote(userId, noteId);
+        if (!note || note.isDeleted) {
+          return res.status(404).json({ message: "Note not found" });
+        }
+      }
+      if (notebookId !== undefined) {
+        const notebook = await storage.getNotebook(userId, notebookId);
+        if (!notebook || notebook.isDeleted) {
+          return res.status(404).json({ message: "Notebook not found" });
+        }
+      }
+      
+      const sharedWith = await storage.getUserByUsername(username);
+      if (!sharedWith) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (sharedWith.id === userId) {
+        return res.status(400).json({ message: "You cannot share with yourself" });
+      }
+      
+      const share = await storage.saveNoteShare(userId, {
+        noteId: noteId ?? null,
+        notebookId: notebookId ?? null,
+        sharedWithId: sharedWith.id,
+        role,
+      });
+      res.status(201).json({ ...share, user: toPublicUser(sharedWith) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error sharing with user:", error);
+      res.status(500).json({ message: "Failed to share with user" });
+    }
+  });
+  
+  apiRouter.delete("/collaborators/:id", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      
+      if (!await storage.deleteNoteShare(userId, id)) {
+        return res.status(404).json({ message: "Share not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing collaborator:", error);
+      res.status(500).json({ message: "Failed to remove collaborator" });
+    }
+  });
+  
+  apiRouter.get("/shared-notes", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      res.json(await getSharedNotes(storage, userId));
+    } catch (error) {
+      console.error("Error fetching shared notes:", error);
+      res.status(500).json({ message: "Failed to fetch shared notes" });
+    }
+  });
+  
+  // Graph API
+  apiRouter.get("/graph", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      res.json(await storage.getNoteGraph(userId));
+    } catch (error) {
+      console.error("Error fetching note graph:", error);
+      res.status(500).json({ message: "Failed to fetch note graph" });
+    }
+  });
+  
+  // Notebooks API
+  apiRouter.get("/notebooks", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const includeDeleted = req.query.includeDeleted === "true";
+      const notebooks = await storage.getNotebooks(userId, includeDeleted);
+      res.json(notebooks);
+    } catch (error) {
+      console.error("Error fetching notebooks:", error);
+      res.status(500).json({ message: "Failed to fetch notebooks" });
+    }
+  });
+  
+  apiRouter.post("/notebooks", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertNotebookSchema.parse(req.body);
+      if (!await isUsableNotebook(userId, validatedData.parentId)) {
+        return res.status(400).json({ message: "Parent notebook not found" });
+      }
+      
+      const notebook = await storage.createNotebook(userId, validatedData);
+      res.status(201).json(notebook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating notebook:", error);
+      res.status(500).json({ message: "Failed to create notebook" });
+    }
+  });
+  
+  apiRouter.put("/notebooks/:id", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      
+      // Notebooks change parent through the move endpoint
+      const validatedData = insertNotebookSchema.omit({ parentId: true }).partial().parse(req.body);
+      const updatedNotebook = await storage.updateNotebook(userId, id, validatedData);
+      
+      if (!updatedNotebook) {
+        return res.status(404).json({ message: "Notebook not found" });
+      }
+      
+      res.json(updatedNotebook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating notebook:", error);
+      res.status(500).json({ message: "Failed to update notebook" });
+    }
+  });
+  
+  apiRouter.post("/notebooks/:id/move", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      const { parentId } = moveNotebookSchema.parse(req.body);
+      const movedNotebook = await storage.moveNotebook(userId, id, parentId);
+      
+      if (!movedNotebook) {
+        return res.status(404).json({ message: "Notebook not found" });
+      }
+      
+      res.json(movedNotebook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      if (error instanceof HierarchyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error moving notebook:", error);
+      res.status(500).json({ message: "Failed to move notebook" });
+    }
+  });
+  
+  apiRouter.delete("/notebooks/:id", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteNotebook(userId, id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Notebook not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting notebook:", error);
+      res.status(500).json({ message: "Failed to delete notebook" });
+    }
+  });
+  
+  apiRouter.post("/notebooks/:id/restore", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      const restoredNotebook = await storage.restoreNotebook(userId, id);
+      
+      if (!restoredNotebook) {
+        return res.status(404).json({ message: "Notebook not found" });
+      }
+      
+      res.json(restoredNotebook);
+    } catch (error) {
+      console.error("Error restoring notebook:", error);
+      res.status(500).json({ message: "Failed to restore notebook" });
+    }
+  });
+  
   // Tags API
-  apiRouter.get("/tags", async (_req: Request, res: Response) => {
+  apiRouter.get("/tags", async (req: Request, res: Response) => {
     try {
-      const tags = await storage.getTags();
+      const userId = req.user!.id;
+      const tags = await storage.getTags(userId);
       res.json(tags);
     } catch (error) {
       console.error("Error fetching tags:", error);
@@ -187,14 +889,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.post("/tags", async (req: Request, res: Response) => {
     try {
+      const userId = req.user!.id;
       const validatedData = insertTagSchema.parse(req.body);
-      const tag = await storage.createTag(validatedData);
+      const tag = await storage.createTag(userId, validatedData);
       res.status(201).json(tag);
     } catch (error) {
       if (error instanceof z.ZodError) {
         const validationError = fromZodError(error);
         return res.status(400).json({ message: validationError.message });
       }
+      if (error instanceof HierarchyError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error creating tag:", error);
       res.status(500).json({ message: "Failed to create tag" });
     }
@@ -202,13 +908,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.put("/tags/:id", async (req: Request, res: Response) => {
     try {
+      const userId = req.user!.id;
       const id = parseInt(req.params.id, 10);
       
       // Validate only the fields that are present in the request body
       const partialTagSchema = insertTagSchema.partial();
       const validatedData = partialTagSchema.parse(req.body);
       
-      const updatedTag = await storage.updateTag(id, validatedData);
+      const updatedTag = await storage.updateTag(userId, id, validatedData);
       
       if (!updatedTag) {
         return res.status(404).json({ message: "Tag not found" });
@@ -220,6 +927,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const validationError = fromZodError(error);
         return res.status(400).json({ message: validationError.message });
       }
+      if (error instanceof HierarchyError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error updating tag:", error);
       res.status(500).json({ message: "Failed to update tag" });
     }
@@ -227,8 +937,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.delete("/tags/:id", async (req: Request, res: Response) => {
     try {
+      const userId = req.user!.id;
       const id = parseInt(req.params.id, 10);
-      const success = await storage.deleteTag(id);
+      const success = await storage.deleteTag(userId, id);
       
       if (!success) {
         return res.status(404).json({ message: "Tag not found" });
@@ -241,11 +952,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Moves the tag's notes and sub-tags to the target tag and deletes it
+  apiRouter.post("/tags/:id/merge", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      const { targetId } = mergeTagSchema.parse(req.body);
+      const mergedTag = await storage.mergeTags(userId, id, targetId);
+      
+      if (!mergedTag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      
+      res.json(mergedTag);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      if (error instanceof HierarchyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error merging tags:", error);
+      res.status(500).json({ message: "Failed to merge tags" });
+    }
+  });
+  
   // Note-Tag relationship API
   apiRouter.get("/notes/:id/tags", async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const tags = await storage.getTagsForNote(id);
+      const access = await authorizeNote(req, res, "viewer");
+      if (!access) return;
+      
+      const tags = await storage.getTagsForNote(access.note.userId, access.note.id);
       res.json(tags);
     } catch (error) {
       console.error("Error fetching tags for note:", error);
@@ -255,12 +994,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.post("/notes/:noteId/tags/:tagId", async (req: Request, res: Response) => {
     try {
+      if (!await authorizeNote(req, res, "owner", "noteId")) return;
+      
+      const userId = req.user!.id;
       const noteId = parseInt(req.params.noteId, 10);
       const tagId = parseInt(req.params.tagId, 10);
       
       // Ensure both note and tag exist
-      const note = await storage.getNote(noteId);
-      const tag = await storage.getTag(tagId);
+      const note = await storage.getNote(userId, noteId);
+      const tag = await storage.getTag(userId, tagId);
       
       if (!note) {
         return res.status(404).json({ message: "Note not found" });
@@ -270,8 +1012,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Tag not found" });
       }
       
-      await storage.addTagToNote(noteId, tagId);
-      const tags = await storage.getTagsForNote(noteId);
+      await storage.addTagToNote(userId, noteId, tagId);
+      const tags = await storage.getTagsForNote(userId, noteId);
       res.json(tags);
     } catch (error) {
       console.error("Error adding tag to note:", error);
@@ -281,11 +1023,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.delete("/notes/:noteId/tags/:tagId", async (req: Request, res: Response) => {
     try {
+      if (!await authorizeNote(req, res, "owner", "noteId")) return;
+      
+      const userId = req.user!.id;
       const noteId = parseInt(req.params.noteId, 10);
       const tagId = parseInt(req.params.tagId, 10);
       
-      await storage.removeTagFromNote(noteId, tagId);
-      const tags = await storage.getTagsForNote(noteId);
+      if (!await storage.getNote(userId, noteId)) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      await storage.removeTagFromNote(userId, noteId, tagId);
+      const tags = await storage.getTagsForNote(userId, noteId);
       res.json(tags);
     } catch (error) {
       console.error("Error removing tag from note:", error);
@@ -293,123 +1042,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-// Convert HTML to markdown-like text
-const htmlToMarkdown = (html: string): string => {
-  // Helper function to handle list conversion (avoid s flag)
-  const convertUl = (html: string): string => {
-    const ulPattern = /<ul[^>]*>([\s\S]*?)<\/ul>/;
-    let result = html;
-    let match;
-    
-    while ((match = ulPattern.exec(result)) !== null) {
-      const list = match[1];
-      const liReplaced = list.replace(/<li[^>]*>([\s\S]*?)<\/li>/g, '- $1\n');
-      result = result.replace(match[0], liReplaced);
+  // Saved searches API
+  apiRouter.get("/saved-searches", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const savedSearches = await storage.getSavedSearches(userId);
+      res.json(savedSearches);
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+      res.status(500).json({ message: "Failed to fetch saved searches" });
     }
-    
-    return result;
-  };
+  });
   
-  // Helper function for ordered lists (avoid s flag)
-  const convertOl = (html: string): string => {
-    const olPattern = /<ol[^>]*>([\s\S]*?)<\/ol>/;
-    let result = html;
-    let match;
-    
-    while ((match = olPattern.exec(result)) !== null) {
-      const list = match[1];
-      let index = 1;
-      const liReplaced = list.replace(/<li[^>]*>([\s\S]*?)<\/li>/g, () => {
-        return `${index++}. $1\n`;
-      });
-      result = result.replace(match[0], liReplaced);
+  apiRouter.post("/saved-searches", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertSavedSearchSchema.parse(req.body);
+      // Only queries the search box would accept can be saved
+      parseSearchQuery(validatedData.query);
+      
+      const savedSearch = await storage.createSavedSearch(userId, validatedData);
+      res.status(201).json(savedSearch);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      if (error instanceof SearchQueryError) {
+        return res.status(400).json({ message: error.message, position: error.position });
+      }
+      console.error("Error creating saved search:", error);
+      res.status(500).json({ message: "Failed to create saved search" });
     }
-    
-    return result;
-  };
+  });
   
-  // Helper function for code blocks (avoid s flag)
-  const convertCodeBlocks = (html: string): string => {
-    const codePattern = /<pre><code[^>]*>([\s\S]*?)<\/code><\/pre>/;
-    let result = html;
-    let match;
-    
-    while ((match = codePattern.exec(result)) !== null) {
-      const code = match[1];
-      result = result.replace(match[0], '```\n' + code + '\n```');
+  apiRouter.put("/saved-searches/:id", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      const validatedData = insertSavedSearchSchema.partial().parse(req.body);
+      if (validatedData.query !== undefined) {
+        parseSearchQuery(validatedData.query);
+      }
+      
+      const updatedSavedSearch = await storage.updateSavedSearch(userId, id, validatedData);
+      
+      if (!updatedSavedSearch) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      
+      res.json(updatedSavedSearch);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      if (error instanceof SearchQueryError) {
+        return res.status(400).json({ message: error.message, position: error.position });
+      }
+      console.error("Error updating saved search:", error);
+      res.status(500).json({ message: "Failed to update saved search" });
     }
-    
-    return result;
-  };
+  });
   
-  // Helper function for blockquotes (avoid s flag)
-  const convertBlockquotes = (html: string): string => {
-    const blockquotePattern = /<blockquote[^>]*>([\s\S]*?)<\/blockquote>/;
-    let result = html;
-    let match;
-    
-    while ((match = blockquotePattern.exec(result)) !== null) {
-      const content = match[1];
-      result = result.replace(match[0], '> ' + content);
+  apiRouter.delete("/saved-searches/:id", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteSavedSearch(userId, id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      res.status(500).json({ message: "Failed to delete saved search" });
     }
-    
-    return result;
-  };
+  });
   
-  // Clean up excessive newlines
-  const cleanNewlines = (text: string): string => {
-    return text.replace(/\n\n\n+/g, '\n\n');
-  };
+  // Sync API
+  // Returns what changed after the `since` cursor (ms) of an earlier sync, or everything without one
+  apiRouter.get("/sync", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const since = req.query.since === undefined ? 0 : Number(req.query.since);
+      
+      if (!Number.isInteger(since) || since < 0) {
+        return res.status(400).json({ message: "Invalid sync cursor" });
+      }
+      
+      const cursor = Date.now() - SYNC_CURSOR_OVERLAP_MS;
+      const changes = await storage.getChangesSince(userId, since ? new Date(since) : undefined);
+      
+      const response: SyncResponse = { ...changes, cursor, full: !since };
+      res.json(response);
+    } catch (error) {
+      console.error("Error syncing changes:", error);
+      res.status(500).json({ message: "Failed to sync changes" });
+    }
+  });
+  
+  // Cloud backup API
+  apiRouter.post("/cloud/backup", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const [notes, tags] = await Promise.all([
+        storage.getNotesWithTags(userId, true),
+        storage.getTags(userId)
+      ]);
+      
+      const backup: CloudBackup = { createdAt: new Date().toISOString(), notes, tags };
+      await blobStore.put(backupKey(userId), JSON.stringify(backup), "application/json");
+      
+      const info: CloudBackupInfo = { createdAt: backup.createdAt, notes: notes.length, tags: tags.length };
+      res.status(201).json(info);
+    } catch (error) {
+      console.error("Error backing up notes:", error);
+      res.status(500).json({ message: "Failed to back up notes" });
+    }
+  });
+  
+  apiRouter.get("/cloud/backup", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const backup = await blobStore.get(backupKey(userId));
+      
+      if (backup === undefined) {
+        return res.status(404).json({ message: "No backup found" });
+      }
+      
+      res.type("application/json").send(backup);
+    } catch (error) {
+      console.error("Error fetching backup:", error);
+      res.status(500).json({ message: "Failed to fetch backup" });
+    }
+  });
   
-  // Main conversion process
-  let markdown = html
-    // Remove HTML tags that don't need to be transformed
-    .replace(/<\/?(div|span|p)([^>]*)>/g, '\n')
-    // Convert headings
-    .replace(/<h1[^>]*>(.*?)<\/h1>/g, '# $1\n')
-    .replace(/<h2[^>]*>(.*?)<\/h2>/g, '## $1\n')
-    .replace(/<h3[^>]*>(.*?)<\/h3>/g, '### $1\n')
-    // Convert bold
-    .replace(/<strong>(.*?)<\/strong>/g, '**$1**')
-    .replace(/<b>(.*?)<\/b>/g, '**$1**')
-    // Convert italic
-    .replace(/<em>(.*?)<\/em>/g, '*$1*')
-    .replace(/<i>(.*?)<\/i>/g, '*$1*')
-    // Convert underline to markdown emphasis
-    .replace(/<u>(.*?)<\/u>/g, '_$1_')
-    // Convert strikethrough
-    .replace(/<s>(.*?)<\/s>/g, '~~$1~~')
-    // Convert links
-    .replace(/<a href="([^"]*)"[^>]*>(.*?)<\/a>/g, '[$2]($1)')
-    // Convert images
-    .replace(/<img src="([^"]*)"[^>]*>/g, '![]($1)')
-    // Convert inline code
-    .replace(/<code>(.*?)<\/code>/g, '`$1`');
-  
-  // Apply more complex transformations
-  markdown = convertUl(markdown);
-  markdown = convertOl(markdown);
-  markdown = convertCodeBlocks(markdown);
-  markdown = convertBlockquotes(markdown);
-  markdown = cleanNewlines(markdown);
-  
-  // Fix remaining HTML entities
-  markdown = markdown
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&amp;/g, '&')
-    .trim();
-    
-  return markdown;
-};
-
 // Export API
 apiRouter.get("/notes/:id/export", async (req: Request, res: Response) => {
   try {
-    const id = parseInt(req.params.id, 10);
+    const access = await authorizeNote(req, res, "viewer");
+    if (!access) return;
+    
     const format = req.query.format as string || 'text';
-    const note = await storage.getNoteWithTags(id);
+    const note = await storage.getNoteWithTags(access.note.userId, access.note.id);
     
     if (!note) {
       return res.status(404).json({ message: "Note not found" });
@@ -440,10 +1218,49 @@ apiRouter.get("/notes/:id/export", async (req: Request, res: Response) => {
   }
 });
   
+  apiRouter.get("/export/workspace", async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const format = z.enum(WORKSPACE_EXPORT_FORMATS).safeParse(req.query.format ?? "markdown");
+      if (!format.success) {
+        return res.status(400).json({ message: "Invalid export format" });
+      }
+      const includeTrash = req.query.includeTrash === "true";
+      
+      const [notes, tags] = await Promise.all([
+        storage.getNotesWithTags(userId, includeTrash),
+        storage.getTags(userId),
+      ]);
+      
+      const archive = archiver("zip", { zlib: { level: 9 } });
+      archive.on("error", (error) => {
+        // Headers are already sent, so all that is left is to abort the download
+        console.error("Error writing workspace export:", error);
+        res.destroy(error);
+      });
+      
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="notes-${new Date().toISOString().slice(0, 10)}.zip"`);
+      archive.pipe(res);
+      
+      writeWorkspaceArchive(archive, notes, tags, format.data);
+      await archive.finalize();
+    } catch (error) {
+      console.error("Error exporting workspace:", error);
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(500).json({ message: "Failed to export workspace" });
+      }
+    }
+  });
+  
   // Register API routes
   app.use("/api", apiRouter);
 
   const httpServer = createServer(app);
+  // Notes being edited together sync over WebSockets on the same server
+  setupCollaboration(httpServer, storage, authenticateUpgrade);
 
   return httpServer;
 }
@@ -0,0 +1,35 @@
+import type { IStorage } from "./storage";
+import type { NoteSearchResult } from "@shared/schema";
+import { NoteSearchIndex } from "@shared/search";
+
+// Indexes of recently active users, least recently used first
+const indexes = new Map<number, NoteSearchIndex>();
+const MAX_CACHED_INDEXES = 100;
+
+function indexFor(userId: number): NoteSearchIndex {
+  let index = indexes.get(userId);
+  if (index) {
+    indexes.delete(userId);
+  } else {
+    index = new NoteSearchIndex();
+    if (indexes.size >= MAX_CACHED_INDEXES) {
+      indexes.delete(indexes.keys().next().value!);
+    }
+  }
+  indexes.set(userId, index);
+  return index;
+}
+
+// Searches a user's notes with the search query language. Trashed notes are
+// indexed too, for is:trash. The index is kept between searches and brought
+// up to date from storage each time, which only re-indexes notes that
+// changed, so it never serves stale results.
+export async function searchNotes(storage: IStorage, userId: number, query: string): Promise<NoteSearchResult[]> {
+  const [notes, tags] = await Promise.all([
+    storage.getNotesWithTags(userId, true),
+    storage.getTags(userId),
+  ]);
+  const index = indexFor(userId);
+  index.sync(notes, tags);
+  return index.search(query);
+}
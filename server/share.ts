@@ -0,0 +1,120 @@
+import type { Response } from "express";
+import { escapeHtml, sanitizeHtml } from "@shared/html";
+import type { Note, ShareLink, ShareLinkInfo } from "@shared/schema";
+
+// Share pages are plain server-rendered HTML, outside the React app and its
+// session. Note content is sanitized, and the policy below additionally
+// blocks scripts, frames and outside resources other than images.
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  "img-src data: https: http:",
+  "style-src 'unsafe-inline'",
+  "form-action 'self'",
+  "frame-ancestors 'none'",
+  "base-uri 'none'",
+].join("; ");
+
+const STYLES = `
+  :root { color-scheme: light dark; --text: #1f2937; --muted: #6b7280; --border: #e5e7eb; --surface: #f9fafb; --accent: #7c3aed; }
+  @media (prefers-color-scheme: dark) {
+    :root { --text: #e5e7eb; --muted: #9ca3af; --border: #374151; --surface: #1f2937; --accent: #a78bfa; }
+    body { background: #121212; }
+  }
+  * { box-sizing: border-box; }
+  body { margin: 0; color: var(--text); font: 16px/1.7 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }
+  main { max-width: 720px; margin: 0 auto; padding: 48px 24px 64px; }
+  h1 { font-size: 2rem; line-height: 1.25; margin: 0 0 8px; }
+  .meta { color: var(--muted); font-size: 0.875rem; margin-bottom: 32px; }
+  a { color: var(--accent); }
+  img { max-width: 100%; height: auto; }
+  blockquote { margin: 1em 0; padding-left: 1em; border-left: 3px solid var(--border); color: var(--muted); }
+  pre { background: var(--surface); border: 1px solid var(--border); border-radius: 6px; padding: 12px 16px; overflow-x: auto; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid var(--border); padding: 6px 10px; text-align: left; vertical-align: top; }
+  ul[data-type="taskList"] { list-style: none; padding-left: 0.25em; }
+  ul[data-type="taskList"] li { display: flex; gap: 0.5em; }
+  ul[data-type="taskList"] li > label { flex: none; }
+  ul[data-type="taskList"] input { pointer-events: none; }
+  .notice { max-width: 360px; margin: 96px auto; text-align: center; }
+  form { display: flex; flex-direction: column; gap: 12px; margin-top: 24px; }
+  input[type="password"] { font: inherit; padding: 8px 12px; border: 1px solid var(--border); border-radius: 6px; background: var(--surface); color: var(--text); }
+  button { font: inherit; padding: 8px 12px; border: 0; border-radius: 6px; background: var(--accent); color: #fff; cursor: pointer; }
+  .error { color: #dc2626; font-size: 0.875rem; }
+  footer { margin-top: 64px; color: var(--muted); font-size: 0.8125rem; }
+`;
+
+function page(title: string, body: string): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<meta name="robots" content="noindex">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLES}</style>`,
+    "</head>",
+    "<body>",
+    body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+export function sendSharePage(res: Response, status: number, html: string) {
+  res
+    .status(status)
+    .set({
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Security-Policy": CONTENT_SECURITY_POLICY,
+      // The token is the only secret; keep it out of caches and referrers
+      "Cache-Control": "private, no-store",
+      "Referrer-Policy": "no-referrer",
+      "X-Robots-Tag": "noindex",
+      "X-Content-Type-Options": "nosniff",
+    })
+    .send(html);
+}
+
+export function sharedNotePage(note: Note): string {
+  const updated = note.updatedAt.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+  const title = note.title || "Untitled";
+  return page(title, [
+    "<main>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<div class="meta">Updated ${escapeHtml(updated)}</div>`,
+    `<article>${sanitizeHtml(note.content)}</article>`,
+    "<footer>Shared read-only from NotePro</footer>",
+    "</main>",
+  ].join("\n"));
+}
+
+export function sharePasswordPage(error?: string): string {
+  return page("Password required", [
+    '<main class="notice">',
+    "<h1>Password required</h1>",
+    "<p>This note is protected. Enter the password you were given to read it.</p>",
+    '<form method="post">',
+    '<input type="password" name="password" placeholder="Password" autofocus required>',
+    error ? `<div class="error">${escapeHtml(error)}</div>` : "",
+    '<button type="submit">Open note</button>',
+    "</form>",
+    "</main>",
+  ].join("\n"));
+}
+
+// Also shown for links that never existed, so tokens cannot be probed
+export function shareUnavailablePage(): string {
+  return page("Link unavailable", [
+    '<main class="notice">',
+    "<h1>Link unavailable</h1>",
+    "<p>This share link has expired or was revoked.</p>",
+    "</main>",
+  ].join("\n"));
+}
+
+export function shareLinkInfo({ passwordHash, ...share }: ShareLink): ShareLinkInfo {
+  return { ...share, hasPassword: passwordHash !== null };
+}
@@ -0,0 +1,332 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { fileURLToPath } from "url";
+import session from "express-session";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { DatabaseStorage, HierarchyError, MemStorage, NoteVersionConflictError, type IStorage } from "./storage";
+import type { Database } from "./db";
+
+const MIGRATIONS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "../migrations");
+
+const link = (note: schema.Note) =>
+  `<span data-type="noteLink" data-note-id="${note.id}" data-title="${note.title}">[[${note.title}]]</span>`;
+
+const ids = (items: { id: number }[]) => items.map(item => item.id).sort((a, b) => a - b);
+
+// Both storages run the same checks: DatabaseStorage against an in-process
+// Postgres (PGlite) built from the committed migrations
+const implementations: [string, () => Promise<{ storage: IStorage; close: () => Promise<void> }>][] = [
+  ["MemStorage", async () => ({ storage: new MemStorage(), close: async () => {} })],
+  ["DatabaseStorage", async () => {
+    const client = new PGlite();
+    const db = drizzle(client, { schema });
+    await migrate(db, { migrationsFolder: MIGRATIONS_DIR });
+    return {
+      storage: new DatabaseStorage(db as unknown as Database, new session.MemoryStore()),
+      close: () => client.close(),
+    };
+  }],
+];
+
+for (const [name, open] of implementations) {
+  describe(name, () => {
+    let storage: IStorage;
+    let close: () => Promise<void>;
+    let userCount = 0;
+
+    // Every test gets users of its own, which keeps them apart in one storage
+    const createUser = () => storage.createUser({ username: `user${++userCount}`, password: "hash" });
+
+    before(async () => {
+      ({ storage, close } = await open());
+    });
+
+    after(() => close());
+
+    test("creates, updates and deletes notes", async () => {
+      const user = await createUser();
+      const note = await storage.createNote(user.id, { title: "Draft", content: "<p>one</p>" });
+
+      assert.equal((await storage.getNote(user.id, note.id))?.title, "Draft");
+      const updated = await storage.updateNote(user.id, note.id, { title: "Final" });
+      assert.equal(updated?.title, "Final");
+      assert.equal(updated?.content, "<p>one</p>");
+      assert.ok(updated!.updatedAt >= note.updatedAt);
+    });
+
+    test("trashes and restores notes, keeping favorites", async () => {
+      const user = await createUser();
+      const note = await storage.createNote(user.id, { title: "Note" });
+
+      assert.equal((await storage.toggleFavorite(user.id, note.id))?.isFavorite, true);
+      assert.equal(await storage.deleteNote(user.id, note.id), true);
+      assert.deepEqual(await storage.getNotes(user.id), []);
+      assert.deepEqual(ids(await storage.getNotes(user.id, true)), [note.id]);
+
+      const restored = await storage.restoreNote(user.id, note.id);
+      assert.equal(restored?.isDeleted, false);
+      assert.equal(restored?.isFavorite, true);
+    });
+
+    test("tags notes", async () => {
+      const user = await createUser();
+      const tag = await storage.createTag(user.id, { name: "Reading", color: "#fff" });
+      const note = await storage.createNote(user.id, { title: "Book" });
+
+      await storage.addTagToNote(user.id, note.id, tag.id);
+      assert.deepEqual(ids(await storage.getTagsForNote(user.id, note.id)), [tag.id]);
+      assert.deepEqual(ids(await storage.getNotesByTag(user.id, tag.id)), [note.id]);
+      assert.deepEqual((await storage.getNoteWithTags(user.id, note.id))?.tags.map(t => t.name), ["Reading"]);
+
+      assert.equal((await storage.updateTag(user.id, tag.id, { name: "Books" }))?.name, "Books");
+      await storage.removeTagFromNote(user.id, note.id, tag.id);
+      assert.deepEqual(await storage.getTagsForNote(user.id, note.id), []);
+      assert.equal(await storage.deleteTag(user.id, tag.id), true);
+      assert.equal(await storage.getTag(user.id, tag.id), undefined);
+    });
+
+    test("creates users with the default tags", async () => {
+      const user = await createUser();
+      assert.equal((await storage.getUserByUsername(user.username))?.id, user.id);
+      assert.equal((await storage.getUser(user.id))?.username, user.username);
+      assert.deepEqual(
+        (await storage.getTags(user.id)).map(tag => tag.name).sort(),
+        ["Ideas", "Meeting", "Personal", "Planning", "Work"]
+      );
+    });
+
+    test("keeps notes to their owner", async () => {
+      const owner = await createUser();
+      const other = await createUser();
+      const note = await storage.createNote(owner.id, { title: "Mine", content: "<p>secret</p>" });
+
+      assert.equal(note.version, 1);
+      assert.equal(await storage.getNote(other.id, note.id), undefined);
+      assert.equal(await storage.updateNote(other.id, note.id, { title: "Theirs" }), undefined);
+      assert.equal(await storage.deleteNote(other.id, note.id), false);
+      assert.deepEqual(await storage.getNotes(other.id), []);
+      assert.deepEqual(ids(await storage.getNotes(owner.id)), [note.id]);
+    });
+
+    test("stores display names", async () => {
+      const user = await storage.createUser({ username: `user${++userCount}`, password: "hash", displayName: "Ada" });
+      assert.equal((await storage.getUser(user.id))?.displayName, "Ada");
+      assert.equal((await createUser()).displayName, null);
+    });
+
+    test("records revisions and restores them", async () => {
+      const user = await createUser();
+      const note = await storage.createNote(user.id, { title: "Note", content: "<p>a long first version</p>" });
+      // Dropping most of the content always starts a new revision
+      await storage.updateNote(user.id, note.id, { content: "<p>b</p>" });
+
+      const revisions = await storage.getNoteRevisions(user.id, note.id);
+      assert.deepEqual(revisions.map(revision => revision.content), ["<p>b</p>", "<p>a long first version</p>"]);
+
+      const first = revisions[1];
+      assert.equal((await storage.getNoteRevision(user.id, note.id, first.id))?.content, first.content);
+      const restored = await storage.restoreNoteRevision(user.id, note.id, first.id);
+      assert.equal(restored?.content, "<p>a long first version</p>");
+      assert.equal(restored?.version, 3);
+    });
+
+    test("rejects updates based on an older version", async () => {
+      const user = await createUser();
+      const note = await storage.createNote(user.id, { title: "Draft", content: "<p>one</p>" });
+
+      const updated = await storage.updateNote(user.id, note.id, { content: "<p>two</p>" }, 1);
+      assert.equal(updated?.version, 2);
+      await assert.rejects(
+        storage.updateNote(user.id, note.id, { content: "<p>stale</p>" }, 1),
+        (error: unknown) => error instanceof NoteVersionConflictError && error.current.content === "<p>two</p>"
+      );
+      assert.equal((await storage.getNote(user.id, note.id))?.content, "<p>two</p>");
+    });
+
+    test("reports changes since a point in time", async () => {
+      const user = await createUser();
+      const before = await storage.createNote(user.id, { title: "Before" });
+      const tag = await storage.createTag(user.id, { name: "gone", color: "#fff" });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const since = new Date();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const after = await storage.createNote(user.id, { title: "After" });
+      await storage.deleteTag(user.id, tag.id);
+
+      const changes = await storage.getChangesSince(user.id, since);
+      assert.deepEqual(ids(changes.notes), [after.id]);
+      assert.ok(changes.tombstones.some(tombstone => tombstone.entity === "tag" && tombstone.entityId === tag.id));
+
+      const everything = await storage.getChangesSince(user.id);
+      assert.deepEqual(ids(everything.notes), ids([before, after]));
+      assert.deepEqual(everything.tombstones, []);
+    });
+
+    test("keeps the original dates of imported notes", async () => {
+      const user = await createUser();
+      const note = await storage.createNote(user.id, { title: "Imported" }, {
+        createdAt: new Date("2024-01-31T15:45:00Z"),
+        updatedAt: new Date("2024-02-01T08:15:00Z"),
+      });
+
+      const stored = await storage.getNote(user.id, note.id);
+      assert.equal(stored?.createdAt.toISOString(), "2024-01-31T15:45:00.000Z");
+      assert.equal(stored?.importedUpdatedAt?.toISOString(), "2024-02-01T08:15:00.000Z");
+      assert.ok(stored!.updatedAt.getTime() > Date.parse("2024-02-01T08:15:00Z"));
+      assert.equal((await storage.createNote(user.id, { title: "New" })).importedUpdatedAt, null);
+    });
+
+    test("saves searches for their owner", async () => {
+      const user = await createUser();
+      const other = await createUser();
+      const search = await storage.createSavedSearch(user.id, { name: "Work", query: "tag:work" });
+
+      assert.equal(search.sort, "relevance");
+      assert.deepEqual(ids(await storage.getSavedSearches(user.id)), [search.id]);
+      assert.equal(await storage.getSavedSearch(other.id, search.id), undefined);
+
+      const updated = await storage.updateSavedSearch(user.id, search.id, { query: "tag:work OR tag:office", sort: "updated" });
+      assert.equal(updated?.query, "tag:work OR tag:office");
+      assert.equal(updated?.sort, "updated");
+      assert.equal(await storage.deleteSavedSearch(other.id, search.id), false);
+      assert.equal(await storage.deleteSavedSearch(user.id, search.id), true);
+      assert.deepEqual(await storage.getSavedSearches(user.id), []);
+    });
+
+    test("trashes notebooks with everything in them", async () => {
+      const user = await createUser();
+      const parent = await storage.createNotebook(user.id, { name: "Work" });
+      const child = await storage.createNotebook(user.id, { name: "Projects", parentId: parent.id });
+      const note = await storage.createNote(user.id, { title: "Plan", notebookId: child.id });
+
+      await assert.rejects(storage.moveNotebook(user.id, parent.id, child.id), HierarchyError);
+
+      assert.equal(await storage.deleteNotebook(user.id, parent.id), true);
+      assert.deepEqual(await storage.getNotebooks(user.id), []);
+      assert.equal((await storage.getNote(user.id, note.id))?.isDeleted, true);
+
+      await storage.restoreNotebook(user.id, parent.id);
+      assert.deepEqual(ids(await storage.getNotebooks(user.id)), ids([parent, child]));
+      assert.equal((await storage.getNote(user.id, note.id))?.isDeleted, false);
+    });
+
+    test("nests, merges and deletes tags", async () => {
+      const user = await createUser();
+      const project = await storage.createTag(user.id, { name: "project", color: "#fff" });
+      const alpha = await storage.createTag(user.id, { name: "alpha", color: "#fff", parentId: project.id });
+      const other = await storage.createTag(user.id, { name: "other", color: "#fff" });
+      const note = await storage.createNote(user.id, { title: "Tagged" });
+      await storage.addTagToNote(user.id, note.id, alpha.id);
+      // Adding a tag twice keeps one
+      await storage.addTagToNote(user.id, note.id, alpha.id);
+
+      assert.deepEqual(ids(await storage.getTagsForNote(user.id, note.id)), [alpha.id]);
+      assert.deepEqual(ids(await storage.getNotesByTag(user.id, project.id)), [note.id]);
+
+      await storage.mergeTags(user.id, alpha.id, other.id);
+      assert.equal(await storage.getTag(user.id, alpha.id), undefined);
+      assert.deepEqual(ids(await storage.getTagsForNote(user.id, note.id)), [other.id]);
+
+      const child = await storage.createTag(user.id, { name: "child", color: "#fff", parentId: other.id });
+      await storage.deleteTag(user.id, other.id);
+      assert.equal((await storage.getTag(user.id, child.id))?.parentId, null);
+      assert.deepEqual((await storage.getNoteWithTags(user.id, note.id))?.tags, []);
+    });
+
+    test("tracks backlinks from note content", async () => {
+      const user = await createUser();
+      const target = await storage.createNote(user.id, { title: "Target" });
+      const source = await storage.createNote(user.id, { title: "Source", content: `<p>See ${link(target)}</p>` });
+
+      assert.deepEqual(ids(await storage.getBacklinks(user.id, target.id)), [source.id]);
+      await storage.updateNote(user.id, source.id, { content: "<p>No more link</p>" });
+      assert.deepEqual(await storage.getBacklinks(user.id, target.id), []);
+    });
+
+    test("connects linked notes in the graph", async () => {
+      const user = await createUser();
+      const target = await storage.createNote(user.id, { title: "Target" });
+      const source = await storage.createNote(user.id, { title: "Source", content: `<p>See ${link(target)}</p>` });
+
+      const graph = await storage.getNoteGraph(user.id);
+      assert.deepEqual(
+        graph.edges.filter(edge => edge.type === "link").map(edge => [edge.source, edge.target].sort((a, b) => a - b)),
+        [[target.id, source.id]]
+      );
+    });
+
+    test("finds share links by token until they expire", async () => {
+      const user = await createUser();
+      const note = await storage.createNote(user.id, { title: "Public" });
+      const share = await storage.createShareLink(user.id, note.id, { token: `token${userCount}`, passwordHash: null, expiresAt: null });
+      const expired = await storage.createShareLink(user.id, note.id, {
+        token: `expired${userCount}`,
+        passwordHash: null,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      assert.equal((await storage.getShareLinkByToken(share.token))?.id, share.id);
+      assert.equal(await storage.getShareLinkByToken(expired.token), undefined);
+      assert.deepEqual(ids(await storage.getShareLinks(user.id, note.id)), [share.id]);
+
+      assert.equal(await storage.deleteShareLink(user.id, note.id, share.id), true);
+      assert.equal(await storage.getShareLinkByToken(share.token), undefined);
+    });
+
+    test("shares notes and changes the role of an existing share", async () => {
+      const owner = await createUser();
+      const reader = await createUser();
+      const note = await storage.createNote(owner.id, { title: "Shared" });
+
+      const share = await storage.saveNoteShare(owner.id, { noteId: note.id, notebookId: null, sharedWithId: reader.id, role: "viewer" });
+      const changed = await storage.saveNoteShare(owner.id, { noteId: note.id, notebookId: null, sharedWithId: reader.id, role: "editor" });
+      assert.equal(changed.id, share.id);
+      assert.deepEqual((await storage.getNoteSharesWith(reader.id)).map(s => s.role), ["editor"]);
+
+      assert.equal(await storage.deleteNoteShare(reader.id, share.id), false);
+      assert.equal(await storage.deleteNoteShare(owner.id, share.id), true);
+      assert.deepEqual(await storage.getNoteShares(owner.id), []);
+    });
+
+    test("keeps comments on a note in order", async () => {
+      const owner = await createUser();
+      const reader = await createUser();
+      const note = await storage.createNote(owner.id, { title: "Discussed" });
+
+      const first = await storage.createNoteComment(owner.id, note.id, { content: "First" });
+      const second = await storage.createNoteComment(reader.id, note.id, { content: "Second" });
+      assert.deepEqual((await storage.getNoteComments(note.id)).map(comment => comment.content), ["First", "Second"]);
+      assert.equal((await storage.getNoteComment(note.id, second.id))?.userId, reader.id);
+
+      assert.equal(await storage.deleteNoteComment(note.id + 1, first.id), false);
+      assert.equal(await storage.deleteNoteComment(note.id, first.id), true);
+      assert.deepEqual(ids(await storage.getNoteComments(note.id)), [second.id]);
+    });
+
+    test("saves collaborative documents as a new note version", async () => {
+      const user = await createUser();
+      const note = await storage.createNote(user.id, { title: "Live", content: "<p>old</p>" });
+
+      const saved = await storage.saveNoteDocument(user.id, note.id, "<p>new</p>", "c3RhdGU=", 1);
+      assert.equal(saved?.content, "<p>new</p>");
+      assert.equal(saved?.version, 2);
+      const document = await storage.getNoteDocument(user.id, note.id);
+      assert.equal(document?.state, "c3RhdGU=");
+      assert.equal(document?.noteVersion, 2);
+
+      // Saved in the meantime by someone outside the session
+      await storage.updateNote(user.id, note.id, { content: "<p>elsewhere</p>" });
+      await assert.rejects(
+        storage.saveNoteDocument(user.id, note.id, "<p>stale</p>", "c3RhbGU=", 2),
+        NoteVersionConflictError
+      );
+      assert.equal((await storage.getNote(user.id, note.id))?.content, "<p>elsewhere</p>");
+      assert.equal((await storage.getNoteDocument(user.id, note.id))?.state, "c3RhdGU=");
+    });
+  });
+}
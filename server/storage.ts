@@ -2,6 +2,9 @@ import {
   notes, 
   tags, 
   noteTags, 
+  notebooks,
+  type Notebook,
+  type InsertNotebook,
   type Note, 
   type InsertNote, 
   type Tag, 
@@ -9,42 +12,216 @@ import {
   type NoteTag, 
   type InsertNoteTag,
   type NoteWithTags,
+  noteRevisions,
+  type NoteRevision,
+  noteLinks,
+  type NoteLink,
+  type NoteGraph,
+  shareLinks,
+  type ShareLink,
+  type InsertShareLink,
+  noteShares,
+  type NoteShare,
+  type InsertNoteShare,
+  noteComments,
+  type NoteComment,
+  type InsertNoteComment,
+  noteDocuments,
+  type NoteDocument,
+  syncTombstones,
+  type SyncTombstone,
+  type SyncChanges,
+  savedSearches,
+  type SavedSearch,
+  type InsertSavedSearch,
   users, 
   type User, 
   type InsertUser
 } from "@shared/schema";
+import { and, desc, eq, gt, gte, inArray, isNull, notInArray, or, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, createPool, type Database } from "./db";
+import { subtreeIds } from "@shared/hierarchy";
+import { noteLinkTargets } from "@shared/noteLinks";
+import { buildNoteGraph } from "@shared/graph";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Thrown by updateNote when the caller edited an older version of the note
+export class NoteVersionConflictError extends Error {
+  constructor(public readonly current: Note) {
+    super(`Note ${current.id} has been updated to version ${current.version}`);
+    this.name = "NoteVersionConflictError";
+  }
+}
+
+// Thrown when a notebook or tag would end up in an invalid place in its tree
+export class HierarchyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HierarchyError";
+  }
+}
+
+// Checks that `parentId` can hold the item: it must exist, not be in the
+// trash, and not be the item itself or one nested below it. `id` is
+// undefined for an item that is still to be created.
+function checkParent<T extends { id: number; parentId: number | null; isDeleted?: boolean }>(
+  items: T[],
+  id: number | undefined,
+  parentId: number,
+  kind: "notebook" | "tag"
+) {
+  const parent = items.find(item => item.id === parentId);
+  if (!parent || parent.isDeleted) {
+    throw new HierarchyError(`Parent ${kind} not found`);
+  }
+  if (id !== undefined && subtreeIds(items, id).includes(parentId)) {
+    throw new HierarchyError(`A ${kind} cannot be moved into itself or one of its sub-${kind}s`);
+  }
+}
+
+// Saves that land within this window of the latest revision are folded into it,
+// so continuous typing does not produce a revision per autosave
+export const REVISION_COALESCE_MS = 10 * 60 * 1000;
+
+// Decides whether a save may overwrite the latest revision instead of adding one.
+// Saves that drop most of the content always get their own revision so that an
+// accidental wipe can be undone.
+function canCoalesceRevision(latest: NoteRevision | undefined, note: Note, now: Date): boolean {
+  if (!latest) return false;
+  if (now.getTime() - latest.createdAt.getTime() >= REVISION_COALESCE_MS) return false;
+  return note.content.length >= latest.content.length / 2;
+}
+
+// Tags every new user starts out with
+const DEFAULT_TAGS: InsertTag[] = [
+  { name: "Work", color: "#3B82F6" },
+  { name: "Personal", color: "#10B981" },
+  { name: "Ideas", color: "#8B5CF6" },
+  { name: "Meeting", color: "#8B5CF6" },
+  { name: "Planning", color: "#3B82F6" },
+];
+
+// Modify the interface with any CRUD methods.
+// Every note and tag method is scoped to the owning user: records that belong
+// to someone else behave exactly as if they did not exist.
+// Dates an imported note had in the app it came from
+export type ImportedNoteDates = {
+  createdAt?: Date;
+  updatedAt?: Date;
+};
 
-// Modify the interface with any CRUD methods
 export interface IStorage {
+  sessionStore: session.Store;
+  
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
   // Note methods
-  getNotes(includeDeleted?: boolean): Promise<Note[]>;
-  getNote(id: number): Promise<Note | undefined>;
-  createNote(note: InsertNote): Promise<Note>;
-  updateNote(id: number, note: Partial<InsertNote>): Promise<Note | undefined>;
-  deleteNote(id: number): Promise<boolean>;
-  restoreNote(id: number): Promise<Note | undefined>;
-  toggleFavorite(id: number): Promise<Note | undefined>;
+  getNotes(userId: number, includeDeleted?: boolean): Promise<Note[]>;
+  getNote(userId: number, id: number): Promise<Note | undefined>;
+  // `imported` keeps the original dates of an imported note
+  createNote(userId: number, note: InsertNote, imported?: ImportedNoteDates): Promise<Note>;
+  // Throws NoteVersionConflictError if expectedVersion is given and no longer current
+  updateNote(userId: number, id: number, note: Partial<InsertNote>, expectedVersion?: number): Promise<Note | undefined>;
+  deleteNote(userId: number, id: number): Promise<boolean>;
+  restoreNote(userId: number, id: number): Promise<Note | undefined>;
+  toggleFavorite(userId: number, id: number): Promise<Note | undefined>;
+  
+  // Notebook methods
+  getNotebooks(userId: number, includeDeleted?: boolean): Promise<Notebook[]>;
+  getNotebook(userId: number, id: number): Promise<Notebook | undefined>;
+  createNotebook(userId: number, notebook: InsertNotebook): Promise<Notebook>;
+  // Renames only; moves go through moveNotebook, which rejects cycles
+  updateNotebook(userId: number, id: number, notebook: Omit<Partial<InsertNotebook>, "parentId">): Promise<Notebook | undefined>;
+  // Throws HierarchyError if `parentId` cannot hold the notebook; null moves it to the top level
+  moveNotebook(userId: number, id: number, parentId: number | null): Promise<Notebook | undefined>;
+  // Moves the notebook, its sub-notebooks and all their notes to the trash
+  deleteNotebook(userId: number, id: number): Promise<boolean>;
+  // Brings back what was trashed together with the notebook
+  restoreNotebook(userId: number, id: number): Promise<Notebook | undefined>;
   
   // Tag methods
-  getTags(): Promise<Tag[]>;
-  getTag(id: number): Promise<Tag | undefined>;
-  createTag(tag: InsertTag): Promise<Tag>;
-  updateTag(id: number, tag: Partial<InsertTag>): Promise<Tag | undefined>;
-  deleteTag(id: number): Promise<boolean>;
+  getTags(userId: number): Promise<Tag[]>;
+  getTag(userId: number, id: number): Promise<Tag | undefined>;
+  // Both throw HierarchyError if `parentId` cannot hold the tag
+  createTag(userId: number, tag: InsertTag): Promise<Tag>;
+  updateTag(userId: number, id: number, tag: Partial<InsertTag>): Promise<Tag | undefined>;
+  // Sub-tags of a deleted tag move up to its parent
+  deleteTag(userId: number, id: number): Promise<boolean>;
+  // Moves every note and sub-tag of the source tag over to the target, then
+  // deletes the source. Throws HierarchyError if the target is nested in the source.
+  mergeTags(userId: number, sourceId: number, targetId: number): Promise<Tag | undefined>;
   
   // Note-Tag methods
-  getNoteWithTags(noteId: number): Promise<NoteWithTags | undefined>;
-  getNotesWithTags(includeDeleted?: boolean): Promise<NoteWithTags[]>;
-  getNotesByTag(tagId: number): Promise<Note[]>;
-  getTagsForNote(noteId: number): Promise<Tag[]>;
-  addTagToNote(noteId: number, tagId: number): Promise<void>;
-  removeTagFromNote(noteId: number, tagId: number): Promise<void>;
-  searchNotes(query: string): Promise<NoteWithTags[]>;
+  getNoteWithTags(userId: number, noteId: number): Promise<NoteWithTags | undefined>;
+  getNotesWithTags(userId: number, includeDeleted?: boolean): Promise<NoteWithTags[]>;
+  // Includes notes carrying one of the tag's sub-tags
+  getNotesByTag(userId: number, tagId: number): Promise<Note[]>;
+  getTagsForNote(userId: number, noteId: number): Promise<Tag[]>;
+  addTagToNote(userId: number, noteId: number, tagId: number): Promise<void>;
+  removeTagFromNote(userId: number, noteId: number, tagId: number): Promise<void>;
+  
+  // Revision methods (newest first)
+  getNoteRevisions(userId: number, noteId: number): Promise<NoteRevision[]>;
+  getNoteRevision(userId: number, noteId: number, revisionId: number): Promise<NoteRevision | undefined>;
+  restoreNoteRevision(userId: number, noteId: number, revisionId: number): Promise<Note | undefined>;
+  
+  // Note link methods
+  // Notes outside the trash with a [[link]] to the note, most recently edited first
+  getBacklinks(userId: number, noteId: number): Promise<Note[]>;
+  // Notes outside the trash, joined by their links and shared tags
+  getNoteGraph(userId: number): Promise<NoteGraph>;
+  
+  // Share link methods (only links that have not expired)
+  // Newest first
+  getShareLinks(userId: number, noteId: number): Promise<ShareLink[]>;
+  createShareLink(userId: number, noteId: number, share: InsertShareLink): Promise<ShareLink>;
+  deleteShareLink(userId: number, noteId: number, id: number): Promise<boolean>;
+  // For whoever opens the link, so not limited to a user
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  
+  // Collaborative editing methods
+  getNoteDocument(userId: number, noteId: number): Promise<NoteDocument | undefined>;
+  // Saves the content an editing session arrived at as a new version of the
+  // note, along with the document state it came from. Throws
+  // NoteVersionConflictError if the note is no longer at expectedVersion.
+  saveNoteDocument(userId: number, noteId: number, content: string, state: string, expectedVersion: number): Promise<Note | undefined>;
+  
+  // Collaboration methods (oldest first)
+  // Shares the user made of their notes and notebooks
+  getNoteShares(userId: number): Promise<NoteShare[]>;
+  // Shares other users made with the user
+  getNoteSharesWith(userId: number): Promise<NoteShare[]>;
+  // Creates the share, or changes the role of an existing one of the same
+  // note or notebook with the same user
+  saveNoteShare(userId: number, share: InsertNoteShare): Promise<NoteShare>;
+  deleteNoteShare(userId: number, id: number): Promise<boolean>;
+  
+  // Comment methods (oldest first)
+  // Comments come from everyone a note is shared with, so these are scoped
+  // to the note; callers check the user may see it
+  getNoteComments(noteId: number): Promise<NoteComment[]>;
+  getNoteComment(noteId: number, id: number): Promise<NoteComment | undefined>;
+  createNoteComment(userId: number, noteId: number, comment: InsertNoteComment): Promise<NoteComment>;
+  deleteNoteComment(noteId: number, id: number): Promise<boolean>;
+  
+  // Saved search methods (oldest first)
+  getSavedSearches(userId: number): Promise<SavedSearch[]>;
+  getSavedSearch(userId: number, id: number): Promise<SavedSearch | undefined>;
+  createSavedSearch(userId: number, savedSearch: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(userId: number, id: number, savedSearch: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(userId: number, id: number): Promise<boolean>;
+  
+  // Sync methods
+  // Everything created, updated or hard deleted after `since`, or all current data without it
+  getChangesSince(userId: number, since?: Date): Promise<SyncChanges>;
 }
 
 export class MemStorage implements IStorage {
@@ -52,85 +229,146 @@ export class MemStorage implements IStorage {
   private notes: Map<number, Note>;
   private tags: Map<number, Tag>;
   private noteTags: Map<number, NoteTag>;
+  private noteRevisions: Map<number, NoteRevision>;
+  private noteLinks: Map<number, NoteLink>;
+  private shareLinks: Map<number, ShareLink>;
+  private noteShares: Map<number, NoteShare>;
+  private noteComments: Map<number, NoteComment>;
+  private noteDocuments: Map<number, NoteDocument>;
+  private syncTombstones: Map<number, SyncTombstone>;
+  private savedSearches: Map<number, SavedSearch>;
+  private notebooks: Map<number, Notebook>;
   private userCurrentId: number;
   private noteCurrentId: number;
   private tagCurrentId: number;
   private noteTagCurrentId: number;
-
+  private noteRevisionCurrentId: number;
+  private noteLinkCurrentId: number;
+  private shareLinkCurrentId: number;
+  private noteShareCurrentId: number;
+  private noteCommentCurrentId: number;
+  private syncTombstoneCurrentId: number;
+  private savedSearchCurrentId: number;
+  private notebookCurrentId: number;
+  sessionStore: session.Store;
+  
   constructor() {
     this.users = new Map();
     this.notes = new Map();
     this.tags = new Map();
     this.noteTags = new Map();
+    this.noteRevisions = new Map();
+    this.noteLinks = new Map();
+    this.shareLinks = new Map();
+    this.noteShares = new Map();
+    this.noteComments = new Map();
+    this.noteDocuments = new Map();
+    this.syncTombstones = new Map();
+    this.savedSearches = new Map();
+    this.notebooks = new Map();
     
     this.userCurrentId = 1;
     this.noteCurrentId = 1;
     this.tagCurrentId = 1;
     this.noteTagCurrentId = 1;
+    this.noteRevisionCurrentId = 1;
+    this.noteLinkCurrentId = 1;
+    this.shareLinkCurrentId = 1;
+    this.noteShareCurrentId = 1;
+    this.noteCommentCurrentId = 1;
+    this.syncTombstoneCurrentId = 1;
+    this.savedSearchCurrentId = 1;
+    this.notebookCurrentId = 1;
     
-    // Initialize with some default tags
-    this.createTag({ name: "Work", color: "#3B82F6" });
-    this.createTag({ name: "Personal", color: "#10B981" });
-    this.createTag({ name: "Ideas", color: "#8B5CF6" });
-    this.createTag({ name: "Meeting", color: "#8B5CF6" });
-    this.createTag({ name: "Planning", color: "#3B82F6" });
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions every 24h
+    });
   }
-
+  
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
   }
-
+  
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
       (user) => user.username === username,
     );
   }
-
+  
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userCurrentId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { displayName: null, ...insertUser, id };
     this.users.set(id, user);
+    
+    // Initialize the new user with some default tags
+    for (const tag of DEFAULT_TAGS) {
+      await this.createTag(id, tag);
+    }
+    
     return user;
   }
   
   // Note methods
-  async getNotes(includeDeleted: boolean = false): Promise<Note[]> {
-    return Array.from(this.notes.values()).filter(note => includeDeleted || !note.isDeleted);
+  async getNotes(userId: number, includeDeleted: boolean = false): Promise<Note[]> {
+    return Array.from(this.notes.values())
+      .filter(note => note.userId === userId && (includeDeleted || !note.isDeleted));
   }
   
-  async getNote(id: number): Promise<Note | undefined> {
-    return this.notes.get(id);
+  async getNote(userId: number, id: number): Promise<Note | undefined> {
+    const note = this.notes.get(id);
+    return note && note.userId === userId ? note : undefined;
   }
   
-  async createNote(insertNote: InsertNote): Promise<Note> {
+  async createNote(userId: number, insertNote: InsertNote, imported: ImportedNoteDates = {}): Promise<Note> {
     const id = this.noteCurrentId++;
     const now = new Date();
     const note: Note = { 
+      title: "Untitled",
+      content: "",
+      isFavorite: false,
+      isDeleted: false, 
+      notebookId: null,
       ...insertNote, 
       id, 
-      createdAt: now, 
-      updatedAt: now 
+      userId,
+      createdAt: imported.createdAt ?? now, 
+      updatedAt: now,
+      version: 1,
+      importedUpdatedAt: imported.updatedAt ?? null
     };
     this.notes.set(id, note);
+    this.recordRevision(note);
+    this.updateNoteLinks(note);
     return note;
   }
   
-  async updateNote(id: number, noteUpdate: Partial<InsertNote>): Promise<Note | undefined> {
-    const note = this.notes.get(id);
+  async updateNote(userId: number, id: number, noteUpdate: Partial<InsertNote>, expectedVersion?: number): Promise<Note | undefined> {
+    const note = await this.getNote(userId, id);
     if (!note) return undefined;
+    if (expectedVersion !== undefined && note.version !== expectedVersion) {
+      throw new NoteVersionConflictError(note);
+    }
     
     const updatedNote = { 
       ...note, 
       ...noteUpdate, 
-      updatedAt: new Date() 
+      updatedAt: new Date(),
+      version: note.version + 1
     };
     this.notes.set(id, updatedNote);
+    
+    if (updatedNote.title !== note.title || updatedNote.content !== note.content) {
+      this.recordRevision(updatedNote);
+    }
+    if (updatedNote.content !== note.content) {
+      this.updateNoteLinks(updatedNote);
+    }
     return updatedNote;
   }
   
-  async deleteNote(id: number): Promise<boolean> {
-    const note = this.notes.get(id);
+  async deleteNote(userId: number, id: number): Promise<boolean> {
+    const note = await this.getNote(userId, id);
     if (!note) return false;
     
     const updatedNote = { 
@@ -142,21 +380,25 @@ export class MemStorage implements IStorage {
     return true;
   }
   
-  async restoreNote(id: number): Promise<Note | undefined> {
-    const note = this.notes.get(id);
+  async restoreNote(userId: number, id: number): Promise<Note | undefined> {
+    const note = await this.getNote(userId, id);
     if (!note) return undefined;
     
+    // A note whose notebook is still in the trash comes back outside of it
+    const notebook = note.notebookId !== null ? await this.getNotebook(userId, note.notebookId) : undefined;
+    
     const updatedNote = { 
       ...note, 
       isDeleted: false, 
+      notebookId: notebook && !notebook.isDeleted ? notebook.id : null,
       updatedAt: new Date() 
     };
     this.notes.set(id, updatedNote);
     return updatedNote;
   }
   
-  async toggleFavorite(id: number): Promise<Note | undefined> {
-    const note = this.notes.get(id);
+  async toggleFavorite(userId: number, id: number): Promise<Note | undefined> {
+    const note = await this.getNote(userId, id);
     if (!note) return undefined;
     
     const updatedNote = { 
@@ -168,125 +410,1298 @@ export class MemStorage implements IStorage {
     return updatedNote;
   }
   
+  // Notebook methods
+  async getNotebooks(userId: number, includeDeleted: boolean = false): Promise<Notebook[]> {
+    return Array.from(this.notebooks.values())
+      .filter(notebook => notebook.userId === userId && (includeDeleted || !notebook.isDeleted));
+  }
+  
+  async getNotebook(userId: number, id: number): Promise<Notebook | undefined> {
+    const notebook = this.notebooks.get(id);
+    return notebook && notebook.userId === userId ? notebook : undefined;
+  }
+  
+  async createNotebook(userId: number, insertNotebook: InsertNotebook): Promise<Notebook> {
+    const id = this.notebookCurrentId++;
+    const now = new Date();
+    const notebook: Notebook = {
+      parentId: null,
+      ...insertNotebook,
+      id,
+      userId,
+      isDeleted: false,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.notebooks.set(id, notebook);
+    return notebook;
+  }
+  
+  async updateNotebook(userId: number, id: number, notebookUpdate: Omit<Partial<InsertNotebook>, "parentId">): Promise<Notebook | undefined> {
+    const notebook = await this.getNotebook(userId, id);
+    if (!notebook) return undefined;
+    
+    const updatedNotebook = { ...notebook, ...notebookUpdate, updatedAt: new Date() };
+    this.notebooks.set(id, updatedNotebook);
+    return updatedNotebook;
+  }
+  
+  async moveNotebook(userId: number, id: number, parentId: number | null): Promise<Notebook | undefined> {
+    const notebook = await this.getNotebook(userId, id);
+    if (!notebook) return undefined;
+    if (parentId !== null) {
+      checkParent(await this.getNotebooks(userId, true), id, parentId, "notebook");
+    }
+    
+    const updatedNotebook = { ...notebook, parentId, updatedAt: new Date() };
+    this.notebooks.set(id, updatedNotebook);
+    return updatedNotebook;
+  }
+  
+  async deleteNotebook(userId: number, id: number): Promise<boolean> {
+    const notebook = await this.getNotebook(userId, id);
+    if (!notebook) return false;
+    
+    // Everything trashed here shares one timestamp, which is how restoreNotebook
+    // tells it apart from things that were already in the trash
+    const now = new Date();
+    const ids = new Set(subtreeIds(await this.getNotebooks(userId, true), id));
+    this.notebooks.forEach((other, otherId) => {
+      if (ids.has(otherId) && !other.isDeleted) {
+        this.notebooks.set(otherId, { ...other, isDeleted: true, updatedAt: now });
+      }
+    });
+    this.notes.forEach((note, noteId) => {
+      if (note.userId === userId && note.notebookId !== null && ids.has(note.notebookId) && !note.isDeleted) {
+        this.notes.set(noteId, { ...note, isDeleted: true, updatedAt: now });
+      }
+    });
+    return true;
+  }
+  
+  async restoreNotebook(userId: number, id: number): Promise<Notebook | undefined> {
+    const notebook = await this.getNotebook(userId, id);
+    if (!notebook) return undefined;
+    if (!notebook.isDeleted) return notebook;
+    
+    const allNotebooks = await this.getNotebooks(userId, true);
+    const deletedAt = notebook.updatedAt.getTime();
+    const ids = new Set(subtreeIds(allNotebooks, id, other => other.isDeleted && other.updatedAt.getTime() >= deletedAt));
+    // A notebook whose parent is still in the trash comes back at the top level
+    const parent = allNotebooks.find(other => other.id === notebook.parentId);
+    
+    const now = new Date();
+    this.notebooks.forEach((other, otherId) => {
+      if (ids.has(otherId)) {
+        this.notebooks.set(otherId, { ...other, isDeleted: false, updatedAt: now });
+      }
+    });
+    this.notebooks.set(id, { ...this.notebooks.get(id)!, parentId: parent && !parent.isDeleted ? parent.id : null });
+    this.notes.forEach((note, noteId) => {
+      if (note.userId === userId && note.notebookId !== null && ids.has(note.notebookId) &&
+          note.isDeleted && note.updatedAt.getTime() >= deletedAt) {
+        this.notes.set(noteId, { ...note, isDeleted: false, updatedAt: now });
+      }
+    });
+    return this.notebooks.get(id);
+  }
+  
   // Tag methods
-  async getTags(): Promise<Tag[]> {
-    return Array.from(this.tags.values());
+  async getTags(userId: number): Promise<Tag[]> {
+    return Array.from(this.tags.values()).filter(tag => tag.userId === userId);
   }
   
-  async getTag(id: number): Promise<Tag | undefined> {
-    return this.tags.get(id);
+  async getTag(userId: number, id: number): Promise<Tag | undefined> {
+    const tag = this.tags.get(id);
+    return tag && tag.userId === userId ? tag : undefined;
   }
   
-  async createTag(insertTag: InsertTag): Promise<Tag> {
+  async createTag(userId: number, insertTag: InsertTag): Promise<Tag> {
+    if (insertTag.parentId != null) {
+      checkParent(await this.getTags(userId), undefined, insertTag.parentId, "tag");
+    }
+    
     const id = this.tagCurrentId++;
-    const tag: Tag = { ...insertTag, id };
+    const tag: Tag = { color: "#8B5CF6", parentId: null, ...insertTag, id, userId, updatedAt: new Date() };
     this.tags.set(id, tag);
     return tag;
   }
   
-  async updateTag(id: number, tagUpdate: Partial<InsertTag>): Promise<Tag | undefined> {
-    const tag = this.tags.get(id);
+  async updateTag(userId: number, id: number, tagUpdate: Partial<InsertTag>): Promise<Tag | undefined> {
+    const tag = await this.getTag(userId, id);
     if (!tag) return undefined;
+    if (tagUpdate.parentId != null) {
+      checkParent(await this.getTags(userId), id, tagUpdate.parentId, "tag");
+    }
     
-    const updatedTag = { ...tag, ...tagUpdate };
+    const updatedTag = { ...tag, ...tagUpdate, updatedAt: new Date() };
     this.tags.set(id, updatedTag);
     return updatedTag;
   }
   
-  async deleteTag(id: number): Promise<boolean> {
+  async deleteTag(userId: number, id: number): Promise<boolean> {
+    const tag = await this.getTag(userId, id);
+    if (!tag) return false;
+    
+    this.reparentTags(userId, id, tag.parentId);
+    
     // First remove all relationships
     const noteTagsToRemove = Array.from(this.noteTags.values())
       .filter(noteTag => noteTag.tagId === id);
-      
+    
     for (const noteTag of noteTagsToRemove) {
       this.noteTags.delete(noteTag.id);
     }
     
+    // Clients drop the tag's links along with the tag itself
+    this.recordTombstone(userId, { entity: "tag", entityId: id });
     return this.tags.delete(id);
   }
   
+  async mergeTags(userId: number, sourceId: number, targetId: number): Promise<Tag | undefined> {
+    const source = await this.getTag(userId, sourceId);
+    const target = await this.getTag(userId, targetId);
+    if (!source || !target) return undefined;
+    if (subtreeIds(await this.getTags(userId), sourceId).includes(targetId)) {
+      throw new HierarchyError("A tag cannot be merged into itself or one of its sub-tags");
+    }
+    
+    // Links are re-pointed with a fresh createdAt so that syncs pick them up
+    const now = new Date();
+    const taggedNoteIds = new Set(Array.from(this.noteTags.values())
+      .filter(noteTag => noteTag.tagId === targetId)
+      .map(noteTag => noteTag.noteId));
+    this.noteTags.forEach((noteTag, id) => {
+      if (noteTag.tagId !== sourceId || taggedNoteIds.has(noteTag.noteId)) return;
+      this.noteTags.set(id, { ...noteTag, tagId: targetId, createdAt: now });
+      taggedNoteIds.add(noteTag.noteId);
+    });
+    
+    this.reparentTags(userId, sourceId, targetId);
+    await this.deleteTag(userId, sourceId);
+    return this.tags.get(targetId);
+  }
+  
   // Note-Tag methods
-  async getNoteWithTags(noteId: number): Promise<NoteWithTags | undefined> {
-    const note = this.notes.get(noteId);
+  async getNoteWithTags(userId: number, noteId: number): Promise<NoteWithTags | undefined> {
+    const note = await this.getNote(userId, noteId);
     if (!note) return undefined;
     
-    const tags = await this.getTagsForNote(noteId);
+    const tags = await this.getTagsForNote(userId, noteId);
     return { ...note, tags };
   }
   
-  async getNotesWithTags(includeDeleted: boolean = false): Promise<NoteWithTags[]> {
-    const notes = await this.getNotes(includeDeleted);
+  async getNotesWithTags(userId: number, includeDeleted: boolean = false): Promise<NoteWithTags[]> {
+    const notes = await this.getNotes(userId, includeDeleted);
     const notesWithTags: NoteWithTags[] = [];
     
     for (const note of notes) {
-      const tags = await this.getTagsForNote(note.id);
+      const tags = await this.getTagsForNote(userId, note.id);
       notesWithTags.push({ ...note, tags });
     }
     
     return notesWithTags;
   }
   
-  async getNotesByTag(tagId: number): Promise<Note[]> {
+  async getNotesByTag(userId: number, tagId: number): Promise<Note[]> {
+    const tagIds = subtreeIds(await this.getTags(userId), tagId);
     const noteIds = Array.from(this.noteTags.values())
-      .filter(noteTag => noteTag.tagId === tagId)
+      .filter(noteTag => noteTag.userId === userId && tagIds.includes(noteTag.tagId))
       .map(noteTag => noteTag.noteId);
-      
+    
     return Array.from(this.notes.values())
-      .filter(note => noteIds.includes(note.id) && !note.isDeleted);
+      .filter(note => note.userId === userId && noteIds.includes(note.id) && !note.isDeleted);
   }
   
-  async getTagsForNote(noteId: number): Promise<Tag[]> {
+  async getTagsForNote(userId: number, noteId: number): Promise<Tag[]> {
     const tagIds = Array.from(this.noteTags.values())
-      .filter(noteTag => noteTag.noteId === noteId)
+      .filter(noteTag => noteTag.userId === userId && noteTag.noteId === noteId)
       .map(noteTag => noteTag.tagId);
-      
+    
     return Array.from(this.tags.values())
-      .filter(tag => tagIds.includes(tag.id));
+      .filter(tag => tag.userId === userId && tagIds.includes(tag.id));
   }
   
-  async addTagToNote(noteId: number, tagId: number): Promise<void> {
+  async addTagToNote(userId: number, noteId: number, tagId: number): Promise<void> {
     // First check if the relationship already exists
     const exists = Array.from(this.noteTags.values())
       .some(noteTag => noteTag.noteId === noteId && noteTag.tagId === tagId);
-      
+    
     if (exists) return;
     
     const id = this.noteTagCurrentId++;
-    const noteTag: NoteTag = { id, noteId, tagId };
+    const noteTag: NoteTag = { id, userId, noteId, tagId, createdAt: new Date() };
     this.noteTags.set(id, noteTag);
   }
   
-  async removeTagFromNote(noteId: number, tagId: number): Promise<void> {
+  async removeTagFromNote(userId: number, noteId: number, tagId: number): Promise<void> {
     const noteTagToRemove = Array.from(this.noteTags.values())
-      .find(noteTag => noteTag.noteId === noteId && noteTag.tagId === tagId);
-      
+      .find(noteTag =>
+        noteTag.userId === userId && noteTag.noteId === noteId && noteTag.tagId === tagId
+      );
+    
     if (noteTagToRemove) {
       this.noteTags.delete(noteTagToRemove.id);
+      this.recordTombstone(userId, { entity: "noteTag", noteId, tagId });
     }
   }
   
-  async searchNotes(query: string): Promise<NoteWithTags[]> {
-    if (!query.trim()) {
-      return this.getNotesWithTags();
+  // Revision methods
+  async getNoteRevisions(userId: number, noteId: number): Promise<NoteRevision[]> {
+    return Array.from(this.noteRevisions.values())
+      .filter(revision => revision.userId === userId && revision.noteId === noteId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getNoteRevision(userId: number, noteId: number, revisionId: number): Promise<NoteRevision | undefined> {
+    const revision = this.noteRevisions.get(revisionId);
+    if (!revision || revision.userId !== userId || revision.noteId !== noteId) return undefined;
+    return revision;
+  }
+  
+  async restoreNoteRevision(userId: number, noteId: number, revisionId: number): Promise<Note | undefined> {
+    const note = await this.getNote(userId, noteId);
+    const revision = await this.getNoteRevision(userId, noteId, revisionId);
+    if (!note || !revision) return undefined;
+    
+    const restoredNote = {
+      ...note,
+      title: revision.title,
+      content: revision.content,
+      updatedAt: new Date(),
+      version: note.version + 1
+    };
+    this.notes.set(noteId, restoredNote);
+    
+    // A restore always gets its own revision so it can be undone in turn
+    this.recordRevision(restoredNote, false);
+    this.updateNoteLinks(restoredNote);
+    return restoredNote;
+  }
+  
+  // Note link methods
+  async getBacklinks(userId: number, noteId: number): Promise<Note[]> {
+    const sourceIds = new Set(Array.from(this.noteLinks.values())
+      .filter(link => link.userId === userId && link.targetNoteId === noteId)
+      .map(link => link.sourceNoteId));
+    return Array.from(sourceIds)
+      .map(id => this.notes.get(id))
+      .filter((note): note is Note => note !== undefined && !note.isDeleted)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+  
+  async getNoteGraph(userId: number): Promise<NoteGraph> {
+    return buildNoteGraph(
+      Array.from(this.notes.values()).filter(note => note.userId === userId && !note.isDeleted),
+      Array.from(this.noteTags.values()).filter(noteTag => noteTag.userId === userId),
+      Array.from(this.noteLinks.values()).filter(link => link.userId === userId)
+    );
+  }
+  
+  // Share link methods
+  private isActiveShareLink(share: ShareLink): boolean {
+    return share.expiresAt === null || share.expiresAt > new Date();
+  }
+  
+  async getShareLinks(userId: number, noteId: number): Promise<ShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter(share => share.userId === userId && share.noteId === noteId && this.isActiveShareLink(share))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async createShareLink(userId: number, noteId: number, insertShareLink: InsertShareLink): Promise<ShareLink> {
+    const id = this.shareLinkCurrentId++;
+    const share: ShareLink = { ...insertShareLink, id, userId, noteId, createdAt: new Date() };
+    this.shareLinks.set(id, share);
+    return share;
+  }
+  
+  async deleteShareLink(userId: number, noteId: number, id: number): Promise<boolean> {
+    const share = this.shareLinks.get(id);
+    if (!share || share.userId !== userId || share.noteId !== noteId) return false;
+    return this.shareLinks.delete(id);
+  }
+  
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    return Array.from(this.shareLinks.values())
+      .find(share => share.token === token && this.isActiveShareLink(share));
+  }
+  
+  // Collaborative editing methods
+  async getNoteDocument(userId: number, noteId: number): Promise<NoteDocument | undefined> {
+    const document = this.noteDocuments.get(noteId);
+    return document?.userId === userId ? document : undefined;
+  }
+  
+  async saveNoteDocument(userId: number, noteId: number, content: string, state: string, expectedVersion: number): Promise<Note | undefined> {
+    const note = await this.updateNote(userId, noteId, { content }, expectedVersion);
+    if (!note) return undefined;
+    
+    this.noteDocuments.set(noteId, { noteId, userId, state, noteVersion: note.version, updatedAt: new Date() });
+    return note;
+  }
+  
+  // Collaboration methods
+  async getNoteShares(userId: number): Promise<NoteShare[]> {
+    return Array.from(this.noteShares.values())
+      .filter(share => share.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getNoteSharesWith(userId: number): Promise<NoteShare[]> {
+    return Array.from(this.noteShares.values())
+      .filter(share => share.sharedWithId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async saveNoteShare(userId: number, insertShare: InsertNoteShare): Promise<NoteShare> {
+    const existing = Array.from(this.noteShares.values()).find(share =>
+      share.userId === userId &&
+      share.sharedWithId === insertShare.sharedWithId &&
+      share.noteId === insertShare.noteId &&
+      share.notebookId === insertShare.notebookId
+    );
+    if (existing) {
+      const updatedShare = { ...existing, role: insertShare.role };
+      this.noteShares.set(existing.id, updatedShare);
+      return updatedShare;
     }
     
-    const lowercaseQuery = query.toLowerCase();
-    const matchingNotes = Array.from(this.notes.values())
-      .filter(note => 
-        (note.title.toLowerCase().includes(lowercaseQuery) || 
-        note.content.toLowerCase().includes(lowercaseQuery)) && 
-        !note.isDeleted
-      );
-      
-    const notesWithTags: NoteWithTags[] = [];
+    const id = this.noteShareCurrentId++;
+    const share: NoteShare = { ...insertShare, id, userId, createdAt: new Date() };
+    this.noteShares.set(id, share);
+    return share;
+  }
+  
+  async deleteNoteShare(userId: number, id: number): Promise<boolean> {
+    const share = this.noteShares.get(id);
+    if (!share || share.userId !== userId) return false;
+    return this.noteShares.delete(id);
+  }
+  
+  // Comment methods
+  async getNoteComments(noteId: number): Promise<NoteComment[]> {
+    return Array.from(this.noteComments.values())
+      .filter(comment => comment.noteId === noteId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getNoteComment(noteId: number, id: number): Promise<NoteComment | undefined> {
+    const comment = this.noteComments.get(id);
+    return comment?.noteId === noteId ? comment : undefined;
+  }
+  
+  async createNoteComment(userId: number, noteId: number, insertComment: InsertNoteComment): Promise<NoteComment> {
+    const id = this.noteCommentCurrentId++;
+    const comment: NoteComment = { ...insertComment, id, noteId, userId, createdAt: new Date() };
+    this.noteComments.set(id, comment);
+    return comment;
+  }
+  
+  async deleteNoteComment(noteId: number, id: number): Promise<boolean> {
+    if (!await this.getNoteComment(noteId, id)) return false;
+    return this.noteComments.delete(id);
+  }
+  
+  // Saved search methods
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(savedSearch => savedSearch.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getSavedSearch(userId: number, id: number): Promise<SavedSearch | undefined> {
+    const savedSearch = this.savedSearches.get(id);
+    return savedSearch && savedSearch.userId === userId ? savedSearch : undefined;
+  }
+  
+  async createSavedSearch(userId: number, insertSavedSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const id = this.savedSearchCurrentId++;
+    const now = new Date();
+    const savedSearch: SavedSearch = {
+      sort: "relevance",
+      ...insertSavedSearch,
+      id,
+      userId,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.savedSearches.set(id, savedSearch);
+    return savedSearch;
+  }
+  
+  async updateSavedSearch(userId: number, id: number, savedSearchUpdate: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined> {
+    const savedSearch = await this.getSavedSearch(userId, id);
+    if (!savedSearch) return undefined;
     
-    for (const note of matchingNotes) {
-      const tags = await this.getTagsForNote(note.id);
-      notesWithTags.push({ ...note, tags });
+    const updatedSavedSearch = { ...savedSearch, ...savedSearchUpdate, updatedAt: new Date() };
+    this.savedSearches.set(id, updatedSavedSearch);
+    return updatedSavedSearch;
+  }
+  
+  async deleteSavedSearch(userId: number, id: number): Promise<boolean> {
+    const savedSearch = await this.getSavedSearch(userId, id);
+    if (!savedSearch) return false;
+    return this.savedSearches.delete(id);
+  }
+  
+  // Sync methods
+  async getChangesSince(userId: number, since?: Date): Promise<SyncChanges> {
+    const isChanged = (date: Date) => !since || date > since;
+    
+    return {
+      notes: Array.from(this.notes.values())
+        .filter(note => note.userId === userId && isChanged(note.updatedAt)),
+      tags: Array.from(this.tags.values())
+        .filter(tag => tag.userId === userId && isChanged(tag.updatedAt)),
+      noteTags: Array.from(this.noteTags.values())
+        .filter(noteTag => noteTag.userId === userId && isChanged(noteTag.createdAt)),
+      tombstones: since
+        ? Array.from(this.syncTombstones.values())
+            .filter(tombstone => tombstone.userId === userId && tombstone.deletedAt > since)
+        : []
+    };
+  }
+  
+  private reparentTags(userId: number, fromId: number, toId: number | null) {
+    const now = new Date();
+    this.tags.forEach((tag, id) => {
+      if (tag.userId === userId && tag.parentId === fromId) {
+        this.tags.set(id, { ...tag, parentId: toId, updatedAt: now });
+      }
+    });
+  }
+  
+  private recordTombstone(userId: number, tombstone: Pick<SyncTombstone, "entity"> & Partial<SyncTombstone>) {
+    const id = this.syncTombstoneCurrentId++;
+    this.syncTombstones.set(id, {
+      entityId: null,
+      noteId: null,
+      tagId: null,
+      ...tombstone,
+      id,
+      userId,
+      deletedAt: new Date()
+    });
+  }
+  
+  // Rebuilds the links going out of a note from its content
+  private updateNoteLinks(note: Note) {
+    this.noteLinks.forEach((link, id) => {
+      if (link.sourceNoteId === note.id) this.noteLinks.delete(id);
+    });
+    for (const targetNoteId of noteLinkTargets(note.content)) {
+      if (targetNoteId === note.id) continue;
+      const id = this.noteLinkCurrentId++;
+      this.noteLinks.set(id, { id, userId: note.userId, sourceNoteId: note.id, targetNoteId });
+    }
+  }
+  
+  private recordRevision(note: Note, coalesce: boolean = true) {
+    const [latest] = Array.from(this.noteRevisions.values())
+      .filter(revision => revision.noteId === note.id)
+      .sort((a, b) => b.id - a.id);
+    const now = new Date();
+    
+    if (coalesce && canCoalesceRevision(latest, note, now)) {
+      this.noteRevisions.set(latest.id, {
+        ...latest,
+        title: note.title,
+        content: note.content,
+        updatedAt: now
+      });
+      return;
     }
     
-    return notesWithTags;
+    const id = this.noteRevisionCurrentId++;
+    this.noteRevisions.set(id, {
+      id,
+      userId: note.userId,
+      noteId: note.id,
+      title: note.title,
+      content: note.content,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database, public sessionStore: session.Store) {}
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return this.db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values(insertUser).returning();
+
+      // Initialize the new user with some default tags
+      await tx.insert(tags).values(DEFAULT_TAGS.map(tag => ({ ...tag, userId: user.id })));
+      return user;
+    });
+  }
+
+  // Note methods
+  async getNotes(userId: number, includeDeleted: boolean = false): Promise<Note[]> {
+    return this.db
+      .select()
+      .from(notes)
+      .where(and(
+        eq(notes.userId, userId),
+        includeDeleted ? undefined : eq(notes.isDeleted, false)
+      ));
+  }
+
+  async getNote(userId: number, id: number): Promise<Note | undefined> {
+    const [note] = await this.db
+      .select()
+      .from(notes)
+      .where(and(eq(notes.id, id), eq(notes.userId, userId)));
+    return note;
+  }
+
+  async createNote(userId: number, insertNote: InsertNote, imported: ImportedNoteDates = {}): Promise<Note> {
+    return this.db.transaction(async (tx) => {
+      const [note] = await tx
+        .insert(notes)
+        .values({
+          ...insertNote,
+          userId,
+          ...(imported.createdAt && { createdAt: imported.createdAt }),
+          importedUpdatedAt: imported.updatedAt ?? null,
+        })
+        .returning();
+      await this.recordRevision(tx, note);
+      await this.updateNoteLinks(tx, note);
+      return note;
+    });
+  }
+
+  async updateNote(userId: number, id: number, noteUpdate: Partial<InsertNote>, expectedVersion?: number): Promise<Note | undefined> {
+    return this.db.transaction(async (tx) => {
+      // The version check is part of the update itself so concurrent writers cannot both pass it
+      const [note] = await tx
+        .update(notes)
+        .set({ ...noteUpdate, updatedAt: new Date(), version: sql`${notes.version} + 1` })
+        .where(and(
+          eq(notes.id, id),
+          eq(notes.userId, userId),
+          expectedVersion !== undefined ? eq(notes.version, expectedVersion) : undefined
+        ))
+        .returning();
+
+      if (!note && expectedVersion !== undefined) {
+        const [current] = await tx
+          .select()
+          .from(notes)
+          .where(and(eq(notes.id, id), eq(notes.userId, userId)));
+        if (current) throw new NoteVersionConflictError(current);
+      }
+
+      if (note && (noteUpdate.title !== undefined || noteUpdate.content !== undefined)) {
+        await this.recordRevision(tx, note);
+      }
+      if (note && noteUpdate.content !== undefined) {
+        await this.updateNoteLinks(tx, note);
+      }
+      return note;
+    });
+  }
+
+  async deleteNote(userId: number, id: number): Promise<boolean> {
+    const [note] = await this.db
+      .update(notes)
+      .set({ isDeleted: true, updatedAt: new Date() })
+      .where(and(eq(notes.id, id), eq(notes.userId, userId)))
+      .returning();
+    return !!note;
+  }
+
+  async restoreNote(userId: number, id: number): Promise<Note | undefined> {
+    const note = await this.getNote(userId, id);
+    if (!note) return undefined;
+
+    // A note whose notebook is still in the trash comes back outside of it
+    const notebook = note.notebookId !== null ? await this.getNotebook(userId, note.notebookId) : undefined;
+
+    const [restoredNote] = await this.db
+      .update(notes)
+      .set({
+        isDeleted: false,
+        notebookId: notebook && !notebook.isDeleted ? notebook.id : null,
+        updatedAt: new Date()
+      })
+      .where(and(eq(notes.id, id), eq(notes.userId, userId)))
+      .returning();
+    return restoredNote;
+  }
+
+  async toggleFavorite(userId: number, id: number): Promise<Note | undefined> {
+    const note = await this.getNote(userId, id);
+    if (!note) return undefined;
+
+    const [updatedNote] = await this.db
+      .update(notes)
+      .set({ isFavorite: !note.isFavorite, updatedAt: new Date() })
+      .where(and(eq(notes.id, id), eq(notes.userId, userId)))
+      .returning();
+    return updatedNote;
+  }
+
+  // Notebook methods
+  async getNotebooks(userId: number, includeDeleted: boolean = false): Promise<Notebook[]> {
+    return this.db
+      .select()
+      .from(notebooks)
+      .where(and(
+        eq(notebooks.userId, userId),
+        includeDeleted ? undefined : eq(notebooks.isDeleted, false)
+      ));
+  }
+
+  async getNotebook(userId: number, id: number): Promise<Notebook | undefined> {
+    const [notebook] = await this.db
+      .select()
+      .from(notebooks)
+      .where(and(eq(notebooks.id, id), eq(notebooks.userId, userId)));
+    return notebook;
+  }
+
+  async createNotebook(userId: number, insertNotebook: InsertNotebook): Promise<Notebook> {
+    const [notebook] = await this.db
+      .insert(notebooks)
+      .values({ ...insertNotebook, userId })
+      .returning();
+    return notebook;
+  }
+
+  async updateNotebook(userId: number, id: number, notebookUpdate: Omit<Partial<InsertNotebook>, "parentId">): Promise<Notebook | undefined> {
+    const [notebook] = await this.db
+      .update(notebooks)
+      .set({ ...notebookUpdate, updatedAt: new Date() })
+      .where(and(eq(notebooks.id, id), eq(notebooks.userId, userId)))
+      .returning();
+    return notebook;
+  }
+
+  async moveNotebook(userId: number, id: number, parentId: number | null): Promise<Notebook | undefined> {
+    if (!await this.getNotebook(userId, id)) return undefined;
+    if (parentId !== null) {
+      checkParent(await this.getNotebooks(userId, true), id, parentId, "notebook");
+    }
+
+    const [notebook] = await this.db
+      .update(notebooks)
+      .set({ parentId, updatedAt: new Date() })
+      .where(and(eq(notebooks.id, id), eq(notebooks.userId, userId)))
+      .returning();
+    return notebook;
+  }
+
+  async deleteNotebook(userId: number, id: number): Promise<boolean> {
+    if (!await this.getNotebook(userId, id)) return false;
+
+    return this.db.transaction(async (tx) => {
+      const allNotebooks = await tx.select().from(notebooks).where(eq(notebooks.userId, userId));
+      const ids = subtreeIds(allNotebooks, id);
+
+      // Everything trashed here shares one timestamp, which is how restoreNotebook
+      // tells it apart from things that were already in the trash
+      const now = new Date();
+      await tx
+        .update(notebooks)
+        .set({ isDeleted: true, updatedAt: now })
+        .where(and(inArray(notebooks.id, ids), eq(notebooks.isDeleted, false)));
+      await tx
+        .update(notes)
+        .set({ isDeleted: true, updatedAt: now })
+        .where(and(
+          eq(notes.userId, userId),
+          inArray(notes.notebookId, ids),
+          eq(notes.isDeleted, false)
+        ));
+      return true;
+    });
+  }
+
+  async restoreNotebook(userId: number, id: number): Promise<Notebook | undefined> {
+    const notebook = await this.getNotebook(userId, id);
+    if (!notebook) return undefined;
+    if (!notebook.isDeleted) return notebook;
+
+    return this.db.transaction(async (tx) => {
+      const allNotebooks = await tx.select().from(notebooks).where(eq(notebooks.userId, userId));
+      const deletedAt = notebook.updatedAt;
+      const ids = subtreeIds(allNotebooks, id, other => other.isDeleted && other.updatedAt >= deletedAt);
+      // A notebook whose parent is still in the trash comes back at the top level
+      const parent = allNotebooks.find(other => other.id === notebook.parentId);
+
+      const now = new Date();
+      await tx
+        .update(notebooks)
+        .set({ isDeleted: false, updatedAt: now })
+        .where(inArray(notebooks.id, ids));
+      await tx
+        .update(notes)
+        .set({ isDeleted: false, updatedAt: now })
+        .where(and(
+          eq(notes.userId, userId),
+          inArray(notes.notebookId, ids),
+          eq(notes.isDeleted, true),
+          gte(notes.updatedAt, deletedAt)
+        ));
+
+      const [restoredNotebook] = await tx
+        .update(notebooks)
+        .set({ parentId: parent && !parent.isDeleted ? parent.id : null })
+        .where(eq(notebooks.id, id))
+        .returning();
+      return restoredNotebook;
+    });
+  }
+
+  // Tag methods
+  async getTags(userId: number): Promise<Tag[]> {
+    return this.db.select().from(tags).where(eq(tags.userId, userId));
+  }
+
+  async getTag(userId: number, id: number): Promise<Tag | undefined> {
+    const [tag] = await this.db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.id, id), eq(tags.userId, userId)));
+    return tag;
+  }
+
+  async createTag(userId: number, insertTag: InsertTag): Promise<Tag> {
+    if (insertTag.parentId != null) {
+      checkParent(await this.getTags(userId), undefined, insertTag.parentId, "tag");
+    }
+
+    const [tag] = await this.db
+      .insert(tags)
+      .values({ ...insertTag, userId })
+      .returning();
+    return tag;
+  }
+
+  async updateTag(userId: number, id: number, tagUpdate: Partial<InsertTag>): Promise<Tag | undefined> {
+    if (tagUpdate.parentId != null) {
+      checkParent(await this.getTags(userId), id, tagUpdate.parentId, "tag");
+    }
+
+    const [tag] = await this.db
+      .update(tags)
+      .set({ ...tagUpdate, updatedAt: new Date() })
+      .where(and(eq(tags.id, id), eq(tags.userId, userId)))
+      .returning();
+    return tag;
+  }
+
+  async deleteTag(userId: number, id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(tags)
+        .where(and(eq(tags.id, id), eq(tags.userId, userId)))
+        .returning();
+      if (deleted.length === 0) return false;
+
+      await tx
+        .update(tags)
+        .set({ parentId: deleted[0].parentId, updatedAt: new Date() })
+        .where(and(eq(tags.parentId, id), eq(tags.userId, userId)));
+
+      // Also remove all relationships
+      await tx.delete(noteTags).where(eq(noteTags.tagId, id));
+
+      // Clients drop the tag's links along with the tag itself
+      await tx.insert(syncTombstones).values({ userId, entity: "tag", entityId: id });
+      return true;
+    });
+  }
+
+  async mergeTags(userId: number, sourceId: number, targetId: number): Promise<Tag | undefined> {
+    const source = await this.getTag(userId, sourceId);
+    const target = await this.getTag(userId, targetId);
+    if (!source || !target) return undefined;
+    if (subtreeIds(await this.getTags(userId), sourceId).includes(targetId)) {
+      throw new HierarchyError("A tag cannot be merged into itself or one of its sub-tags");
+    }
+
+    return this.db.transaction(async (tx) => {
+      const now = new Date();
+
+      // Links are re-pointed with a fresh createdAt so that syncs pick them up.
+      // Notes that already carry the target just lose the source link below.
+      const taggedNotes = tx
+        .select({ noteId: noteTags.noteId })
+        .from(noteTags)
+        .where(eq(noteTags.tagId, targetId));
+      await tx
+        .update(noteTags)
+        .set({ tagId: targetId, createdAt: now })
+        .where(and(eq(noteTags.tagId, sourceId), notInArray(noteTags.noteId, taggedNotes)));
+      await tx.delete(noteTags).where(eq(noteTags.tagId, sourceId));
+
+      await tx
+        .update(tags)
+        .set({ parentId: targetId, updatedAt: now })
+        .where(and(eq(tags.parentId, sourceId), eq(tags.userId, userId)));
+      await tx.delete(tags).where(eq(tags.id, sourceId));
+      await tx.insert(syncTombstones).values({ userId, entity: "tag", entityId: sourceId });
+
+      return target;
+    });
+  }
+
+  // Note-Tag methods
+  async getNoteWithTags(userId: number, noteId: number): Promise<NoteWithTags | undefined> {
+    const [note] = await this.selectNotesWithTags(
+      and(eq(notes.id, noteId), eq(notes.userId, userId))
+    );
+    return note;
+  }
+
+  async getNotesWithTags(userId: number, includeDeleted: boolean = false): Promise<NoteWithTags[]> {
+    return this.selectNotesWithTags(and(
+      eq(notes.userId, userId),
+      includeDeleted ? undefined : eq(notes.isDeleted, false)
+    ));
   }
+
+  async getNotesByTag(userId: number, tagId: number): Promise<Note[]> {
+    const tagIds = subtreeIds(await this.getTags(userId), tagId);
+    // A note carrying several tags of the subtree is still listed once
+    const rows = await this.db
+      .selectDistinct({ note: notes })
+      .from(notes)
+      .innerJoin(noteTags, eq(noteTags.noteId, notes.id))
+      .where(and(
+        inArray(noteTags.tagId, tagIds),
+        eq(notes.userId, userId),
+        eq(notes.isDeleted, false)
+      ));
+    return rows.map(row => row.note);
+  }
+
+  async getTagsForNote(userId: number, noteId: number): Promise<Tag[]> {
+    const rows = await this.db
+      .select({ tag: tags })
+      .from(noteTags)
+      .innerJoin(tags, eq(tags.id, noteTags.tagId))
+      .where(and(eq(noteTags.noteId, noteId), eq(noteTags.userId, userId)));
+    return rows.map(row => row.tag);
+  }
+
+  async addTagToNote(userId: number, noteId: number, tagId: number): Promise<void> {
+    // First check if the relationship already exists
+    const [existing] = await this.db
+      .select()
+      .from(noteTags)
+      .where(and(eq(noteTags.noteId, noteId), eq(noteTags.tagId, tagId)));
+
+    if (existing) return;
+
+    await this.db.insert(noteTags).values({ userId, noteId, tagId });
+  }
+
+  async removeTagFromNote(userId: number, noteId: number, tagId: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(noteTags)
+        .where(and(
+          eq(noteTags.noteId, noteId),
+          eq(noteTags.tagId, tagId),
+          eq(noteTags.userId, userId)
+        ))
+        .returning();
+
+      if (deleted.length > 0) {
+        await tx.insert(syncTombstones).values({ userId, entity: "noteTag", noteId, tagId });
+      }
+    });
+  }
+
+  // Revision methods
+  async getNoteRevisions(userId: number, noteId: number): Promise<NoteRevision[]> {
+    return this.db
+      .select()
+      .from(noteRevisions)
+      .where(and(eq(noteRevisions.noteId, noteId), eq(noteRevisions.userId, userId)))
+      .orderBy(desc(noteRevisions.id));
+  }
+
+  async getNoteRevision(userId: number, noteId: number, revisionId: number): Promise<NoteRevision | undefined> {
+    const [revision] = await this.db
+      .select()
+      .from(noteRevisions)
+      .where(and(
+        eq(noteRevisions.id, revisionId),
+        eq(noteRevisions.noteId, noteId),
+        eq(noteRevisions.userId, userId)
+      ));
+    return revision;
+  }
+
+  async restoreNoteRevision(userId: number, noteId: number, revisionId: number): Promise<Note | undefined> {
+    const revision = await this.getNoteRevision(userId, noteId, revisionId);
+    if (!revision) return undefined;
+
+    return this.db.transaction(async (tx) => {
+      const [note] = await tx
+        .update(notes)
+        .set({
+          title: revision.title,
+          content: revision.content,
+          updatedAt: new Date(),
+          version: sql`${notes.version} + 1`
+        })
+        .where(and(eq(notes.id, noteId), eq(notes.userId, userId)))
+        .returning();
+
+      // A restore always gets its own revision so it can be undone in turn
+      if (note) {
+        await this.recordRevision(tx, note, false);
+        await this.updateNoteLinks(tx, note);
+      }
+      return note;
+    });
+  }
+
+  // Note link methods
+  async getBacklinks(userId: number, noteId: number): Promise<Note[]> {
+    // A note linking several times is still listed once
+    const rows = await this.db
+      .selectDistinct({ note: notes })
+      .from(notes)
+      .innerJoin(noteLinks, eq(noteLinks.sourceNoteId, notes.id))
+      .where(and(
+        eq(noteLinks.targetNoteId, noteId),
+        eq(noteLinks.userId, userId),
+        eq(notes.isDeleted, false)
+      ))
+      .orderBy(desc(notes.updatedAt));
+    return rows.map(row => row.note);
+  }
+
+  async getNoteGraph(userId: number): Promise<NoteGraph> {
+    // Content is left out; the graph only needs titles
+    const [noteRows, noteTagRows, linkRows] = await Promise.all([
+      this.db
+        .select({ id: notes.id, title: notes.title, updatedAt: notes.updatedAt })
+        .from(notes)
+        .where(and(eq(notes.userId, userId), eq(notes.isDeleted, false))),
+      this.db
+        .select({ noteId: noteTags.noteId, tagId: noteTags.tagId })
+        .from(noteTags)
+        .where(eq(noteTags.userId, userId)),
+      this.db
+        .select({ sourceNoteId: noteLinks.sourceNoteId, targetNoteId: noteLinks.targetNoteId })
+        .from(noteLinks)
+        .where(eq(noteLinks.userId, userId)),
+    ]);
+    return buildNoteGraph(noteRows, noteTagRows, linkRows);
+  }
+
+  // Share link methods
+  private activeShareLink(): SQL {
+    return or(isNull(shareLinks.expiresAt), gt(shareLinks.expiresAt, new Date()))!;
+  }
+
+  async getShareLinks(userId: number, noteId: number): Promise<ShareLink[]> {
+    return this.db
+      .select()
+      .from(shareLinks)
+      .where(and(eq(shareLinks.userId, userId), eq(shareLinks.noteId, noteId), this.activeShareLink()))
+      .orderBy(desc(shareLinks.createdAt), desc(shareLinks.id));
+  }
+
+  async createShareLink(userId: number, noteId: number, insertShareLink: InsertShareLink): Promise<ShareLink> {
+    const [share] = await this.db
+      .insert(shareLinks)
+      .values({ ...insertShareLink, userId, noteId })
+      .returning();
+    return share;
+  }
+
+  async deleteShareLink(userId: number, noteId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(shareLinks)
+      .where(and(eq(shareLinks.id, id), eq(shareLinks.userId, userId), eq(shareLinks.noteId, noteId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [share] = await this.db
+      .select()
+      .from(shareLinks)
+      .where(and(eq(shareLinks.token, token), this.activeShareLink()));
+    return share;
+  }
+
+  // Collaborative editing methods
+  async getNoteDocument(userId: number, noteId: number): Promise<NoteDocument | undefined> {
+    const [document] = await this.db
+      .select()
+      .from(noteDocuments)
+      .where(and(eq(noteDocuments.noteId, noteId), eq(noteDocuments.userId, userId)));
+    return document;
+  }
+
+  async saveNoteDocument(userId: number, noteId: number, content: string, state: string, expectedVersion: number): Promise<Note | undefined> {
+    const note = await this.updateNote(userId, noteId, { content }, expectedVersion);
+    if (!note) return undefined;
+
+    const document = { state, noteVersion: note.version, updatedAt: new Date() };
+    await this.db
+      .insert(noteDocuments)
+      .values({ noteId, userId, ...document })
+      .onConflictDoUpdate({ target: noteDocuments.noteId, set: document });
+    return note;
+  }
+
+  // Collaboration methods
+  async getNoteShares(userId: number): Promise<NoteShare[]> {
+    return this.db
+      .select()
+      .from(noteShares)
+      .where(eq(noteShares.userId, userId))
+      .orderBy(noteShares.id);
+  }
+
+  async getNoteSharesWith(userId: number): Promise<NoteShare[]> {
+    return this.db
+      .select()
+      .from(noteShares)
+      .where(eq(noteShares.sharedWithId, userId))
+      .orderBy(noteShares.id);
+  }
+
+  async saveNoteShare(userId: number, insertShare: InsertNoteShare): Promise<NoteShare> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(noteShares)
+        .where(and(
+          eq(noteShares.userId, userId),
+          eq(noteShares.sharedWithId, insertShare.sharedWithId),
+          insertShare.noteId !== null ? eq(noteShares.noteId, insertShare.noteId) : isNull(noteShares.noteId),
+          insertShare.notebookId !== null ? eq(noteShares.notebookId, insertShare.notebookId) : isNull(noteShares.notebookId)
+        ));
+      if (existing) {
+        const [updatedShare] = await tx
+          .update(noteShares)
+          .set({ role: insertShare.role })
+          .where(eq(noteShares.id, existing.id))
+          .returning();
+        return updatedShare;
+      }
+
+      const [share] = await tx
+        .insert(noteShares)
+        .values({ ...insertShare, userId })
+        .returning();
+      return share;
+    });
+  }
+
+  async deleteNoteShare(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(noteShares)
+      .where(and(eq(noteShares.id, id), eq(noteShares.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Comment methods
+  async getNoteComments(noteId: number): Promise<NoteComment[]> {
+    return this.db
+      .select()
+      .from(noteComments)
+      .where(eq(noteComments.noteId, noteId))
+      .orderBy(noteComments.id);
+  }
+
+  async getNoteComment(noteId: number, id: number): Promise<NoteComment | undefined> {
+    const [comment] = await this.db
+      .select()
+      .from(noteComments)
+      .where(and(eq(noteComments.id, id), eq(noteComments.noteId, noteId)));
+    return comment;
+  }
+
+  async createNoteComment(userId: number, noteId: number, insertComment: InsertNoteComment): Promise<NoteComment> {
+    const [comment] = await this.db
+      .insert(noteComments)
+      .values({ ...insertComment, noteId, userId })
+      .returning();
+    return comment;
+  }
+
+  async deleteNoteComment(noteId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(noteComments)
+      .where(and(eq(noteComments.id, id), eq(noteComments.noteId, noteId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Saved search methods
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(savedSearches.id);
+  }
+
+  async getSavedSearch(userId: number, id: number): Promise<SavedSearch | undefined> {
+    const [savedSearch] = await this.db
+      .select()
+      .from(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)));
+    return savedSearch;
+  }
+
+  async createSavedSearch(userId: number, insertSavedSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const [savedSearch] = await this.db
+      .insert(savedSearches)
+      .values({ ...insertSavedSearch, userId })
+      .returning();
+    return savedSearch;
+  }
+
+  async updateSavedSearch(userId: number, id: number, savedSearchUpdate: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined> {
+    const [savedSearch] = await this.db
+      .update(savedSearches)
+      .set({ ...savedSearchUpdate, updatedAt: new Date() })
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning();
+    return savedSearch;
+  }
+
+  async deleteSavedSearch(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Sync methods
+  async getChangesSince(userId: number, since?: Date): Promise<SyncChanges> {
+    // Read everything from one snapshot so a concurrent write cannot be half included
+    return this.db.transaction(async (tx) => {
+      const changedNotes = await tx
+        .select()
+        .from(notes)
+        .where(and(eq(notes.userId, userId), since ? gt(notes.updatedAt, since) : undefined));
+      const changedTags = await tx
+        .select()
+        .from(tags)
+        .where(and(eq(tags.userId, userId), since ? gt(tags.updatedAt, since) : undefined));
+      const changedNoteTags = await tx
+        .select()
+        .from(noteTags)
+        .where(and(eq(noteTags.userId, userId), since ? gt(noteTags.createdAt, since) : undefined));
+      const tombstones = since
+        ? await tx
+            .select()
+            .from(syncTombstones)
+            .where(and(eq(syncTombstones.userId, userId), gt(syncTombstones.deletedAt, since)))
+        : [];
+
+      return { notes: changedNotes, tags: changedTags, noteTags: changedNoteTags, tombstones };
+    }, { isolationLevel: "repeatable read" });
+  }
+
+  // Rebuilds the links going out of a note from its content
+  private async updateNoteLinks(db: Database, note: Note): Promise<void> {
+    await db.delete(noteLinks).where(eq(noteLinks.sourceNoteId, note.id));
+    const targets = noteLinkTargets(note.content).filter(id => id !== note.id);
+    if (targets.length > 0) {
+      await db.insert(noteLinks).values(targets.map(targetNoteId => ({
+        userId: note.userId,
+        sourceNoteId: note.id,
+        targetNoteId,
+      })));
+    }
+  }
+
+  private async recordRevision(db: Database, note: Note, coalesce: boolean = true): Promise<void> {
+    const [latest] = await db
+      .select()
+      .from(noteRevisions)
+      .where(eq(noteRevisions.noteId, note.id))
+      .orderBy(desc(noteRevisions.id))
+      .limit(1);
+    const now = new Date();
+
+    if (coalesce && canCoalesceRevision(latest, note, now)) {
+      await db
+        .update(noteRevisions)
+        .set({ title: note.title, content: note.content, updatedAt: now })
+        .where(eq(noteRevisions.id, latest.id));
+      return;
+    }
+
+    await db.insert(noteRevisions).values({
+      userId: note.userId,
+      noteId: note.id,
+      title: note.title,
+      content: note.content,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  // Loads notes together with their tags in a single left join instead of one query per note
+  private async selectNotesWithTags(where?: SQL): Promise<NoteWithTags[]> {
+    const rows = await this.db
+      .select({ note: notes, tag: tags })
+      .from(notes)
+      .leftJoin(noteTags, eq(noteTags.noteId, notes.id))
+      .leftJoin(tags, eq(tags.id, noteTags.tagId))
+      .where(where)
+      .orderBy(notes.id);
+
+    const notesById = new Map<number, NoteWithTags>();
+    for (const { note, tag } of rows) {
+      let noteWithTags = notesById.get(note.id);
+      if (!noteWithTags) {
+        noteWithTags = { ...note, tags: [] };
+        notesById.set(note.id, noteWithTags);
+      }
+      if (tag) {
+        noteWithTags.tags.push(tag);
+      }
+    }
+
+    return Array.from(notesById.values());
+  }
+}
+
+// Use Postgres when a database is provisioned, otherwise fall back to in-memory storage
+function createStorage(): IStorage {
+  if (!process.env.DATABASE_URL) {
+    return new MemStorage();
+  }
+
+  const pool = createPool(process.env.DATABASE_URL);
+  return new DatabaseStorage(
+    createDb(pool),
+    new PostgresSessionStore({ pool, createTableIfMissing: true })
+  );
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
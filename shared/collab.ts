@@ -0,0 +1,33 @@
+// Collaborative editing runs over a WebSocket per note. Sync and awareness
+// messages are those of y-protocols; the others are NotePro's own. Each
+// message starts with its type as a varUint.
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+// Client to server: the state vector of the client's document followed by
+// its HTML, which is saved as the note's content if the server's document is
+// in the same state
+export const MESSAGE_CONTENT = 2;
+// Server to client: the document is new, or the note was saved some other way
+// since; replace it with the note's latest content
+export const MESSAGE_SEED = 3;
+// Server to client: the document was saved as this version of the note
+export const MESSAGE_SAVED = 4;
+
+// The ProseMirror document lives in this fragment of the Yjs document
+export const COLLAB_FRAGMENT = "default";
+
+export function collabPath(noteId: number): string {
+  return `/api/notes/${noteId}/collab`;
+}
+
+export const COLLAB_PATH_PATTERN = /^\/api\/notes\/(\d+)\/collab$/;
+
+const CURSOR_COLORS = [
+  "#f87171", "#fb923c", "#facc15", "#4ade80",
+  "#2dd4bf", "#60a5fa", "#a78bfa", "#f472b6",
+];
+
+// Each user keeps their color across notes and sessions
+export function userColor(userId: number): string {
+  return CURSOR_COLORS[userId % CURSOR_COLORS.length];
+}
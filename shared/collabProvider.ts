@@ -0,0 +1,178 @@
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import { ObservableV2 } from "lib0/observable";
+import {
+  MESSAGE_AWARENESS,
+  MESSAGE_CONTENT,
+  MESSAGE_SAVED,
+  MESSAGE_SEED,
+  MESSAGE_SYNC,
+} from "./collab";
+
+// The parts of a WebSocket the provider uses, so that both the browser's and
+// the ws package's (which can send a session cookie from Node) will do. Their
+// event types differ, so callers cast their socket to this.
+export interface CollabSocket {
+  binaryType: string;
+  readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: ArrayBuffer | Uint8Array }) => void) | null;
+  send(data: Uint8Array): void;
+  close(): void;
+}
+
+export type CollabStatus = "connecting" | "connected" | "disconnected";
+
+type CollabEvents = {
+  status: (status: CollabStatus) => void;
+  // The document caught up with the server
+  synced: () => void;
+  // The document is new and this client should fill it with the note's content
+  seed: () => void;
+  // The server saved the document as this note version
+  saved: (version: number) => void;
+};
+
+const OPEN = 1;
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+// Keeps a Yjs document and the awareness of who is editing in sync with the
+// collaboration socket of a note, reconnecting with a growing delay when the
+// connection drops
+export class CollabProvider extends ObservableV2<CollabEvents> {
+  readonly doc = new Y.Doc();
+  readonly awareness = new awarenessProtocol.Awareness(this.doc);
+  status: CollabStatus = "connecting";
+  synced = false;
+  private socket: CollabSocket | null = null;
+  private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private destroyed = false;
+
+  constructor(private connect: () => CollabSocket) {
+    super();
+
+    this.doc.on("update", (update: Uint8Array, origin: unknown) => {
+      if (origin === this) return;
+      this.send(encoder => {
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.writeUpdate(encoder, update);
+      });
+    });
+
+    this.awareness.on("update", ({ added, updated, removed }: Record<string, number[]>, origin: unknown) => {
+      if (origin !== "local") return;
+      this.sendAwareness([...added, ...updated, ...removed]);
+    });
+
+    this.open();
+  }
+
+  // Hands the server the HTML of the document to save as the note's content,
+  // along with the state of the document it was taken from
+  sendContent(html: string) {
+    this.send(encoder => {
+      encoding.writeVarUint(encoder, MESSAGE_CONTENT);
+      encoding.writeVarUint8Array(encoder, Y.encodeStateVector(this.doc));
+      encoding.writeVarString(encoder, html);
+    });
+  }
+
+  destroy() {
+    this.destroyed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    awarenessProtocol.removeAwarenessStates(this.awareness, [this.doc.clientID], "local");
+    this.socket?.close();
+    this.awareness.destroy();
+    this.doc.destroy();
+    super.destroy();
+  }
+
+  private open() {
+    const socket = this.connect();
+    socket.binaryType = "arraybuffer";
+    this.socket = socket;
+    this.setStatus("connecting");
+
+    socket.onopen = () => {
+      this.reconnectDelay = 1000;
+      this.setStatus("connected");
+      this.send(encoder => {
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.writeSyncStep1(encoder, this.doc);
+      });
+      if (this.awareness.getLocalState() !== null) {
+        this.sendAwareness([this.doc.clientID]);
+      }
+    };
+
+    socket.onmessage = (event) => this.receive(new Uint8Array(event.data));
+
+    socket.onclose = () => {
+      this.socket = null;
+      this.synced = false;
+      // Others stop seeing where we are, and we stop seeing them
+      awarenessProtocol.removeAwarenessStates(
+        this.awareness,
+        Array.from(this.awareness.getStates().keys()).filter(id => id !== this.doc.clientID),
+        this
+      );
+      this.setStatus("disconnected");
+      if (this.destroyed) return;
+
+      this.reconnectTimer = setTimeout(() => this.open(), this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    };
+  }
+
+  private receive(message: Uint8Array) {
+    const decoder = decoding.createDecoder(message);
+    switch (decoding.readVarUint(decoder)) {
+      case MESSAGE_SYNC: {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        const type = syncProtocol.readSyncMessage(decoder, encoder, this.doc, this);
+        if (encoding.length(encoder) > 1 && this.socket?.readyState === OPEN) {
+          this.socket.send(encoding.toUint8Array(encoder));
+        }
+        if (type === syncProtocol.messageYjsSyncStep2 && !this.synced) {
+          this.synced = true;
+          this.emit("synced", []);
+        }
+        break;
+      }
+      case MESSAGE_AWARENESS:
+        awarenessProtocol.applyAwarenessUpdate(this.awareness, decoding.readVarUint8Array(decoder), this);
+        break;
+      case MESSAGE_SEED:
+        this.emit("seed", []);
+        break;
+      case MESSAGE_SAVED:
+        this.emit("saved", [decoding.readVarUint(decoder)]);
+        break;
+    }
+  }
+
+  private sendAwareness(clientIds: number[]) {
+    this.send(encoder => {
+      encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness, clientIds));
+    });
+  }
+
+  private send(write: (encoder: encoding.Encoder) => void) {
+    if (this.socket?.readyState !== OPEN) return;
+    const encoder = encoding.createEncoder();
+    write(encoder);
+    this.socket.send(encoding.toUint8Array(encoder));
+  }
+
+  private setStatus(status: CollabStatus) {
+    this.status = status;
+    this.emit("status", [status]);
+  }
+}
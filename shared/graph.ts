@@ -0,0 +1,56 @@
+import type { GraphEdge, GraphNode, Note, NoteGraph } from "./schema";
+
+// Notes sharing a tag with more notes than this are joined in a chain rather
+// than each to each, which would take n² edges for a tag on every note. The
+// chain still pulls them together in the layout.
+const MAX_TAG_CLIQUE = 8;
+
+// Builds the graph of a user's notes, leaving out links to notes not given
+// (e.g. in the trash)
+export function buildNoteGraph(
+  notes: Pick<Note, "id" | "title" | "updatedAt">[],
+  noteTags: { noteId: number; tagId: number }[],
+  links: { sourceNoteId: number; targetNoteId: number }[]
+): NoteGraph {
+  const nodesById = new Map<number, GraphNode>(
+    notes.map(note => [note.id, { id: note.id, title: note.title, updatedAt: note.updatedAt, tagIds: [] }])
+  );
+
+  const notesByTag = new Map<number, number[]>();
+  for (const { noteId, tagId } of noteTags) {
+    const node = nodesById.get(noteId);
+    if (!node || node.tagIds.includes(tagId)) continue;
+    node.tagIds.push(tagId);
+    notesByTag.set(tagId, [...(notesByTag.get(tagId) ?? []), noteId]);
+  }
+
+  // One edge per pair of notes, whichever way round they were found
+  const edges = new Map<string, GraphEdge>();
+  const edgeFor = (a: number, b: number) => {
+    const [source, target] = a < b ? [a, b] : [b, a];
+    const key = `${source}:${target}`;
+    let edge = edges.get(key);
+    if (!edge) {
+      edge = { source, target, type: "tag", tagIds: [] };
+      edges.set(key, edge);
+    }
+    return edge;
+  };
+
+  for (const { sourceNoteId, targetNoteId } of links) {
+    if (sourceNoteId === targetNoteId || !nodesById.has(sourceNoteId) || !nodesById.has(targetNoteId)) continue;
+    edgeFor(sourceNoteId, targetNoteId).type = "link";
+  }
+
+  notesByTag.forEach((noteIds, tagId) => {
+    noteIds.sort((a, b) => a - b);
+    for (let i = 0; i < noteIds.length; i++) {
+      const last = noteIds.length <= MAX_TAG_CLIQUE ? noteIds.length : Math.min(i + 2, noteIds.length);
+      for (let j = i + 1; j < last; j++) {
+        edgeFor(noteIds[i], noteIds[j]).tagIds.push(tagId);
+      }
+    }
+  });
+
+  return { nodes: Array.from(nodesById.values()), edges: Array.from(edges.values()) };
+}
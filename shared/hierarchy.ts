@@ -0,0 +1,43 @@
+import type { Tag } from "./schema";
+
+// Notebooks and tags form trees through their parentId
+
+interface HierarchyItem {
+  id: number;
+  parentId: number | null;
+}
+
+// Nested tags are written as a path, e.g. project/alpha
+export const TAG_PATH_SEPARATOR = "/";
+
+// Ids of an item and the items nested below it. Items that fail `include`
+// are left out together with everything below them.
+export function subtreeIds<T extends HierarchyItem>(
+  items: T[],
+  id: number,
+  include: (item: T) => boolean = () => true
+): number[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    for (const item of items) {
+      if (item.parentId === ids[i] && include(item)) ids.push(item.id);
+    }
+  }
+  return ids;
+}
+
+// The item followed by its parent, grandparent and so on. Stops at a parent
+// that is missing, and at a cycle should one ever get stored.
+export function ancestry<T extends HierarchyItem>(item: T, itemsById: Map<number, T>): T[] {
+  const chain = [item];
+  let parent = item.parentId !== null ? itemsById.get(item.parentId) : undefined;
+  while (parent && !chain.includes(parent)) {
+    chain.push(parent);
+    parent = parent.parentId !== null ? itemsById.get(parent.parentId) : undefined;
+  }
+  return chain;
+}
+
+export function tagPath(tag: Tag, tagsById: Map<number, Tag>): string {
+  return ancestry(tag, tagsById).reverse().map(t => t.name).join(TAG_PATH_SEPARATOR);
+}
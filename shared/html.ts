@@ -0,0 +1,256 @@
+// A small, forgiving HTML parser for note content. It handles the markup the
+// editor produces (and typical pasted HTML) without needing a DOM, so the same
+// code runs in the browser and on the server.
+
+export type HtmlText = {
+  type: "text";
+  text: string;
+};
+
+export type HtmlElement = {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+};
+
+export type HtmlNode = HtmlText | HtmlElement;
+
+// Elements that never have children or a closing tag
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input",
+  "link", "meta", "param", "source", "track", "wbr",
+]);
+
+// Elements whose content is not markup and is dropped
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "template"]);
+
+// Opening one of these closes an unclosed element of the listed kinds first
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+  li: ["li"],
+  p: ["p"],
+  tr: ["tr", "td", "th"],
+  td: ["td", "th"],
+  th: ["td", "th"],
+  thead: ["tbody", "tfoot"],
+  tbody: ["thead", "tbody", "tfoot"],
+  tfoot: ["thead", "tbody"],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  times: "×",
+  euro: "€",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X"
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    if (name in attrs) continue;
+    attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+// Parses an HTML fragment into a list of top-level nodes
+export function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { type: "element", tag: "#root", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const tokenPattern = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\/([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+  let lastIndex = 0;
+  let match;
+
+  const addText = (text: string) => {
+    if (text) current().children.push({ type: "text", text: decodeEntities(text) });
+  };
+
+  while ((match = tokenPattern.exec(html)) !== null) {
+    addText(html.slice(lastIndex, match.index));
+    lastIndex = tokenPattern.lastIndex;
+
+    const [, closingTag, openingTag, attrSource] = match;
+
+    if (closingTag) {
+      // Close the matching element along with anything left open inside it;
+      // stray closing tags are ignored
+      const tag = closingTag.toLowerCase();
+      const index = stack.map(el => el.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+    if (!openingTag) continue; // comment or doctype
+
+    const tag = openingTag.toLowerCase();
+    const closes = IMPLIED_END_TAGS[tag];
+    if (closes) {
+      while (stack.length > 1 && closes.includes(current().tag)) stack.pop();
+    }
+
+    const element: HtmlElement = { type: "element", tag, attrs: parseAttributes(attrSource), children: [] };
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      // Skip straight past the closing tag
+      const end = html.toLowerCase().indexOf(`</${tag}`, lastIndex);
+      lastIndex = end === -1 ? html.length : html.indexOf(">", end) + 1 || html.length;
+      tokenPattern.lastIndex = lastIndex;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tag) && !/\/\s*$/.test(attrSource)) {
+      stack.push(element);
+    }
+  }
+  addText(html.slice(lastIndex));
+
+  return root.children;
+}
+
+// Concatenated text of a node and everything below it
+export function textContent(node: HtmlNode): string {
+  if (node.type === "text") return node.text;
+  return node.children.map(textContent).join("");
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function serializeHtml(nodes: HtmlNode[]): string {
+  return nodes.map(node => {
+    if (node.type === "text") return escapeHtml(node.text);
+
+    const attrs = Object.entries(node.attrs)
+      .map(([name, value]) => value === "" ? ` ${name}` : ` ${name}="${escapeHtml(value)}"`)
+      .join("");
+    if (VOID_ELEMENTS.has(node.tag)) return `<${node.tag}${attrs}>`;
+    return `<${node.tag}${attrs}>${serializeHtml(node.children)}</${node.tag}>`;
+  }).join("");
+}
+
+// Everything the editor can represent, with the attributes it understands
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href", "title", "target", "rel"],
+  b: [], blockquote: [], br: [], code: ["class"], col: [], colgroup: [],
+  del: [], div: [], em: [], h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  hr: [], i: [], img: ["src", "alt", "title", "width", "height"],
+  input: ["type", "checked", "disabled"], label: [], li: ["data-type", "data-checked"],
+  mark: [], ol: ["start"], p: [], pre: [], s: [],
+  span: ["data-type", "data-note-id", "data-title", "data-tag-id", "data-tag"], strike: [],
+  strong: [], sub: [], sup: [], table: [], tbody: [], td: ["colspan", "rowspan", "colwidth"],
+  tfoot: [], th: ["colspan", "rowspan", "colwidth"], thead: [], tr: [], u: [],
+  ul: ["data-type"],
+};
+
+// Dropped together with their content; any other unknown element is unwrapped
+const DROPPED_ELEMENTS = new Set([
+  "button", "canvas", "embed", "frame", "frameset", "head", "iframe", "math",
+  "noscript", "object", "select", "svg", "textarea", "title", "video", "audio",
+]);
+
+function isSafeUrl(url: string, allowImageData: boolean): boolean {
+  // Browsers ignore whitespace and control characters inside a URL's scheme
+  const trimmed = url.replace(/[\u0000-\u0020]/g, "").toLowerCase();
+  if (allowImageData && /^data:image\/(png|gif|jpe?g|webp);/.test(trimmed)) return true;
+
+  const scheme = trimmed.match(/^([a-z][a-z0-9+.-]*):/)?.[1];
+  return !scheme || ["http", "https", "mailto", "tel"].includes(scheme);
+}
+
+function sanitizeNodes(nodes: HtmlNode[]): HtmlNode[] {
+  return nodes.flatMap((node): HtmlNode[] => {
+    if (node.type === "text") return [node];
+    if (DROPPED_ELEMENTS.has(node.tag)) return [];
+
+    const allowed = ALLOWED_ATTRIBUTES[node.tag];
+    if (!allowed) return sanitizeNodes(node.children);
+
+    const attrs: Record<string, string> = {};
+    for (const name of allowed) {
+      const value = node.attrs[name];
+      if (value === undefined) continue;
+      if (name === "href" && !isSafeUrl(value, false)) continue;
+      if (name === "src" && !isSafeUrl(value, true)) continue;
+      attrs[name] = value;
+    }
+    if (node.tag === "input" && attrs.type !== "checkbox") return [];
+    if (node.tag === "img" && !attrs.src) return [];
+
+    return [{ ...node, attrs, children: sanitizeNodes(node.children) }];
+  });
+}
+
+// Strips scripts, event handlers, unsafe URLs and anything else the editor
+// would not produce, keeping the text of unknown elements
+export function sanitizeHtml(html: string): string {
+  return serializeHtml(sanitizeNodes(parseHtml(html)));
+}
+
+// Elements that start a new line in the text of a note
+const LINE_ELEMENTS = new Set([
+  "blockquote", "br", "dd", "div", "dt", "h1", "h2", "h3", "h4", "h5", "h6",
+  "hr", "li", "ol", "p", "pre", "table", "td", "th", "tr", "ul",
+]);
+
+function appendText(nodes: HtmlNode[], parts: string[]) {
+  for (const node of nodes) {
+    if (node.type === "text") {
+      parts.push(node.text);
+      continue;
+    }
+    if (LINE_ELEMENTS.has(node.tag)) parts.push("\n");
+    appendText(node.children, parts);
+    if (LINE_ELEMENTS.has(node.tag)) parts.push("\n");
+  }
+}
+
+// Plain text of note HTML, with blocks on their own lines and runs of
+// whitespace collapsed
+export function htmlToText(html: string): string {
+  const parts: string[] = [];
+  appendText(parseHtml(html), parts);
+  return parts
+    .join("")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ ?\n\s*/g, "\n")
+    .trim();
+}
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { htmlToMarkdown } from "./markdown";
+
+// Each fixture is editor HTML (name.html) next to the markdown expected for
+// it (name.md). Run with UPDATE_GOLDEN=1 to rewrite the expectations from
+// the current output, then review the diff.
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "__fixtures__", "markdown");
+
+const fixtures = readdirSync(FIXTURES_DIR)
+  .filter(file => file.endsWith(".html"))
+  .map(file => path.basename(file, ".html"));
+
+for (const name of fixtures) {
+  test(`converts ${name}`, () => {
+    const html = readFileSync(path.join(FIXTURES_DIR, `${name}.html`), "utf8");
+    const expectedFile = path.join(FIXTURES_DIR, `${name}.md`);
+    const markdown = htmlToMarkdown(html) + "\n";
+
+    if (process.env.UPDATE_GOLDEN) {
+      writeFileSync(expectedFile, markdown);
+      return;
+    }
+    assert.equal(markdown, readFileSync(expectedFile, "utf8"));
+  });
+}
+
+test("numbers ordered list items instead of printing a literal $1", () => {
+  assert.equal(htmlToMarkdown("<ol><li><p>One</p></li><li><p>Two</p></li></ol>"), "1. One\n2. Two");
+});
@@ -0,0 +1,295 @@
+import { parseHtml, textContent, type HtmlElement, type HtmlNode } from "./html";
+
+// Converts note HTML (as produced by the editor) to GitHub Flavored Markdown
+
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "dd", "details", "div", "dl", "dt",
+  "figcaption", "figure", "footer", "h1", "h2", "h3", "h4", "h5", "h6", "header",
+  "hr", "li", "main", "nav", "ol", "p", "pre", "section", "summary", "table", "ul",
+]);
+
+function isBlock(node: HtmlNode): boolean {
+  return node.type === "element" && BLOCK_TAGS.has(node.tag);
+}
+
+function childElements(element: HtmlElement, ...tags: string[]): HtmlElement[] {
+  return element.children.filter((child): child is HtmlElement =>
+    child.type === "element" && tags.includes(child.tag)
+  );
+}
+
+// Backslash-escapes characters that would otherwise be read as markdown
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]~<]/g, "\\$&");
+}
+
+// Escapes markers that only mean something at the start of a line
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^(\s*)(#{1,6}(?=\s|$)|>|[-+](?=\s)|=+(?=\s*$))/, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])(?=\s)/, "$1\\$2");
+}
+
+// Puts delimiters around text, keeping surrounding spaces outside them
+// because "** bold **" is not emphasis
+function wrap(content: string, open: string, close: string = open): string {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!match[2]) return content;
+  return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+}
+
+function inlineCode(code: string): string {
+  // The fence must be longer than any run of backticks inside the code
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  const padding = code.startsWith("`") || code.endsWith("`") ? " " : "";
+  return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+function linkDestination(url: string): string {
+  return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
+
+function linkTitle(title: string | undefined): string {
+  return title ? ` "${title.replace(/"/g, "\\\"")}"` : "";
+}
+
+function renderImage(element: HtmlElement): string {
+  const { src = "", alt = "", title } = element.attrs;
+  return `![${escapeText(alt)}](${linkDestination(src)}${linkTitle(title)})`;
+}
+
+function renderInline(nodes: HtmlNode[]): string {
+  return nodes.map(renderInlineNode).join("");
+}
+
+function renderInlineNode(node: HtmlNode): string {
+  if (node.type === "text") {
+    // Whitespace in HTML collapses to a single space
+    return escapeText(node.text.replace(/\s+/g, " "));
+  }
+
+  switch (node.tag) {
+    case "strong":
+    case "b":
+      return wrap(renderInline(node.children), "**");
+    case "em":
+    case "i":
+      return wrap(renderInline(node.children), "*");
+    case "s":
+    case "del":
+    case "strike":
+      return wrap(renderInline(node.children), "~~");
+    case "u":
+    case "ins":
+      // Markdown has no underline, so keep it as inline HTML
+      return wrap(renderInline(node.children), "<u>", "</u>");
+    case "mark":
+      return wrap(renderInline(node.children), "<mark>", "</mark>");
+    case "sub":
+    case "sup":
+      return wrap(renderInline(node.children), `<${node.tag}>`, `</${node.tag}>`);
+    case "code":
+      return inlineCode(textContent(node));
+    case "a": {
+      const href = node.attrs.href;
+      const text = renderInline(node.children);
+      if (!href) return text;
+      if (!text.trim()) return `<${href}>`;
+      return `[${text}](${linkDestination(href)}${linkTitle(node.attrs.title)})`;
+    }
+    case "img":
+      return renderImage(node);
+    case "br":
+      return "\\\n";
+    case "input":
+      // Checkboxes are rendered by their task item
+      return "";
+    default:
+      return renderInline(node.children);
+  }
+}
+
+// Renders a run of inline nodes as a paragraph
+function renderParagraph(nodes: HtmlNode[]): string {
+  const text = renderInline(nodes)
+    .replace(/ *\\\n */g, "\\\n")
+    .trim()
+    // A hard break at the very end of a paragraph means nothing in markdown
+    .replace(/\\$/, "")
+    .trim();
+  return text.split("\n").map(escapeLineStart).join("\n");
+}
+
+// Renders a list of nodes as blocks, by default separated by blank lines. Loose
+// inline content between blocks (e.g. text directly inside a <div>) becomes a paragraph.
+function renderBlocks(nodes: HtmlNode[], separator: string = "\n\n"): string {
+  const blocks: string[] = [];
+  let inline: HtmlNode[] = [];
+
+  const flushInline = () => {
+    const paragraph = renderParagraph(inline);
+    if (paragraph) blocks.push(paragraph);
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flushInline();
+      const block = renderBlock(node as HtmlElement);
+      if (block) blocks.push(block);
+    } else {
+      inline.push(node);
+    }
+  }
+  flushInline();
+
+  return blocks.join(separator);
+}
+
+function renderBlock(element: HtmlElement): string {
+  switch (element.tag) {
+    case "p":
+      return renderParagraph(element.children);
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const text = renderInline(element.children).replace(/\\\n/g, " ").replace(/\s+/g, " ").trim();
+      return text ? `${"#".repeat(Number(element.tag[1]))} ${text}` : "";
+    }
+    case "blockquote": {
+      const content = renderBlocks(element.children);
+      return content && content
+        .split("\n")
+        .map(line => line ? `> ${line}` : ">")
+        .join("\n");
+    }
+    case "pre":
+      return renderCodeBlock(element);
+    case "ul":
+    case "ol":
+      return renderList(element);
+    case "li":
+      // A list item outside of a list
+      return renderBlocks(element.children);
+    case "table":
+      return renderTable(element);
+    case "hr":
+      return "---";
+    default:
+      return renderBlocks(element.children);
+  }
+}
+
+function renderCodeBlock(pre: HtmlElement): string {
+  const [code] = childElements(pre, "code");
+  const language = (code?.attrs.class ?? "")
+    .split(/\s+/)
+    .find(className => className.startsWith("language-"))
+    ?.slice("language-".length) ?? "";
+
+  const text = textContent(code ?? pre).replace(/\n$/, "");
+  const longestRun = Math.max(0, ...(text.match(/^`{3,}/gm) ?? []).map(run => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+function isTaskList(list: HtmlElement): boolean {
+  return list.attrs["data-type"] === "taskList";
+}
+
+function taskItemChecked(item: HtmlElement): boolean | undefined {
+  if (item.attrs["data-checked"] !== undefined) {
+    return item.attrs["data-checked"] === "true";
+  }
+
+  // Pasted task lists carry the state on the checkbox instead
+  const [label] = childElements(item, "label");
+  const [checkbox] = childElements(label ?? item, "input");
+  if (checkbox?.attrs.type === "checkbox") {
+    return "checked" in checkbox.attrs;
+  }
+  return undefined;
+}
+
+function renderList(list: HtmlElement): string {
+  const ordered = list.tag === "ol";
+  const start = ordered ? parseInt(list.attrs.start ?? "1", 10) || 1 : 1;
+  const taskList = isTaskList(list);
+
+  const items = childElements(list, "li").map((item, index) => {
+    const marker = ordered ? `${start + index}. ` : "- ";
+    const content = item.children.filter(child => !(child.type === "element" && child.tag === "label"));
+    let body = renderListItemBody(content);
+
+    const checked = taskList || item.attrs["data-type"] === "taskItem" ? taskItemChecked(item) : undefined;
+    if (checked !== undefined) {
+      body = `[${checked ? "x" : " "}] ${body}`;
+    }
+
+    // Continuation lines are indented to line up with the item's content
+    const indent = " ".repeat(marker.length);
+    return marker + body
+      .split("\n")
+      .map((line, lineIndex) => lineIndex === 0 || !line ? line : indent + line)
+      .join("\n");
+  });
+
+  // Items made of several paragraphs need blank lines between all items
+  const loose = items.some(item => item.includes("\n\n"));
+  return items.join(loose ? "\n\n" : "\n");
+}
+
+function renderListItemBody(nodes: HtmlNode[]): string {
+  // Task items wrap their content in a <div> next to the checkbox's <label>
+  const [only] = nodes;
+  const content = nodes.length === 1 && only.type === "element" && only.tag === "div" ? only.children : nodes;
+
+  // Blocks inside a tight item are stacked without blank lines, so that a
+  // paragraph followed by a nested list stays a single item
+  const paragraphs = content.filter(node => node.type === "element" && node.tag === "p").length;
+  return renderBlocks(content, paragraphs <= 1 ? "\n" : "\n\n");
+}
+
+function renderTableCell(cell: HtmlElement): string {
+  // Cells are limited to a single line; paragraphs and breaks become <br>
+  const paragraphs = cell.children.some(isBlock)
+    ? cell.children.filter(isBlock).map(block => renderBlock(block as HtmlElement))
+    : [renderParagraph(cell.children)];
+
+  return paragraphs
+    .filter(Boolean)
+    .join("<br>")
+    .replace(/\\\n/g, "<br>")
+    .replace(/\n/g, " ")
+    .replace(/\|/g, "\\|");
+}
+
+function renderTable(table: HtmlElement): string {
+  const rows = [
+    ...childElements(table, "tr"),
+    ...childElements(table, "thead", "tbody", "tfoot").flatMap(section => childElements(section, "tr")),
+  ];
+  if (rows.length === 0) return "";
+
+  const cells = rows.map(row => childElements(row, "th", "td").flatMap(cell => {
+    // Spanned columns are repeated as empty cells to keep the grid intact
+    const span = Math.max(1, parseInt(cell.attrs.colspan ?? "1", 10) || 1);
+    return [renderTableCell(cell), ...Array(span - 1).fill("")];
+  }));
+  const columns = Math.max(1, ...cells.map(row => row.length));
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => row[i] ?? "").join(" | ")} |`;
+
+  // GFM tables always have a header row, so the first row serves as one
+  const [header, ...body] = cells;
+  return [line(header), line(Array(columns).fill("---")), ...body.map(line)].join("\n");
+}
+
+export function htmlToMarkdown(html: string): string {
+  return renderBlocks(parseHtml(html)).trim();
+}
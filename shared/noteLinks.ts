@@ -0,0 +1,100 @@
+import { htmlToText, parseHtml, serializeHtml, textContent, type HtmlElement, type HtmlNode } from "./html";
+import type { SearchHighlight } from "./schema";
+
+// [[Title]] links between notes are stored as
+// <span data-type="noteLink" data-note-id="5" data-title="Title">[[Title]]</span>
+// so the text still reads as a wiki link wherever the HTML ends up.
+export const NOTE_LINK_TYPE = "noteLink";
+
+const CONTEXT_LENGTH = 160;
+// How much text the context shows before the link
+const CONTEXT_LEAD = 60;
+
+// Stand-ins for the start and end of the link while the text is extracted
+const LINK_START = "\u0001";
+const LINK_END = "\u0002";
+
+export function noteLinkText(title: string): string {
+  return `[[${title}]]`;
+}
+
+function linkTarget(node: HtmlNode): number | null {
+  if (node.type !== "element" || node.attrs["data-type"] !== NOTE_LINK_TYPE) return null;
+  const id = parseInt(node.attrs["data-note-id"] ?? "", 10);
+  return isNaN(id) ? null : id;
+}
+
+function mapLinks(nodes: HtmlNode[], map: (link: HtmlElement, target: number) => HtmlElement): HtmlNode[] {
+  return nodes.map(node => {
+    if (node.type === "text") return node;
+    const target = linkTarget(node);
+    if (target !== null) return map(node, target);
+    return { ...node, children: mapLinks(node.children, map) };
+  });
+}
+
+// Ids of the notes a note's HTML links to
+export function noteLinkTargets(html: string): number[] {
+  const targets = new Set<number>();
+  mapLinks(parseHtml(html), (link, target) => {
+    targets.add(target);
+    return link;
+  });
+  return Array.from(targets);
+}
+
+// Updates the links to a note for its new title. Returns null when no link
+// needed changing, so callers can leave the HTML untouched.
+export function renameNoteLinks(html: string, noteId: number, title: string): string | null {
+  let changed = false;
+  const nodes = mapLinks(parseHtml(html), (link, target) => {
+    if (target !== noteId) return link;
+    if (link.attrs["data-title"] === title && textContent(link) === noteLinkText(title)) return link;
+    changed = true;
+    return {
+      ...link,
+      attrs: { ...link.attrs, "data-title": title },
+      children: [{ type: "text", text: noteLinkText(title) }],
+    };
+  });
+  return changed ? serializeHtml(nodes) : null;
+}
+
+// The text around the first link to a note, with the link highlighted
+export function noteLinkContext(
+  html: string,
+  noteId: number
+): { text: string; highlights: SearchHighlight[] } | null {
+  let marked = false;
+  const nodes = mapLinks(parseHtml(html), (link, target) => {
+    if (target !== noteId || marked) return link;
+    marked = true;
+    const title = link.attrs["data-title"] ?? "";
+    return { ...link, children: [{ type: "text", text: `${LINK_START}${title}${LINK_END}` }] };
+  });
+  if (!marked) return null;
+
+  const text = htmlToText(serializeHtml(nodes)).replace(/\n/g, " ");
+  const linkStart = text.indexOf(LINK_START);
+  const linkEnd = text.indexOf(LINK_END) - 1;
+  const plain = text.replace(LINK_START, "").replace(LINK_END, "");
+
+  // Start and end on word boundaries where possible
+  let start = Math.max(0, linkStart - CONTEXT_LEAD);
+  if (start > 0) {
+    const space = plain.indexOf(" ", start);
+    if (space !== -1 && space < linkStart) start = space + 1;
+  }
+  let end = Math.min(plain.length, Math.max(start + CONTEXT_LENGTH, linkEnd));
+  if (end < plain.length) {
+    const space = plain.lastIndexOf(" ", end);
+    if (space > linkEnd) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < plain.length ? "…" : "";
+  return {
+    text: prefix + plain.slice(start, end) + suffix,
+    highlights: [{ start: linkStart - start + prefix.length, end: linkEnd - start + prefix.length }],
+  };
+}
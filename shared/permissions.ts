@@ -0,0 +1,47 @@
+import type { Note, Notebook, NoteRole, NoteShare, NoteWithTags, SharedNote, ShareRole } from "./schema";
+import { ancestry } from "./hierarchy";
+
+const ROLE_RANK: Record<NoteRole, number> = {
+  viewer: 0,
+  commenter: 1,
+  editor: 2,
+  owner: 3,
+};
+
+// Whether a role allows everything `needed` does
+export function hasRole(role: NoteRole, needed: NoteRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[needed];
+}
+
+// Notes of other users come with the role the current user has on them
+export function isSharedNote(note: NoteWithTags): note is SharedNote {
+  return "role" in note;
+}
+
+export function noteRole(note: NoteWithTags): NoteRole {
+  return isSharedNote(note) ? note.role : "owner";
+}
+
+// Shares giving access to a note: those of the note itself and of the
+// notebook it is filed in or any notebook above that
+export function sharesForNote<S extends NoteShare>(
+  note: Pick<Note, "id" | "notebookId">,
+  shares: S[],
+  notebooksById: Map<number, Notebook>
+): S[] {
+  const notebook = note.notebookId !== null ? notebooksById.get(note.notebookId) : undefined;
+  const notebookIds = new Set(notebook ? ancestry(notebook, notebooksById).map(n => n.id) : []);
+  return shares.filter(share =>
+    share.noteId === note.id || (share.notebookId !== null && notebookIds.has(share.notebookId))
+  );
+}
+
+// A user shared a note with several times (e.g. through nested notebooks)
+// gets the strongest of the roles
+export function strongestRole(shares: NoteShare[]): ShareRole | null {
+  let role: ShareRole | null = null;
+  for (const share of shares) {
+    if (role === null || ROLE_RANK[share.role] > ROLE_RANK[role]) role = share.role;
+  }
+  return role;
+}
@@ -6,44 +6,93 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  displayName: text("display_name"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  displayName: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// User as exposed to the client, without the password hash
+export type PublicUser = Omit<User, "password">;
+
 export const tags = pgTable("tags", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
   name: text("name").notNull(),
   color: text("color").notNull().default("#8B5CF6"),
+  // Null for top-level tags
+  parentId: integer("parent_id"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-export const insertTagSchema = createInsertSchema(tags).pick({
+export const insertTagSchema = createInsertSchema(tags, {
+  // The separator is reserved for writing nested tags as a path
+  name: z.string().trim().min(1, "Name is required").refine(
+    name => !name.includes("/"),
+    "Tag names cannot contain /"
+  ),
+}).pick({
   name: true,
   color: true,
+  parentId: true,
 });
 
 export type InsertTag = z.infer<typeof insertTagSchema>;
 export type Tag = typeof tags.$inferSelect;
 
+export const notebooks = pgTable("notebooks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  // Null for top-level notebooks
+  parentId: integer("parent_id"),
+  // Deleting a notebook moves it, its sub-notebooks and their notes to the trash
+  isDeleted: boolean("is_deleted").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertNotebookSchema = createInsertSchema(notebooks, {
+  name: z.string().trim().min(1, "Name is required"),
+}).pick({
+  name: true,
+  parentId: true,
+});
+
+export type InsertNotebook = z.infer<typeof insertNotebookSchema>;
+export type Notebook = typeof notebooks.$inferSelect;
+
 export const notes = pgTable("notes", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
   title: text("title").notNull().default("Untitled"),
   content: text("content").notNull().default(""),
   isFavorite: boolean("is_favorite").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   isDeleted: boolean("is_deleted").notNull().default(false),
+  // Null for notes that are not in a notebook
+  notebookId: integer("notebook_id").references(() => notebooks.id),
+  // Bumped on every update; clients send it back in If-Match to detect conflicting edits
+  version: integer("version").notNull().default(1),
+  // When an imported note last changed in the app it came from. updatedAt is
+  // when it arrived here, so that sync brings it to the user's other devices.
+  importedUpdatedAt: timestamp("imported_updated_at"),
 });
 
 export const insertNoteSchema = createInsertSchema(notes).omit({
   id: true,
+  userId: true,
   createdAt: true,
-  updatedAt: true
+  updatedAt: true,
+  version: true,
+  importedUpdatedAt: true
 });
 
 export type InsertNote = z.infer<typeof insertNoteSchema>;
@@ -51,18 +100,273 @@ export type Note = typeof notes.$inferSelect;
 
 export const noteTags = pgTable("note_tags", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
   noteId: integer("note_id").notNull(),
   tagId: integer("tag_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertNoteTagSchema = createInsertSchema(noteTags).omit({
-  id: true
+  id: true,
+  userId: true,
+  createdAt: true
 });
 
 export type InsertNoteTag = z.infer<typeof insertNoteTagSchema>;
 export type NoteTag = typeof noteTags.$inferSelect;
 
+export const noteRevisions = pgTable("note_revisions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  noteId: integer("note_id").notNull().references(() => notes.id),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  // A revision absorbs rapid saves, so it spans from createdAt to updatedAt
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type NoteRevision = typeof noteRevisions.$inferSelect;
+
+// [[links]] from one note to another, rebuilt from the source note's content
+// whenever it changes
+export const noteLinks = pgTable("note_links", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  sourceNoteId: integer("source_note_id").notNull().references(() => notes.id),
+  targetNoteId: integer("target_note_id").notNull(),
+});
+
+export type NoteLink = typeof noteLinks.$inferSelect;
+
+// Public read-only links to a note, opened at /s/<token> without signing in
+export const shareLinks = pgTable("share_links", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  noteId: integer("note_id").notNull().references(() => notes.id),
+  token: text("token").notNull().unique(),
+  // scrypt hash like user passwords; null when the link needs no password
+  passwordHash: text("password_hash"),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLink = Pick<ShareLink, "token" | "passwordHash" | "expiresAt">;
+
+// Roles a note or notebook can be shared with, weakest first. Viewers can
+// read, commenters can also comment and editors can also change the content.
+export const SHARE_ROLES = ["viewer", "commenter", "editor"] as const;
+export type ShareRole = typeof SHARE_ROLES[number];
+// What a user can do with a note: everything for their own, otherwise
+// whatever it was shared with them as
+export type NoteRole = ShareRole | "owner";
+
+// A note, or a notebook with everything filed in it, shared with another user
+export const noteShares = pgTable("note_shares", {
+  id: serial("id").primaryKey(),
+  // The owner of what is shared
+  userId: integer("user_id").notNull().references(() => users.id),
+  // Exactly one of noteId and notebookId is set
+  noteId: integer("note_id").references(() => notes.id),
+  notebookId: integer("notebook_id").references(() => notebooks.id),
+  sharedWithId: integer("shared_with_id").notNull().references(() => users.id),
+  role: text("role").$type<ShareRole>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type NoteShare = typeof noteShares.$inferSelect;
+export type InsertNoteShare = Pick<NoteShare, "noteId" | "notebookId" | "sharedWithId" | "role">;
+
+// Comments on a note by its owner or the users it is shared with
+export const noteComments = pgTable("note_comments", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull().references(() => notes.id),
+  // The author, who need not own the note
+  userId: integer("user_id").notNull().references(() => users.id),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertNoteCommentSchema = createInsertSchema(noteComments).pick({
+  content: true,
+}).extend({
+  content: z.string().trim().min(1, "Comment cannot be empty").max(5000),
+});
+
+export type InsertNoteComment = z.infer<typeof insertNoteCommentSchema>;
+export type NoteComment = typeof noteComments.$inferSelect;
+
+// The state of a note being edited together (a Yjs document update,
+// base64-encoded), so that editors joining later carry on from it. It only
+// holds while the note is at noteVersion: a change saved any other way means
+// the next session starts again from the note's content.
+export const noteDocuments = pgTable("note_documents", {
+  noteId: integer("note_id").primaryKey().references(() => notes.id),
+  // The owner of the note
+  userId: integer("user_id").notNull().references(() => users.id),
+  state: text("state").notNull(),
+  noteVersion: integer("note_version").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type NoteDocument = typeof noteDocuments.$inferSelect;
+
+// Records hard deletes so that delta syncs can tell clients to drop the row.
+// Note-tag links are identified by noteId + tagId, everything else by entityId.
+export const syncTombstones = pgTable("sync_tombstones", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  entity: text("entity").$type<"note" | "tag" | "noteTag">().notNull(),
+  entityId: integer("entity_id"),
+  noteId: integer("note_id"),
+  tagId: integer("tag_id"),
+  deletedAt: timestamp("deleted_at").notNull().defaultNow(),
+});
+
+export type SyncTombstone = typeof syncTombstones.$inferSelect;
+
+// Orders a list of notes can be shown in; "relevance" keeps search ranking
+export const NOTE_SORT_OPTIONS = ["relevance", "updated", "created", "title-asc", "title-desc"] as const;
+export type NoteSortOption = typeof NOTE_SORT_OPTIONS[number];
+
+// A search query saved as a smart folder in the sidebar
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  query: text("query").notNull(),
+  sort: text("sort").$type<NoteSortOption>().notNull().default("relevance"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches, {
+  name: z.string().trim().min(1, "Name is required"),
+  query: z.string().trim().min(1, "Query is required"),
+  sort: z.enum(NOTE_SORT_OPTIONS).optional(),
+}).pick({
+  name: true,
+  query: true,
+  sort: true,
+});
+
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+
 // Extended types for frontend usage
 export type NoteWithTags = Note & {
   tags: Tag[];
 };
+
+// A note linking to another, with the text around the link
+export type Backlink = Note & {
+  context: { text: string; highlights: SearchHighlight[] } | null;
+};
+
+// The note graph: notes joined by their [[links]] and shared tags
+export type GraphNode = Pick<Note, "id" | "title" | "updatedAt"> & {
+  tagIds: number[];
+};
+
+export type GraphEdge = {
+  source: number;
+  target: number;
+  // A link in either direction wins over shared tags
+  type: "link" | "tag";
+  // Tags the two notes share
+  tagIds: number[];
+};
+
+export type NoteGraph = {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+};
+
+// A share as listed to its owner, with the user it is shared with
+export type Collaborator = NoteShare & {
+  user: PublicUser;
+};
+
+// A note of another user that was shared with the current one
+export type SharedNote = NoteWithTags & {
+  role: ShareRole;
+  owner: PublicUser;
+  // Everyone the owner shared the note with, including the current user
+  collaborators: PublicUser[];
+};
+
+export type NoteCommentWithAuthor = NoteComment & {
+  author: PublicUser;
+};
+
+// Share links as shown to their owner, without the password hash
+export type ShareLinkInfo = Omit<ShareLink, "passwordHash"> & {
+  hasPassword: boolean;
+};
+
+// Revision listings leave out the (potentially large) content
+export type NoteRevisionSummary = Omit<NoteRevision, "content">;
+
+// Everything that changed for a user after a sync cursor
+export type SyncChanges = {
+  notes: Note[];
+  tags: Tag[];
+  noteTags: NoteTag[];
+  tombstones: SyncTombstone[];
+};
+
+export type SyncResponse = SyncChanges & {
+  // Pass back as `since` on the next sync
+  cursor: number;
+  // True when the response holds the complete data set rather than a delta
+  full: boolean;
+};
+
+// Snapshot of a user's notes and tags kept by the cloud backup
+export type CloudBackup = {
+  createdAt: string;
+  notes: NoteWithTags[];
+  tags: Tag[];
+};
+
+// Returned after a backup was written
+export type CloudBackupInfo = {
+  createdAt: string;
+  notes: number;
+  tags: number;
+};
+
+// Outcome of importing one uploaded file, which may hold several notes
+export type ImportFileResult = {
+  file: string;
+  status: "imported" | "failed";
+  notes: { id: number; title: string; tags: string[] }[];
+  error?: string;
+};
+
+export type ImportReport = {
+  imported: number;
+  failed: number;
+  files: ImportFileResult[];
+};
+
+// A highlighted range of text, as character offsets [start, end)
+export type SearchHighlight = {
+  start: number;
+  end: number;
+};
+
+// Why a note matched a search and how well
+export type SearchMatch = {
+  score: number;
+  titleHighlights: SearchHighlight[];
+  // Passage of the note's text around the best matches, if the text matched
+  snippet: { text: string; highlights: SearchHighlight[] } | null;
+  // Names of the note's tags that matched
+  tags: string[];
+};
+
+export type NoteSearchResult = NoteWithTags & {
+  search: SearchMatch;
+};
@@ -0,0 +1,137 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { NoteWithTags } from "./schema";
+import { NoteSearchIndex } from "./search";
+
+function makeNote(id: number, fields: Partial<NoteWithTags>): NoteWithTags {
+  return {
+    id,
+    userId: 1,
+    title: "Untitled",
+    content: "",
+    isFavorite: false,
+    createdAt: new Date("2024-01-01T00:00:00Z"),
+    updatedAt: new Date("2024-01-01T00:00:00Z"),
+    isDeleted: false,
+    notebookId: null,
+    version: 1,
+    importedUpdatedAt: null,
+    tags: [],
+    ...fields,
+  };
+}
+
+// Words no query below matches, even by prefix or with a typo
+const filler = (words: number) => Array.from({ length: words }, () => "lorem ipsum").join(" ");
+
+function searchIds(index: NoteSearchIndex, query: string): number[] {
+  return index.search(query).map(result => result.id);
+}
+
+function highlighted(snippet: { text: string; highlights: { start: number; end: number }[] }): string[] {
+  return snippet.highlights.map(({ start, end }) => snippet.text.slice(start, end));
+}
+
+describe("ranking", () => {
+  test("ranks more occurrences first and, for the same count, shorter notes first", () => {
+    const index = new NoteSearchIndex();
+    index.sync([
+      makeNote(1, { content: `<p>apple banana cherry</p>` }),
+      makeNote(2, { content: `<p>apple ${filler(20)}</p>` }),
+      makeNote(3, { content: `<p>apple apple banana</p>` }),
+      makeNote(4, { content: `<p>banana cherry</p>` }),
+    ]);
+
+    assert.deepEqual(searchIds(index, "apple"), [3, 1, 2]);
+  });
+
+  test("ranks a match in the title above the same match in the text", () => {
+    const index = new NoteSearchIndex();
+    index.sync([
+      makeNote(1, { title: "Weekend", content: "<p>planting the garden beds</p>" }),
+      makeNote(2, { title: "Garden", content: "<p>planting the tomato beds</p>" }),
+      makeNote(3, { title: "Groceries", content: "<p>milk and bread</p>" }),
+    ]);
+
+    const results = index.search("garden");
+    assert.deepEqual(results.map(result => result.id), [2, 1]);
+    assert.deepEqual(results[0].search.titleHighlights, [{ start: 0, end: 6 }]);
+    assert.equal(results[0].search.snippet, null);
+  });
+});
+
+describe("index updates", () => {
+  test("re-indexes edited notes and drops deleted ones", () => {
+    const index = new NoteSearchIndex();
+    index.sync([
+      makeNote(1, { content: "<p>meeting with the landlord</p>" }),
+      makeNote(2, { content: "<p>landlord phone number</p>" }),
+    ]);
+    assert.deepEqual(searchIds(index, "landlord").sort(), [1, 2]);
+
+    index.sync([
+      makeNote(1, { content: "<p>meeting with the plumber</p>", updatedAt: new Date("2024-01-02T00:00:00Z") }),
+      makeNote(2, { content: "<p>landlord phone number</p>" }),
+    ]);
+    assert.deepEqual(searchIds(index, "landlord"), [2]);
+    assert.deepEqual(searchIds(index, "plumber"), [1]);
+
+    index.sync([makeNote(1, { content: "<p>meeting with the plumber</p>", updatedAt: new Date("2024-01-02T00:00:00Z") })]);
+    assert.deepEqual(searchIds(index, "landlord"), []);
+    assert.deepEqual(searchIds(index, "phone"), []);
+  });
+
+  test("re-indexes notes whose tags changed", () => {
+    const index = new NoteSearchIndex();
+    const tag = { id: 1, userId: 1, name: "travel", color: "#8B5CF6", parentId: null, updatedAt: new Date() };
+    index.sync([makeNote(1, { content: "<p>passport</p>" })]);
+    assert.deepEqual(searchIds(index, "travel"), []);
+
+    index.sync([makeNote(1, { content: "<p>passport</p>", tags: [tag] })]);
+    const [result] = index.search("travel");
+    assert.equal(result.id, 1);
+    assert.deepEqual(result.search.tags, ["travel"]);
+  });
+});
+
+describe("snippets", () => {
+  test("shows short text whole", () => {
+    const index = new NoteSearchIndex();
+    index.sync([makeNote(1, { content: "<p>zebra crossing</p>" })]);
+
+    const [{ search }] = index.search("zebra");
+    assert.equal(search.snippet?.text, "zebra crossing");
+    assert.deepEqual(search.snippet?.highlights, [{ start: 0, end: 5 }]);
+  });
+
+  test("cuts long text after a match at the start on a word boundary", () => {
+    const index = new NoteSearchIndex();
+    index.sync([makeNote(1, { content: `<p>zebra ${filler(40)}</p>` })]);
+
+    const snippet = index.search("zebra")[0].search.snippet!;
+    assert.ok(snippet.text.startsWith("zebra lorem"));
+    assert.match(snippet.text, / (lorem|ipsum)…$/);
+    // At most 160 characters of text plus the ellipsis
+    assert.ok(snippet.text.length <= 161);
+    assert.deepEqual(snippet.highlights, [{ start: 0, end: 5 }]);
+  });
+
+  test("cuts long text before a match at the end on a word boundary", () => {
+    const index = new NoteSearchIndex();
+    index.sync([makeNote(1, { content: `<p>${filler(40)} zebra</p>` })]);
+
+    const snippet = index.search("zebra")[0].search.snippet!;
+    assert.match(snippet.text, /^…(lorem|ipsum) /);
+    assert.ok(snippet.text.endsWith(" zebra"));
+    assert.deepEqual(highlighted(snippet), ["zebra"]);
+  });
+
+  test("picks the passage holding the most distinct matched words", () => {
+    const index = new NoteSearchIndex();
+    index.sync([makeNote(1, { content: `<p>alpha ${filler(40)} alpha omega ${filler(40)}</p>` })]);
+
+    const snippet = index.search("alpha omega")[0].search.snippet!;
+    assert.ok(snippet.text.startsWith("…") && snippet.text.endsWith("…"));
+    assert.deepEqual(highlighted(snippet), ["alpha", "omega"]);
+  });
+});
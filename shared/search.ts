@@ -0,0 +1,493 @@
+import { htmlToText } from "./html";
+import type { NoteSearchResult, NoteWithTags, SearchHighlight, Tag } from "./schema";
+import { ancestry, tagPath } from "./hierarchy";
+import { parseSearchQuery, type SearchFilter, type SearchQueryNode } from "./searchQuery";
+
+// Full-text search over notes: an inverted index of title, tag and text terms,
+// ranked with BM25, with prefix matching and typo tolerance. The same index
+// serves the API and offline search in the browser.
+
+type Field = "title" | "tags" | "content";
+
+const FIELDS: Field[] = ["title", "tags", "content"];
+
+// A match in the title counts the most, then one in a tag, then in the text
+const FIELD_WEIGHTS: Record<Field, number> = { title: 3, tags: 2, content: 1 };
+
+// The usual BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Words that only start with a query term, or are a typo away from it, rank lower
+const PREFIX_WEIGHT = 0.6;
+const TYPO_WEIGHT = 0.4;
+
+const SNIPPET_LENGTH = 160;
+// How much text a snippet shows before its first match
+const SNIPPET_LEAD = 40;
+
+type Token = {
+  term: string;
+  start: number;
+  end: number;
+};
+
+type FieldCounts = Record<Field, number>;
+
+// Matching notes by id, with their score
+type Scores = Map<number, number>;
+
+// Index terms each note matched, for highlighting
+type MatchedTerms = Map<number, Set<string>>;
+
+type IndexedNote = {
+  note: NoteWithTags;
+  // Changes whenever the note or its tags change
+  signature: string;
+  text: string;
+  lengths: FieldCounts;
+  frequencies: Map<string, FieldCounts>;
+};
+
+function emptyCounts(): FieldCounts {
+  return { title: 0, tags: 0, content: 0 };
+}
+
+// Lowercases and strips accents, so "Café" is found by "cafe"
+export function normalizeTerm(word: string): string {
+  return word.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+// Splits text into words (runs of letters and digits in any script)
+export function tokenize(text: string): Token[] {
+  const pattern = new RegExp("[\\p{L}\\p{N}]+", "gu");
+  const tokens: Token[] = [];
+  let match;
+
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ term: normalizeTerm(match[0]), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+// Typos allowed in a query term: none in short words, where almost anything
+// would match, and more in long ones
+function allowedTypos(term: string): number {
+  if (term.length < 4) return 0;
+  return term.length < 8 ? 1 : 2;
+}
+
+// Levenshtein distance, giving up once it is certain to exceed `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function noteSignature(note: NoteWithTags): string {
+  const tags = note.tags.map(tag => `${tag.id}:${tag.name}`).join(",");
+  return `${new Date(note.updatedAt).getTime()}|${note.title}|${note.content.length}|${tags}`;
+}
+
+function addMatchedTerm(matched: MatchedTerms, id: number, term: string) {
+  let terms = matched.get(id);
+  if (!terms) {
+    terms = new Set();
+    matched.set(id, terms);
+  }
+  terms.add(term);
+}
+
+// Notes in both, with the scores added up
+function intersect(a: Scores, b: Scores): Scores {
+  const scores: Scores = new Map();
+  a.forEach((score, id) => {
+    if (b.has(id)) scores.set(id, score + b.get(id)!);
+  });
+  return scores;
+}
+
+// Notes in either, with the scores added up
+function union(a: Scores, b: Scores): Scores {
+  const scores: Scores = new Map(a);
+  b.forEach((score, id) => scores.set(id, (scores.get(id) ?? 0) + score));
+  return scores;
+}
+
+function containsSequence(tokens: Token[], terms: string[]): boolean {
+  for (let i = 0; i + terms.length <= tokens.length; i++) {
+    if (terms.every((term, j) => tokens[i + j].term === term)) return true;
+  }
+  return false;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What has:image, has:task and has:code look for in the note's HTML
+const CONTENT_PATTERNS: Record<"image" | "task" | "code", RegExp> = {
+  image: /<img\b/i,
+  task: /data-type="taskItem"/,
+  code: /<(pre|code)\b/i,
+};
+
+// tag:project matches project and its sub-tags such as project/alpha, going
+// by either the tag's own name or its full path
+function matchesTag(tag: Tag, name: string, tagsById: Map<number, Tag>): boolean {
+  const wanted = name.toLowerCase();
+  return ancestry(tagsById.get(tag.id) ?? tag, tagsById).some(t =>
+    t.name.toLowerCase() === wanted || tagPath(t, tagsById).toLowerCase() === wanted
+  );
+}
+
+function matchesFilter(note: NoteWithTags, filter: SearchFilter, tagsById: Map<number, Tag>): boolean {
+  switch (filter.kind) {
+    case "tag":
+      return note.tags.some(tag => matchesTag(tag, filter.name, tagsById));
+    case "is":
+      return filter.value === "favorite" ? note.isFavorite : note.isDeleted;
+    case "has":
+      return CONTENT_PATTERNS[filter.value].test(note.content);
+    case "date": {
+      // Days are UTC days, so the server and the browser agree on them
+      const time = new Date(note[filter.field]).getTime();
+      const day = Date.parse(`${filter.date}T00:00:00Z`);
+      switch (filter.operator) {
+        case "<": return time < day;
+        case "<=": return time < day + DAY_MS;
+        case ">": return time >= day + DAY_MS;
+        case ">=": return time >= day;
+        case "=": return time >= day && time < day + DAY_MS;
+      }
+    }
+  }
+}
+
+function mentionsTrash(node: SearchQueryNode): boolean {
+  switch (node.type) {
+    case "filter":
+      return node.filter.kind === "is" && node.filter.value === "trash";
+    case "not":
+      return mentionsTrash(node.node);
+    case "and":
+    case "or":
+      return node.nodes.some(mentionsTrash);
+    default:
+      return false;
+  }
+}
+
+function highlightsFor(tokens: Token[], terms: Set<string>): SearchHighlight[] {
+  return tokens
+    .filter(token => terms.has(token.term))
+    .map(token => ({ start: token.start, end: token.end }));
+}
+
+// Picks the passage of the text holding the most distinct matched terms
+function makeSnippet(text: string, terms: Set<string>): { text: string; highlights: SearchHighlight[] } | null {
+  const matches = tokenize(text).filter(token => terms.has(token.term));
+  if (matches.length === 0) return null;
+
+  let start = 0;
+  if (text.length > SNIPPET_LENGTH) {
+    let bestCount = 0;
+    for (const anchor of matches) {
+      const windowStart = Math.max(0, anchor.start - SNIPPET_LEAD);
+      const count = new Set(matches
+        .filter(match => match.start >= windowStart && match.end <= windowStart + SNIPPET_LENGTH)
+        .map(match => match.term)
+      ).size;
+      if (count > bestCount) {
+        bestCount = count;
+        start = windowStart;
+      }
+    }
+  }
+
+  // Start and end on word boundaries where possible
+  const firstMatch = matches.find(match => match.start >= start)!;
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < firstMatch.start) start = space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > firstMatch.end) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const highlights = matches
+    .filter(match => match.start >= start && match.end <= end)
+    .map(match => ({ start: match.start - start + prefix.length, end: match.end - start + prefix.length }));
+
+  return {
+    text: prefix + text.slice(start, end).replace(/\n/g, " ") + suffix,
+    highlights,
+  };
+}
+
+export class NoteSearchIndex {
+  private notes = new Map<number, IndexedNote>();
+  private postings = new Map<string, Set<number>>();
+  private totalLengths = emptyCounts();
+  // Sorted terms for prefix lookups, rebuilt after the vocabulary changes
+  private vocabulary: string[] | null = null;
+  // All of the user's tags, for finding the parents of nested tags
+  private tagsById = new Map<number, Tag>();
+
+  // Brings the index in line with the given notes, re-indexing only the ones
+  // that changed since the last call. Without `tags`, tag: filters only know
+  // the tags the notes carry, not their parents.
+  sync(notes: NoteWithTags[], tags: Tag[] = []) {
+    this.tagsById = new Map(tags.map(tag => [tag.id, tag]));
+    const seen = new Set<number>();
+
+    for (const note of notes) {
+      seen.add(note.id);
+      const indexed = this.notes.get(note.id);
+      if (indexed && indexed.signature === noteSignature(note)) {
+        indexed.note = note;
+        continue;
+      }
+      if (indexed) this.remove(note.id);
+      this.add(note);
+    }
+
+    for (const id of Array.from(this.notes.keys())) {
+      if (!seen.has(id)) this.remove(id);
+    }
+  }
+
+  private add(note: NoteWithTags) {
+    const text = htmlToText(note.content);
+    const fieldTokens: Record<Field, Token[]> = {
+      title: tokenize(note.title),
+      tags: note.tags.flatMap(tag => tokenize(tag.name)),
+      content: tokenize(text),
+    };
+
+    const lengths = emptyCounts();
+    const frequencies = new Map<string, FieldCounts>();
+    for (const field of FIELDS) {
+      lengths[field] = fieldTokens[field].length;
+      this.totalLengths[field] += lengths[field];
+
+      for (const { term } of fieldTokens[field]) {
+        let counts = frequencies.get(term);
+        if (!counts) {
+          counts = emptyCounts();
+          frequencies.set(term, counts);
+        }
+        counts[field]++;
+      }
+    }
+
+    for (const term of Array.from(frequencies.keys())) {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+        this.vocabulary = null;
+      }
+      ids.add(note.id);
+    }
+
+    this.notes.set(note.id, { note, signature: noteSignature(note), text, lengths, frequencies });
+  }
+
+  private remove(id: number) {
+    const indexed = this.notes.get(id);
+    if (!indexed) return;
+
+    for (const field of FIELDS) {
+      this.totalLengths[field] -= indexed.lengths[field];
+    }
+    for (const term of Array.from(indexed.frequencies.keys())) {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.postings.delete(term);
+        this.vocabulary = null;
+      }
+    }
+    this.notes.delete(id);
+  }
+
+  private sortedTerms(): string[] {
+    this.vocabulary ??= Array.from(this.postings.keys()).sort();
+    return this.vocabulary;
+  }
+
+  // Index terms a query term matches, with how much a match counts
+  private expand(queryTerm: string): Map<string, number> {
+    const expansions = new Map<string, number>();
+    if (this.postings.has(queryTerm)) expansions.set(queryTerm, 1);
+
+    // Terms sharing the prefix sit together in the sorted vocabulary
+    const terms = this.sortedTerms();
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (terms[mid] < queryTerm) low = mid + 1;
+      else high = mid;
+    }
+    for (let i = low; i < terms.length && terms[i].startsWith(queryTerm); i++) {
+      if (!expansions.has(terms[i])) expansions.set(terms[i], PREFIX_WEIGHT);
+    }
+
+    const typos = allowedTypos(queryTerm);
+    if (typos > 0) {
+      for (const term of terms) {
+        if (!expansions.has(term) && editDistance(queryTerm, term, typos) <= typos) {
+          expansions.set(term, TYPO_WEIGHT);
+        }
+      }
+    }
+    return expansions;
+  }
+
+  private termScore(term: string, indexed: IndexedNote): number {
+    const counts = indexed.frequencies.get(term);
+    if (!counts) return 0;
+
+    const documentFrequency = this.postings.get(term)?.size ?? 0;
+    const idf = Math.log(1 + (this.notes.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+    let score = 0;
+    for (const field of FIELDS) {
+      const frequency = counts[field];
+      if (frequency === 0) continue;
+      const averageLength = this.totalLengths[field] / this.notes.size || 1;
+      const normalization = 1 - B + B * indexed.lengths[field] / averageLength;
+      score += FIELD_WEIGHTS[field] * frequency * (K1 + 1) / (frequency + K1 * normalization);
+    }
+    return idf * score;
+  }
+
+  private allNotes(): Scores {
+    return new Map(Array.from(this.notes.keys()).map(id => [id, 0]));
+  }
+
+  // Notes with a word matching a query word exactly, by prefix or with a
+  // typo. A note scores as much as its best matching word.
+  private matchWord(queryTerm: string, matched: MatchedTerms): Scores {
+    const scores: Scores = new Map();
+    for (const [term, weight] of Array.from(this.expand(queryTerm))) {
+      for (const id of Array.from(this.postings.get(term) ?? [])) {
+        const score = weight * this.termScore(term, this.notes.get(id)!);
+        scores.set(id, Math.max(scores.get(id) ?? 0, score));
+        addMatchedTerm(matched, id, term);
+      }
+    }
+    return scores;
+  }
+
+  // A query word like "e-mail" holds several index terms, all of which must match
+  private matchTerm(text: string, matched: MatchedTerms): Scores {
+    const terms = Array.from(new Set(tokenize(text).map(token => token.term)));
+    if (terms.length === 0) return this.allNotes();
+    return terms.map(term => this.matchWord(term, matched)).reduce(intersect);
+  }
+
+  // Notes holding the words of the phrase exactly and in order
+  private matchPhrase(text: string, matched: MatchedTerms): Scores {
+    const terms = tokenize(text).map(token => token.term);
+    if (terms.length === 0) return this.allNotes();
+
+    const scores: Scores = new Map();
+    const candidates = terms
+      .map(term => this.postings.get(term) ?? new Set<number>())
+      .reduce((a, b) => new Set(Array.from(a).filter(id => b.has(id))));
+
+    for (const id of Array.from(candidates)) {
+      const indexed = this.notes.get(id)!;
+      const fields = [
+        tokenize(indexed.note.title),
+        tokenize(indexed.text),
+        ...indexed.note.tags.map(tag => tokenize(tag.name)),
+      ];
+      if (!fields.some(tokens => containsSequence(tokens, terms))) continue;
+
+      scores.set(id, terms.reduce((score, term) => score + this.termScore(term, indexed), 0));
+      terms.forEach(term => addMatchedTerm(matched, id, term));
+    }
+    return scores;
+  }
+
+  private evaluate(node: SearchQueryNode, matched: MatchedTerms): Scores {
+    switch (node.type) {
+      case "term":
+        return this.matchTerm(node.text, matched);
+      case "phrase":
+        return this.matchPhrase(node.text, matched);
+      case "filter": {
+        const scores: Scores = new Map();
+        this.notes.forEach(({ note }, id) => {
+          if (matchesFilter(note, node.filter, this.tagsById)) scores.set(id, 0);
+        });
+        return scores;
+      }
+      case "not": {
+        // Words in excluded notes are not worth highlighting
+        const excluded = this.evaluate(node.node, new Map());
+        const scores: Scores = new Map();
+        this.notes.forEach((_, id) => {
+          if (!excluded.has(id)) scores.set(id, 0);
+        });
+        return scores;
+      }
+      case "and":
+        return node.nodes.map(child => this.evaluate(child, matched)).reduce(intersect);
+      case "or":
+        return node.nodes.map(child => this.evaluate(child, matched)).reduce(union);
+    }
+  }
+
+  // Notes matching a query in the search query language (see searchQuery.ts),
+  // best first. Throws SearchQueryError if the query cannot be parsed.
+  search(query: string): NoteSearchResult[] {
+    const root = parseSearchQuery(query);
+    if (!root) return [];
+
+    const matched: MatchedTerms = new Map();
+    const scores = this.evaluate(root, matched);
+    // The trash is only searched when the query asks for it
+    const includeTrash = mentionsTrash(root);
+
+    return Array.from(scores)
+      .filter(([id]) => includeTrash || !this.notes.get(id)!.note.isDeleted)
+      .map(([id, score]): NoteSearchResult => {
+        const { note, text } = this.notes.get(id)!;
+        const terms = matched.get(id) ?? new Set<string>();
+        return {
+          ...note,
+          search: {
+            score,
+            titleHighlights: highlightsFor(tokenize(note.title), terms),
+            snippet: makeSnippet(text, terms),
+            tags: note.tags
+              .filter(tag => tokenize(tag.name).some(token => terms.has(token.term)))
+              .map(tag => tag.name),
+          },
+        };
+      })
+      .sort((a, b) =>
+        b.search.score - a.search.score ||
+        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+      );
+  }
+}
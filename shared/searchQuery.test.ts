@@ -0,0 +1,132 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { parseSearchQuery, SearchQueryError } from "./searchQuery";
+
+function assertQueryError(query: string, message: RegExp, position: number) {
+  assert.throws(() => parseSearchQuery(query), (error: unknown) => {
+    assert.ok(error instanceof SearchQueryError);
+    assert.match(error.message, message);
+    assert.equal(error.position, position);
+    return true;
+  });
+}
+
+describe("parseSearchQuery", () => {
+  test("returns null for an empty query", () => {
+    assert.equal(parseSearchQuery(""), null);
+    assert.equal(parseSearchQuery("   "), null);
+  });
+
+  test("joins words with an implied AND", () => {
+    assert.deepEqual(parseSearchQuery("budget report"), {
+      type: "and",
+      nodes: [{ type: "term", text: "budget" }, { type: "term", text: "report" }],
+    });
+  });
+
+  test("reads quoted phrases", () => {
+    assert.deepEqual(parseSearchQuery('"quarterly report" draft'), {
+      type: "and",
+      nodes: [{ type: "phrase", text: "quarterly report" }, { type: "term", text: "draft" }],
+    });
+  });
+
+  test("reads tag filters, quoted or not", () => {
+    assert.deepEqual(parseSearchQuery('tag:work tag:"to do"'), {
+      type: "and",
+      nodes: [
+        { type: "filter", filter: { kind: "tag", name: "work" } },
+        { type: "filter", filter: { kind: "tag", name: "to do" } },
+      ],
+    });
+  });
+
+  test("reads is: and has: filters and their synonyms", () => {
+    assert.deepEqual(parseSearchQuery("is:starred"), { type: "filter", filter: { kind: "is", value: "favorite" } });
+    assert.deepEqual(parseSearchQuery("is:deleted"), { type: "filter", filter: { kind: "is", value: "trash" } });
+    assert.deepEqual(parseSearchQuery("has:todo"), { type: "filter", filter: { kind: "has", value: "task" } });
+  });
+
+  test("reads date filters with and without a comparison", () => {
+    assert.deepEqual(parseSearchQuery("updated:>=2026-01-01"), {
+      type: "filter",
+      filter: { kind: "date", field: "updatedAt", operator: ">=", date: "2026-01-01" },
+    });
+    assert.deepEqual(parseSearchQuery("created:2026-01-01"), {
+      type: "filter",
+      filter: { kind: "date", field: "createdAt", operator: "=", date: "2026-01-01" },
+    });
+    assert.deepEqual(parseSearchQuery("before:2026-01-01"), {
+      type: "filter",
+      filter: { kind: "date", field: "updatedAt", operator: "<", date: "2026-01-01" },
+    });
+    assert.deepEqual(parseSearchQuery("after:2026-01-01"), {
+      type: "filter",
+      filter: { kind: "date", field: "updatedAt", operator: ">", date: "2026-01-01" },
+    });
+  });
+
+  test("negates words, phrases, filters and groups", () => {
+    assert.deepEqual(parseSearchQuery('-draft -"old plan" -tag:personal -(a OR b)'), {
+      type: "and",
+      nodes: [
+        { type: "not", node: { type: "term", text: "draft" } },
+        { type: "not", node: { type: "phrase", text: "old plan" } },
+        { type: "not", node: { type: "filter", filter: { kind: "tag", name: "personal" } } },
+        { type: "not", node: { type: "or", nodes: [{ type: "term", text: "a" }, { type: "term", text: "b" }] } },
+      ],
+    });
+  });
+
+  test("treats a lone dash as a word", () => {
+    assert.deepEqual(parseSearchQuery("-"), { type: "term", text: "-" });
+  });
+
+  test("binds OR looser than the implied AND", () => {
+    assert.deepEqual(parseSearchQuery("a b OR c d"), {
+      type: "or",
+      nodes: [
+        { type: "and", nodes: [{ type: "term", text: "a" }, { type: "term", text: "b" }] },
+        { type: "and", nodes: [{ type: "term", text: "c" }, { type: "term", text: "d" }] },
+      ],
+    });
+    assert.deepEqual(parseSearchQuery("a (b OR c)"), {
+      type: "and",
+      nodes: [
+        { type: "term", text: "a" },
+        { type: "or", nodes: [{ type: "term", text: "b" }, { type: "term", text: "c" }] },
+      ],
+    });
+  });
+
+  test("only reads an uppercase OR as the operator", () => {
+    assert.deepEqual(parseSearchQuery("this or that"), {
+      type: "and",
+      nodes: [{ type: "term", text: "this" }, { type: "term", text: "or" }, { type: "term", text: "that" }],
+    });
+  });
+
+  test("reports unbalanced quotes at the opening quote", () => {
+    assertQueryError('budget "quarterly report', /Missing closing quote/, 7);
+    assertQueryError('-"old plan', /Missing closing quote/, 1);
+    assertQueryError('tag:"to do', /Missing closing quote/, 4);
+  });
+
+  test("reports unbalanced parentheses where they go wrong", () => {
+    assertQueryError("a (b OR c", /Missing closing "\)"/, 2);
+    assertQueryError("a b) c", /Unexpected "\)"/, 3);
+    assertQueryError("()", /Unexpected "\)"/, 1);
+  });
+
+  test("reports an OR missing a side", () => {
+    assertQueryError("budget OR", /OR needs a search term on both sides/, 9);
+    assertQueryError("OR budget", /OR needs a search term on both sides/, 0);
+  });
+
+  test("reports bad filter values at the filter", () => {
+    assertQueryError("a tag:", /Missing value after tag:/, 2);
+    assertQueryError("is:archived", /Unknown is: value "archived"/, 0);
+    assertQueryError("x updated:2026-02-31", /Expected a date/, 2);
+    assertQueryError("before:>2026-01-01", /before: takes a plain date/, 0);
+  });
+});
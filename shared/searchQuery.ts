@@ -0,0 +1,252 @@
+// Parser for the search box's query language, shared by the API and offline
+// search so both read a query the same way:
+//
+//   budget report           notes containing both words (words may be misspelled or unfinished)
+//   "quarterly report"      the exact phrase
+//   tag:work  -tag:personal with / without a tag; quote names with spaces: tag:"to do"
+//   is:favorite  is:trash   favorites / notes in the trash (otherwise trash is left out)
+//   has:image has:task has:code
+//   updated:>2026-01-01     also created:, with <, <=, >, >= or a plain day;
+//   before:2026-01-01       before:/after: are short for updated:< and updated:>
+//   budget OR forecast      either side; binds looser than the implied AND
+//   -word  (a OR b)         negation and grouping
+
+export type SearchDateOperator = "<" | "<=" | ">" | ">=" | "=";
+
+export type SearchFilter =
+  | { kind: "tag"; name: string }
+  | { kind: "is"; value: "favorite" | "trash" }
+  | { kind: "has"; value: "image" | "task" | "code" }
+  | { kind: "date"; field: "updatedAt" | "createdAt"; operator: SearchDateOperator; date: string };
+
+export type SearchQueryNode =
+  | { type: "term"; text: string }
+  | { type: "phrase"; text: string }
+  | { type: "filter"; filter: SearchFilter }
+  | { type: "not"; node: SearchQueryNode }
+  | { type: "and"; nodes: SearchQueryNode[] }
+  | { type: "or"; nodes: SearchQueryNode[] };
+
+// Raised for a query that cannot be parsed; `position` is the offending
+// character offset in the query
+export class SearchQueryError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = "SearchQueryError";
+  }
+}
+
+type Token =
+  | { type: "(" | ")" | "or" | "-"; position: number }
+  | { type: "term" | "phrase"; text: string; negated: boolean; position: number }
+  | { type: "filter"; field: string; value: string; negated: boolean; position: number };
+
+const FILTER_FIELDS = new Set(["tag", "is", "has", "updated", "created", "before", "after"]);
+
+const IS_VALUES: Record<string, "favorite" | "trash"> = {
+  favorite: "favorite",
+  favourite: "favorite",
+  starred: "favorite",
+  trash: "trash",
+  deleted: "trash",
+};
+
+const HAS_VALUES: Record<string, "image" | "task" | "code"> = {
+  image: "image",
+  images: "image",
+  task: "task",
+  tasks: "task",
+  todo: "task",
+  code: "code",
+};
+
+function readQuoted(input: string, start: number): { text: string; end: number } {
+  const end = input.indexOf('"', start + 1);
+  if (end === -1) {
+    throw new SearchQueryError("Missing closing quote", start);
+  }
+  return { text: input.slice(start + 1, end), end: end + 1 };
+}
+
+function tokenizeQuery(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: char, position: i });
+      i++;
+      continue;
+    }
+
+    // -(a OR b)
+    if (char === "-" && input[i + 1] === "(") {
+      tokens.push({ type: "-", position: i });
+      i++;
+      continue;
+    }
+
+    const position = i;
+    // A leading "-" negates, unless it is all there is
+    const negated = char === "-" && i + 1 < input.length && !/[\s()]/.test(input[i + 1]);
+    if (negated) i++;
+
+    if (input[i] === '"') {
+      const { text, end } = readQuoted(input, i);
+      tokens.push({ type: "phrase", text, negated, position });
+      i = end;
+      continue;
+    }
+
+    const wordStart = i;
+    while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+    const word = input.slice(wordStart, i);
+
+    const colon = word.indexOf(":");
+    const field = colon > 0 ? word.slice(0, colon).toLowerCase() : "";
+    if (FILTER_FIELDS.has(field)) {
+      let value = word.slice(colon + 1);
+      // tag:"two words"
+      if (!value && input[i] === '"') {
+        const quoted = readQuoted(input, i);
+        value = quoted.text;
+        i = quoted.end;
+      }
+      tokens.push({ type: "filter", field, value, negated, position });
+    } else if (word === "OR" && !negated) {
+      tokens.push({ type: "or", position });
+    } else {
+      tokens.push({ type: "term", text: word, negated, position });
+    }
+  }
+  return tokens;
+}
+
+function parseDateFilter(field: string, value: string, position: number): SearchFilter {
+  const match = value.match(/^(<=|>=|<|>|=)?(\d{4}-\d{2}-\d{2})$/);
+  const date = match && new Date(`${match[2]}T00:00:00Z`);
+  // Rejects impossible days like 2026-02-31, which Date would roll over
+  if (!match || !date || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== match[2]) {
+    throw new SearchQueryError(`Expected a date like ${field}:>2026-01-31`, position);
+  }
+
+  if (field === "before" || field === "after") {
+    if (match[1]) {
+      throw new SearchQueryError(`${field}: takes a plain date, like ${field}:2026-01-31`, position);
+    }
+    return { kind: "date", field: "updatedAt", operator: field === "before" ? "<" : ">", date: match[2] };
+  }
+
+  return {
+    kind: "date",
+    field: field === "created" ? "createdAt" : "updatedAt",
+    operator: (match[1] ?? "=") as SearchDateOperator,
+    date: match[2],
+  };
+}
+
+function parseFilter(field: string, value: string, position: number): SearchFilter {
+  if (!value) {
+    throw new SearchQueryError(`Missing value after ${field}:`, position);
+  }
+
+  switch (field) {
+    case "tag":
+      return { kind: "tag", name: value };
+    case "is": {
+      const is = IS_VALUES[value.toLowerCase()];
+      if (!is) throw new SearchQueryError(`Unknown is: value "${value}" (use favorite or trash)`, position);
+      return { kind: "is", value: is };
+    }
+    case "has": {
+      const has = HAS_VALUES[value.toLowerCase()];
+      if (!has) throw new SearchQueryError(`Unknown has: value "${value}" (use image, task or code)`, position);
+      return { kind: "has", value: has };
+    }
+    default:
+      return parseDateFilter(field, value, position);
+  }
+}
+
+class QueryParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): SearchQueryNode | null {
+    if (this.tokens.length === 0) return null;
+
+    const node = this.parseOr();
+    const next = this.tokens[this.index];
+    if (next) {
+      // Only a stray ")" can stop the top-level expression early
+      throw new SearchQueryError('Unexpected ")"', next.position);
+    }
+    return node;
+  }
+
+  private parseOr(): SearchQueryNode {
+    const nodes = [this.parseAnd()];
+    while (this.tokens[this.index]?.type === "or") {
+      this.index++;
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: "or", nodes };
+  }
+
+  private parseAnd(): SearchQueryNode {
+    const nodes: SearchQueryNode[] = [];
+    for (let token = this.tokens[this.index]; token && token.type !== "or" && token.type !== ")"; token = this.tokens[this.index]) {
+      nodes.push(this.parseUnary());
+    }
+
+    if (nodes.length === 0) {
+      const token = this.tokens[this.index];
+      throw new SearchQueryError(
+        token?.type === ")" ? 'Unexpected ")"' : "OR needs a search term on both sides",
+        token?.position ?? this.length
+      );
+    }
+    return nodes.length === 1 ? nodes[0] : { type: "and", nodes };
+  }
+
+  private parseUnary(): SearchQueryNode {
+    const token = this.tokens[this.index++];
+
+    switch (token.type) {
+      case "(": {
+        const node = this.parseOr();
+        if (this.tokens[this.index]?.type !== ")") {
+          throw new SearchQueryError('Missing closing ")"', token.position);
+        }
+        this.index++;
+        return node;
+      }
+      case "-":
+        return { type: "not", node: this.parseUnary() };
+      case "term":
+      case "phrase": {
+        const node: SearchQueryNode = { type: token.type, text: token.text };
+        return token.negated ? { type: "not", node } : node;
+      }
+      case "filter": {
+        const node: SearchQueryNode = { type: "filter", filter: parseFilter(token.field, token.value, token.position) };
+        return token.negated ? { type: "not", node } : node;
+      }
+      default:
+        // "or" and ")" end an AND group before getting here
+        throw new SearchQueryError(`Unexpected "${token.type}"`, token.position);
+    }
+  }
+}
+
+// Parses a search box query; returns null for an empty query and throws
+// SearchQueryError for a malformed one
+export function parseSearchQuery(input: string): SearchQueryNode | null {
+  return new QueryParser(tokenizeQuery(input), input.length).parse();
+}